@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "Message" ADD COLUMN     "isActive" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN     "parentMessageId" TEXT;
+
+-- Backfill: existing chats are linear, so each message answers to the previous one
+UPDATE "Message" AS m
+SET "parentMessageId" = prev."prevId"
+FROM (
+    SELECT "id", LAG("id") OVER (PARTITION BY "chatId" ORDER BY "createdAt") AS "prevId"
+    FROM "Message"
+) AS prev
+WHERE m."id" = prev."id";
+
+-- CreateIndex
+CREATE INDEX "Message_chatId_parentMessageId_idx" ON "Message"("chatId", "parentMessageId");
+
+-- AddForeignKey
+ALTER TABLE "Message" ADD CONSTRAINT "Message_parentMessageId_fkey" FOREIGN KEY ("parentMessageId") REFERENCES "Message"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,47 @@
+-- AlterTable
+ALTER TABLE "OwnerSettings" ADD COLUMN     "monthlyBudgetUsd" DOUBLE PRECISION;
+
+-- CreateTable
+CREATE TABLE "ModelPrice" (
+    "id" TEXT NOT NULL,
+    "modelId" TEXT NOT NULL,
+    "inputPerMillion" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "outputPerMillion" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ModelPrice_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "UsageLedger" (
+    "id" TEXT NOT NULL,
+    "ownerId" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "provider" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "messageCount" INTEGER NOT NULL DEFAULT 0,
+    "promptTokens" INTEGER NOT NULL DEFAULT 0,
+    "completionTokens" INTEGER NOT NULL DEFAULT 0,
+    "totalTokens" INTEGER NOT NULL DEFAULT 0,
+    "costUsd" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "UsageLedger_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ModelPrice_modelId_key" ON "ModelPrice"("modelId");
+
+-- CreateIndex
+CREATE INDEX "UsageLedger_ownerId_date_idx" ON "UsageLedger"("ownerId", "date");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "UsageLedger_ownerId_date_provider_model_key" ON "UsageLedger"("ownerId", "date", "provider", "model");
+
+-- AddForeignKey
+ALTER TABLE "ModelPrice" ADD CONSTRAINT "ModelPrice_modelId_fkey" FOREIGN KEY ("modelId") REFERENCES "ModelCatalog"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "UsageLedger" ADD CONSTRAINT "UsageLedger_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "Owner"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
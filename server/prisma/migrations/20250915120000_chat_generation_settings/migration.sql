@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Chat" ADD COLUMN     "maxTokens" INTEGER,
+ADD COLUMN     "systemPrompt" TEXT,
+ADD COLUMN     "temperature" DOUBLE PRECISION,
+ADD COLUMN     "topP" DOUBLE PRECISION;
@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "Preset" (
+    "id" TEXT NOT NULL,
+    "ownerId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "systemPrompt" TEXT,
+    "modelId" TEXT,
+    "temperature" DOUBLE PRECISION,
+    "maxTokens" INTEGER,
+    "topP" DOUBLE PRECISION,
+    "isPublic" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Preset_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Preset_ownerId_idx" ON "Preset"("ownerId");
+
+-- CreateIndex
+CREATE INDEX "Preset_isPublic_idx" ON "Preset"("isPublic");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Preset_ownerId_name_key" ON "Preset"("ownerId", "name");
+
+-- AddForeignKey
+ALTER TABLE "Preset" ADD CONSTRAINT "Preset_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "Owner"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Preset" ADD CONSTRAINT "Preset_modelId_fkey" FOREIGN KEY ("modelId") REFERENCES "ModelCatalog"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "OwnerSettings" ADD COLUMN     "autoSummarize" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "ChatSummary" (
+    "id" TEXT NOT NULL,
+    "chatId" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "summarizedUpToMessageId" TEXT,
+    "summarizedMessageCount" INTEGER NOT NULL DEFAULT 0,
+    "provider" TEXT,
+    "model" TEXT,
+    "isEdited" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ChatSummary_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ChatSummary_chatId_key" ON "ChatSummary"("chatId");
+
+-- AddForeignKey
+ALTER TABLE "ChatSummary" ADD CONSTRAINT "ChatSummary_chatId_fkey" FOREIGN KEY ("chatId") REFERENCES "Chat"("id") ON DELETE CASCADE ON UPDATE CASCADE;
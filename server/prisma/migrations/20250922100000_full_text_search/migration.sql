@@ -0,0 +1,19 @@
+-- Full-text search columns are generated by the database and kept in sync on
+-- every write. The 'simple' configuration doesn't stem or drop stop words, so
+-- it behaves the same for every language.
+
+-- AlterTable
+ALTER TABLE "Chat" ADD COLUMN     "searchVector" tsvector
+    GENERATED ALWAYS AS (to_tsvector('simple'::regconfig, coalesce("title", ''))) STORED;
+
+-- AlterTable
+ALTER TABLE "Message" ADD COLUMN     "searchVector" tsvector
+    GENERATED ALWAYS AS (
+        to_tsvector('simple'::regconfig, coalesce("userContent", '') || ' ' || coalesce("agentContent", ''))
+    ) STORED;
+
+-- CreateIndex
+CREATE INDEX "Chat_searchVector_idx" ON "Chat" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "Message_searchVector_idx" ON "Message" USING GIN ("searchVector");
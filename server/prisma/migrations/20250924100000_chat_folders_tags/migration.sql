@@ -0,0 +1,35 @@
+-- AlterTable
+ALTER TABLE "Chat" ADD COLUMN     "folderId" TEXT,
+ADD COLUMN     "isPinned" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "sortOrder" INTEGER,
+ADD COLUMN     "tags" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- CreateTable
+CREATE TABLE "ChatFolder" (
+    "id" TEXT NOT NULL,
+    "ownerId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ChatFolder_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ChatFolder_ownerId_idx" ON "ChatFolder"("ownerId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ChatFolder_ownerId_name_key" ON "ChatFolder"("ownerId", "name");
+
+-- CreateIndex
+CREATE INDEX "Chat_folderId_idx" ON "Chat"("folderId");
+
+-- CreateIndex
+CREATE INDEX "Chat_tags_idx" ON "Chat" USING GIN ("tags");
+
+-- AddForeignKey
+ALTER TABLE "Chat" ADD CONSTRAINT "Chat_folderId_fkey" FOREIGN KEY ("folderId") REFERENCES "ChatFolder"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ChatFolder" ADD CONSTRAINT "ChatFolder_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "Owner"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
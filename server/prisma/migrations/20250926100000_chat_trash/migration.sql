@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Chat" ADD COLUMN     "deletedAt" TIMESTAMP(3);
+
+-- Chats deleted before the trash existed start their retention period now
+UPDATE "Chat" SET "deletedAt" = CURRENT_TIMESTAMP WHERE "isDeleted" = true;
+
+-- CreateIndex
+CREATE INDEX "Chat_isDeleted_deletedAt_idx" ON "Chat"("isDeleted", "deletedAt");
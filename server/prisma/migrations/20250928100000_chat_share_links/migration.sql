@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "ChatShareLink" (
+    "id" TEXT NOT NULL,
+    "chatId" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "snapshotAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3),
+    "viewCount" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ChatShareLink_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ChatShareLink_chatId_key" ON "ChatShareLink"("chatId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ChatShareLink_token_key" ON "ChatShareLink"("token");
+
+-- AddForeignKey
+ALTER TABLE "ChatShareLink" ADD CONSTRAINT "ChatShareLink_chatId_fkey" FOREIGN KEY ("chatId") REFERENCES "Chat"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Chat" ADD COLUMN     "forkedFromChatId" TEXT,
+ADD COLUMN     "forkedFromMessageId" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "Chat" ADD CONSTRAINT "Chat_forkedFromChatId_fkey" FOREIGN KEY ("forkedFromChatId") REFERENCES "Chat"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "OwnerSettings" ADD COLUMN     "geminiApiKey" TEXT;
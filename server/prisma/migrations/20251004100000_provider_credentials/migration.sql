@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE "ProviderCredential" (
+    "id" TEXT NOT NULL,
+    "ownerId" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "secret" TEXT NOT NULL,
+    "keyId" TEXT,
+    "hint" TEXT NOT NULL,
+    "baseUrl" TEXT,
+    "orgId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ProviderCredential_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProviderCredential_ownerId_provider_key" ON "ProviderCredential"("ownerId", "provider");
+
+-- AddForeignKey
+ALTER TABLE "ProviderCredential" ADD CONSTRAINT "ProviderCredential_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "Owner"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Move the existing keys over. They stay unencrypted (keyId NULL) until
+-- `bun run credentials:rotate` encrypts them with the server key.
+INSERT INTO "ProviderCredential" ("id", "ownerId", "provider", "secret", "hint", "updatedAt")
+SELECT md5(random()::text || clock_timestamp()::text), "ownerId", key."provider", key."secret", right(key."secret", 4), CURRENT_TIMESTAMP
+FROM "OwnerSettings",
+LATERAL (VALUES ('openai', "openaiApiKey"), ('anthropic', "anthropicApiKey"), ('gemini', "geminiApiKey")) AS key("provider", "secret")
+WHERE key."secret" IS NOT NULL AND key."secret" <> '';
+
+-- AlterTable
+ALTER TABLE "OwnerSettings" DROP COLUMN "anthropicApiKey",
+DROP COLUMN "geminiApiKey",
+DROP COLUMN "openaiApiKey";
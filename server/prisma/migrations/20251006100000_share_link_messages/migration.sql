@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "ChatShareLink" ADD COLUMN "messageIds" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- Existing links keep the messages they showed so far
+UPDATE "ChatShareLink" l
+SET "messageIds" = COALESCE(
+    (
+        SELECT array_agg(m."id" ORDER BY m."createdAt")
+        FROM "Message" m
+        WHERE m."chatId" = l."chatId"
+          AND m."isActive" = true
+          AND m."status" = 'COMPLETED'
+          AND m."createdAt" <= l."snapshotAt"
+    ),
+    ARRAY[]::TEXT[]
+);
@@ -78,6 +78,26 @@ export const systemModels = [
     name: "claude-3-7-sonnet-latest",
     description: "Anthropic Claude-3.7 Sonnet (Latest)",
   },
+  {
+    provider: "gemini",
+    name: "gemini-2.5-pro",
+    description: "Google Gemini 2.5 Pro model",
+  },
+  {
+    provider: "gemini",
+    name: "gemini-2.5-flash",
+    description: "Google Gemini 2.5 Flash model",
+  },
+  {
+    provider: "gemini",
+    name: "gemini-2.5-flash-lite",
+    description: "Google Gemini 2.5 Flash-Lite model",
+  },
+  {
+    provider: "gemini",
+    name: "gemini-2.0-flash",
+    description: "Google Gemini 2.0 Flash model",
+  },
   // Mock provider models for testing and development
   {
     provider: "mock",
@@ -104,12 +124,98 @@ export const systemModels = [
     name: "mock-creative",
     description: "Mock AI model with creative word selection (200ms between words) - for testing",
   },
+  {
+    provider: "mock",
+    name: "mock-unavailable",
+    description: "Mock AI model that always fails before answering - for testing failover",
+  },
+  {
+    provider: "mock",
+    name: "mock-flaky",
+    description: "Mock AI model whose first request fails - for testing retries",
+  },
+  {
+    provider: "mock",
+    name: "mock-cutoff",
+    description: "Mock AI model that fails after three words - for testing errors mid-answer",
+  },
 ];
 
+/**
+ * List prices in USD per million tokens, keyed by model name.
+ * Mock models get a made-up price so spending caps can be exercised locally.
+ */
+export const systemModelPrices: Record<string, { input: number; output: number }> = {
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-3.5-turbo": { input: 0.5, output: 1.5 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1-nano": { input: 0.1, output: 0.4 },
+  "o3-mini": { input: 1.1, output: 4.4 },
+  "claude-3-5-sonnet-20241022": { input: 3, output: 15 },
+  "claude-3-5-haiku-20241022": { input: 0.8, output: 4 },
+  "claude-3-opus-20240229": { input: 15, output: 75 },
+  "claude-3-5-sonnet-20240620": { input: 3, output: 15 },
+  "claude-sonnet-4-0": { input: 3, output: 15 },
+  "claude-opus-4-0": { input: 15, output: 75 },
+  "claude-3-5-sonnet-latest": { input: 3, output: 15 },
+  "claude-3-7-sonnet-latest": { input: 3, output: 15 },
+  "gemini-2.5-pro": { input: 1.25, output: 10 },
+  "gemini-2.5-flash": { input: 0.3, output: 2.5 },
+  "gemini-2.5-flash-lite": { input: 0.1, output: 0.4 },
+  "gemini-2.0-flash": { input: 0.1, output: 0.4 },
+  "mock-fast": { input: 1, output: 2 },
+  "mock-slow": { input: 1, output: 2 },
+  "mock-verbose": { input: 1, output: 2 },
+  "mock-concise": { input: 1, output: 2 },
+  "mock-creative": { input: 1, output: 2 },
+  "mock-unavailable": { input: 1, output: 2 },
+  "mock-flaky": { input: 1, output: 2 },
+  "mock-cutoff": { input: 1, output: 2 },
+};
+
+/**
+ * Context window sizes in tokens, keyed by model name.
+ * Stored as `extra.contextWindow` on the catalog entry; mock models keep a
+ * small window so history trimming can be exercised locally.
+ */
+export const systemModelContextWindows: Record<string, number> = {
+  "gpt-4o": 128000,
+  "gpt-4o-mini": 128000,
+  "gpt-3.5-turbo": 16385,
+  "gpt-4.1": 1047576,
+  "gpt-4.1-mini": 1047576,
+  "gpt-4.1-nano": 1047576,
+  "o3-mini": 200000,
+  "claude-3-5-sonnet-20241022": 200000,
+  "claude-3-5-haiku-20241022": 200000,
+  "claude-3-opus-20240229": 200000,
+  "claude-3-5-sonnet-20240620": 200000,
+  "claude-sonnet-4-0": 200000,
+  "claude-opus-4-0": 200000,
+  "claude-3-5-sonnet-latest": 200000,
+  "claude-3-7-sonnet-latest": 200000,
+  "gemini-2.5-pro": 1048576,
+  "gemini-2.5-flash": 1048576,
+  "gemini-2.5-flash-lite": 1048576,
+  "gemini-2.0-flash": 1048576,
+  "mock-fast": 8000,
+  "mock-slow": 8000,
+  "mock-verbose": 8000,
+  "mock-concise": 8000,
+  "mock-creative": 8000,
+  "mock-unavailable": 8000,
+  "mock-flaky": 8000,
+  "mock-cutoff": 8000,
+};
+
 async function main() {
   for (const model of systemModels) {
     // Deterministic ID so upsert can target it
     const id = `sys_${model.provider}_${model.name}`;
+    const contextWindow = systemModelContextWindows[model.name];
+    const extra = contextWindow ? { contextWindow } : undefined;
 
     await prisma.modelCatalog.upsert({
       where: { id },
@@ -117,6 +223,7 @@ async function main() {
         description: model.description,
         isEnabled: true,
         isPublic: true,
+        extra,
       },
       create: {
         id,
@@ -125,9 +232,19 @@ async function main() {
         description: model.description,
         isPublic: true,
         isEnabled: true,
+        extra,
       },
     });
     console.log(`✔️  Seeded provider: ${model.provider}, model: ${model.name}`);
+
+    const price = systemModelPrices[model.name];
+    if (price) {
+      await prisma.modelPrice.upsert({
+        where: { modelId: id },
+        update: { inputPerMillion: price.input, outputPerMillion: price.output },
+        create: { modelId: id, inputPerMillion: price.input, outputPerMillion: price.output },
+      });
+    }
   }
 }
 
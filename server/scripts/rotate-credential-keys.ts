@@ -0,0 +1,23 @@
+/**
+ * Re-encrypt the API keys owners stored with the first key of
+ * CREDENTIAL_KEYS. Run after putting a new key first, and after the
+ * migration that moved plaintext keys into ProviderCredential.
+ */
+import { rotateCredentialKeys } from "../src/services/credentials.service";
+
+async function main() {
+  const { rotated, failed } = await rotateCredentialKeys();
+
+  console.log(`✔️  Re-encrypted ${rotated} credential(s)`);
+  if (failed.length > 0) {
+    console.error(`❌ ${failed.length} credential(s) could not be decrypted: ${failed.join(", ")}`);
+    process.exit(1);
+  }
+}
+
+main()
+  .catch((e) => {
+    console.error("❌ Rotation failed", e);
+    process.exit(1);
+  })
+  .finally(() => process.exit());
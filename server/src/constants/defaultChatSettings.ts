@@ -0,0 +1,95 @@
+/**
+ * Generation parameters used when a chat doesn't override them.
+ * `null` leaves the value to the provider.
+ */
+export const DEFAULT_CHAT_SETTINGS = {
+    systemPrompt: null,
+    temperature: 0.7,
+    maxTokens: 4096,
+    topP: null,
+} as const;
+
+export const CHAT_SETTINGS_LIMITS = {
+    systemPromptMaxLength: 8000,
+    temperature: { min: 0, max: 2 },
+    maxTokens: { min: 1, max: 32768 },
+    topP: { min: 0, max: 1 },
+} as const;
+
+/**
+ * Context window used when a model's catalog entry has no
+ * `extra.contextWindow`, and how many past messages are loaded at most
+ * before the token budget is applied.
+ */
+export const DEFAULT_CONTEXT_SETTINGS = {
+    contextWindow: 16000,
+    maxHistoryMessages: 200,
+} as const;
+
+/**
+ * Rolling chat summaries: once the unsummarized history passes
+ * `triggerTokens`, everything but the newest `keepRecentMessages`
+ * turns is folded into the chat's summary.
+ */
+export const DEFAULT_SUMMARY_SETTINGS = {
+    triggerTokens: 6000,
+    keepRecentMessages: 6,
+    maxSummaryTokens: 1024,
+    temperature: 0.3,
+    maxLength: 20000,
+} as const;
+
+/**
+ * Model used to name chats after their first answer. Pick a cheap one;
+ * override with TITLE_MODEL_PROVIDER / TITLE_MODEL.
+ */
+export const DEFAULT_TITLE_SETTINGS = {
+    provider: process.env.TITLE_MODEL_PROVIDER || "openai",
+    model: process.env.TITLE_MODEL || "gpt-4o-mini",
+    maxTokens: 24,
+    temperature: 0.3,
+    maxLength: 80,
+} as const;
+
+/**
+ * Chat organisation: tags are stored as given but compared without case
+ */
+export const CHAT_ORGANIZATION_LIMITS = {
+    maxTagsPerChat: 20,
+    tagMaxLength: 32,
+    folderNameMaxLength: 60,
+    maxBulkChats: 100,
+} as const;
+
+/**
+ * Deleted chats stay in the trash for `retentionDays` before a background
+ * job removes them with their messages
+ */
+export const DEFAULT_TRASH_SETTINGS = {
+    retentionDays: Number(process.env.TRASH_RETENTION_DAYS) || 30,
+    purgeIntervalMinutes: 60,
+    purgeBatchSize: 100,
+} as const;
+
+/**
+ * Background imports: files are uploaded in chunks below the request body
+ * limit, then read line by line. Whole-document formats (JSON exports from
+ * here, ChatGPT or Claude) have to be parsed at once, hence `maxJsonBytes`.
+ */
+export const CHAT_IMPORT_LIMITS = {
+    chunkBytes: 4 * 1024 * 1024,
+    maxFileBytes: 1024 * 1024 * 1024,
+    maxJsonBytes: 100 * 1024 * 1024,
+    maxReportedFailures: 50,
+    jobTtlHours: 24,
+    // An upload that sends nothing for this long no longer blocks a new import
+    uploadIdleMinutes: 15,
+} as const;
+
+/**
+ * Compare mode: one prompt answered side by side by several models
+ */
+export const COMPARE_LIMITS = {
+    minModels: 2,
+    maxModels: 4,
+} as const;
@@ -4,8 +4,6 @@ export const DEFAULT_OWNER_SETTINGS = {
      * check model id defined in prisma/seed.ts
      */
     defaultModelId: "sys_openai_gpt-4o",
-    openaiApiKey: null,
-    anthropicApiKey: null,
     extra: {},
 } as const;
 
@@ -21,4 +19,29 @@ export const FALLBACK_MODEL = {
     provider: "openai",
     name: "gpt-4o-mini",
     description: "OpenAI GPT-4o Mini model",
-} as const;
\ No newline at end of file
+} as const;
+/**
+ * Models owners register themselves, served from their own endpoints
+ */
+export const CUSTOM_MODEL_LIMITS = {
+    maxModelsPerOwner: 50,
+    nameMaxLength: 100,
+    maxHeaders: 20,
+    headerValueMaxLength: 4000,
+} as const;
+
+/**
+ * Retries of a model whose request fails before the first byte, unless the
+ * owner set their own for it (see lib/provider-failover.ts)
+ */
+export const DEFAULT_RETRY_POLICY = {
+    maxRetries: 2,
+    initialDelayMs: 500,
+    maxDelayMs: 4000,
+} as const;
+
+export const MODEL_POLICY_LIMITS = {
+    maxRetries: 5,
+    maxDelayMs: 30000,
+    maxFallbackModels: 3,
+} as const;
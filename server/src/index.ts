@@ -7,6 +7,9 @@ import { appRouter } from "./router";
 import { checkRedisHealth } from "./lib/redis";
 import { pinoLogger } from "./middleware/pino-logger";
 import authRoutes from "./router/authRoutes";
+import exportRoutes from "./router/exportRoutes";
+import importRoutes from "./router/importRoutes";
+import { startTrashPurgeJob } from "./services/trash.service";
 
 const app = new Hono();
 const port = process.env.PORT || 3000;
@@ -30,6 +33,8 @@ if (isNonProd) {
 // app.use('*', requestId());
 app.use("*", pinoLogger());
 app.route("/api/auth", authRoutes);
+app.route("/api/export", exportRoutes);
+app.route("/api/import", importRoutes);
 // app.use('*', (c, next) => {
 //   return next();
 // });
@@ -78,6 +83,11 @@ async function startupHealthCheck() {
 // Call health check during startup
 startupHealthCheck().catch(console.error);
 
+// Remove chats that stayed in the trash past the retention period
+if (process.env.NODE_ENV !== "test") {
+  startTrashPurgeJob();
+}
+
 // Start server
 // console.log(`Server starting at http://localhost:${port}`);
 
@@ -1,13 +1,14 @@
 /**
  * AI Provider Abstraction
  * 
- * Unified interface for different AI providers (OpenAI, Anthropic, etc.)
+ * Unified interface for different AI providers (OpenAI, Anthropic, Gemini, etc.)
  * Handles streaming and non-streaming responses with consistent error handling.
  */
 
 import Anthropic from "@anthropic-ai/sdk";
 import OpenAI from "openai";
 import { systemModels } from "../../prisma/seed";
+import { ErrorCode, parseApiError } from "./errors";
 
 // Common types for all providers
 export interface AIMessage {
@@ -15,6 +16,17 @@ export interface AIMessage {
   content: string;
 }
 
+export interface AIUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface AIStreamTiming {
+  firstByteMs: number; // Request start to first streamed content
+  providerLatencyMs: number; // Request start to completion
+}
+
 export interface AIStreamChunk {
   content: string;
   isComplete: boolean;
@@ -23,6 +35,9 @@ export interface AIStreamChunk {
     provider?: string;
     tokenCount?: number;
   };
+  // Only set on the final (isComplete) chunk
+  usage?: AIUsage;
+  timing?: AIStreamTiming;
 }
 
 export interface AIResponse {
@@ -32,6 +47,7 @@ export interface AIResponse {
     provider: string;
     tokenCount?: number;
     finishReason?: string;
+    usage?: AIUsage;
   };
 }
 
@@ -40,9 +56,38 @@ export interface AIProviderConfig {
   model: string | 'mock';
   maxTokens?: number;
   temperature?: number;
+  topP?: number;
   timeout?: number;
+  endpoint?: string; // Base URL for self-hosted and OpenAI-compatible servers
+  organization?: string; // Organization the requests are billed to (OpenAI)
+  headers?: Record<string, string>; // Extra headers sent with every request
 }
 
+// Measures time to first byte and total latency of a streamed response
+const createStreamTimer = () => {
+  const startedAt = Date.now();
+  let firstByteAt: number | null = null;
+
+  return {
+    markFirstByte() {
+      firstByteAt ??= Date.now();
+    },
+    timing(): AIStreamTiming {
+      const completedAt = Date.now();
+      return {
+        firstByteMs: (firstByteAt ?? completedAt) - startedAt,
+        providerLatencyMs: completedAt - startedAt,
+      };
+    },
+  };
+};
+
+const toUsage = (promptTokens: number, completionTokens: number): AIUsage => ({
+  promptTokens,
+  completionTokens,
+  totalTokens: promptTokens + completionTokens,
+});
+
 // Base provider interface
 export interface AIProvider {
   readonly name: string | 'openai' | 'anthropic' | 'mock';
@@ -58,13 +103,17 @@ export interface AIProvider {
   // Utility methods
   validateConfig(config: AIProviderConfig): boolean;
   estimateTokens(messages: AIMessage[]): number;
+
+  // Models the API key can use; a cheap call that checks the key
+  listModels?(): Promise<string[]>;
 }
 
 // OpenAI Provider Implementation
 export class OpenAIProvider implements AIProvider {
-  readonly name = "openai";
-  readonly model = "gpt-4o";
-  readonly supportedModels = systemModels.filter(model => model.provider === "openai").map(model => model.name);
+  readonly name: string = "openai";
+  readonly model: string = "gpt-4o";
+  readonly supportedModels: string[] = systemModels.filter(model => model.provider === "openai").map(model => model.name);
+  protected readonly label: string = "OpenAI";
   private client: OpenAI;
   private defaultConfig: Partial<AIProviderConfig> = {
     maxTokens: 4096,
@@ -74,7 +123,13 @@ export class OpenAIProvider implements AIProvider {
   private config?: AIProviderConfig;
 
   constructor(config: AIProviderConfig) {
-    this.client = new OpenAI({ apiKey: config.apiKey });
+    this.client = new OpenAI({
+      // Self-hosted servers often need no key, but the SDK requires one
+      apiKey: config.apiKey || "not-needed",
+      baseURL: config.endpoint,
+      organization: config.organization,
+      defaultHeaders: config.headers,
+    });
     this.config = config;
   }
 
@@ -88,6 +143,14 @@ export class OpenAIProvider implements AIProvider {
     return Math.ceil(totalChars / 4);
   }
 
+  async listModels(): Promise<string[]> {
+    const models: string[] = [];
+    for await (const model of this.client.models.list()) {
+      models.push(model.id);
+    }
+    return models;
+  }
+
   async generateResponse(messages: AIMessage[], config?: Partial<AIProviderConfig>): Promise<AIResponse> {
     const mergedConfig = { ...this.defaultConfig, ...this.config, ...config } as AIProviderConfig;
 
@@ -100,12 +163,13 @@ export class OpenAIProvider implements AIProvider {
         })),
         max_tokens: mergedConfig.maxTokens,
         temperature: mergedConfig.temperature,
+        top_p: mergedConfig.topP,
         stream: false
       });
 
       const choice = response.choices[0];
       if (!choice?.message?.content) {
-        throw new Error("No content received from OpenAI");
+        throw new Error(`No content received from ${this.label}`);
       }
 
       return {
@@ -114,16 +178,20 @@ export class OpenAIProvider implements AIProvider {
           model: response.model,
           provider: this.name,
           tokenCount: response.usage?.total_tokens,
-          finishReason: choice.finish_reason || undefined
+          finishReason: choice.finish_reason || undefined,
+          usage: response.usage
+            ? toUsage(response.usage.prompt_tokens, response.usage.completion_tokens)
+            : undefined
         }
       };
     } catch (error) {
-      throw new Error(`OpenAI API error: ${error instanceof Error ? error.message : String(error)}`);
+      throw new Error(`${this.label} API error: ${error instanceof Error ? error.message : String(error)}`, { cause: error });
     }
   }
 
   async* streamResponse(messages: AIMessage[], config?: Partial<AIProviderConfig>): AsyncIterable<AIStreamChunk> {
     const mergedConfig = { ...this.defaultConfig, ...this.config, ...config } as AIProviderConfig;
+    const timer = createStreamTimer();
     try {
       const stream = await this.client.chat.completions.create({
         model: mergedConfig.model!,
@@ -133,17 +201,24 @@ export class OpenAIProvider implements AIProvider {
         })),
         max_tokens: mergedConfig.maxTokens,
         temperature: mergedConfig.temperature,
-        stream: true
+        top_p: mergedConfig.topP,
+        stream: true,
+        // Usage arrives in an extra chunk (with no choices) after finish_reason
+        stream_options: { include_usage: true }
       });
 
+      let model = mergedConfig.model;
+      let usage: AIUsage | undefined;
+
       for await (const chunk of stream) {
         const delta = chunk.choices[0]?.delta?.content;
-        const isComplete = chunk.choices[0]?.finish_reason !== null;
+        model = chunk.model || model;
 
         if (delta) {
+          timer.markFirstByte();
           yield {
             content: delta,
-            isComplete,
+            isComplete: false,
             metadata: {
               model: chunk.model,
               provider: this.name
@@ -151,16 +226,42 @@ export class OpenAIProvider implements AIProvider {
           };
         }
 
-        if (isComplete) {
-          break;
+        if (chunk.usage) {
+          usage = toUsage(chunk.usage.prompt_tokens, chunk.usage.completion_tokens);
         }
       }
+
+      yield {
+        content: "",
+        isComplete: true,
+        metadata: {
+          model,
+          provider: this.name,
+          tokenCount: usage?.totalTokens
+        },
+        usage,
+        timing: timer.timing()
+      };
     } catch (error) {
-      throw new Error(`OpenAI streaming error: ${error instanceof Error ? error.message : String(error)}`);
+      throw new Error(`${this.label} streaming error: ${error instanceof Error ? error.message : String(error)}`, { cause: error });
     }
   }
 }
 
+// Any server speaking the OpenAI chat completions API (vLLM, LM Studio,
+// Ollama, ...), called at the model's own endpoint with its own headers
+export class OpenAICompatibleProvider extends OpenAIProvider {
+  readonly name: string = "openai-compatible";
+  readonly model: string = "";
+  // Whatever the server hosts; models are registered by their owners
+  readonly supportedModels: string[] = [];
+  protected readonly label: string = "OpenAI-compatible endpoint";
+
+  validateConfig(config: AIProviderConfig): boolean {
+    return !!(config.endpoint && config.model);
+  }
+}
+
 // Anthropic Provider Implementation
 export class AnthropicProvider implements AIProvider {
   readonly name = "anthropic";
@@ -177,7 +278,7 @@ export class AnthropicProvider implements AIProvider {
   private config?: AIProviderConfig;
 
   constructor(config: AIProviderConfig) {
-    this.client = new Anthropic({ apiKey: config.apiKey });
+    this.client = new Anthropic({ apiKey: config.apiKey, baseURL: config.endpoint });
     this.config = config;
   }
 
@@ -196,6 +297,16 @@ export class AnthropicProvider implements AIProvider {
     return Math.ceil(totalChars / 4);
   }
 
+  // Anthropic takes the system prompt as a separate parameter
+  private extractSystemPrompt(messages: AIMessage[]): string | undefined {
+    const system = messages
+      .filter(msg => msg.role === "system")
+      .map(msg => msg.content.trim())
+      .filter(Boolean)
+      .join("\n\n");
+    return system || undefined;
+  }
+
   private convertMessages(messages: AIMessage[]): Array<{ role: "user" | "assistant"; content: string }> {
     return messages
       .filter(msg => msg.role !== "system") // Anthropic handles system messages differently
@@ -206,6 +317,14 @@ export class AnthropicProvider implements AIProvider {
       .filter(msg => msg.content.length > 0);
   }
 
+  async listModels(): Promise<string[]> {
+    const models: string[] = [];
+    for await (const model of this.client.models.list()) {
+      models.push(model.id);
+    }
+    return models;
+  }
+
   async generateResponse(messages: AIMessage[], config?: Partial<AIProviderConfig>): Promise<AIResponse> {
     const mergedConfig = { ...this.defaultConfig, ...this.config, ...config } as AIProviderConfig;
     const anthropicMessages = this.convertMessages(messages);
@@ -214,8 +333,10 @@ export class AnthropicProvider implements AIProvider {
       const response = await this.client.messages.create({
         model: mergedConfig.model!,
         messages: anthropicMessages,
+        system: this.extractSystemPrompt(messages),
         max_tokens: mergedConfig.maxTokens!,
         temperature: mergedConfig.temperature,
+        top_p: mergedConfig.topP,
         stream: false
       });
 
@@ -234,29 +355,43 @@ export class AnthropicProvider implements AIProvider {
           model: response.model,
           provider: this.name,
           tokenCount: response.usage?.input_tokens + response.usage?.output_tokens,
-          finishReason: response.stop_reason || undefined
+          finishReason: response.stop_reason || undefined,
+          usage: toUsage(response.usage.input_tokens, response.usage.output_tokens)
         }
       };
     } catch (error) {
-      throw new Error(`Anthropic API error: ${error instanceof Error ? error.message : String(error)}`);
+      throw new Error(`Anthropic API error: ${error instanceof Error ? error.message : String(error)}`, { cause: error });
     }
   }
 
   async* streamResponse(messages: AIMessage[], config?: Partial<AIProviderConfig>): AsyncIterable<AIStreamChunk> {
-    const mergedConfig = { ...this.defaultConfig, ...config };
+    const mergedConfig = { ...this.defaultConfig, ...this.config, ...config } as AIProviderConfig;
     const anthropicMessages = this.convertMessages(messages);
+    const timer = createStreamTimer();
 
     try {
       const stream = await this.client.messages.create({
         model: mergedConfig.model!,
         messages: anthropicMessages,
+        system: this.extractSystemPrompt(messages),
         max_tokens: mergedConfig.maxTokens!,
         temperature: mergedConfig.temperature,
+        top_p: mergedConfig.topP,
         stream: true
       });
 
+      // Input tokens come with message_start, output tokens with message_delta
+      let promptTokens = 0;
+      let completionTokens = 0;
+
       for await (const chunk of stream) {
-        if (chunk.type === "content_block_delta" && chunk.delta.type === "text_delta") {
+        if (chunk.type === "message_start") {
+          promptTokens = chunk.message.usage.input_tokens;
+          completionTokens = chunk.message.usage.output_tokens;
+        } else if (chunk.type === "message_delta") {
+          completionTokens = chunk.usage.output_tokens;
+        } else if (chunk.type === "content_block_delta" && chunk.delta.type === "text_delta") {
+          timer.markFirstByte();
           yield {
             content: chunk.delta.text,
             isComplete: false,
@@ -265,18 +400,468 @@ export class AnthropicProvider implements AIProvider {
             }
           };
         } else if (chunk.type === "message_stop") {
+          const usage = toUsage(promptTokens, completionTokens);
           yield {
             content: "",
             isComplete: true,
             metadata: {
+              provider: this.name,
+              tokenCount: usage.totalTokens
+            },
+            usage,
+            timing: timer.timing()
+          };
+          break;
+        }
+      }
+    } catch (error) {
+      throw new Error(`Anthropic streaming error: ${error instanceof Error ? error.message : String(error)}`, { cause: error });
+    }
+  }
+}
+
+// Ollama's native API: https://github.com/ollama/ollama/blob/main/docs/api.md
+interface OllamaChatChunk {
+  model?: string;
+  message?: { role: string; content: string };
+  done?: boolean;
+  done_reason?: string;
+  prompt_eval_count?: number;
+  eval_count?: number;
+  error?: string;
+}
+
+export interface OllamaModelInfo {
+  name: string;
+  size: number;
+  digest: string;
+  modifiedAt: string;
+  family?: string;
+  parameterSize?: string;
+  quantizationLevel?: string;
+}
+
+// Where model discovery looks when no endpoint is given
+export const DEFAULT_OLLAMA_ENDPOINT = process.env.OLLAMA_ENDPOINT || "http://localhost:11434";
+
+const ollamaUrl = (endpoint: string, path: string) => `${endpoint.replace(/\/+$/, "")}${path}`;
+
+// Fetch from an Ollama server, turning error responses into exceptions
+async function ollamaFetch(url: string, init: RequestInit): Promise<Response> {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    const body = await response.json().catch(() => null) as { error?: string } | null;
+    // Keep the status, see parseApiError
+    throw Object.assign(new Error(body?.error || `HTTP ${response.status} ${response.statusText}`), {
+      status: response.status
+    });
+  }
+  return response;
+}
+
+// Split a streamed response body into its non-empty lines as they arrive
+async function* readBodyLines(body: ReadableStream<Uint8Array>): AsyncIterable<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+
+      let newline: number;
+      while ((newline = buffer.indexOf("\n")) !== -1) {
+        const line = buffer.slice(0, newline).trim();
+        buffer = buffer.slice(newline + 1);
+        if (line) yield line;
+      }
+
+      if (done) break;
+    }
+    if (buffer.trim()) yield buffer.trim();
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// Parse a newline-delimited JSON response body as it arrives
+async function* readNdjson<T>(body: ReadableStream<Uint8Array>): AsyncIterable<T> {
+  for await (const line of readBodyLines(body)) {
+    yield JSON.parse(line) as T;
+  }
+}
+
+/**
+ * Models installed on an Ollama server (`GET /api/tags`)
+ */
+export async function listOllamaModels(
+  endpoint: string,
+  headers?: Record<string, string>,
+  timeout = 10000
+): Promise<OllamaModelInfo[]> {
+  try {
+    const response = await ollamaFetch(ollamaUrl(endpoint, "/api/tags"), {
+      headers,
+      signal: AbortSignal.timeout(timeout),
+    });
+    const data = await response.json() as {
+      models?: Array<{
+        name: string;
+        size: number;
+        digest: string;
+        modified_at: string;
+        details?: { family?: string; parameter_size?: string; quantization_level?: string };
+      }>;
+    };
+
+    return (data.models ?? []).map(model => ({
+      name: model.name,
+      size: model.size,
+      digest: model.digest,
+      modifiedAt: model.modified_at,
+      family: model.details?.family,
+      parameterSize: model.details?.parameter_size,
+      quantizationLevel: model.details?.quantization_level,
+    }));
+  } catch (error) {
+    throw new Error(`Ollama API error: ${error instanceof Error ? error.message : String(error)}`, { cause: error });
+  }
+}
+
+// Ollama Provider Implementation, speaking Ollama's native /api/chat protocol
+export class OllamaProvider implements AIProvider {
+  readonly name = "ollama";
+  readonly model = "llama3.1";
+  // Whatever is installed on the server; see listOllamaModels
+  readonly supportedModels: string[] = [];
+
+  private defaultConfig: Partial<AIProviderConfig> = {
+    maxTokens: 4096,
+    temperature: 0.7,
+    timeout: 30000
+  };
+  private config?: AIProviderConfig;
+
+  constructor(config: AIProviderConfig) {
+    this.config = config;
+  }
+
+  validateConfig(config: AIProviderConfig): boolean {
+    return !!(config.endpoint && config.model);
+  }
+
+  estimateTokens(messages: AIMessage[]): number {
+    const totalChars = messages.reduce((sum, msg) => sum + msg.content.length, 0);
+    return Math.ceil(totalChars / 4);
+  }
+
+  async listModels(): Promise<string[]> {
+    const models = await listOllamaModels(this.config!.endpoint!, this.config!.headers);
+    return models.map(model => model.name);
+  }
+
+  private chat(messages: AIMessage[], config: AIProviderConfig, stream: boolean): Promise<Response> {
+    return ollamaFetch(ollamaUrl(config.endpoint!, "/api/chat"), {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...config.headers },
+      body: JSON.stringify({
+        model: config.model,
+        messages: messages.map(msg => ({
+          role: msg.role,
+          content: msg.content
+        })),
+        stream,
+        options: {
+          num_predict: config.maxTokens,
+          temperature: config.temperature,
+          top_p: config.topP
+        }
+      })
+    });
+  }
+
+  async generateResponse(messages: AIMessage[], config?: Partial<AIProviderConfig>): Promise<AIResponse> {
+    const mergedConfig = { ...this.defaultConfig, ...this.config, ...config } as AIProviderConfig;
+
+    try {
+      const response = await this.chat(messages, mergedConfig, false);
+      const data = await response.json() as OllamaChatChunk;
+
+      if (data.error) {
+        throw new Error(data.error);
+      }
+      if (!data.message?.content) {
+        throw new Error("No content received from Ollama");
+      }
+
+      const usage = toUsage(data.prompt_eval_count ?? 0, data.eval_count ?? 0);
+      return {
+        content: data.message.content,
+        metadata: {
+          model: data.model || mergedConfig.model,
+          provider: this.name,
+          tokenCount: usage.totalTokens,
+          finishReason: data.done_reason,
+          usage
+        }
+      };
+    } catch (error) {
+      throw new Error(`Ollama API error: ${error instanceof Error ? error.message : String(error)}`, { cause: error });
+    }
+  }
+
+  async* streamResponse(messages: AIMessage[], config?: Partial<AIProviderConfig>): AsyncIterable<AIStreamChunk> {
+    const mergedConfig = { ...this.defaultConfig, ...this.config, ...config } as AIProviderConfig;
+    const timer = createStreamTimer();
+
+    try {
+      const response = await this.chat(messages, mergedConfig, true);
+      if (!response.body) {
+        throw new Error("No response body received from Ollama");
+      }
+
+      let model = mergedConfig.model;
+
+      // One JSON object per line; the last one has done: true and the token counts
+      for await (const chunk of readNdjson<OllamaChatChunk>(response.body)) {
+        if (chunk.error) {
+          throw new Error(chunk.error);
+        }
+        model = chunk.model || model;
+
+        if (chunk.message?.content) {
+          timer.markFirstByte();
+          yield {
+            content: chunk.message.content,
+            isComplete: false,
+            metadata: {
+              model,
               provider: this.name
             }
           };
-          break;
+        }
+
+        if (chunk.done) {
+          const usage = toUsage(chunk.prompt_eval_count ?? 0, chunk.eval_count ?? 0);
+          yield {
+            content: "",
+            isComplete: true,
+            metadata: {
+              model,
+              provider: this.name,
+              tokenCount: usage.totalTokens
+            },
+            usage,
+            timing: timer.timing()
+          };
+          return;
         }
       }
+
+      throw new Error("Stream ended before the response was complete");
     } catch (error) {
-      throw new Error(`Anthropic streaming error: ${error instanceof Error ? error.message : String(error)}`);
+      throw new Error(`Ollama streaming error: ${error instanceof Error ? error.message : String(error)}`, { cause: error });
+    }
+  }
+}
+
+// Gemini API: https://ai.google.dev/api/generate-content
+interface GeminiResponse {
+  candidates?: Array<{
+    content?: { parts?: Array<{ text?: string }> };
+    finishReason?: string;
+  }>;
+  usageMetadata?: {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+    totalTokenCount?: number;
+  };
+  modelVersion?: string;
+  models?: Array<{ name: string }>;
+  nextPageToken?: string;
+  error?: { message?: string };
+}
+
+// Google Gemini Provider Implementation
+export class GeminiProvider implements AIProvider {
+  readonly name = "gemini";
+  readonly model = "gemini-2.5-flash";
+  // INFO: check prisma/seed.ts for supported models
+  readonly supportedModels = systemModels.filter(model => model.provider === "gemini").map(model => model.name);
+
+  private defaultConfig: Partial<AIProviderConfig> = {
+    maxTokens: 4096,
+    temperature: 0.7,
+    timeout: 30000
+  };
+  private config?: AIProviderConfig;
+
+  constructor(config: AIProviderConfig) {
+    this.config = config;
+  }
+
+  validateConfig(config: AIProviderConfig): boolean {
+    return !!(config.apiKey && config.model && this.supportedModels.includes(config.model));
+  }
+
+  estimateTokens(messages: AIMessage[]): number {
+    const totalChars = messages.reduce((sum, msg) => sum + msg.content.length, 0);
+    return Math.ceil(totalChars / 4);
+  }
+
+  // Gemini takes the system prompt as `systemInstruction` and calls the assistant "model"
+  private buildRequest(messages: AIMessage[], config: AIProviderConfig) {
+    const system = messages
+      .filter(msg => msg.role === "system")
+      .map(msg => msg.content.trim())
+      .filter(Boolean)
+      .join("\n\n");
+
+    return {
+      contents: messages
+        .filter(msg => msg.role !== "system" && msg.content.trim().length > 0)
+        .map(msg => ({
+          role: msg.role === "assistant" ? "model" : "user",
+          parts: [{ text: msg.content }]
+        })),
+      ...(system && { systemInstruction: { parts: [{ text: system }] } }),
+      generationConfig: {
+        maxOutputTokens: config.maxTokens,
+        temperature: config.temperature,
+        topP: config.topP
+      }
+    };
+  }
+
+  private async request(path: string, config: AIProviderConfig, init: RequestInit = {}): Promise<Response> {
+    const baseUrl = (config.endpoint || "https://generativelanguage.googleapis.com").replace(/\/+$/, "");
+
+    const response = await fetch(`${baseUrl}/v1beta/${path}`, {
+      ...init,
+      headers: { "Content-Type": "application/json", "x-goog-api-key": config.apiKey, ...config.headers }
+    });
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => null) as GeminiResponse | null;
+      // Keep the status, see parseApiError
+      throw Object.assign(new Error(body?.error?.message || `HTTP ${response.status} ${response.statusText}`), {
+        status: response.status
+      });
+    }
+    return response;
+  }
+
+  private call(method: string, messages: AIMessage[], config: AIProviderConfig): Promise<Response> {
+    return this.request(`models/${encodeURIComponent(config.model)}:${method}`, config, {
+      method: "POST",
+      body: JSON.stringify(this.buildRequest(messages, config))
+    });
+  }
+
+  async listModels(): Promise<string[]> {
+    const models: string[] = [];
+    let pageToken: string | undefined;
+
+    do {
+      const query = new URLSearchParams({ pageSize: "1000", ...(pageToken && { pageToken }) });
+      const response = await this.request(`models?${query}`, this.config!);
+      const data = await response.json() as GeminiResponse;
+
+      models.push(...(data.models ?? []).map(model => model.name.replace(/^models\//, "")));
+      pageToken = data.nextPageToken;
+    } while (pageToken);
+
+    return models;
+  }
+
+  private textOf(data: GeminiResponse): string {
+    return (data.candidates?.[0]?.content?.parts ?? []).map(part => part.text ?? "").join("");
+  }
+
+  async generateResponse(messages: AIMessage[], config?: Partial<AIProviderConfig>): Promise<AIResponse> {
+    const mergedConfig = { ...this.defaultConfig, ...this.config, ...config } as AIProviderConfig;
+
+    try {
+      const response = await this.call("generateContent", messages, mergedConfig);
+      const data = await response.json() as GeminiResponse;
+
+      const content = this.textOf(data);
+      if (!content) {
+        throw new Error("No content received from Gemini");
+      }
+
+      const usage = toUsage(data.usageMetadata?.promptTokenCount ?? 0, data.usageMetadata?.candidatesTokenCount ?? 0);
+      return {
+        content,
+        metadata: {
+          model: data.modelVersion || mergedConfig.model,
+          provider: this.name,
+          tokenCount: usage.totalTokens,
+          finishReason: data.candidates?.[0]?.finishReason,
+          usage
+        }
+      };
+    } catch (error) {
+      throw new Error(`Gemini API error: ${error instanceof Error ? error.message : String(error)}`, { cause: error });
+    }
+  }
+
+  async* streamResponse(messages: AIMessage[], config?: Partial<AIProviderConfig>): AsyncIterable<AIStreamChunk> {
+    const mergedConfig = { ...this.defaultConfig, ...this.config, ...config } as AIProviderConfig;
+    const timer = createStreamTimer();
+
+    try {
+      const response = await this.call("streamGenerateContent?alt=sse", messages, mergedConfig);
+      if (!response.body) {
+        throw new Error("No response body received from Gemini");
+      }
+
+      let model = mergedConfig.model;
+      let usage: AIUsage | undefined;
+
+      // Server-sent events, one "data: {json}" line per chunk; every chunk
+      // carries the usage so far, the last one the final counts
+      for await (const line of readBodyLines(response.body)) {
+        if (!line.startsWith("data:")) continue;
+
+        const chunk = JSON.parse(line.slice(5)) as GeminiResponse;
+        if (chunk.error) {
+          throw new Error(chunk.error.message || "Unknown error");
+        }
+        model = chunk.modelVersion || model;
+
+        const delta = this.textOf(chunk);
+        if (delta) {
+          timer.markFirstByte();
+          yield {
+            content: delta,
+            isComplete: false,
+            metadata: {
+              model,
+              provider: this.name
+            }
+          };
+        }
+
+        if (chunk.usageMetadata) {
+          usage = toUsage(chunk.usageMetadata.promptTokenCount ?? 0, chunk.usageMetadata.candidatesTokenCount ?? 0);
+        }
+      }
+
+      yield {
+        content: "",
+        isComplete: true,
+        metadata: {
+          model,
+          provider: this.name,
+          tokenCount: usage?.totalTokens
+        },
+        usage,
+        timing: timer.timing()
+      };
+    } catch (error) {
+      throw new Error(`Gemini streaming error: ${error instanceof Error ? error.message : String(error)}`, { cause: error });
     }
   }
 }
@@ -293,6 +878,7 @@ export class MockProvider implements AIProvider {
     timeout: 10000
   };
   private config?: AIProviderConfig;
+  private requestCount = 0;
 
   private readonly randomWords = [
     "the", "quick", "brown", "fox", "jumps", "over", "lazy", "dog", "hello", "world",
@@ -311,7 +897,7 @@ export class MockProvider implements AIProvider {
   }
 
   validateConfig(config: AIProviderConfig): boolean {
-    return !!(config.model === "mock-fast" || config.model === "mock-slow" || config.model === "mock-verbose" || config.model === "mock-concise" || config.model === "mock-creative");
+    return !!(config.model === "mock-fast" || config.model === "mock-slow" || config.model === "mock-verbose" || config.model === "mock-concise" || config.model === "mock-creative" || config.model === "mock-unavailable" || config.model === "mock-flaky" || config.model === "mock-cutoff");
   }
 
   estimateTokens(messages: AIMessage[]): number {
@@ -319,6 +905,10 @@ export class MockProvider implements AIProvider {
     return Math.ceil(totalChars / 4);
   }
 
+  async listModels(): Promise<string[]> {
+    return this.supportedModels;
+  }
+
   private getModelSpeed(model: string | 'mock-fast' | 'mock-slow' | 'mock-verbose' | 'mock-concise' | 'mock-creative'): number {
     switch (model) {
       case "mock-fast": return 10; // 10ms between words
@@ -339,6 +929,20 @@ export class MockProvider implements AIProvider {
     }
   }
 
+  // Variants failing on cue, to exercise retries and failover: mock-unavailable
+  // fails before the first word, mock-flaky only on its first request and
+  // mock-cutoff after three words
+  private failOnCue(model: string, generatedWords: number): void {
+    const fails =
+      (model === "mock-unavailable" && generatedWords === 0) ||
+      (model === "mock-flaky" && this.requestCount === 1 && generatedWords === 0) ||
+      (model === "mock-cutoff" && generatedWords === 3);
+
+    if (fails) {
+      throw Object.assign(new Error(`Mock provider unavailable (${model})`), { status: 503 });
+    }
+  }
+
   private generateRandomWord(): string {
     return this.randomWords[Math.floor(Math.random() * this.randomWords.length)] || "word";
   }
@@ -365,18 +969,22 @@ export class MockProvider implements AIProvider {
   async generateResponse(messages: AIMessage[], config?: Partial<AIProviderConfig>): Promise<AIResponse> {
     const mergedConfig = { ...this.defaultConfig, ...this.config, ...config } as AIProviderConfig;
     const wordCount = this.getWordCount(mergedConfig.model!, mergedConfig.maxTokens!);
+    this.requestCount++;
 
     // Simulate API delay
     await new Promise(resolve => setTimeout(resolve, 200 + Math.random() * 300));
+    this.failOnCue(mergedConfig.model!, 0);
     const content = this.generateSentence(wordCount);
+    const usage = toUsage(this.estimateTokens(messages), wordCount);
 
     return {
       content,
       metadata: {
         model: mergedConfig.model!,
         provider: this.name,
-        tokenCount: Math.ceil(content.length / 4),
-        finishReason: "stop"
+        tokenCount: usage.totalTokens,
+        finishReason: "stop",
+        usage
       }
     };
   }
@@ -386,6 +994,9 @@ export class MockProvider implements AIProvider {
     const speed = this.getModelSpeed(mergedConfig.model!);
     const wordCount = this.getWordCount(mergedConfig.model!, mergedConfig.maxTokens!);
 
+    const timer = createStreamTimer();
+    this.requestCount++;
+
     console.log(`🎭 Mock provider starting stream: ${wordCount} words at ${speed}ms intervals`);
 
     let generatedWords = 0;
@@ -393,6 +1004,7 @@ export class MockProvider implements AIProvider {
     const wordsPerSentence = 8 + Math.floor(Math.random() * 12); // 8-19 words per sentence
 
     while (generatedWords < wordCount) {
+      this.failOnCue(mergedConfig.model!, generatedWords);
       const word = this.generateRandomWord();
       let content = word;
 
@@ -420,6 +1032,7 @@ export class MockProvider implements AIProvider {
         content += " ";
       }
 
+      timer.markFirstByte();
       yield {
         content,
         isComplete: false,
@@ -433,38 +1046,120 @@ export class MockProvider implements AIProvider {
       await new Promise(resolve => setTimeout(resolve, speed));
     }
 
-    // Send completion signal
+    // Send completion signal; usage is deterministic (prompt estimate, one token per word)
+    const usage = toUsage(this.estimateTokens(messages), wordCount);
     yield {
       content: "",
       isComplete: true,
       metadata: {
         model: mergedConfig.model!,
         provider: this.name,
-        tokenCount: wordCount
-      }
+        tokenCount: usage.totalTokens
+      },
+      usage,
+      timing: timer.timing()
     };
 
     console.log(`🎭 Mock provider completed stream: ${generatedWords} words generated`);
   }
 }
 
+// An owner's stored API key for a provider, decrypted
+export interface ProviderCredentialSecret {
+  apiKey: string;
+  baseUrl?: string | null;
+  orgId?: string | null;
+}
+
+// The owner's credentials keyed by provider name
+export type OwnerCredentials = Partial<Record<string, ProviderCredentialSecret>>;
+
+type AIProviderClass = new (config: AIProviderConfig) => AIProvider;
+
+// How catalog models of a provider are called
+export interface AIProviderOptions {
+  // Name shown to owners
+  label?: string;
+  // Owners bring their own API key, stored as a ProviderCredential
+  credential?: {
+    envKey?: string; // Server-wide key used for owners without one
+    keyPrefix?: string; // Keys of this provider start with it
+    baseUrl?: boolean; // The API base URL can be overridden
+    orgId?: boolean; // Requests can be billed to an organization
+    testModel?: string; // Cheap model asked for one token to check a key's quota
+  };
+  // Fixed API key, for providers without credentials
+  apiKey?: string;
+  // Models are served from their catalog entry's `endpoint`, which is required
+  usesEndpoint?: boolean;
+}
+
+// A provider owners can store a key for, as listed in settings
+export interface CredentialProviderInfo {
+  name: string;
+  label: string;
+  keyPrefix?: string;
+  baseUrl: boolean;
+  orgId: boolean;
+}
+
 // Provider Factory
 export class AIProviderFactory {
-  private static providers = new Map<string, new (config: AIProviderConfig) => AIProvider>();
+  private static providers = new Map<string, { providerClass: AIProviderClass; options: AIProviderOptions }>();
 
   static {
     // Register built-in providers
-    this.registerProvider("openai", OpenAIProvider);
-    this.registerProvider("anthropic", AnthropicProvider);
-    this.registerProvider("mock", MockProvider);
+    this.registerProvider("openai", OpenAIProvider, {
+      label: "OpenAI",
+      credential: { envKey: "OPENAI_API_KEY", keyPrefix: "sk-", baseUrl: true, orgId: true, testModel: "gpt-4.1-nano" },
+    });
+    this.registerProvider("anthropic", AnthropicProvider, {
+      label: "Anthropic",
+      credential: { envKey: "ANTHROPIC_API_KEY", keyPrefix: "sk-ant-", baseUrl: true, testModel: "claude-3-5-haiku-20241022" },
+    });
+    this.registerProvider("gemini", GeminiProvider, {
+      label: "Gemini",
+      credential: { envKey: "GEMINI_API_KEY", keyPrefix: "AIza", baseUrl: true, testModel: "gemini-2.5-flash-lite" },
+    });
+    this.registerProvider("mock", MockProvider, { label: "Mock", apiKey: "mock-api-key" });
+    this.registerProvider("openai-compatible", OpenAICompatibleProvider, { label: "OpenAI-compatible", usesEndpoint: true });
+    this.registerProvider("ollama", OllamaProvider, { label: "Ollama", usesEndpoint: true });
   }
 
-  static registerProvider(name: string, providerClass: new (config: AIProviderConfig) => AIProvider): void {
-    this.providers.set(name, providerClass);
+  static registerProvider(name: string, providerClass: AIProviderClass, options: AIProviderOptions = {}): void {
+    this.providers.set(name, { providerClass, options });
+  }
+
+  static getProviderOptions(name: string): AIProviderOptions {
+    const provider = this.providers.get(name);
+    if (!provider) {
+      throw new Error(`Unknown AI provider: ${name}. Available providers: ${Array.from(this.providers.keys()).join(", ")}`);
+    }
+    return provider.options;
+  }
+
+  // Providers whose models owners register themselves, at their own endpoint
+  static getEndpointProviders(): string[] {
+    return Array.from(this.providers.entries())
+      .filter(([, provider]) => provider.options.usesEndpoint)
+      .map(([name]) => name);
+  }
+
+  // Providers owners store their own API key for
+  static getCredentialProviders(): CredentialProviderInfo[] {
+    return Array.from(this.providers.entries())
+      .filter(([, provider]) => provider.options.credential)
+      .map(([name, { options }]) => ({
+        name,
+        label: options.label ?? name,
+        keyPrefix: options.credential!.keyPrefix,
+        baseUrl: !!options.credential!.baseUrl,
+        orgId: !!options.credential!.orgId,
+      }));
   }
 
   static createProvider(name: string, config: AIProviderConfig): AIProvider {
-    const ProviderClass = this.providers.get(name);
+    const ProviderClass = this.providers.get(name)?.providerClass;
     if (!ProviderClass) {
       throw new Error(`Unknown AI provider: ${name}. Available providers: ${Array.from(this.providers.keys()).join(", ")}`);
     }
@@ -483,7 +1178,7 @@ export class AIProviderFactory {
   }
 
   static getSupportedModels(providerName: string): string[] {
-    const ProviderClass = this.providers.get(providerName);
+    const ProviderClass = this.providers.get(providerName)?.providerClass;
     if (!ProviderClass) {
       throw new Error(`Unknown AI provider: ${providerName}`);
     }
@@ -503,29 +1198,39 @@ export function createAIProvider(providerName: string, config: AIProviderConfig)
   return AIProviderFactory.createProvider(providerName, config);
 }
 
+// Extra headers stored on a catalog entry as `extra.headers`
+export const getModelHeaders = (extra: unknown): Record<string, string> | undefined => {
+  const headers = (extra as { headers?: unknown } | null)?.headers;
+  if (!headers || typeof headers !== "object" || Array.isArray(headers)) return undefined;
+
+  const entries = Object.entries(headers).filter((entry): entry is [string, string] => typeof entry[1] === "string");
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+};
+
 // Helper function to create provider from database model and user settings
 export function createAIProviderFromModel(
   model: {
-    provider: string | 'openai' | 'anthropic' | 'mock';
-    name: string | 'gpt-4o' | 'claude-3-5-sonnet-20241022' | 'claude-3-5-haiku-20241022' | 'claude-3-opus-20240229' | 'claude-3-sonnet-20240229' | 'claude-3-haiku-20240307' | 'gpt-4' | 'gpt-4-turbo' | 'gpt-4o-mini' | 'gpt-3.5-turbo' | 'gpt-3.5-turbo-16k'
+    provider: string | 'openai' | 'anthropic' | 'gemini' | 'mock' | 'openai-compatible' | 'ollama';
+    name: string | 'gpt-4o' | 'claude-3-5-sonnet-20241022' | 'claude-3-5-haiku-20241022' | 'claude-3-opus-20240229' | 'claude-3-sonnet-20240229' | 'claude-3-haiku-20240307' | 'gpt-4' | 'gpt-4-turbo' | 'gpt-4o-mini' | 'gpt-3.5-turbo' | 'gpt-3.5-turbo-16k';
+    endpoint?: string | null;
+    extra?: unknown;
   },
-  userSettings: { openaiApiKey?: string | null; anthropicApiKey?: string | null },
+  credentials: OwnerCredentials,
   overrideConfig?: Partial<AIProviderConfig>
 ): AIProvider {
-  let apiKey: string;
-
-  if (model.provider === "mock") {
-    apiKey = "mock-api-key";
-  } else if (model.provider === "anthropic") {
-    apiKey = userSettings.anthropicApiKey ?? process.env.ANTHROPIC_API_KEY ?? "";
-  } else if (model.provider === "openai") {
-    apiKey = userSettings.openaiApiKey ?? process.env.OPENAI_API_KEY ?? "";
-  } else {
-    throw new Error(`Unknown provider: ${model.provider}`);
+  const options = AIProviderFactory.getProviderOptions(model.provider);
+  const credential = options.credential ? credentials[model.provider] : undefined;
+
+  const envKey = options.credential?.envKey;
+  const apiKey = options.credential
+    ? (credential?.apiKey || (envKey && process.env[envKey]) || "")
+    : (options.apiKey ?? "");
+  if (options.credential && !apiKey.trim()) {
+    throw new Error(`${model.provider} API key not configured`);
   }
 
-  if (!apiKey.trim()) {
-    throw new Error(`${model.provider} API key not configured`);
+  if (options.usesEndpoint && !model.endpoint) {
+    throw new Error(`No endpoint configured for model ${model.name}`);
   }
 
   const config: AIProviderConfig = {
@@ -534,12 +1239,83 @@ export function createAIProviderFromModel(
     maxTokens: 4096,
     temperature: 0.7,
     timeout: 30000,
+    ...(credential?.baseUrl && { endpoint: credential.baseUrl }),
+    ...(credential?.orgId && { organization: credential.orgId }),
+    ...(options.usesEndpoint && { endpoint: model.endpoint!, headers: getModelHeaders(model.extra) }),
     ...overrideConfig,
   };
 
   return createAIProvider(model.provider, config);
 }
 
+// What testing an API key found out
+export interface CredentialTestResult {
+  status: "valid" | "invalid" | "quota_exceeded" | "rate_limited" | "unreachable";
+  valid: boolean; // The provider accepted the key
+  message: string;
+  models: string[]; // Models the key can use
+}
+
+const credentialTestFailure = (error: unknown, providerName: string): Omit<CredentialTestResult, "models"> => {
+  const { code, message } = parseApiError(error, providerName);
+
+  switch (code) {
+    case ErrorCode.API_KEY_INVALID:
+      return { status: "invalid", valid: false, message };
+    case ErrorCode.QUOTA_EXCEEDED:
+      return { status: "quota_exceeded", valid: true, message };
+    case ErrorCode.RATE_LIMIT_EXCEEDED:
+      return { status: "rate_limited", valid: true, message };
+    default:
+      return { status: "unreachable", valid: false, message };
+  }
+};
+
+/**
+ * Check an API key with the provider before it is stored: list the models
+ * it can use, then ask the provider's test model for one token to find out
+ * whether the key has quota left.
+ */
+export async function testProviderCredential(
+  providerName: string,
+  { apiKey, baseUrl, orgId }: ProviderCredentialSecret
+): Promise<CredentialTestResult> {
+  const { credential } = AIProviderFactory.getProviderOptions(providerName);
+  const testModel = credential?.testModel;
+  if (!credential || !testModel) {
+    throw new Error(`${providerName} API keys can't be tested`);
+  }
+
+  const provider = createAIProvider(providerName, {
+    apiKey,
+    model: testModel,
+    timeout: 10000,
+    ...(baseUrl && { endpoint: baseUrl }),
+    ...(orgId && { organization: orgId }),
+  });
+
+  let models: string[];
+  try {
+    models = (await provider.listModels?.()) ?? [];
+  } catch (error) {
+    return { ...credentialTestFailure(error, providerName), models: [] };
+  }
+
+  if (models.includes(testModel)) {
+    try {
+      await provider.generateResponse([{ role: "user", content: "Hi" }], { maxTokens: 1, temperature: 0 });
+    } catch (error) {
+      const failure = credentialTestFailure(error, providerName);
+      // Anything else (an empty one-token answer, ...) says nothing about the key
+      if (failure.status !== "unreachable") {
+        return { ...failure, models };
+      }
+    }
+  }
+
+  return { status: "valid", valid: true, message: `API key works with ${models.length} models`, models };
+}
+
 // Provider-agnostic streaming helper
 export async function* streamAIResponse(
   provider: AIProvider,
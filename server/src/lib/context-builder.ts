@@ -0,0 +1,124 @@
+/**
+ * Context Builder
+ *
+ * Picks the conversation history sent to the model. Turns (a user message and
+ * its answer) are added newest first for as long as they fit in the model's
+ * context window, after reserving room for the system prompt, the new user
+ * message and the completion. Older turns that don't fit are left out; the
+ * history always stays contiguous. A chat summary, when present, stands in
+ * for the turns it covers.
+ */
+
+import { DEFAULT_CONTEXT_SETTINGS } from "../constants/defaultChatSettings";
+import type { AIMessage, AIProvider } from "./ai-providers";
+
+export interface ContextTurn {
+  id: string;
+  userContent: string;
+  agentContent: string | null;
+}
+
+/** What went into a request; stored in message metadata as `context` */
+export interface ContextReport {
+  contextWindow: number;
+  reservedCompletionTokens: number;
+  estimatedPromptTokens: number;
+  summaryIncluded: boolean;
+  includedMessageIds: string[];
+  omittedMessageCount: number;
+}
+
+/** Context window of a model, read from `ModelCatalog.extra.contextWindow` */
+export const getContextWindow = (extra: unknown): number => {
+  const contextWindow =
+    extra && typeof extra === "object" && !Array.isArray(extra)
+      ? (extra as Record<string, unknown>).contextWindow
+      : undefined;
+
+  return typeof contextWindow === "number" && contextWindow > 0
+    ? contextWindow
+    : DEFAULT_CONTEXT_SETTINGS.contextWindow;
+};
+
+/** Turns after `messageId`; all turns when it isn't part of the history */
+export const turnsAfter = <T extends { id: string }>(
+  history: T[],
+  messageId: string | null | undefined
+): T[] => {
+  const index = messageId ? history.findIndex((turn) => turn.id === messageId) : -1;
+  return index === -1 ? history : history.slice(index + 1);
+};
+
+const nonEmpty = (message: AIMessage) => message.content.length > 0;
+
+const turnToMessages = (turn: ContextTurn): AIMessage[] =>
+  [
+    { role: "user" as const, content: turn.userContent.trim() },
+    { role: "assistant" as const, content: turn.agentContent?.trim() ?? "" },
+  ].filter(nonEmpty);
+
+/**
+ * Build the messages for a request.
+ *
+ * @param history previous turns of the active branch, oldest first
+ * @param userContent the new user message, always included
+ * @param summary summary of turns that precede `history`
+ */
+export const buildContext = ({
+  provider,
+  history,
+  userContent,
+  systemPrompt,
+  summary,
+  contextWindow,
+  maxTokens,
+}: {
+  provider: Pick<AIProvider, "estimateTokens">;
+  history: ContextTurn[];
+  userContent: string;
+  systemPrompt?: string | null;
+  summary?: string | null;
+  contextWindow: number;
+  maxTokens: number;
+}): { messages: AIMessage[]; context: ContextReport } => {
+  const systemMessages: AIMessage[] = [];
+  if (systemPrompt?.trim()) {
+    systemMessages.push({ role: "system", content: systemPrompt.trim() });
+  }
+  if (summary?.trim()) {
+    systemMessages.push({
+      role: "system",
+      content: `Summary of the earlier conversation:\n${summary.trim()}`,
+    });
+  }
+  const userMessage: AIMessage = { role: "user", content: userContent.trim() };
+
+  let usedTokens = provider.estimateTokens([...systemMessages, userMessage]);
+  const budget = contextWindow - maxTokens;
+
+  const included: { id: string; messages: AIMessage[] }[] = [];
+  for (const turn of [...history].reverse()) {
+    const messages = turnToMessages(turn);
+    const turnTokens = provider.estimateTokens(messages);
+    if (usedTokens + turnTokens > budget) break;
+
+    usedTokens += turnTokens;
+    included.unshift({ id: turn.id, messages });
+  }
+
+  return {
+    messages: [
+      ...systemMessages,
+      ...included.flatMap((turn) => turn.messages),
+      userMessage,
+    ],
+    context: {
+      contextWindow,
+      reservedCompletionTokens: maxTokens,
+      estimatedPromptTokens: usedTokens,
+      summaryIncluded: !!summary?.trim(),
+      includedMessageIds: included.map((turn) => turn.id),
+      omittedMessageCount: history.length - included.length,
+    },
+  };
+};
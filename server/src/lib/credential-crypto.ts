@@ -0,0 +1,70 @@
+/**
+ * Encryption of the API keys owners store for AI providers.
+ *
+ * Keys are encrypted with AES-256-GCM using a server key from
+ * CREDENTIAL_KEYS: comma-separated "id:key" pairs, each key being 32 bytes
+ * in base64 (`openssl rand -base64 32`). The first key encrypts; every key
+ * listed can decrypt, so a new key is rotated in by putting it first and
+ * running `bun run credentials:rotate` before the old one is removed.
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes } from "crypto";
+
+export interface EncryptedSecret {
+  secret: string;
+  keyId: string | null; // null for secrets stored before encryption
+}
+
+export interface CredentialKeys {
+  currentId: string;
+  keys: Map<string, Buffer>;
+}
+
+const ALGORITHM = "aes-256-gcm";
+
+export function loadCredentialKeys(value = process.env.CREDENTIAL_KEYS): CredentialKeys {
+  const keys = new Map<string, Buffer>();
+
+  for (const entry of (value ?? "").split(",").map(entry => entry.trim()).filter(Boolean)) {
+    const separator = entry.indexOf(":");
+    const id = entry.slice(0, separator).trim();
+    const key = Buffer.from(entry.slice(separator + 1).trim(), "base64");
+
+    if (separator <= 0 || key.length !== 32) {
+      throw new Error("CREDENTIAL_KEYS must be comma-separated id:key pairs of 32-byte base64 keys");
+    }
+    keys.set(id, key);
+  }
+
+  const currentId = keys.keys().next().value;
+  if (!currentId) {
+    throw new Error("CREDENTIAL_KEYS is not configured: API keys can't be stored or read");
+  }
+
+  return { currentId, keys };
+}
+
+export function encryptSecret(plaintext: string, credentialKeys = loadCredentialKeys()): EncryptedSecret {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(ALGORITHM, credentialKeys.keys.get(credentialKeys.currentId)!, iv);
+  const data = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+
+  return {
+    secret: [iv, cipher.getAuthTag(), data].map(part => part.toString("base64")).join(":"),
+    keyId: credentialKeys.currentId,
+  };
+}
+
+export function decryptSecret({ secret, keyId }: EncryptedSecret, credentialKeys?: CredentialKeys): string {
+  if (keyId === null) return secret;
+
+  const key = (credentialKeys ?? loadCredentialKeys()).keys.get(keyId);
+  if (!key) {
+    throw new Error(`Credential key "${keyId}" is not in CREDENTIAL_KEYS`);
+  }
+
+  const [iv, tag, data] = secret.split(":").map(part => Buffer.from(part, "base64"));
+  const decipher = createDecipheriv(ALGORITHM, key, iv!);
+  decipher.setAuthTag(tag!);
+  return Buffer.concat([decipher.update(data!), decipher.final()]).toString("utf8");
+}
@@ -0,0 +1,123 @@
+/**
+ * Where owner-configured endpoints (custom models, Ollama servers) may point.
+ *
+ * The server calls these endpoints itself, with headers the owner chose, so
+ * an endpoint on the server's own network would let any owner reach
+ * services that are not meant to be public. Loopback, link-local and
+ * private addresses are refused unless the operator lists the host in
+ * `CUSTOM_ENDPOINT_ALLOWLIST` (comma-separated `host` or `host:port`).
+ */
+
+import { lookup } from "dns/promises";
+import { isIP } from "net";
+
+const parseIPv4 = (address: string): number[] | null => {
+  const parts = address.split(".");
+  if (parts.length !== 4 || !parts.every((part) => /^\d{1,3}$/.test(part))) return null;
+
+  const octets = parts.map(Number);
+  return octets.every((octet) => octet <= 255) ? octets : null;
+};
+
+// The 8 hextets of an IPv6 address, with an embedded IPv4 tail expanded
+const parseIPv6 = (address: string): number[] | null => {
+  let text = address.toLowerCase().replace(/%.*$/, "");
+
+  const tail = text.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (tail) {
+    const octets = parseIPv4(tail[1]!);
+    if (!octets) return null;
+    text = `${text.slice(0, -tail[1]!.length)}${((octets[0]! << 8) | octets[1]!).toString(16)}:${((octets[2]! << 8) | octets[3]!).toString(16)}`;
+  }
+
+  const [head = "", rest] = text.split("::");
+  const left = head ? head.split(":") : [];
+  const right = rest ? rest.split(":") : [];
+  const missing = 8 - left.length - right.length;
+  if (rest === undefined ? missing !== 0 : missing < 1) return null;
+
+  const hextets = [...left, ...Array(rest === undefined ? 0 : missing).fill("0"), ...right];
+  if (!hextets.every((hextet) => /^[0-9a-f]{1,4}$/.test(hextet))) return null;
+
+  return hextets.map((hextet) => parseInt(hextet, 16));
+};
+
+const isPrivateIPv4 = ([a, b]: number[]) =>
+  a === 0 || // "this" network
+  a === 10 ||
+  a === 127 || // loopback
+  (a === 100 && b! >= 64 && b! <= 127) || // carrier-grade NAT
+  (a === 169 && b === 254) || // link-local, cloud metadata
+  (a === 172 && b! >= 16 && b! <= 31) ||
+  (a === 192 && b === 168) ||
+  (a === 198 && (b === 18 || b === 19)) || // benchmarking
+  a! >= 224; // multicast and reserved
+
+/**
+ * Whether an IP address is loopback, link-local, private or otherwise not
+ * on the public internet. Anything that isn't an IP address counts as private.
+ */
+export function isPrivateAddress(address: string): boolean {
+  const ipv4 = parseIPv4(address);
+  if (ipv4) return isPrivateIPv4(ipv4);
+
+  const ipv6 = parseIPv6(address.replace(/^\[|\]$/g, ""));
+  if (!ipv6) return true;
+
+  const [first] = ipv6 as [number];
+  const embeddedIPv4 = [ipv6[6]! >> 8, ipv6[6]! & 0xff, ipv6[7]! >> 8, ipv6[7]! & 0xff];
+
+  // IPv4-mapped (::ffff:0:0/96), IPv4-compatible (::/96) and NAT64 (64:ff9b::/96)
+  if (ipv6.slice(0, 5).every((hextet) => hextet === 0) && (ipv6[5] === 0xffff || ipv6[5] === 0)) {
+    return ipv6[5] === 0 && ipv6[6] === 0 ? true : isPrivateIPv4(embeddedIPv4);
+  }
+  if (first === 0x64 && ipv6[1] === 0xff9b && ipv6.slice(2, 6).every((hextet) => hextet === 0)) {
+    return isPrivateIPv4(embeddedIPv4);
+  }
+
+  return (
+    (first & 0xfe00) === 0xfc00 || // unique local
+    (first & 0xffc0) === 0xfe80 || // link-local
+    (first & 0xff00) === 0xff00 // multicast
+  );
+}
+
+// Hosts the operator lets endpoints reach whatever their address
+const getAllowedHosts = () =>
+  (process.env.CUSTOM_ENDPOINT_ALLOWLIST ?? "")
+    .split(",")
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean);
+
+/**
+ * Throws unless the server may call `endpoint`: an http(s) URL whose host
+ * resolves only to public addresses, or a host on the operator's allowlist.
+ */
+export async function assertPublicEndpoint(endpoint: string): Promise<void> {
+  let url: URL;
+  try {
+    url = new URL(endpoint);
+  } catch {
+    throw new Error("Endpoint must be a URL");
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new Error("Endpoint must be an http or https URL");
+  }
+
+  const hostname = url.hostname.toLowerCase().replace(/^\[|\]$/g, "");
+  const allowed = getAllowedHosts();
+  if (allowed.includes(hostname) || allowed.includes(url.host.toLowerCase())) return;
+
+  const addresses = isIP(hostname)
+    ? [hostname]
+    : await lookup(hostname, { all: true, verbatim: true }).then(
+        (results) => results.map(({ address }) => address),
+        () => {
+          throw new Error(`Could not resolve ${hostname}`);
+        }
+      );
+
+  if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+    throw new Error("Endpoints on local or private networks are not allowed");
+  }
+}
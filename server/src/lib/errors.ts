@@ -7,6 +7,7 @@ export enum ErrorCode {
   // Rate limiting errors
   RATE_LIMIT_EXCEEDED = 'RATE_LIMIT_EXCEEDED',
   QUOTA_EXCEEDED = 'QUOTA_EXCEEDED',
+  BUDGET_EXCEEDED = 'BUDGET_EXCEEDED',
   
   // Model/Provider errors
   MODEL_NOT_FOUND = 'MODEL_NOT_FOUND',
@@ -53,6 +54,7 @@ export class ApiKeyError extends AppError {
       [ErrorCode.API_KEY_EXPIRED]: `${provider} API key has expired. Please update your API key in settings.`,
       [ErrorCode.RATE_LIMIT_EXCEEDED]: `${provider} rate limit exceeded`,
       [ErrorCode.QUOTA_EXCEEDED]: `${provider} quota exceeded`,
+      [ErrorCode.BUDGET_EXCEEDED]: `${provider} monthly budget exceeded`,
       [ErrorCode.MODEL_NOT_FOUND]: `${provider} model not found`,
       [ErrorCode.PROVIDER_UNAVAILABLE]: `${provider} unavailable`,
       [ErrorCode.CLIENT_CLOSED_REQUEST]: `${provider} stream was aborted by client`,
@@ -87,6 +89,16 @@ export class QuotaExceededError extends AppError {
   }
 }
 
+export class BudgetExceededError extends AppError {
+  constructor(budgetUsd: number) {
+    super(
+      ErrorCode.BUDGET_EXCEEDED,
+      `Monthly budget of $${budgetUsd.toFixed(2)} has been used up. Raise your budget in settings or wait until next month.`,
+      402
+    );
+  }
+}
+
 export class ModelNotFoundError extends AppError {
   constructor(modelName: string) {
     super(
@@ -144,14 +156,24 @@ export function isUserAbortError(error: unknown): boolean {
 // Helper function to parse API errors and convert them to our error types
 export function parseApiError(error: any, provider: string): AppError {
   const errorMessage = error?.message || error?.error?.message || 'Unknown error';
-  const errorCode = error?.code || error?.error?.code;
-  const statusCode = error?.status || error?.response?.status;
+  // Providers wrap SDK errors, keeping the original as the cause
+  const errorCode = error?.code || error?.error?.code || error?.cause?.code;
+  const statusCode = error?.status || error?.response?.status || error?.cause?.status;
+
+  // Server errors first: their messages often mention the model
+  if (statusCode >= 500) {
+    return new ProviderUnavailableError(provider);
+  }
 
   // OpenAI specific error handling
   if (provider === 'openai') {
     if (statusCode === 401 || errorMessage.includes('api key')) {
       return new ApiKeyError('OpenAI', ErrorCode.API_KEY_INVALID);
     }
+    // OpenAI answers 429 when the account is out of credit too
+    if (errorCode === 'insufficient_quota') {
+      return new QuotaExceededError('OpenAI');
+    }
     if (statusCode === 429) {
       const retryAfter = error?.response?.headers?.['retry-after'];
       return new RateLimitError('OpenAI', retryAfter ? parseInt(retryAfter) : undefined);
@@ -180,9 +202,17 @@ export function parseApiError(error: any, provider: string): AppError {
     }
   }
 
-  // Generic service unavailable
-  if (statusCode >= 500) {
-    return new ProviderUnavailableError(provider);
+  // Gemini specific error handling
+  if (provider === 'gemini') {
+    if (statusCode === 401 || statusCode === 403 || errorMessage.includes('API key not valid')) {
+      return new ApiKeyError('Gemini', ErrorCode.API_KEY_INVALID);
+    }
+    if (statusCode === 429) {
+      return new RateLimitError('Gemini');
+    }
+    if (statusCode === 404) {
+      return new ModelNotFoundError(errorMessage);
+    }
   }
 
   // Fallback to generic internal error
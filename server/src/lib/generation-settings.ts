@@ -0,0 +1,86 @@
+/**
+ * Generation Settings
+ *
+ * A chat's overrides (system prompt, temperature, max tokens, top-p) on top
+ * of the defaults, and where they go: the provider's config, the context
+ * sent to the model and the `generation` entry of the message metadata.
+ */
+
+import type { Chat } from "@prisma/client";
+import { DEFAULT_CHAT_SETTINGS } from "../constants/defaultChatSettings";
+import {
+  createAIProviderFromModel,
+  type OwnerCredentials,
+} from "./ai-providers";
+import {
+  buildContext,
+  getContextWindow,
+  type ContextTurn,
+} from "./context-builder";
+
+export type ChatSettings = Pick<
+  Chat,
+  "systemPrompt" | "temperature" | "maxTokens" | "topP"
+>;
+
+export type GenerationSettings = ReturnType<typeof resolveGenerationSettings>;
+
+type GenerationModel = Parameters<typeof createAIProviderFromModel>[0];
+
+// Chat overrides on top of the defaults; recorded in message metadata as-is
+export const resolveGenerationSettings = (chat: ChatSettings) => ({
+  systemPrompt: chat.systemPrompt ?? DEFAULT_CHAT_SETTINGS.systemPrompt,
+  temperature: chat.temperature ?? DEFAULT_CHAT_SETTINGS.temperature,
+  maxTokens: chat.maxTokens ?? DEFAULT_CHAT_SETTINGS.maxTokens,
+  topP: chat.topP ?? DEFAULT_CHAT_SETTINGS.topP,
+});
+
+/** The `generation` entry of message metadata */
+export const generationMetadata = (
+  model: Pick<GenerationModel, "provider" | "name">,
+  generation: GenerationSettings
+) => ({
+  provider: model.provider,
+  model: model.name,
+  ...generation,
+});
+
+/**
+ * Provider and messages for a request to `model`, with the settings applied:
+ * the provider gets the sampling parameters, the context the system prompt
+ * and the room left for the completion.
+ */
+export const prepareGeneration = ({
+  model,
+  credentials,
+  generation,
+  history,
+  userContent,
+  summary,
+}: {
+  model: GenerationModel;
+  credentials: OwnerCredentials;
+  generation: GenerationSettings;
+  history: ContextTurn[];
+  userContent: string;
+  summary?: string | null;
+}) => {
+  const provider = createAIProviderFromModel(model, credentials, {
+    maxTokens: generation.maxTokens,
+    temperature: generation.temperature,
+    topP: generation.topP ?? undefined,
+  });
+
+  // Fit the newest turns into the model's context window
+  const { messages, context } = buildContext({
+    provider,
+    history,
+    userContent,
+    systemPrompt: generation.systemPrompt,
+    summary,
+    contextWindow: getContextWindow(model.extra),
+    maxTokens: generation.maxTokens,
+  });
+
+  return { provider, messages, context };
+};
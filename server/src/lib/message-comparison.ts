@@ -0,0 +1,43 @@
+/**
+ * Message Comparisons
+ *
+ * Compare mode answers one prompt with several models at once. Every answer is
+ * a sibling message (same parent, same prompt) streaming through a Redis
+ * stream queue of its own. The first answer sits on the active branch until
+ * the owner picks a winner. Compared answers share `metadata.comparison`.
+ */
+
+import type { Prisma } from "@prisma/client";
+
+export type MessageComparison = {
+  id: string; // Shared by all answers of the comparison
+  modelId: string; // Catalog entry the answer was asked from
+  winnerId?: string; // Set on every answer once a winner is picked
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+/** The comparison a message is an answer of, if any */
+export const getComparison = (
+  metadata: Prisma.JsonValue | undefined
+): MessageComparison | null => {
+  const comparison = isObject(metadata) ? metadata.comparison : undefined;
+  if (
+    !isObject(comparison) ||
+    typeof comparison.id !== "string" ||
+    typeof comparison.modelId !== "string"
+  ) {
+    return null;
+  }
+
+  return {
+    id: comparison.id,
+    modelId: comparison.modelId,
+    ...(typeof comparison.winnerId === "string" && { winnerId: comparison.winnerId }),
+  };
+};
+
+/** Key of a compared answer's stream queue, used in place of the chat id */
+export const getAnswerStreamKey = (chatId: string, messageId: string) =>
+  `${chatId}:${messageId}`;
@@ -0,0 +1,114 @@
+/**
+ * Message Tree Helpers
+ *
+ * A chat is a tree of messages: every message points to the previous turn via
+ * `parentMessageId`, and messages sharing a parent are alternative answers
+ * (regenerations or edited prompts). Only one path through the tree is active
+ * at a time. These helpers work on a flat list of nodes loaded once per chat.
+ */
+
+export interface MessageTreeNode {
+  id: string;
+  parentMessageId: string | null;
+  createdAt: Date;
+}
+
+// Siblings of root messages share the `null` parent, keyed with this constant
+const ROOT_KEY = "__root__";
+
+const parentKey = (node: Pick<MessageTreeNode, "parentMessageId">) =>
+  node.parentMessageId ?? ROOT_KEY;
+
+const byCreatedAt = (a: MessageTreeNode, b: MessageTreeNode) =>
+  a.createdAt.getTime() - b.createdAt.getTime();
+
+/** Group nodes by parent, each group ordered oldest first */
+export const groupByParent = <T extends MessageTreeNode>(
+  nodes: T[]
+): Map<string, T[]> => {
+  const groups = new Map<string, T[]>();
+
+  for (const node of nodes) {
+    const key = parentKey(node);
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(node);
+  }
+
+  for (const group of groups.values()) group.sort(byCreatedAt);
+
+  return groups;
+};
+
+/** Ordered ids of the alternatives to a message, including the message itself */
+export const getSiblingIds = (
+  nodes: MessageTreeNode[],
+  messageId: string
+): string[] => {
+  const target = nodes.find((node) => node.id === messageId);
+  if (!target) return [];
+
+  return (groupByParent(nodes).get(parentKey(target)) ?? []).map((n) => n.id);
+};
+
+/**
+ * Ancestors of a message, from the first turn down to its direct parent.
+ * The message itself is not included.
+ */
+export const getAncestorIds = (
+  nodes: MessageTreeNode[],
+  messageId: string
+): string[] => {
+  const byId = new Map(nodes.map((node) => [node.id, node]));
+  const ancestors: string[] = [];
+  const visited = new Set<string>([messageId]);
+
+  let current = byId.get(messageId)?.parentMessageId ?? null;
+  while (current && !visited.has(current)) {
+    visited.add(current);
+    ancestors.unshift(current);
+    current = byId.get(current)?.parentMessageId ?? null;
+  }
+
+  return ancestors;
+};
+
+/** All descendants of a message (every branch below it), message excluded */
+export const getDescendantIds = (
+  nodes: MessageTreeNode[],
+  messageId: string
+): string[] => {
+  const groups = groupByParent(nodes);
+  const descendants: string[] = [];
+  const queue = [messageId];
+
+  while (queue.length > 0) {
+    const children = groups.get(queue.shift()!) ?? [];
+    for (const child of children) {
+      descendants.push(child.id);
+      queue.push(child.id);
+    }
+  }
+
+  return descendants;
+};
+
+/**
+ * Path that becomes active when a message is selected: the message followed
+ * by the most recent child at every level below it.
+ */
+export const getLatestPathFrom = (
+  nodes: MessageTreeNode[],
+  messageId: string
+): string[] => {
+  const groups = groupByParent(nodes);
+  const path = [messageId];
+
+  let children = groups.get(messageId) ?? [];
+  while (children.length > 0) {
+    const latest = children.at(-1)!;
+    path.push(latest.id);
+    children = groups.get(latest.id) ?? [];
+  }
+
+  return path;
+};
@@ -0,0 +1,172 @@
+/**
+ * Retries and failover for answers that fail before their first byte.
+ *
+ * A model is retried with exponential backoff while its error is transient
+ * (5xx, rate limits, timeouts, dropped connections). After that, or on any
+ * other error, the next model of the owner's fallback chain is tried. Once a
+ * chunk has been streamed nothing is retried: the answer would be written
+ * twice.
+ */
+
+import { DEFAULT_RETRY_POLICY } from "../constants/defaultOwnerSettings";
+import type { AIStreamChunk } from "./ai-providers";
+import { ErrorCode, isUserAbortError, parseApiError } from "./errors";
+
+export interface RetryPolicy {
+  maxRetries: number; // Retries after the first try
+  initialDelayMs: number; // Doubled after every retry
+  maxDelayMs: number;
+}
+
+// What an owner sets for a model, stored in OwnerSettings.extra.modelPolicies by model id
+export type ModelPolicy = {
+  retry?: Partial<RetryPolicy>;
+  fallbackModelIds?: string[]; // Tried in order; their own fallbacks are not followed
+};
+
+export interface FailoverCandidate {
+  provider: string;
+  name: string;
+  retry: RetryPolicy;
+}
+
+// A failed try, recorded in message metadata as `failover.attempts`
+export interface FailoverAttempt {
+  provider: string;
+  model: string;
+  attempt: number;
+  errorCode: ErrorCode;
+  error: string;
+  retried: boolean; // false when the next model was tried instead
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+const parseModelPolicy = (value: unknown): ModelPolicy | undefined => {
+  if (!isObject(value)) return undefined;
+
+  const retry = isObject(value.retry)
+    ? Object.fromEntries(
+        (["maxRetries", "initialDelayMs", "maxDelayMs"] as const)
+          .map((key) => [key, (value.retry as Record<string, unknown>)[key]])
+          .filter(([, setting]) => typeof setting === "number" && setting >= 0)
+      )
+    : undefined;
+  const fallbackModelIds = Array.isArray(value.fallbackModelIds)
+    ? value.fallbackModelIds.filter((id): id is string => typeof id === "string")
+    : undefined;
+
+  return { retry, fallbackModelIds };
+};
+
+/** The owner's model policies, read from OwnerSettings.extra */
+export const getModelPolicies = (extra: unknown): Record<string, ModelPolicy> => {
+  const policies = isObject(extra) ? extra.modelPolicies : undefined;
+  if (!isObject(policies)) return {};
+
+  return Object.fromEntries(
+    Object.entries(policies)
+      .map(([modelId, policy]) => [modelId, parseModelPolicy(policy)] as const)
+      .filter((entry): entry is [string, ModelPolicy] => !!entry[1])
+  );
+};
+
+export const resolveRetryPolicy = (retry?: Partial<RetryPolicy>): RetryPolicy => ({
+  ...DEFAULT_RETRY_POLICY,
+  ...retry,
+});
+
+/** Delay before retry number `retry` (1 for the first retry) */
+export const getBackoffDelay = ({ initialDelayMs, maxDelayMs }: RetryPolicy, retry: number) =>
+  Math.min(initialDelayMs * 2 ** (retry - 1), maxDelayMs);
+
+const TRANSIENT_ERROR_PATTERN = /timed out|timeout|ECONNRESET|ECONNREFUSED|EPIPE|socket hang up|fetch failed|Connection error/i;
+
+// Errors worth trying the same model again for
+export const isTransientError = (errorCode: ErrorCode, error: unknown) =>
+  errorCode === ErrorCode.PROVIDER_UNAVAILABLE ||
+  errorCode === ErrorCode.RATE_LIMIT_EXCEEDED ||
+  TRANSIENT_ERROR_PATTERN.test(error instanceof Error ? error.message : String(error));
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        resolve();
+      },
+      { once: true }
+    );
+  });
+
+/**
+ * Stream an answer from the first candidate that gives one. `prepare` sets a
+ * candidate up once (provider, context, rate limits), `stream` starts one
+ * try; errors of either move on to the next try. Every failed try is reported to
+ * `onFailure`, and when no candidate answers the last error is thrown.
+ */
+export async function* streamWithFailover<C extends FailoverCandidate, P>(
+  candidates: C[],
+  {
+    prepare,
+    stream,
+    signal,
+    onFailure,
+  }: {
+    prepare: (candidate: C) => P | Promise<P>;
+    stream: (prepared: P) => AsyncIterable<AIStreamChunk>;
+    signal?: AbortSignal;
+    onFailure?: (attempt: FailoverAttempt) => void;
+  }
+): AsyncGenerator<{ candidate: C; prepared: P; chunk: AIStreamChunk }> {
+  let lastError: unknown = new Error("No model to answer with");
+
+  const fail = (candidate: C, attempt: number, error: unknown, canRetry: boolean) => {
+    const { code } = parseApiError(error, candidate.provider);
+    const retried = canRetry && attempt <= candidate.retry.maxRetries && isTransientError(code, error);
+
+    lastError = error;
+    onFailure?.({
+      provider: candidate.provider,
+      model: candidate.name,
+      attempt,
+      errorCode: code,
+      error: error instanceof Error ? error.message : String(error),
+      retried,
+    });
+    return retried;
+  };
+
+  for (const candidate of candidates) {
+    let prepared: P;
+    try {
+      prepared = await prepare(candidate);
+    } catch (error) {
+      fail(candidate, 1, error, false);
+      continue;
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      let started = false;
+
+      try {
+        for await (const chunk of stream(prepared)) {
+          started = true;
+          yield { candidate, prepared, chunk };
+        }
+        return;
+      } catch (error) {
+        if (started || signal?.aborted || isUserAbortError(error)) throw error;
+        if (!fail(candidate, attempt, error, true)) break;
+
+        await sleep(getBackoffDelay(candidate.retry, attempt), signal);
+        if (signal?.aborted) throw error;
+      }
+    }
+  }
+
+  throw lastError;
+}
@@ -9,6 +9,7 @@ type RateLimitConfig = {
 const freeTierLimits: Record<string, RateLimitConfig> = {
   openai: { requests: 3, window: 60 }, // 20 requests per hour
   anthropic: { requests: 0, window: 60 * 60 }, // 20 requests per hour
+  gemini: { requests: 0, window: 60 * 60 },
 };
 
 /**
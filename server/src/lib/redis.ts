@@ -104,8 +104,8 @@ export const safeRedisOperation = async <T>(
 export const cacheHelpers = {
   // Cache keys
   keys: {
-    chatList: (ownerId: string, limit: number, cursor?: string) => 
-      `chat:list:${ownerId}:${limit}:${cursor || 'initial'}`,
+    chatList: (ownerId: string, limit: number, cursor?: string, filter = 'all') => 
+      `chat:list:${ownerId}:${filter}:${limit}:${cursor || 'initial'}`,
     chat: (chatId: string) => `chat:${chatId}`,
     ownerChats: (ownerId: string) => `owner:${ownerId}:chats`,
     ownerSettings: (ownerId: string) => `owner:${ownerId}:settings`,
@@ -116,8 +116,8 @@ export const cacheHelpers = {
   },
 
   // Cache a chat list with expiration
-  setChatList: async (ownerId: string, limit: number, cursor: string | undefined, data: any, ttlSeconds = 300) => {
-    const key = cacheHelpers.keys.chatList(ownerId, limit, cursor);
+  setChatList: async (ownerId: string, limit: number, cursor: string | undefined, data: any, ttlSeconds = 300, filter?: string) => {
+    const key = cacheHelpers.keys.chatList(ownerId, limit, cursor, filter);
     return await safeRedisOperation(
       () => redis.setex(key, ttlSeconds, JSON.stringify(data)),
       undefined,
@@ -126,8 +126,8 @@ export const cacheHelpers = {
   },
 
   // Get cached chat list
-  getChatList: async (ownerId: string, limit: number, cursor: string | undefined) => {
-    const key = cacheHelpers.keys.chatList(ownerId, limit, cursor);
+  getChatList: async (ownerId: string, limit: number, cursor: string | undefined, filter?: string) => {
+    const key = cacheHelpers.keys.chatList(ownerId, limit, cursor, filter);
     const cached = await safeRedisOperation(
       () => redis.get(key),
       null,
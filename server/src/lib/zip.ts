@@ -0,0 +1,125 @@
+import { deflateRawSync } from "zlib";
+
+export interface ZipEntry {
+  name: string;
+  data: string | Uint8Array;
+  modifiedAt?: Date;
+}
+
+// ZIP without the 64-bit extensions: limited to 65535 entries of < 4GB
+const MAX_ENTRIES = 0xffff;
+const UTF8_FLAG = 1 << 11;
+const DEFLATE = 8;
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+export function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff]! ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// MS-DOS date and time, local time with 2-second precision
+function dosDateTime(date: Date) {
+  const year = Math.max(date.getFullYear(), 1980);
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+const header = (size: number, write: (view: DataView) => void) => {
+  const bytes = new Uint8Array(size);
+  write(new DataView(bytes.buffer));
+  return bytes;
+};
+
+/**
+ * Stream a ZIP archive while the entries are produced. Each entry is
+ * compressed on its own, so memory stays bounded by the largest entry and
+ * the central directory.
+ */
+export function createZipStream(entries: AsyncIterable<ZipEntry>): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const iterator = entries[Symbol.asyncIterator]();
+  const centralDirectory: Uint8Array[] = [];
+  let offset = 0;
+  let count = 0;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const next = await iterator.next();
+
+      if (next.done) {
+        const directorySize = centralDirectory.reduce((acc, record) => acc + record.length, 0);
+        for (const record of centralDirectory) controller.enqueue(record);
+        controller.enqueue(
+          header(22, (view) => {
+            view.setUint32(0, 0x06054b50, true);
+            view.setUint16(8, count, true);
+            view.setUint16(10, count, true);
+            view.setUint32(12, directorySize, true);
+            view.setUint32(16, offset, true);
+          })
+        );
+        controller.close();
+        return;
+      }
+
+      if (++count > MAX_ENTRIES) {
+        throw new Error(`ZIP archives are limited to ${MAX_ENTRIES} files`);
+      }
+
+      const { name, data, modifiedAt = new Date() } = next.value;
+      const nameBytes = encoder.encode(name);
+      const raw = typeof data === "string" ? encoder.encode(data) : data;
+      const compressed = deflateRawSync(raw);
+      const crc = crc32(raw);
+      const { time, date } = dosDateTime(modifiedAt);
+
+      const writeCommon = (view: DataView, at: number) => {
+        view.setUint16(at, 20, true); // version needed: 2.0
+        view.setUint16(at + 2, UTF8_FLAG, true);
+        view.setUint16(at + 4, DEFLATE, true);
+        view.setUint16(at + 6, time, true);
+        view.setUint16(at + 8, date, true);
+        view.setUint32(at + 10, crc, true);
+        view.setUint32(at + 14, compressed.length, true);
+        view.setUint32(at + 18, raw.length, true);
+        view.setUint16(at + 22, nameBytes.length, true);
+      };
+
+      const localHeader = header(30, (view) => {
+        view.setUint32(0, 0x04034b50, true);
+        writeCommon(view, 4);
+      });
+
+      centralDirectory.push(
+        header(46, (view) => {
+          view.setUint32(0, 0x02014b50, true);
+          view.setUint16(4, 20, true); // version made by
+          writeCommon(view, 6);
+          view.setUint32(42, offset, true);
+        }),
+        nameBytes
+      );
+
+      controller.enqueue(localHeader);
+      controller.enqueue(nameBytes);
+      controller.enqueue(compressed);
+      offset += localHeader.length + nameBytes.length + compressed.length;
+    },
+
+    async cancel() {
+      await iterator.return?.();
+    },
+  });
+}
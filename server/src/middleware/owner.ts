@@ -1,7 +1,10 @@
+import type { Context as HonoContext } from "hono";
+import { getCookie } from "hono/cookie";
 import { middleware } from "../trpc";
 import { auth } from "../auth";
 import { PrismaClient } from "@prisma/client";
 import { DEFAULT_OWNER_SETTINGS } from "../constants/defaultOwnerSettings";
+import { SESSION_COOKIE_NAME } from "./tracker";
 
 const prisma = new PrismaClient();
 
@@ -160,4 +163,28 @@ export const withOwner = middleware(async ({ ctx, next }) => {
       },
     });
   }
-}); 
\ No newline at end of file
+}); 
+
+// Owner of a plain Hono request (routes outside tRPC). Unlike withOwner it never
+// creates anything: requests without a known user or session get null.
+export async function findRequestOwner(c: HonoContext) {
+  if (process.env.NODE_ENV === "test" && c.req.header('by-pass-auth') === 'true' && process.env.TEST_USER_ID) {
+    return prisma.owner.findUnique({ where: { userId: process.env.TEST_USER_ID } });
+  }
+
+  try {
+    const session = await auth.api.getSession({ headers: c.req.raw.headers });
+    if (session) {
+      return prisma.owner.findUnique({ where: { userId: session.user.id } });
+    }
+  } catch (error) {
+    console.warn("Error checking auth session:", error);
+  }
+
+  const sessionId = getCookie(c, SESSION_COOKIE_NAME);
+  if (!sessionId) {
+    return null;
+  }
+
+  return prisma.owner.findFirst({ where: { anonUser: { sessionId } } });
+}
@@ -3,7 +3,7 @@ import { getCookie, setCookie } from 'hono/cookie';
 import { updateTracker } from "../services/tracker.service";
 import { middleware } from "../trpc";
 
-const SESSION_COOKIE_NAME = "session_id";
+export const SESSION_COOKIE_NAME = "session_id";
 const SESSION_DURATION_DAYS = 30;
 
 // Helper function to get the client IP address
@@ -0,0 +1,30 @@
+import { z } from "zod";
+import { CHAT_SETTINGS_LIMITS } from "../constants/defaultChatSettings";
+
+/**
+ * Generation settings a chat can override, within CHAT_SETTINGS_LIMITS;
+ * `null` leaves the value to the default. Shared by `chat.updateSettings`
+ * and chat imports.
+ */
+export const chatSettingsSchema = z.object({
+  systemPrompt: z
+    .string()
+    .max(CHAT_SETTINGS_LIMITS.systemPromptMaxLength)
+    .nullable(),
+  temperature: z
+    .number()
+    .min(CHAT_SETTINGS_LIMITS.temperature.min)
+    .max(CHAT_SETTINGS_LIMITS.temperature.max)
+    .nullable(),
+  maxTokens: z
+    .number()
+    .int()
+    .min(CHAT_SETTINGS_LIMITS.maxTokens.min)
+    .max(CHAT_SETTINGS_LIMITS.maxTokens.max)
+    .nullable(),
+  topP: z
+    .number()
+    .min(CHAT_SETTINGS_LIMITS.topP.min)
+    .max(CHAT_SETTINGS_LIMITS.topP.max)
+    .nullable(),
+});
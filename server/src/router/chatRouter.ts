@@ -2,10 +2,57 @@ import { z } from "zod";
 import { router } from "../trpc";
 import { withOwnerProcedure } from "../procedures";
 import { PrismaClient } from "@prisma/client";
+import { TRPCError } from "@trpc/server";
 import { cacheHelpers } from "../lib/redis";
+import {
+  CHAT_ORGANIZATION_LIMITS,
+  DEFAULT_CHAT_SETTINGS,
+  DEFAULT_SUMMARY_SETTINGS,
+} from "../constants/defaultChatSettings";
+import { FALLBACK_MODEL } from "../constants/defaultOwnerSettings";
+import { buildChatExport, importChats } from "../services/chat-export.service";
+import { readImportFile } from "../services/chat-import.service";
+import { getOwnerCredentials } from "../services/credentials.service";
+import { forkChat } from "../services/fork.service";
+import { getImportJob } from "../services/import-job.service";
+import { getUsableModels } from "../services/model-policy.service";
+import { ownerEvents, publishOwnerEvent } from "../services/owner-events.service";
+import { searchChats } from "../services/search.service";
+import {
+  createShareToken,
+  getShareSnapshotMessageIds,
+  isShareLinkExpired,
+} from "../services/share.service";
+import { getActiveSummary, summarizeChat } from "../services/summary.service";
+import { applyTagChanges, listOwnerTags } from "../services/tags.service";
+import { emptyTrash, purgeChats, purgeDate } from "../services/trash.service";
+import { enforceFreeTierRateLimit, enforceMonthlyBudget } from "../services/request-limits.service";
+import { generateChatTitle, TITLE_MODEL } from "../services/title.service";
+import { chatSettingsSchema } from "./chat.settings";
 
 const prisma = new PrismaClient();
 
+const chatIdsSchema = z
+  .array(z.string())
+  .min(1, "Select at least one chat")
+  .max(CHAT_ORGANIZATION_LIMITS.maxBulkChats);
+
+const tagSchema = z.string().trim().min(1).max(CHAT_ORGANIZATION_LIMITS.tagMaxLength);
+
+// Bulk actions only touch the requester's chats; unknown ids are an error
+const findOwnedChatIds = async (ownerId: string, ids: string[]) => {
+  const chats = await prisma.chat.findMany({
+    where: { id: { in: ids }, ownerId, isDeleted: false },
+    select: { id: true },
+  });
+
+  if (chats.length !== new Set(ids).size) {
+    throw new Error("Chat not found");
+  }
+
+  return chats.map((chat) => chat.id);
+};
+
 export const chatRouter = router({
   // Query all chats for the current user/session with pagination
   getAll: withOwnerProcedure
@@ -13,6 +60,9 @@ export const chatRouter = router({
       z.object({
         limit: z.number().min(1).max(50).default(10),
         cursor: z.string().optional(), // cursor for pagination
+        folderId: z.string().nullable().optional(), // null lists chats outside any folder
+        tag: tagSchema.optional(),
+        pinned: z.boolean().optional(),
       }).optional().default({})
     )
     .query(async ({ input, ctx }) => {
@@ -24,10 +74,14 @@ export const chatRouter = router({
         };
       }
 
-      const { limit, cursor } = input;
+      const { limit, cursor, folderId, tag, pinned } = input;
+      const filter =
+        folderId === undefined && tag === undefined && pinned === undefined
+          ? undefined
+          : JSON.stringify([folderId, tag, pinned]);
 
       // Try to get from cache first
-      const cachedResult = await cacheHelpers.getChatList(ctx.owner.id, limit, cursor);
+      const cachedResult = await cacheHelpers.getChatList(ctx.owner.id, limit, cursor, filter);
       if (cachedResult) {
         return cachedResult;
       }
@@ -36,6 +90,9 @@ export const chatRouter = router({
         where: {
           ownerId: ctx.owner.id,
           isDeleted: false,
+          ...(folderId !== undefined && { folderId }),
+          ...(tag && { tags: { has: tag } }),
+          ...(pinned !== undefined && { isPinned: pinned }),
         },
         include: {
           messages: {
@@ -46,7 +103,13 @@ export const chatRouter = router({
             select: { messages: true },
           },
         },
-        orderBy: { createdAt: "desc" },
+        // Pinned first, then the manual order, then newest
+        orderBy: [
+          { isPinned: "desc" },
+          { sortOrder: { sort: "asc", nulls: "last" } },
+          { createdAt: "desc" },
+          { id: "desc" },
+        ],
         take: limit + 1, // Take one extra to determine if there are more
         cursor: cursor ? { id: cursor } : undefined,
         skip: cursor ? 1 : 0, // Skip the cursor item itself
@@ -62,11 +125,40 @@ export const chatRouter = router({
         nextCursor,
       };
 
-      await cacheHelpers.setChatList(ctx.owner.id, limit, cursor, result, 300);
+      await cacheHelpers.setChatList(ctx.owner.id, limit, cursor, result, 300, filter);
 
       return result;
     }),
 
+  // Changes made to the owner's chats from other tabs and devices, over SSE
+  onOwnerEvent: withOwnerProcedure.subscription(async function* ({ ctx, signal }) {
+    if (!ctx.owner) {
+      throw new Error("Owner not found");
+    }
+
+    yield* ownerEvents(ctx.owner.id, signal);
+  }),
+
+  // Full-text search over chat titles and messages, newest first
+  search: withOwnerProcedure
+    .input(
+      z.object({
+        query: z.string().trim().min(1, "Search query is required").max(200),
+        limit: z.number().min(1).max(50).default(20),
+        cursor: z.string().optional(),
+      })
+    )
+    .query(async ({ input, ctx }) => {
+      if (!ctx.owner) {
+        return {
+          hits: [],
+          nextCursor: null,
+        };
+      }
+
+      return searchChats(ctx.owner.id, input);
+    }),
+
   // Get a specific chat by ID
   getById: withOwnerProcedure
     .input(z.object({ id: z.string() }))
@@ -96,6 +188,9 @@ export const chatRouter = router({
               anonUser: true,
             },
           },
+          forkedFrom: {
+            select: { id: true, title: true },
+          },
         },
       });
 
@@ -130,10 +225,10 @@ export const chatRouter = router({
         throw new Error("Chat not found");
       }
 
-      // Soft delete the chat
+      // Soft delete the chat; it stays in the trash until the retention period ends
       const deletedChat = await prisma.chat.update({
         where: { id: input.id },
-        data: { isDeleted: true },
+        data: { isDeleted: true, deletedAt: new Date() },
       });
 
       // Invalidate cache for this owner and specific chat
@@ -141,37 +236,154 @@ export const chatRouter = router({
         cacheHelpers.invalidateOwnerCache(ctx.owner.id),
         cacheHelpers.invalidateChat(input.id)
       ]);
+      await publishOwnerEvent(ctx.owner.id, { type: "chat.deleted", chatIds: [deletedChat.id] });
 
       return { success: true, chatId: deletedChat.id };
     }),
 
   // Delete all chats for the current user/owner (soft delete)
   deleteAll: withOwnerProcedure
-    .mutation(async ({ ctx }) => {
+    .input(
+      z.object({
+        dryRun: z.boolean().default(false), // only count the chats that would be deleted
+      }).optional().default({})
+    )
+    .mutation(async ({ input, ctx }) => {
       if (!ctx.owner) {
         throw new Error("Owner not found");
       }
 
+      const where = {
+        ownerId: ctx.owner.id,
+        isDeleted: false,
+      };
+
+      if (input.dryRun) {
+        return {
+          success: true,
+          dryRun: true,
+          deletedCount: await prisma.chat.count({ where }),
+        };
+      }
+
       // Soft delete all chats belonging to the owner
       const result = await prisma.chat.updateMany({
-        where: {
-          ownerId: ctx.owner.id,
-          isDeleted: false,
-        },
+        where,
         data: {
           isDeleted: true,
+          deletedAt: new Date(),
         },
       });
 
       // Invalidate all cache for this owner
       await cacheHelpers.invalidateOwnerCache(ctx.owner.id);
+      await publishOwnerEvent(ctx.owner.id, { type: "chats.changed" });
 
       return {
         success: true,
+        dryRun: false,
         deletedCount: result.count
       };
     }),
 
+  // Chats in the trash, most recently deleted first
+  listDeleted: withOwnerProcedure
+    .input(
+      z.object({
+        limit: z.number().min(1).max(50).default(20),
+        cursor: z.string().optional(),
+      }).optional().default({})
+    )
+    .query(async ({ input, ctx }) => {
+      if (!ctx.owner) {
+        return {
+          chats: [],
+          nextCursor: null,
+        };
+      }
+
+      const { limit, cursor } = input;
+
+      const chats = await prisma.chat.findMany({
+        where: {
+          ownerId: ctx.owner.id,
+          isDeleted: true,
+        },
+        select: {
+          id: true,
+          title: true,
+          createdAt: true,
+          deletedAt: true,
+          _count: {
+            select: { messages: true },
+          },
+        },
+        orderBy: [{ deletedAt: { sort: "desc", nulls: "last" } }, { id: "desc" }],
+        take: limit + 1,
+        cursor: cursor ? { id: cursor } : undefined,
+        skip: cursor ? 1 : 0,
+      });
+
+      const hasMore = chats.length > limit;
+      const chatList = hasMore ? chats.slice(0, -1) : chats;
+
+      return {
+        chats: chatList.map((chat) => ({
+          ...chat,
+          purgeAt: purgeDate(chat.deletedAt ?? chat.createdAt),
+        })),
+        nextCursor: hasMore ? chatList[chatList.length - 1]?.id ?? null : null,
+      };
+    }),
+
+  // Move chats out of the trash
+  restore: withOwnerProcedure
+    .input(z.object({ ids: chatIdsSchema }))
+    .mutation(async ({ input, ctx }) => {
+      if (!ctx.owner) {
+        throw new Error("Owner not found");
+      }
+
+      const result = await prisma.chat.updateMany({
+        where: {
+          id: { in: input.ids },
+          ownerId: ctx.owner.id,
+          isDeleted: true,
+        },
+        data: {
+          isDeleted: false,
+          deletedAt: null,
+        },
+      });
+
+      if (result.count === 0) {
+        throw new Error("Chat not found");
+      }
+
+      await Promise.all([
+        cacheHelpers.invalidateOwnerCache(ctx.owner.id),
+        ...input.ids.map((id) => cacheHelpers.invalidateChat(id)),
+      ]);
+      await publishOwnerEvent(ctx.owner.id, { type: "chat.restored", chatIds: input.ids });
+
+      return { success: true, restoredCount: result.count };
+    }),
+
+  // Permanently remove chats from the trash; omit ids to empty the whole trash
+  purge: withOwnerProcedure
+    .input(z.object({ ids: chatIdsSchema.optional() }))
+    .mutation(async ({ input, ctx }) => {
+      if (!ctx.owner) {
+        throw new Error("Owner not found");
+      }
+
+      const purgedCount = input.ids
+        ? await purgeChats({ ownerId: ctx.owner.id, ids: input.ids })
+        : await emptyTrash(ctx.owner.id);
+
+      return { success: true, purgedCount };
+    }),
+
   // Update chat title/description
   update: withOwnerProcedure
     .input(
@@ -223,107 +435,461 @@ export const chatRouter = router({
         cacheHelpers.invalidateOwnerCache(ctx.owner.id),
         cacheHelpers.invalidateChat(input.id)
       ]);
+      await publishOwnerEvent(ctx.owner.id, {
+        type: "chat.updated",
+        chatIds: [input.id],
+        title: input.title,
+      });
 
       return updatedChat;
     }),
 
-  // Export all chats for the current user/owner
-  export: withOwnerProcedure
-    .query(async ({ ctx }) => {
+  // Tags used on the requester's chats, with chat counts
+  getTags: withOwnerProcedure.query(async ({ ctx }) => {
+    if (!ctx.owner) {
+      return [];
+    }
+
+    return listOwnerTags(ctx.owner.id);
+  }),
+
+  // Move chats into a folder (null takes them out of any folder)
+  move: withOwnerProcedure
+    .input(
+      z.object({
+        ids: chatIdsSchema,
+        folderId: z.string().nullable(),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
       if (!ctx.owner) {
         throw new Error("Owner not found");
       }
 
-      // Get all chats with their messages for this owner
-      const chats = await prisma.chat.findMany({
+      if (input.folderId) {
+        const folder = await prisma.chatFolder.findFirst({
+          where: { id: input.folderId, ownerId: ctx.owner.id },
+        });
+
+        if (!folder) {
+          throw new Error("Folder not found");
+        }
+      }
+
+      const ids = await findOwnedChatIds(ctx.owner.id, input.ids);
+
+      // The manual order only applies within a group, start over at the end of the new one
+      const result = await prisma.chat.updateMany({
+        where: { id: { in: ids } },
+        data: { folderId: input.folderId, sortOrder: null },
+      });
+
+      await Promise.all([
+        cacheHelpers.invalidateOwnerCache(ctx.owner.id),
+        ...ids.map((id) => cacheHelpers.invalidateChat(id)),
+      ]);
+      await publishOwnerEvent(ctx.owner.id, { type: "chat.updated", chatIds: ids });
+
+      return { success: true, count: result.count };
+    }),
+
+  // Add and remove tags on several chats at once
+  tag: withOwnerProcedure
+    .input(
+      z.object({
+        ids: chatIdsSchema,
+        add: z.array(tagSchema).max(CHAT_ORGANIZATION_LIMITS.maxTagsPerChat).default([]),
+        remove: z.array(tagSchema).max(CHAT_ORGANIZATION_LIMITS.maxTagsPerChat).default([]),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      if (!ctx.owner) {
+        throw new Error("Owner not found");
+      }
+
+      const ids = await findOwnedChatIds(ctx.owner.id, input.ids);
+      const [chats, knownTags] = await Promise.all([
+        prisma.chat.findMany({
+          where: { id: { in: ids } },
+          select: { id: true, tags: true },
+        }),
+        listOwnerTags(ctx.owner.id),
+      ]);
+
+      const updates = chats.map((chat) => ({
+        id: chat.id,
+        tags: applyTagChanges(
+          chat.tags,
+          { add: input.add, remove: input.remove },
+          knownTags.map(({ tag }) => tag)
+        ),
+      }));
+
+      await prisma.$transaction(
+        updates.map(({ id, tags }) =>
+          prisma.chat.update({ where: { id }, data: { tags } })
+        )
+      );
+
+      await Promise.all([
+        cacheHelpers.invalidateOwnerCache(ctx.owner.id),
+        ...ids.map((id) => cacheHelpers.invalidateChat(id)),
+      ]);
+      await publishOwnerEvent(ctx.owner.id, { type: "chat.updated", chatIds: ids });
+
+      return { success: true, chats: updates };
+    }),
+
+  // Pin or unpin chats; pinned chats are listed first
+  pin: withOwnerProcedure
+    .input(
+      z.object({
+        ids: chatIdsSchema,
+        isPinned: z.boolean(),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      if (!ctx.owner) {
+        throw new Error("Owner not found");
+      }
+
+      const ids = await findOwnedChatIds(ctx.owner.id, input.ids);
+
+      const result = await prisma.chat.updateMany({
+        where: { id: { in: ids } },
+        data: { isPinned: input.isPinned },
+      });
+
+      await Promise.all([
+        cacheHelpers.invalidateOwnerCache(ctx.owner.id),
+        ...ids.map((id) => cacheHelpers.invalidateChat(id)),
+      ]);
+      await publishOwnerEvent(ctx.owner.id, { type: "chat.updated", chatIds: ids });
+
+      return { success: true, count: result.count };
+    }),
+
+  // Save a manual order: chats are listed in the order of `ids`
+  reorder: withOwnerProcedure
+    .input(z.object({ ids: chatIdsSchema }))
+    .mutation(async ({ input, ctx }) => {
+      if (!ctx.owner) {
+        throw new Error("Owner not found");
+      }
+
+      await findOwnedChatIds(ctx.owner.id, input.ids);
+
+      await prisma.$transaction(
+        input.ids.map((id, index) =>
+          prisma.chat.update({ where: { id }, data: { sortOrder: index } })
+        )
+      );
+
+      await cacheHelpers.invalidateOwnerCache(ctx.owner.id);
+      await publishOwnerEvent(ctx.owner.id, { type: "chat.updated", chatIds: input.ids });
+
+      return { success: true };
+    }),
+
+  // Copy the chat up to a message into a new chat to continue in another direction
+  fork: withOwnerProcedure
+    .input(
+      z.object({
+        id: z.string(),
+        messageId: z.string(),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      if (!ctx.owner) {
+        throw new Error("Owner not found");
+      }
+
+      const fork = await forkChat({
+        ownerId: ctx.owner.id,
+        chatId: input.id,
+        messageId: input.messageId,
+      });
+
+      await cacheHelpers.invalidateOwnerCache(ctx.owner.id);
+      await publishOwnerEvent(ctx.owner.id, { type: "chat.created", chatId: fork.id });
+
+      return fork;
+    }),
+
+  // Chat this chat was forked from; null for original chats or a deleted source
+  getForkSource: withOwnerProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ input, ctx }) => {
+      if (!ctx.owner) {
+        throw new Error("Owner not found");
+      }
+
+      const chat = await prisma.chat.findFirst({
+        where: { id: input.id, ownerId: ctx.owner.id, isDeleted: false },
+        select: {
+          forkedFromMessageId: true,
+          forkedFrom: {
+            select: { id: true, title: true, isDeleted: true },
+          },
+        },
+      });
+
+      if (!chat) {
+        throw new Error("Chat not found");
+      }
+
+      if (!chat.forkedFrom || chat.forkedFrom.isDeleted) {
+        return null;
+      }
+
+      return {
+        chatId: chat.forkedFrom.id,
+        title: chat.forkedFrom.title,
+        messageId: chat.forkedFromMessageId,
+      };
+    }),
+
+  // Share link of a chat, if any
+  getShareLink: withOwnerProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ input, ctx }) => {
+      if (!ctx.owner) {
+        throw new Error("Owner not found");
+      }
+
+      const chat = await prisma.chat.findFirst({
+        where: { id: input.id, ownerId: ctx.owner.id, isDeleted: false },
+        select: { shareLink: true },
+      });
+
+      if (!chat) {
+        throw new Error("Chat not found");
+      }
+
+      return chat.shareLink
+        ? { ...chat.shareLink, isExpired: isShareLinkExpired(chat.shareLink) }
+        : null;
+    }),
+
+  // Share a read-only snapshot of the chat as it is now. Calling it again
+  // updates the snapshot and expiry but keeps the link, unless it expired.
+  createShareLink: withOwnerProcedure
+    .input(
+      z.object({
+        id: z.string(),
+        expiresInDays: z.number().int().min(1).max(365).nullable().default(null), // null never expires
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      if (!ctx.owner) {
+        throw new Error("Owner not found");
+      }
+
+      const chat = await prisma.chat.findFirst({
+        where: { id: input.id, ownerId: ctx.owner.id, isDeleted: false },
+        select: { shareLink: true },
+      });
+
+      if (!chat) {
+        throw new Error("Chat not found");
+      }
+
+      const now = new Date();
+      const data = {
+        snapshotAt: now,
+        messageIds: await getShareSnapshotMessageIds(input.id),
+        expiresAt: input.expiresInDays
+          ? new Date(now.getTime() + input.expiresInDays * 24 * 60 * 60 * 1000)
+          : null,
+      };
+      const token =
+        chat.shareLink && !isShareLinkExpired(chat.shareLink, now)
+          ? chat.shareLink.token
+          : createShareToken();
+
+      return prisma.chatShareLink.upsert({
+        where: { chatId: input.id },
+        update: { ...data, token },
+        create: { ...data, token, chatId: input.id },
+      });
+    }),
+
+  // Stop sharing the chat; the old link stops working for good
+  revokeShareLink: withOwnerProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ input, ctx }) => {
+      if (!ctx.owner) {
+        throw new Error("Owner not found");
+      }
+
+      const result = await prisma.chatShareLink.deleteMany({
+        where: { chatId: input.id, chat: { ownerId: ctx.owner.id } },
+      });
+
+      if (result.count === 0) {
+        throw new Error("Share link not found");
+      }
+
+      return { success: true, chatId: input.id };
+    }),
+
+  // Name the chat again from its first exchange
+  regenerateTitle: withOwnerProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ input, ctx }) => {
+      if (!ctx.owner) {
+        throw new Error("Owner not found");
+      }
+
+      const chat = await prisma.chat.findFirst({
         where: {
+          id: input.id,
           ownerId: ctx.owner.id,
           isDeleted: false,
         },
-        include: {
-          messages: {
-            orderBy: { createdAt: "asc" },
-            include: {
-              model: {
-                select: {
-                  id: true,
-                  name: true,
-                  provider: true,
-                },
-              },
-            },
-          },
-          model: {
-            select: {
-              id: true,
-              name: true,
-              provider: true,
-            },
-          },
+        select: { id: true },
+      });
+
+      if (!chat) {
+        throw new Error("Chat not found");
+      }
+
+      // Naming is a paid request like any other
+      const apiKeys = await getOwnerCredentials(ctx.owner.id);
+      await enforceMonthlyBudget(ctx.owner.id);
+      await enforceFreeTierRateLimit(ctx.owner.id, TITLE_MODEL, apiKeys);
+
+      const title = await generateChatTitle({
+        ownerId: ctx.owner.id,
+        chatId: chat.id,
+        apiKeys,
+      });
+
+      if (!title) {
+        throw new Error("Could not generate a title for this chat");
+      }
+
+      return { id: chat.id, title };
+    }),
+
+  // Get generation settings of a chat (null = default) along with the defaults
+  getSettings: withOwnerProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ input, ctx }) => {
+      if (!ctx.owner) {
+        throw new Error("Owner not found");
+      }
+
+      const chat = await prisma.chat.findFirst({
+        where: {
+          id: input.id,
+          ownerId: ctx.owner.id,
+          isDeleted: false,
+        },
+        select: {
+          systemPrompt: true,
+          temperature: true,
+          maxTokens: true,
+          topP: true,
         },
-        orderBy: { createdAt: "desc" },
       });
 
-      // Get owner info for context
-      const ownerInfo = await prisma.owner.findUnique({
-        where: { id: ctx.owner.id },
-        include: {
-          user: {
-            select: {
-              id: true,
-              name: true,
-              email: true,
-            },
-          },
-          anonUser: {
-            select: {
-              id: true,
-              sessionId: true,
-            },
-          },
+      if (!chat) {
+        throw new Error("Chat not found");
+      }
+
+      return {
+        settings: chat,
+        defaults: DEFAULT_CHAT_SETTINGS,
+      };
+    }),
+
+  // Update system prompt and generation parameters (null resets to default)
+  updateSettings: withOwnerProcedure
+    .input(chatSettingsSchema.partial().extend({ id: z.string() }))
+    .mutation(async ({ input, ctx }) => {
+      if (!ctx.owner) {
+        throw new Error("Owner not found");
+      }
+
+      // Verify the chat belongs to the user/session
+      const existingChat = await prisma.chat.findFirst({
+        where: {
+          id: input.id,
+          ownerId: ctx.owner.id,
+          isDeleted: false,
         },
       });
 
-      // Format the export data
-      const exportData = {
-        version: "1.0",
-        exportDate: new Date().toISOString(),
-        owner: {
-          id: ctx.owner.id,
-          type: ownerInfo?.user ? "authenticated" : "anonymous",
-          user: ownerInfo?.user || null,
-          anonUser: ownerInfo?.anonUser || null,
+      if (!existingChat) {
+        throw new Error("Chat not found");
+      }
+
+      // Only touch the fields that were sent; blank prompts are stored as null
+      const { id, ...settings } = input;
+      if (settings.systemPrompt !== undefined) {
+        settings.systemPrompt = settings.systemPrompt?.trim() || null;
+      }
+
+      const updatedChat = await prisma.chat.update({
+        where: { id },
+        data: settings,
+        select: {
+          id: true,
+          systemPrompt: true,
+          temperature: true,
+          maxTokens: true,
+          topP: true,
         },
-        stats: {
-          totalChats: chats.length,
-          totalMessages: chats.reduce((acc, chat) => acc + chat.messages.length, 0),
+      });
+
+      // Invalidate cache for this specific chat
+      await cacheHelpers.invalidateChat(id);
+
+      return updatedChat;
+    }),
+
+  // Get the summary used for the active branch and whether summaries run automatically
+  getSummary: withOwnerProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ input, ctx }) => {
+      if (!ctx.owner) {
+        throw new Error("Owner not found");
+      }
+
+      const chat = await prisma.chat.findFirst({
+        where: {
+          id: input.id,
+          ownerId: ctx.owner.id,
+          isDeleted: false,
         },
-        chats: chats.map(chat => ({
-          id: chat.id,
-          title: chat.title,
-          description: chat.description,
-          createdAt: chat.createdAt.toISOString(),
-          model: chat.model,
-          messageCount: chat.messages.length,
-          messages: chat.messages.map(message => ({
-            id: message.id,
-            userContent: message.userContent,
-            agentContent: message.agentContent,
-            status: message.status,
-            model: message.model,
-            createdAt: message.createdAt.toISOString(),
-          })),
-        })),
-      };
+        select: { id: true },
+      });
+
+      if (!chat) {
+        throw new Error("Chat not found");
+      }
+
+      const [summary, ownerSettings] = await Promise.all([
+        getActiveSummary(chat.id),
+        prisma.ownerSettings.findUnique({
+          where: { ownerId: ctx.owner.id },
+          select: { autoSummarize: true },
+        }),
+      ]);
 
-      return exportData;
+      return {
+        summary,
+        autoSummarize: ownerSettings?.autoSummarize ?? false,
+      };
     }),
 
-  // Import chats from JSON data
-  import: withOwnerProcedure
+  // Replace the summary text by hand
+  updateSummary: withOwnerProcedure
     .input(
       z.object({
-        jsonData: z.string().min(1, "JSON data is required"),
+        id: z.string(),
+        content: z.string().trim().min(1).max(DEFAULT_SUMMARY_SETTINGS.maxLength),
       })
     )
     .mutation(async ({ input, ctx }) => {
@@ -331,120 +897,195 @@ export const chatRouter = router({
         throw new Error("Owner not found");
       }
 
-      let parsedData;
-      try {
-        parsedData = JSON.parse(input.jsonData);
-      } catch (error) {
-        throw new Error("Invalid JSON format");
+      const chat = await prisma.chat.findFirst({
+        where: {
+          id: input.id,
+          ownerId: ctx.owner.id,
+          isDeleted: false,
+        },
+        select: { id: true },
+      });
+
+      if (!chat) {
+        throw new Error("Chat not found");
+      }
+
+      // Keep the covered range when editing a summary of the active branch
+      const activeSummary = await getActiveSummary(chat.id);
+
+      return prisma.chatSummary.upsert({
+        where: { chatId: chat.id },
+        update: {
+          content: input.content,
+          isEdited: true,
+          ...(activeSummary
+            ? {}
+            : { summarizedUpToMessageId: null, summarizedMessageCount: 0 }),
+        },
+        create: {
+          chatId: chat.id,
+          content: input.content,
+          isEdited: true,
+        },
+      });
+    }),
+
+  // Summarize the older part of the chat now, ignoring the token threshold
+  summarize: withOwnerProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ input, ctx }) => {
+      if (!ctx.owner) {
+        throw new Error("Owner not found");
+      }
+
+      const chat = await prisma.chat.findFirst({
+        where: {
+          id: input.id,
+          ownerId: ctx.owner.id,
+          isDeleted: false,
+        },
+        select: { id: true, modelId: true },
+      });
+
+      if (!chat) {
+        throw new Error("Chat not found");
       }
 
-      // Validate the structure of the imported data
-      if (!parsedData.chats || !Array.isArray(parsedData.chats)) {
-        throw new Error("Invalid export format: 'chats' array is required");
+      // Summarized by the chat's model, which the owner must still be able to use
+      const [model] = chat.modelId ? await getUsableModels(ctx.owner.id, [chat.modelId]) : [FALLBACK_MODEL];
+      if (!model) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Model not found or not accessible",
+        });
       }
 
-      const importResults = {
-        successful: 0,
-        failed: 0,
-        errors: [] as string[],
-        importedChatIds: [] as string[],
+      const apiKeys = await getOwnerCredentials(ctx.owner.id);
+      await enforceMonthlyBudget(ctx.owner.id);
+      await enforceFreeTierRateLimit(ctx.owner.id, model, apiKeys);
+
+      const summary = await summarizeChat({
+        ownerId: ctx.owner.id,
+        chatId: chat.id,
+        model,
+        apiKeys,
+        force: true,
+      });
+
+      return {
+        summary,
+        message: summary
+          ? "Chat summary updated"
+          : "Nothing to summarize yet",
       };
+    }),
 
-      // Validate all chats first and prepare data
-      const validChats = [];
-      for (const chatData of parsedData.chats) {
-        if (!chatData.title || !chatData.messages || !Array.isArray(chatData.messages)) {
-          importResults.failed++;
-          importResults.errors.push(`Chat "${chatData.title || 'Untitled'}" is missing required fields`);
-          continue;
-        }
-        validChats.push(chatData);
+  // Remove the summary; the next request sends the plain history again
+  deleteSummary: withOwnerProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ input, ctx }) => {
+      if (!ctx.owner) {
+        throw new Error("Owner not found");
       }
 
-      if (validChats.length === 0) {
-        return {
-          success: true,
-          results: importResults,
-          message: `Import completed: ${importResults.successful} chats imported successfully, ${importResults.failed} failed`,
-        };
+      const chat = await prisma.chat.findFirst({
+        where: {
+          id: input.id,
+          ownerId: ctx.owner.id,
+          isDeleted: false,
+        },
+        select: { id: true },
+      });
+
+      if (!chat) {
+        throw new Error("Chat not found");
       }
 
-      try {
-        // Prepare all chat data for batch creation
-        const chatsToCreate = validChats.map(chatData => {
-          const chatCreatedAt = chatData.createdAt ? new Date(chatData.createdAt) : new Date();
-          return {
-            title: chatData.title,
-            description: chatData.description || "",
-            ownerId: ctx.owner!.id, // We already checked ctx.owner exists above
-            createdAt: chatCreatedAt,
-            // Note: We're not importing modelId to avoid reference issues
-          };
-        });
+      await prisma.chatSummary.deleteMany({ where: { chatId: chat.id } });
 
-        // Batch create all chats
-        const createdChats = await prisma.chat.createManyAndReturn({
-          data: chatsToCreate,
-        });
+      return { success: true, chatId: chat.id };
+    }),
 
-        // Now prepare all messages for batch creation
-        const allMessagesToCreate = [];
-        for (let i = 0; i < validChats.length; i++) {
-          const chatData = validChats[i];
-          const createdChat = createdChats[i];
-          if (!createdChat) {
-            console.error(`Created chat at index ${i} is undefined`);
-            continue;
-          }
-          const chatCreatedAt = chatData.createdAt ? new Date(chatData.createdAt) : new Date();
-
-          if (chatData.messages.length > 0) {
-            const messagesForThisChat = chatData.messages.map((messageData: any, messageIndex: number) => {
-              // Preserve original createdAt timestamp if available, otherwise use incremental timestamps
-              const messageCreatedAt = messageData.createdAt 
-                ? new Date(messageData.createdAt) 
-                : new Date(chatCreatedAt.getTime() + (messageIndex * 1000)); // Add 1 second per message for ordering
-              
-              return {
-                content: messageData.content || "",
-                from: messageData.from || "user",
-                chatId: createdChat.id,
-                createdAt: messageCreatedAt,
-                // Note: We're not importing modelId to avoid reference issues
-              };
-            });
-            
-            allMessagesToCreate.push(...messagesForThisChat);
-          }
-        }
+  // Export all chats for the current user/owner in the versioned export format
+  export: withOwnerProcedure
+    .query(async ({ ctx }) => {
+      if (!ctx.owner) {
+        throw new Error("Owner not found");
+      }
 
-        // Batch insert ALL messages at once
-        if (allMessagesToCreate.length > 0) {
-          await prisma.message.createMany({
-            data: allMessagesToCreate,
-          });
-        }
+      return buildChatExport(ctx.owner.id);
+    }),
 
-        // Update success metrics
-        importResults.successful = createdChats.length;
-        importResults.importedChatIds = createdChats.map(chat => chat.id);
+  // Preview what an import file contains without saving anything
+  previewImport: withOwnerProcedure
+    .input(
+      z.object({
+        jsonData: z.string().min(1, "JSON data is required"),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      if (!ctx.owner) {
+        throw new Error("Owner not found");
+      }
+
+      const { format, chats } = readImportFile(input.jsonData);
 
-      } catch (error) {
-        importResults.failed = validChats.length;
-        importResults.errors.push(`Batch import failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
-        console.error("Batch import error:", error);
+      return {
+        format,
+        chats: chats.map(({ index, title, chat, error }) => ({
+          index,
+          title,
+          createdAt: chat?.createdAt ?? null,
+          messageCount: chat?.messages.length ?? 0,
+          error: error ?? null,
+        })),
+      };
+    }),
+
+  // Import chats from a tea4chat (current or 1.0 format), ChatGPT or Claude export
+  import: withOwnerProcedure
+    .input(
+      z.object({
+        jsonData: z.string().min(1, "JSON data is required"),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      if (!ctx.owner) {
+        throw new Error("Owner not found");
       }
 
-      // Invalidate cache for this owner after import
-      await cacheHelpers.invalidateOwnerCache(ctx.owner.id);
+      const { format, chats } = readImportFile(input.jsonData);
+      const importResults = await importChats(ctx.owner.id, chats);
+
+      if (importResults.successful > 0) {
+        await cacheHelpers.invalidateOwnerCache(ctx.owner.id);
+        await publishOwnerEvent(ctx.owner.id, { type: "chats.changed" });
+      }
 
       return {
         success: true,
+        format,
         results: importResults,
         message: `Import completed: ${importResults.successful} chats imported successfully, ${importResults.failed} failed`,
       };
     }),
 
+  // Progress of a background import started from /api/import
+  getImportJob: withOwnerProcedure
+    .input(z.object({ jobId: z.string() }))
+    .query(async ({ input, ctx }) => {
+      if (!ctx.owner) {
+        throw new Error("Owner not found");
+      }
+
+      const job = await getImportJob(input.jobId, ctx.owner.id);
+      if (!job) {
+        throw new Error("Import not found");
+      }
+
+      return job;
+    }),
+
   // Get unsynced anonymous chats that can be imported to the current authenticated user
   getUnsyncedAnonymousChats: withOwnerProcedure
     .query(async ({ ctx }) => {
@@ -651,10 +1292,11 @@ export const chatRouter = router({
       // Transfer ownership of each chat to the authenticated user's owner
       for (const chatData of chatsToSync) {
         try {
-          // Update the chat to belong to the authenticated user's owner
+          // Update the chat to belong to the authenticated user's owner. Its
+          // folder stays with the anonymous owner, so it lands unfiled
           await prisma.chat.update({
             where: { id: chatData.id },
-            data: { ownerId: ctx.owner.id }
+            data: { ownerId: ctx.owner.id, folderId: null }
           });
 
           syncedChats++;
@@ -666,6 +1308,7 @@ export const chatRouter = router({
 
       // Invalidate cache for this owner after sync
       await cacheHelpers.invalidateOwnerCache(ctx.owner.id);
+      await publishOwnerEvent(ctx.owner.id, { type: "chats.changed" });
 
       return {
         success: true,
@@ -707,6 +1350,7 @@ export const chatRouter = router({
 
       // Invalidate cache for this owner
       await cacheHelpers.invalidateOwnerCache(ctx.owner.id);
+      await publishOwnerEvent(ctx.owner.id, { type: "chat.created", chatId: newChat.id });
 
       return newChat;
     }),
@@ -0,0 +1,116 @@
+import { Hono } from "hono";
+import { z } from "zod";
+import { createZipStream } from "../lib/zip";
+import { findRequestOwner } from "../middleware/owner";
+import { chatExportLines } from "../services/chat-export.service";
+import {
+    chatDocumentEntries,
+    chatDocumentFileName,
+    getDocumentChat,
+    renderChatDocument,
+} from "../services/chat-document.service";
+
+// Chat documents are downloaded from plain routes: a zip of every chat can be far
+// larger than what a tRPC response (or the 10MB body limit) comfortably carries
+
+const exportRoutes = new Hono();
+
+const formatSchema = z.enum(["markdown", "html"]).default("markdown");
+
+const CONTENT_TYPES = {
+    markdown: "text/markdown; charset=utf-8",
+    html: "text/html; charset=utf-8",
+} as const;
+
+// Exported pages are opened from our origin, so nothing in them may run
+const DOCUMENT_CSP = "default-src 'none'; style-src 'unsafe-inline'; img-src * data:";
+
+const attachment = (fileName: string) =>
+    `attachment; filename="${fileName.replace(/"/g, "")}"; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+
+// All chats, one document per chat, streamed as a zip
+exportRoutes.get("/chats", async (c) => {
+    const owner = await findRequestOwner(c);
+    if (!owner) {
+        return c.json({ error: "Not authenticated" }, 401);
+    }
+
+    const format = formatSchema.safeParse(c.req.query("format"));
+    if (!format.success) {
+        return c.json({ error: "Unsupported format" }, 400);
+    }
+
+    const date = new Date().toISOString().split("T")[0];
+    const zip = createZipStream(chatDocumentEntries(owner.id, format.data));
+
+    return new Response(zip, {
+        headers: {
+            "Content-Type": "application/zip",
+            "Content-Disposition": attachment(`tea4chat-chats-${date}.zip`),
+            "Cache-Control": "no-store",
+        },
+    });
+});
+
+// Every chat in the import format, one JSON object per line after a header line
+exportRoutes.get("/chats.ndjson", async (c) => {
+    const owner = await findRequestOwner(c);
+    if (!owner) {
+        return c.json({ error: "Not authenticated" }, 401);
+    }
+
+    const encoder = new TextEncoder();
+    const lines = chatExportLines(owner.id);
+    const body = new ReadableStream<Uint8Array>({
+        async pull(controller) {
+            const next = await lines.next();
+            if (next.done) {
+                controller.close();
+            } else {
+                controller.enqueue(encoder.encode(next.value));
+            }
+        },
+        async cancel() {
+            await lines.return(undefined);
+        },
+    });
+
+    const date = new Date().toISOString().split("T")[0];
+
+    return new Response(body, {
+        headers: {
+            "Content-Type": "application/x-ndjson; charset=utf-8",
+            "Content-Disposition": attachment(`tea4chat-export-${date}.ndjson`),
+            "Cache-Control": "no-store",
+        },
+    });
+});
+
+// A single chat; ?inline=true opens it in the browser (e.g. to print as PDF)
+exportRoutes.get("/chats/:id", async (c) => {
+    const owner = await findRequestOwner(c);
+    if (!owner) {
+        return c.json({ error: "Not authenticated" }, 401);
+    }
+
+    const format = formatSchema.safeParse(c.req.query("format"));
+    if (!format.success) {
+        return c.json({ error: "Unsupported format" }, 400);
+    }
+
+    const chat = await getDocumentChat(owner.id, c.req.param("id"));
+    if (!chat) {
+        return c.json({ error: "Chat not found" }, 404);
+    }
+
+    const fileName = chatDocumentFileName(chat, format.data);
+
+    return c.body(renderChatDocument(chat, format.data), 200, {
+        "Content-Type": CONTENT_TYPES[format.data],
+        "Content-Disposition": c.req.query("inline") === "true" ? "inline" : attachment(fileName),
+        "Content-Security-Policy": DOCUMENT_CSP,
+        "Cache-Control": "no-store",
+    });
+});
+
+export default exportRoutes;
@@ -0,0 +1,151 @@
+import { z } from "zod";
+import { router } from "../trpc";
+import { withOwnerProcedure } from "../procedures";
+import { PrismaClient } from "@prisma/client";
+import { cacheHelpers } from "../lib/redis";
+import { CHAT_ORGANIZATION_LIMITS } from "../constants/defaultChatSettings";
+
+const prisma = new PrismaClient();
+
+const folderNameSchema = z
+  .string()
+  .trim()
+  .min(1, "Folder name is required")
+  .max(CHAT_ORGANIZATION_LIMITS.folderNameMaxLength);
+
+const ensureUniqueName = async (ownerId: string, name: string) => {
+  const existing = await prisma.chatFolder.findUnique({
+    where: { ownerId_name: { ownerId, name } },
+  });
+
+  if (existing) {
+    throw new Error(`A folder named "${name}" already exists`);
+  }
+};
+
+export const folderRouter = router({
+  /**
+   * List the requester's folders in their manual order, with chat counts.
+   */
+  list: withOwnerProcedure.query(async ({ ctx }) => {
+    if (!ctx.owner) {
+      return [];
+    }
+
+    return prisma.chatFolder.findMany({
+      where: { ownerId: ctx.owner.id },
+      include: {
+        _count: {
+          select: { chats: { where: { isDeleted: false } } },
+        },
+      },
+      orderBy: [{ sortOrder: "asc" }, { name: "asc" }],
+    });
+  }),
+
+  /**
+   * Create a folder at the end of the requester's list.
+   */
+  create: withOwnerProcedure
+    .input(z.object({ name: folderNameSchema }))
+    .mutation(async ({ input, ctx }) => {
+      if (!ctx.owner) {
+        throw new Error("Owner not found");
+      }
+
+      await ensureUniqueName(ctx.owner.id, input.name);
+
+      const last = await prisma.chatFolder.findFirst({
+        where: { ownerId: ctx.owner.id },
+        orderBy: { sortOrder: "desc" },
+        select: { sortOrder: true },
+      });
+
+      return prisma.chatFolder.create({
+        data: {
+          ownerId: ctx.owner.id,
+          name: input.name,
+          sortOrder: (last?.sortOrder ?? -1) + 1,
+        },
+      });
+    }),
+
+  /**
+   * Rename one of the requester's folders.
+   */
+  update: withOwnerProcedure
+    .input(z.object({ id: z.string(), name: folderNameSchema }))
+    .mutation(async ({ input, ctx }) => {
+      if (!ctx.owner) {
+        throw new Error("Owner not found");
+      }
+
+      const folder = await prisma.chatFolder.findFirst({
+        where: { id: input.id, ownerId: ctx.owner.id },
+      });
+
+      if (!folder) {
+        throw new Error("Folder not found");
+      }
+
+      if (input.name !== folder.name) {
+        await ensureUniqueName(ctx.owner.id, input.name);
+      }
+
+      return prisma.chatFolder.update({
+        where: { id: input.id },
+        data: { name: input.name },
+      });
+    }),
+
+  /**
+   * Delete a folder. Its chats are kept and move out of any folder.
+   */
+  delete: withOwnerProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ input, ctx }) => {
+      if (!ctx.owner) {
+        throw new Error("Owner not found");
+      }
+
+      const result = await prisma.chatFolder.deleteMany({
+        where: { id: input.id, ownerId: ctx.owner.id },
+      });
+
+      if (result.count === 0) {
+        throw new Error("Folder not found");
+      }
+
+      await cacheHelpers.invalidateOwnerCache(ctx.owner.id);
+
+      return { success: true, folderId: input.id };
+    }),
+
+  /**
+   * Save the folder order: folders are listed in the order of `ids`.
+   */
+  reorder: withOwnerProcedure
+    .input(z.object({ ids: z.array(z.string()).min(1) }))
+    .mutation(async ({ input, ctx }) => {
+      if (!ctx.owner) {
+        throw new Error("Owner not found");
+      }
+
+      const ownerId = ctx.owner.id;
+      const count = await prisma.chatFolder.count({
+        where: { id: { in: input.ids }, ownerId },
+      });
+
+      if (count !== new Set(input.ids).size) {
+        throw new Error("Folder not found");
+      }
+
+      await prisma.$transaction(
+        input.ids.map((id, index) =>
+          prisma.chatFolder.update({ where: { id }, data: { sortOrder: index } })
+        )
+      );
+
+      return { success: true };
+    }),
+});
@@ -0,0 +1,104 @@
+import { Hono } from "hono";
+import { z } from "zod";
+import { CHAT_IMPORT_LIMITS } from "../constants/defaultChatSettings";
+import { findRequestOwner } from "../middleware/owner";
+import {
+    cancelImportJob,
+    createImportJob,
+    getImportJob,
+    saveImportChunk,
+    startImportJob,
+} from "../services/import-job.service";
+
+// Large imports are uploaded in chunks that each fit the request body limit,
+// then processed by a background job whose progress is polled with chat.getImportJob
+
+const importRoutes = new Hono();
+
+const createJobSchema = z.object({
+    fileName: z.string().min(1).max(255),
+    size: z.number().int().positive(),
+});
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : "Import failed");
+
+importRoutes.post("/", async (c) => {
+    const owner = await findRequestOwner(c);
+    if (!owner) {
+        return c.json({ error: "Not authenticated" }, 401);
+    }
+
+    const body = createJobSchema.safeParse(await c.req.json().catch(() => null));
+    if (!body.success) {
+        return c.json({ error: "Expected a file name and size" }, 400);
+    }
+
+    try {
+        return c.json(await createImportJob(owner.id, body.data), 201);
+    } catch (error) {
+        return c.json({ error: errorMessage(error) }, 400);
+    }
+});
+
+importRoutes.put("/:jobId/chunks/:index", async (c) => {
+    const owner = await findRequestOwner(c);
+    if (!owner) {
+        return c.json({ error: "Not authenticated" }, 401);
+    }
+
+    const job = await getImportJob(c.req.param("jobId"), owner.id);
+    if (!job) {
+        return c.json({ error: "Import not found" }, 404);
+    }
+
+    const length = Number(c.req.header("Content-Length"));
+    if (length > CHAT_IMPORT_LIMITS.chunkBytes) {
+        return c.json({ error: "Chunk too large" }, 413);
+    }
+
+    try {
+        const data = new Uint8Array(await c.req.arrayBuffer());
+        return c.json(await saveImportChunk(job, Number(c.req.param("index")), data));
+    } catch (error) {
+        return c.json({ error: errorMessage(error) }, 400);
+    }
+});
+
+importRoutes.post("/:jobId/start", async (c) => {
+    const owner = await findRequestOwner(c);
+    if (!owner) {
+        return c.json({ error: "Not authenticated" }, 401);
+    }
+
+    const job = await getImportJob(c.req.param("jobId"), owner.id);
+    if (!job) {
+        return c.json({ error: "Import not found" }, 404);
+    }
+
+    try {
+        return c.json(await startImportJob(job), 202);
+    } catch (error) {
+        return c.json({ error: errorMessage(error) }, 400);
+    }
+});
+
+importRoutes.delete("/:jobId", async (c) => {
+    const owner = await findRequestOwner(c);
+    if (!owner) {
+        return c.json({ error: "Not authenticated" }, 401);
+    }
+
+    const job = await getImportJob(c.req.param("jobId"), owner.id);
+    if (!job) {
+        return c.json({ error: "Import not found" }, 404);
+    }
+
+    try {
+        await cancelImportJob(job);
+        return c.body(null, 204);
+    } catch (error) {
+        return c.json({ error: errorMessage(error) }, 409);
+    }
+});
+
+export default importRoutes;
@@ -1,17 +1,25 @@
 import { adminProcedure, withOwnerProcedure } from "../procedures";
 import { router } from "../trpc";
 import { chatRouter } from "./chatRouter";
+import { folderRouter } from "./folderRouter";
 import { messageRouter } from "./messageRouter";
 import { modelRouter } from "./modelRouter";
+import { presetRouter } from "./presetRouter";
 import { settingsRouter } from "./settingsRouter";
+import { shareRouter } from "./shareRouter";
 import { trackerRouter } from "./trackerRouter";
+import { usageRouter } from "./usageRouter";
 
 export const appRouter = router({
   tracker: trackerRouter,
   chat: chatRouter,
+  folder: folderRouter,
   message: messageRouter,
   model: modelRouter,
+  preset: presetRouter,
   settings: settingsRouter,
+  share: shareRouter,
+  usage: usageRouter,
   // hello: withOwnerProcedure
   //   .input(z.object({ name: z.string().optional() }))
   //   .query(async ({ input, ctx }) => {
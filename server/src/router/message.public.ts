@@ -12,6 +12,7 @@ export const publicMessageSelect = {
   // Metadata
   status: true,
   finishedAt: true,
+  parentMessageId: true,
 
   // Analytics (optional)
   promptTokens: true,
@@ -1,22 +1,58 @@
+import { randomUUID } from "crypto";
 import {
   MessageStatus,
   PrismaClient,
+  type Prisma,
   type ModelCatalog,
 } from "@prisma/client";
 import { TRPCError } from "@trpc/server";
 import { z } from "zod";
+import {
+  COMPARE_LIMITS,
+  DEFAULT_CONTEXT_SETTINGS,
+} from "../constants/defaultChatSettings";
 import { FALLBACK_MODEL } from "../constants/defaultOwnerSettings";
 import {
-  createAIProviderFromModel,
   type AIMessage,
   type AIProvider,
+  type AIStreamTiming,
+  type AIUsage,
+  type OwnerCredentials,
 } from "../lib/ai-providers";
+import {
+  turnsAfter,
+  type ContextReport,
+  type ContextTurn,
+} from "../lib/context-builder";
 import { ErrorCode, STREAM_ERROR_MESSAGES } from "../lib/errors";
+import {
+  generationMetadata,
+  prepareGeneration,
+  resolveGenerationSettings,
+  type ChatSettings,
+} from "../lib/generation-settings";
 import {
   createIsolatedStream,
   type IsolatedStreamCallbacks,
 } from "../lib/isolated-stream";
-import { checkFreeTierRateLimit } from "../lib/rate-limit";
+import {
+  streamWithFailover,
+  type FailoverAttempt,
+} from "../lib/provider-failover";
+import { assertPublicEndpoint } from "../lib/endpoint-policy";
+import {
+  getAnswerStreamKey,
+  getComparison,
+  type MessageComparison,
+} from "../lib/message-comparison";
+import {
+  getAncestorIds,
+  getDescendantIds,
+  getLatestPathFrom,
+  getSiblingIds,
+  groupByParent,
+  type MessageTreeNode,
+} from "../lib/message-tree";
 import { cacheHelpers } from "../lib/redis";
 import {
   createStreamQueue,
@@ -29,6 +65,17 @@ import {
   streamAbortRegistry,
 } from "../lib/stream-abort-registry";
 import { streamingProcedure, withOwnerProcedure } from "../procedures/base";
+import {
+  getActiveSummary,
+  summarizeChatInBackground,
+} from "../services/summary.service";
+import { getOwnerCredentials } from "../services/credentials.service";
+import { getFailoverCandidates, getUsableModels } from "../services/model-policy.service";
+import { publishOwnerEvent } from "../services/owner-events.service";
+import { findUsablePreset } from "../services/preset.service";
+import { canAutoTitle, fallbackTitle, generateChatTitle } from "../services/title.service";
+import { enforceFreeTierRateLimit, enforceMonthlyBudget } from "../services/request-limits.service";
+import { estimateUsage, recordUsage } from "../services/usage.service";
 import { router } from "../trpc";
 import { publicMessageSelect, type PublicMessage } from "./message.public";
 
@@ -78,6 +125,7 @@ const fetchOlderMessages = async (
   const messages = await prisma.message.findMany({
     where: {
       chatId,
+      isActive: true,
       finishedAt: { lt: cursorDate },
       status: {
         in: [
@@ -103,6 +151,7 @@ const fetchNewerMessages = async (
   return await prisma.message.findMany({
     where: {
       chatId,
+      isActive: true,
       finishedAt: { gt: cursorDate },
       // completed, aborted, failed
       status: {
@@ -125,7 +174,7 @@ const fetchStreamingMessage = async (
   // cursorDate: Date //TODO: support this
 ): Promise<PublicMessage | null> => {
   const latestMessage = await prisma.message.findFirst({
-    where: { chatId },
+    where: { chatId, isActive: true },
     orderBy: { createdAt: "desc" },
     take: 1,
     select: publicMessageSelect,
@@ -141,32 +190,644 @@ const fetchStreamingMessage = async (
   return null;
 };
 
+/**
+ * Answers of the comparison at the end of the active branch, in the order
+ * the models were picked, while any of them is streaming: only the first
+ * is on the branch, so a client coming back needs all of them to follow
+ * every column. Empty otherwise.
+ */
+const fetchStreamingComparison = async (chatId: string): Promise<PublicMessage[]> => {
+  const latestMessage = await prisma.message.findFirst({
+    where: { chatId, isActive: true },
+    orderBy: { createdAt: "desc" },
+    select: { parentMessageId: true, metadata: true },
+  });
+  const comparison = getComparison(latestMessage?.metadata);
+  if (!latestMessage || !comparison) return [];
+
+  const answers = await prisma.message.findMany({
+    where: {
+      chatId,
+      parentMessageId: latestMessage.parentMessageId,
+      metadata: { path: ["comparison", "id"], equals: comparison.id },
+    },
+    orderBy: { createdAt: "asc" },
+    select: publicMessageSelect,
+  });
+
+  const isStreaming = answers.some(
+    ({ status }) =>
+      status === MessageStatus.STARTED || status === MessageStatus.STREAMING
+  );
+  return isStreaming ? answers : [];
+};
+
+// Loads the chat as a flat tree (ids and parents only) for branch operations
+const fetchChatTree = (chatId: string) =>
+  prisma.message.findMany({
+    where: { chatId },
+    select: { id: true, parentMessageId: true, createdAt: true },
+  });
+
+/**
+ * Alternatives for each given message that has more than one ("2 / 3"),
+ * keyed by message id and ordered oldest first.
+ */
+const fetchSiblingIds = async (
+  chatId: string,
+  messageIds: string[]
+): Promise<Record<string, string[]>> => {
+  if (messageIds.length === 0) return {};
+
+  const groups = groupByParent(await fetchChatTree(chatId));
+  const siblings: Record<string, string[]> = {};
+
+  for (const group of groups.values()) {
+    if (group.length < 2) continue;
+    const ids = group.map((node) => node.id);
+    for (const id of ids) {
+      if (messageIds.includes(id)) siblings[id] = ids;
+    }
+  }
+
+  return siblings;
+};
+
+/**
+ * Updates that move the chat's active branch onto a message: its siblings
+ * and everything below them leave the branch, the message and its newest
+ * path down join it.
+ */
+const activateBranch = (tree: MessageTreeNode[], messageId: string) => {
+  const inactiveIds = getSiblingIds(tree, messageId)
+    .filter((id) => id !== messageId)
+    .flatMap((id) => [id, ...getDescendantIds(tree, id)]);
+  const activeIds = getLatestPathFrom(tree, messageId);
+
+  return [
+    prisma.message.updateMany({
+      where: { id: { in: inactiveIds } },
+      data: { isActive: false },
+    }),
+    prisma.message.updateMany({
+      where: { id: { in: activeIds } },
+      data: { isActive: true },
+    }),
+  ];
+};
+
 // Helper function to determine which model to use
+type ModelToUse = Pick<ModelCatalog, "provider" | "name"> &
+  Partial<Pick<ModelCatalog, "id" | "extra" | "endpoint">>;
+
+// The picked model, else the chat's one. Either must be enabled and usable by
+// the owner: custom models carry their owner's endpoint and headers
 const determineModelToUse = async ({
+  ownerId,
   modelId,
   chatModel,
 }: {
+  ownerId: string;
   modelId?: string;
-  chatModel?: Pick<ModelCatalog, "provider" | "name"> | null;
-}): Promise<Pick<ModelCatalog, "provider" | "name">> => {
-  if (modelId) {
-    const model = await prisma.modelCatalog.findUnique({
-      where: { id: modelId },
-      select: { provider: true, name: true },
+  chatModel?: ModelToUse | null;
+}): Promise<ModelToUse> => {
+  const id = modelId ?? chatModel?.id;
+  if (!id) return FALLBACK_MODEL;
+
+  const [model] = await getUsableModels(ownerId, [id]);
+  if (!model) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Model not found or not accessible",
     });
+  }
+
+  return model;
+};
+
+// Chats are named once, after the answer to their very first prompt: a
+// root turn with no earlier root. Compared answers to that prompt are all
+// roots, created in order, so only the first of them names the chat; later
+// regenerations and edits of it are roots too, but not the earliest.
+const isFirstMessage = async (chatId: string, message: PublicMessage) =>
+  !message.parentMessageId &&
+  !(await prisma.message.findFirst({
+    where: {
+      chatId,
+      parentMessageId: null,
+      createdAt: { lt: message.createdAt },
+    },
+    select: { id: true },
+  }));
+
+/**
+ * Streams the agent answer for an already created (STARTED) message.
+ * Shared by every procedure that produces a new message: plain sends,
+ * regenerations, edits and compared answers. A compared answer streams
+ * through its own queue, and leaves the chat's stop flag to the comparison.
+ */
+async function* streamAgentResponse({
+  ownerId,
+  chatId,
+  combinedMessage,
+  history,
+  modelToUse,
+  credentials,
+  chatSettings,
+  comparison,
+}: {
+  ownerId: string;
+  chatId: string;
+  combinedMessage: PublicMessage;
+  history: ContextTurn[];
+  modelToUse: ModelToUse;
+  credentials: OwnerCredentials;
+  chatSettings: ChatSettings;
+  comparison?: MessageComparison;
+}) {
+  const generation = resolveGenerationSettings(chatSettings);
+  const streamKey = comparison
+    ? getAnswerStreamKey(chatId, combinedMessage.id)
+    : chatId;
+
+  // Register this stream for potential abortion
+  const streamId = createStreamId(streamKey, ownerId);
+  const abortController = streamAbortRegistry.register(streamId);
+
+  // Create streaming process function
+  const streamAIResponse = async ({
+    enqueue,
+    close,
+    error,
+  }: IsolatedStreamCallbacks<StreamMessage>) => {
+    let aiProvider: undefined | AIProvider;
+    let redisStreamQueue: ReturnType<typeof createStreamQueue> | null =
+      null;
+    let fullContent = "";
+    const failures: FailoverAttempt[] = [];
+    // The model answering, set with its first chunk
+    let answer:
+      | {
+          model: ModelToUse;
+          provider: AIProvider;
+          messages: AIMessage[];
+          context: ContextReport;
+        }
+      | undefined;
+
+    // Add the answer to the owner's daily usage ledger, once. Answers ending
+    // without the provider's final chunk (stopped, failed midway) cost all
+    // the same, so their usage is estimated
+    let isBilled = false;
+    const billAnswer = async (usage?: AIUsage) => {
+      if (isBilled || !answer) return;
+      isBilled = true;
+
+      await recordUsage({
+        ownerId,
+        provider: answer.model.provider,
+        model: answer.model.name,
+        usage: usage ?? estimateUsage(answer.provider, answer.messages, fullContent),
+      });
+    };
+
+    // Why the models tried before the one that answered didn't
+    const failoverMetadata = () =>
+      failures.length > 0 && {
+        failover: {
+          requested: { provider: modelToUse.provider, model: modelToUse.name },
+          attempts: failures.map((failure) => ({ ...failure })),
+        },
+      };
+
+    try {
+      // Create Redis stream queue for persistent streaming (allows other clients to join)
+      redisStreamQueue = createStreamQueue(streamKey, {
+        batchTimeMs: 1000,
+        maxBatchSize: 100,
+        expireAfterSeconds: 3600, // 1 hour
+      });
+
+      // Helper function to enqueue to both current stream and Redis stream
+      const dualEnqueue = async (message: StreamMessage) => {
+        // Enqueue to current client stream (real-time for initiating client)
+        enqueue(message);
+
+        // Enqueue to Redis stream (persistent for other clients/page refreshes)
+        if (redisStreamQueue) await redisStreamQueue.enqueue(message);
+        else console.error("Redis stream queue not created");
+      };
+
+      // First, enqueue the message start to Redis stream
+      await redisStreamQueue.enqueue({
+        type: "messageStart",
+        message: combinedMessage as MessageType,
+        chatId: chatId,
+      });
+
+      // Check if already aborted before starting
+      if (abortController.signal.aborted) {
+        error(
+          new TRPCError({
+            code: "CLIENT_CLOSED_REQUEST",
+            message: STREAM_ERROR_MESSAGES.ABORTED_BEFORE_START,
+          })
+        );
+        return;
+      }
+
+      // The chat summary stands in for the turns it covers
+      const summary = await getActiveSummary(chatId);
+
+      // The model asked for, then its fallbacks when it fails before answering
+      const candidates = await getFailoverCandidates(ownerId, modelToUse);
+
+      // Create AI provider using the abstraction
+      const prepareModel = async (model: ModelToUse) => {
+        // The model asked for was checked before the message was created;
+        // fallbacks count against the free tier once they are tried
+        if (model !== candidates[0]) {
+          await enforceFreeTierRateLimit(ownerId, model, credentials);
+        }
+        // Checked again on every use: a host may resolve elsewhere since it was saved
+        if (model.endpoint) {
+          await assertPublicEndpoint(model.endpoint);
+        }
+
+        const prepared = prepareGeneration({
+          model,
+          credentials,
+          generation,
+          history: turnsAfter(history, summary?.summarizedUpToMessageId),
+          userContent: combinedMessage.userContent,
+          summary: summary?.content,
+        });
+        aiProvider = prepared.provider;
+        return prepared;
+      };
+
+      // Update message status to STREAMING, recording what was asked for;
+      // the model that answers is recorded once the answer is complete
+      await prisma.message.update({
+        where: { id: combinedMessage.id },
+        data: {
+          status: MessageStatus.STREAMING,
+          metadata: {
+            generation: generationMetadata(modelToUse, generation),
+            ...(comparison && { comparison: { ...comparison } }),
+          },
+        },
+      });
+
+      // Check abort signal after async operation
+      if (abortController.signal.aborted) {
+        error(
+          new TRPCError({
+            code: "CLIENT_CLOSED_REQUEST",
+            message: STREAM_ERROR_MESSAGES.ABORTED_DURING_PROCESSING,
+          })
+        );
+        return;
+      }
+
+      console.log(
+        `Streaming with ${modelToUse.provider} provider using model ${modelToUse.name}`
+      );
+
+      // Usage and timing arrive with the provider's final chunk
+      let usage: AIUsage | undefined;
+      let timing: AIStreamTiming | undefined;
+
+      // Stream the response using the AI provider abstraction
+      for await (const { candidate, prepared, chunk } of streamWithFailover(candidates, {
+        prepare: prepareModel,
+        stream: ({ provider, messages }) => provider.streamResponse(messages),
+        signal: abortController.signal,
+        onFailure: (failure) => {
+          console.warn(
+            `${failure.provider}/${failure.model} failed (attempt ${failure.attempt}): ${failure.error}`
+          );
+          failures.push(failure);
+        },
+      })) {
+        answer ??= { model: candidate, ...prepared };
+
+        // Check Redis stop flag for this chat
+        const stopKey = `stop-stream:${chatId}`;
+        const shouldStop = await redisUtil.exists(stopKey);
+        if (shouldStop) {
+          console.log(
+            `🛑 Stop requested for chat ${chatId}. Halting AI response stream.`
+          );
+          break;
+        }
+
+        if (chunk.content && !chunk.isComplete) {
+          fullContent += chunk.content;
+          await dualEnqueue({
+            type: "agentChunk",
+            messageId: combinedMessage.id,
+            chunk: chunk.content,
+            chatId: chatId,
+          });
+        }
+
+        if (chunk.isComplete) {
+          usage = chunk.usage;
+          timing = chunk.timing;
+          break;
+        }
+      }
+
+      // The model that actually answered, and why the ones before it didn't
+      const answeredBy = answer?.model ?? modelToUse;
+
+      // Update the combined message with complete agent content
+      const updatedMessage = await prisma.message.update({
+        where: { id: combinedMessage.id },
+        data: {
+          metadata: {
+            generation: generationMetadata(answeredBy, generation),
+            ...(answer && { context: { ...answer.context } }),
+            ...(comparison && { comparison: { ...comparison } }),
+            ...failoverMetadata(),
+          },
+          agentContent: fullContent,
+          status: MessageStatus.COMPLETED,
+          finishedAt: new Date(),
+          promptTokens: usage?.promptTokens,
+          completionTokens: usage?.completionTokens,
+          totalTokens: usage?.totalTokens,
+          providerLatencyMs: timing?.providerLatencyMs,
+          firstByteMs: timing?.firstByteMs,
+        },
+        select: publicMessageSelect,
+      });
+      // console.log("UPDATED AI MESSAGE", updatedAiMessage);
+
+      await billAnswer(usage);
+
+      // Fold older turns into the chat summary once the chat grows long
+      summarizeChatInBackground({
+        ownerId,
+        chatId,
+        model: answeredBy,
+        apiKeys: credentials,
+      });
+
+      // Emit the final complete message to both streams
+      await dualEnqueue({
+        type: "messageComplete",
+        message: updatedMessage as MessageType,
+        chatId: chatId,
+      });
+
+      // Flush any remaining Redis stream events
+      await redisStreamQueue.cleanup();
+
+      // Invalidate chat cache - this will always run even if client disconnects
+      await Promise.all([
+        cacheHelpers.invalidateChat(chatId),
+        cacheHelpers.invalidateOwnerCache(ownerId),
+      ]);
+
+      // Mark the stream as complete
+      close();
+
+      // Replace the placeholder title of a new chat. Naming takes another
+      // provider call, so it runs detached; the title reaches clients as an
+      // owner event. Without a key of their own the placeholder title stays
+      if (canAutoTitle(credentials) && (await isFirstMessage(chatId, combinedMessage))) {
+        generateChatTitle({
+          ownerId,
+          chatId,
+          apiKeys: credentials,
+        }).catch((err) => {
+          console.error("Failed to generate chat title:", err);
+        });
+      }
+    } catch (err) {
+      console.error("Error in AI streaming process:", err);
+
+      await billAnswer();
+
+      // The answer will not go on: keep what streamed and mark it failed, so
+      // it isn't left streaming for clients that load or join it later
+      try {
+        const failedMessage = await prisma.message.update({
+          where: { id: combinedMessage.id },
+          data: {
+            metadata: {
+              generation: generationMetadata(modelToUse, generation),
+              ...(comparison && { comparison: { ...comparison } }),
+              ...failoverMetadata(),
+            },
+            agentContent: fullContent,
+            status: MessageStatus.FAILED,
+            errorReason: (err as Error)?.message || "Streaming error",
+            finishedAt: new Date(),
+          },
+          select: publicMessageSelect,
+        });
+        await redisStreamQueue?.enqueue({
+          type: "messageComplete",
+          message: failedMessage as MessageType,
+          chatId: chatId,
+        });
+        await Promise.all([
+          cacheHelpers.invalidateChat(chatId),
+          cacheHelpers.invalidateOwnerCache(ownerId),
+        ]);
+      } catch (updateErr) {
+        console.error("Failed to mark the answer as failed:", updateErr);
+      }
+
+      // Convert provider-specific errors to TRPCError with custom data
+      if (err instanceof TRPCError) {
+        error(err);
+      } else {
+        const errorMessage = (err as any)?.message || "Streaming error";
+        const providerName = aiProvider?.name || "unknown";
+
+        // Check for specific error patterns from AI providers
+        if (
+          errorMessage.includes("API key") ||
+          errorMessage.includes("unauthorized") ||
+          errorMessage.includes("Invalid API key")
+        ) {
+          error(
+            new TRPCError({
+              code: "UNAUTHORIZED",
+              message: `${providerName} API key not configured or invalid. Please check your API key in settings.`,
+              cause: {
+                errorCode: ErrorCode.API_KEY_INVALID,
+                provider: providerName,
+              },
+            })
+          );
+        } else if (
+          errorMessage.includes("rate limit") ||
+          errorMessage.includes("Rate limit")
+        ) {
+          error(
+            new TRPCError({
+              code: "TOO_MANY_REQUESTS",
+              message: "Rate limit exceeded. Please try again later.",
+              cause: {
+                errorCode: ErrorCode.RATE_LIMIT_EXCEEDED,
+                provider: providerName,
+              },
+            })
+          );
+        } else if (
+          errorMessage.includes("quota") ||
+          errorMessage.includes("billing")
+        ) {
+          error(
+            new TRPCError({
+              code: "FORBIDDEN",
+              message: "Quota exceeded. Please check your billing.",
+              cause: {
+                errorCode: ErrorCode.QUOTA_EXCEEDED,
+                provider: providerName,
+              },
+            })
+          );
+        } else {
+          error(
+            new TRPCError({
+              code: "INTERNAL_SERVER_ERROR",
+              message: errorMessage,
+              cause: {
+                errorCode: ErrorCode.PROVIDER_UNAVAILABLE,
+                provider: providerName,
+              },
+            })
+          );
+        }
+      }
+    } finally {
+      // Always cleanup both streams when done
+      streamAbortRegistry.cleanup(streamId);
+
+      // Cleanup Redis stream queue
+      if (redisStreamQueue) {
+        redisStreamQueue.cleanup();
+      }
+
+      // Cleanup stop flag if it was set
+      if (!comparison) {
+        const stopKey = `stop-stream:${chatId}`;
+        await redisUtil.del(stopKey);
+      }
+    }
+  };
 
-    if (!model) throw new Error("Model not found");
+  // Create isolated iterator with streaming process, so that if request drops; request can still complete
+  const stream = createIsolatedStream<StreamMessage>(streamAIResponse);
 
-    return { provider: model.provider, name: model.name };
-  } else if (chatModel) {
-    return {
-      provider: chatModel.provider,
-      name: chatModel.name,
+  // Forward items to the client only while the connection is active
+  for await (const item of stream) {
+    yield item;
+  }
+}
+
+/**
+ * Creates an alternative to an existing message (a sibling sharing its
+ * parent), moves the chat's active branch onto it and streams the answer.
+ */
+async function* branchFromMessage({
+  ownerId,
+  messageId,
+  content,
+  modelId,
+}: {
+  ownerId: string;
+  messageId: string;
+  content?: string;
+  modelId?: string;
+}) {
+  const target = await prisma.message.findFirst({
+    where: {
+      id: messageId,
+      chat: { ownerId, isDeleted: false },
+    },
+    include: { chat: { include: { model: true } } },
+  });
+
+  if (!target) {
+    throw new Error("Message not found");
+  }
+  // Its answer would be left streaming off the active branch
+  if (
+    target.status === MessageStatus.STARTED ||
+    target.status === MessageStatus.STREAMING
+  ) {
+    throw new Error("Wait for the answer to finish before branching");
+  }
+
+  const chatId = target.chatId;
+  const modelToUse = await determineModelToUse({
+    ownerId,
+    modelId,
+    chatModel: target.chat.model,
+  });
+
+  const credentials = await getOwnerCredentials(ownerId);
+  await enforceMonthlyBudget(ownerId);
+  await enforceFreeTierRateLimit(ownerId, modelToUse, credentials);
+
+  const tree = await fetchChatTree(chatId);
+  const ancestorIds = getAncestorIds(tree, target.id);
+  const ancestors = await prisma.message.findMany({
+    where: { id: { in: ancestorIds } },
+    orderBy: { createdAt: "asc" },
+    select: { id: true, userContent: true, agentContent: true },
+  });
+
+  try {
+    // The replaced message and everything below it leave the active branch
+    const [, combinedMessage] = await prisma.$transaction([
+      prisma.message.updateMany({
+        where: { id: { in: [target.id, ...getDescendantIds(tree, target.id)] } },
+        data: { isActive: false },
+      }),
+      prisma.message.create({
+        data: {
+          userContent: content ?? target.userContent,
+          agentContent: null, // Will be filled during streaming
+          chatId,
+          parentMessageId: target.parentMessageId,
+          status: MessageStatus.STARTED,
+          ...(modelId ? { modelId } : {}),
+        },
+        select: publicMessageSelect,
+      }),
+    ]);
+
+    // yield the message start event with user content
+    yield {
+      type: "messageStart" as const,
+      message: combinedMessage as MessageType,
+      chatId,
     };
-  } else {
-    return FALLBACK_MODEL;
+
+    yield* streamAgentResponse({
+      ownerId,
+      chatId,
+      combinedMessage,
+      history: ancestors,
+      modelToUse,
+      credentials,
+      chatSettings: target.chat,
+    });
+  } catch (error) {
+    console.error("Error in message processing:", error);
+    throw new Error(
+      error instanceof Error ? error.message : "Failed to process message"
+    );
   }
-};
+}
 
 export const messageRouter = router({
   // Send a message and stream AI response in one mutation
@@ -176,6 +837,8 @@ export const messageRouter = router({
         chatId: z.string().optional(),
         content: z.string().min(1, "Message content is required"),
         modelId: z.string().optional(),
+        // Only used when a new chat is created
+        presetId: z.string().optional(),
       })
     )
     .mutation(async function* ({ input, ctx }) {
@@ -183,96 +846,107 @@ export const messageRouter = router({
         throw new Error("Owner not found");
       }
 
+      // Verify an existing chat belongs to the owner
+      const existingChat = input.chatId
+        ? await prisma.chat.findFirst({
+            where: {
+              id: input.chatId,
+              ownerId: ctx.owner.id,
+              isDeleted: false,
+            },
+            include: {
+              messages: {
+                where: { isActive: true }, // Only the selected branch
+                orderBy: { createdAt: "desc" },
+                // Newest first; the context builder trims to the token budget
+                take: DEFAULT_CONTEXT_SETTINGS.maxHistoryMessages,
+              },
+              model: true,
+            },
+          })
+        : null;
+
+      if (input.chatId && !existingChat) {
+        throw new Error("Chat not found");
+      }
+
+      // A new chat starts from the preset's prompt, parameters and model, if one was picked
+      const preset =
+        !input.chatId && input.presetId
+          ? await findUsablePreset(ctx.owner.id, input.presetId)
+          : null;
+
+      if (!input.chatId && input.presetId && !preset) {
+        throw new Error("Preset not found");
+      }
+
+      const modelId = input.modelId ?? preset?.modelId ?? undefined;
+
+      // Resolve the model and check the owner's limits before a new chat is
+      // saved, so a refused message leaves nothing behind
+      const modelToUse = await determineModelToUse({
+        ownerId: ctx.owner.id,
+        modelId,
+        chatModel: existingChat?.model,
+      });
+
+      // Get user's API keys
+      const credentials = await getOwnerCredentials(ctx.owner.id);
+      await enforceMonthlyBudget(ctx.owner.id);
+      await enforceFreeTierRateLimit(ctx.owner.id, modelToUse, credentials);
+
       let chat;
-      let chatId = input.chatId;
 
-      if (!chatId) {
+      if (existingChat) {
+        chat = existingChat;
+
+        // If a modelId is provided, persist it as the chat's local model selection
+        if (input.modelId) {
+          await prisma.chat.update({
+            where: { id: existingChat.id },
+            data: { modelId: input.modelId },
+          });
+        }
+      } else {
         // Create a new chat if no chatId provided
         chat = await prisma.chat.create({
           data: {
-            title: input.content,
+            title: fallbackTitle(input.content),
             description: "",
             ownerId: ctx.owner.id,
-            ...(input.modelId ? { modelId: input.modelId } : {}),
-          },
-          include: {
-            messages: {
-              orderBy: { createdAt: "asc" },
-              take: 20,
-            },
-            model: true,
-          },
-        });
-        chatId = chat.id;
-      } else {
-        // Verify existing chat belongs to the owner
-        chat = await prisma.chat.findFirst({
-          where: {
-            id: chatId,
-            ownerId: ctx.owner.id,
-            isDeleted: false,
+            ...(modelId ? { modelId } : {}),
+            ...(preset
+              ? {
+                  systemPrompt: preset.systemPrompt,
+                  temperature: preset.temperature,
+                  maxTokens: preset.maxTokens,
+                  topP: preset.topP,
+                }
+              : {}),
           },
           include: {
-            messages: {
-              orderBy: { createdAt: "asc" },
-              take: 20, // Get last 20 messages for context
-            },
+            messages: true,
             model: true,
           },
         });
 
-        if (!chat) {
-          throw new Error("Chat not found");
-        }
-      }
-
-      // If a modelId is provided, persist it as the chat's local model selection
-      if (input.modelId && chatId) {
-        await prisma.chat.update({
-          where: { id: chatId },
-          data: { modelId: input.modelId },
+        // Show the new chat in the owner's other tabs right away
+        await cacheHelpers.invalidateOwnerCache(ctx.owner.id);
+        await publishOwnerEvent(ctx.owner.id, {
+          type: "chat.created",
+          chatId: chat.id,
         });
       }
 
-      const modelToUse = await determineModelToUse({
-        modelId: input.modelId,
-        chatModel: chat.model,
-      });
+      const chatId = chat.id;
 
-      // Get user's API keys from settings
-      const ownerSettings = await prisma.ownerSettings.findUnique({
-        where: { ownerId: ctx.owner.id },
-        select: { openaiApiKey: true, anthropicApiKey: true },
+      // New turns continue the active branch
+      const lastActiveMessage = await prisma.message.findFirst({
+        where: { chatId, isActive: true },
+        orderBy: { createdAt: "desc" },
+        select: { id: true },
       });
 
-      const shouldCheckRateLimit =
-        (modelToUse.provider === "openai" && !ownerSettings?.openaiApiKey) ||
-        (modelToUse.provider === "anthropic" &&
-          !ownerSettings?.anthropicApiKey);
-
-      // rate limti check if no api key is provided for openAi model or anthropic model
-      if (shouldCheckRateLimit) {
-        const rateLimitResult = await checkFreeTierRateLimit(
-          ctx.owner.id,
-          modelToUse.provider
-        );
-
-        if (rateLimitResult.isRateLimited) {
-          const timeLeftMinutes = rateLimitResult.timeLeftSeconds
-            ? Math.ceil(rateLimitResult.timeLeftSeconds / 60)
-            : null;
-
-          const message = timeLeftMinutes
-            ? `Rate limit exceeded. Please try again in ${timeLeftMinutes} minutes or setup API key in settings.`
-            : "Rate limit exceeded. Please try again later or setup API key in settings.";
-
-          throw new TRPCError({
-            code: "TOO_MANY_REQUESTS",
-            message,
-          });
-        }
-      }
-
       try {
         // Create combined message with user content (agent content will be filled during streaming)
         const combinedMessage = await prisma.message.create({
@@ -280,6 +954,7 @@ export const messageRouter = router({
             userContent: input.content,
             agentContent: null, // Will be filled during streaming
             chatId: chatId,
+            parentMessageId: lastActiveMessage?.id ?? null,
             status: MessageStatus.STARTED,
             ...(input.modelId ? { modelId: input.modelId } : {}),
           },
@@ -293,279 +968,305 @@ export const messageRouter = router({
           chatId: chatId,
         };
 
-        // Prepare conversation history from combined messages
-        const conversationHistory: Array<{
-          role: "user" | "assistant";
-          content: string;
-        }> = [];
-
-        for (const msg of chat.messages) {
-          // Add user message
-          conversationHistory.push({
-            role: "user",
-            content: msg.userContent,
-          });
+        yield* streamAgentResponse({
+          ownerId: ctx.owner.id,
+          chatId,
+          combinedMessage,
+          history: [...chat.messages].reverse(),
+          modelToUse,
+          credentials,
+          chatSettings: chat,
+        });
+      } catch (error) {
+        console.error("Error in message processing:", error);
+        throw new Error(
+          error instanceof Error ? error.message : "Failed to process message"
+        );
+      }
+    }),
 
-          // Add agent response if it exists
-          if (msg.agentContent) {
-            conversationHistory.push({
-              role: "assistant",
-              content: msg.agentContent,
-            });
-          }
-        }
+  // Generate a new answer to an earlier prompt, keeping the previous one as a sibling
+  regenerate: streamingProcedure
+    .input(
+      z.object({
+        messageId: z.string(),
+        modelId: z.string().optional(),
+      })
+    )
+    .mutation(async function* ({ input, ctx }) {
+      if (!ctx.owner) {
+        throw new Error("Owner not found");
+      }
 
-        // Add the new user message to conversation history
-        conversationHistory.push({
-          role: "user",
-          content: combinedMessage.userContent,
-        });
+      yield* branchFromMessage({
+        ownerId: ctx.owner.id,
+        messageId: input.messageId,
+        modelId: input.modelId,
+      });
+    }),
 
-        // Register this stream for potential abortion
-        const streamId = createStreamId(chatId, ctx.owner.id);
-        const abortController = streamAbortRegistry.register(streamId);
-
-        // Create streaming process function
-        const streamAIResponse = async ({
-          enqueue,
-          close,
-          error,
-        }: IsolatedStreamCallbacks<StreamMessage>) => {
-          let aiProvider: undefined | AIProvider;
-          let redisStreamQueue: ReturnType<typeof createStreamQueue> | null =
-            null;
-
-          try {
-            // Create Redis stream queue for persistent streaming (allows other clients to join)
-            redisStreamQueue = createStreamQueue(chatId, {
-              batchTimeMs: 1000,
-              maxBatchSize: 100,
-              expireAfterSeconds: 3600, // 1 hour
-            });
-
-            // Helper function to enqueue to both current stream and Redis stream
-            const dualEnqueue = async (message: StreamMessage) => {
-              // Enqueue to current client stream (real-time for initiating client)
-              enqueue(message);
-
-              // Enqueue to Redis stream (persistent for other clients/page refreshes)
-              if (redisStreamQueue) await redisStreamQueue.enqueue(message);
-              else console.error("Redis stream queue not created");
-            };
-
-            // First, enqueue the message start to Redis stream
-            await redisStreamQueue.enqueue({
-              type: "messageStart",
-              message: combinedMessage as MessageType,
-              chatId: chatId,
-            });
-
-            // Check if already aborted before starting
-            if (abortController.signal.aborted) {
-              error(
-                new TRPCError({
-                  code: "CLIENT_CLOSED_REQUEST",
-                  message: STREAM_ERROR_MESSAGES.ABORTED_BEFORE_START,
-                })
-              );
-              return;
-            }
+  // Edit an earlier prompt and answer it on a new branch
+  editAndResend: streamingProcedure
+    .input(
+      z.object({
+        messageId: z.string(),
+        content: z.string().min(1, "Message content is required"),
+        modelId: z.string().optional(),
+      })
+    )
+    .mutation(async function* ({ input, ctx }) {
+      if (!ctx.owner) {
+        throw new Error("Owner not found");
+      }
 
-            // Update message status to STREAMING
-            await prisma.message.update({
-              where: { id: combinedMessage.id },
-              data: { status: MessageStatus.STREAMING },
-            });
-
-            let fullContent = "";
-
-            // Check abort signal after async operation
-            if (abortController.signal.aborted) {
-              error(
-                new TRPCError({
-                  code: "CLIENT_CLOSED_REQUEST",
-                  message: STREAM_ERROR_MESSAGES.ABORTED_DURING_PROCESSING,
-                })
-              );
-              return;
-            }
+      yield* branchFromMessage({
+        ownerId: ctx.owner.id,
+        messageId: input.messageId,
+        content: input.content,
+        modelId: input.modelId,
+      });
+    }),
 
-            // Create AI provider using the abstraction
-            aiProvider = createAIProviderFromModel(
-              modelToUse,
-              ownerSettings || { openaiApiKey: null, anthropicApiKey: null },
-              {
-                maxTokens: 4096,
-                temperature: 0.7,
-              }
-            );
-
-            // Convert conversation history to AI provider format
-            const aiMessages: AIMessage[] = conversationHistory
-              .filter((msg) => msg.content && msg.content.trim().length > 0)
-              .map((msg) => ({
-                role: msg.role as "user" | "assistant",
-                content: msg.content.trim(),
-              }));
-
-            console.log(
-              `Streaming with ${aiProvider.name} provider using model ${aiProvider.model}`
-            );
-
-            // Stream the response using the AI provider abstraction
-            for await (const chunk of aiProvider.streamResponse(aiMessages)) {
-              // Check Redis stop flag for this chat
-              const stopKey = `stop-stream:${chatId}`;
-              const shouldStop = await redisUtil.exists(stopKey);
-              if (shouldStop) {
-                console.log(
-                  `🛑 Stop requested for chat ${chatId}. Halting AI response stream.`
-                );
-                break;
-              }
+  // Make a sibling the visible alternative ("2 / 3") for its turn
+  switchBranch: withOwnerProcedure
+    .input(
+      z.object({
+        messageId: z.string(),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      if (!ctx.owner) {
+        throw new Error("Owner not found");
+      }
 
-              if (chunk.content && !chunk.isComplete) {
-                fullContent += chunk.content;
-                await dualEnqueue({
-                  type: "agentChunk",
-                  messageId: combinedMessage.id,
-                  chunk: chunk.content,
-                  chatId: chatId,
-                });
-              }
+      const target = await prisma.message.findFirst({
+        where: {
+          id: input.messageId,
+          chat: { ownerId: ctx.owner.id, isDeleted: false },
+        },
+        select: { id: true, chatId: true, parentMessageId: true },
+      });
 
-              if (chunk.isComplete) {
-                break;
-              }
-            }
+      if (!target) {
+        throw new Error("Message not found");
+      }
 
-            // Update the combined message with complete agent content
-            const updatedMessage = await prisma.message.update({
-              where: { id: combinedMessage.id },
-              data: {
-                agentContent: fullContent,
-                status: MessageStatus.COMPLETED,
-                finishedAt: new Date(),
-              },
-              select: publicMessageSelect,
-            });
-            // console.log("UPDATED AI MESSAGE", updatedAiMessage);
-
-            // Emit the final complete message to both streams
-            await dualEnqueue({
-              type: "messageComplete",
-              message: updatedMessage as MessageType,
-              chatId: chatId,
-            });
-
-            // Flush any remaining Redis stream events
-            await redisStreamQueue.cleanup();
-
-            // Invalidate chat cache - this will always run even if client disconnects
-            await Promise.all([
-              cacheHelpers.invalidateChat(chatId),
-              cacheHelpers.invalidateOwnerCache(ctx.owner.id),
-            ]);
-
-            // Mark the stream as complete
-            close();
-          } catch (err) {
-            console.error("Error in AI streaming process:", err);
-
-            // Convert provider-specific errors to TRPCError with custom data
-            if (err instanceof TRPCError) {
-              error(err);
-            } else {
-              const errorMessage = (err as any)?.message || "Streaming error";
-              const providerName = aiProvider?.name || "unknown";
-
-              // Check for specific error patterns from AI providers
-              if (
-                errorMessage.includes("API key") ||
-                errorMessage.includes("unauthorized") ||
-                errorMessage.includes("Invalid API key")
-              ) {
-                error(
-                  new TRPCError({
-                    code: "UNAUTHORIZED",
-                    message: `${providerName} API key not configured or invalid. Please check your API key in settings.`,
-                    cause: {
-                      errorCode: ErrorCode.API_KEY_INVALID,
-                      provider: providerName,
-                    },
-                  })
-                );
-              } else if (
-                errorMessage.includes("rate limit") ||
-                errorMessage.includes("Rate limit")
-              ) {
-                error(
-                  new TRPCError({
-                    code: "TOO_MANY_REQUESTS",
-                    message: "Rate limit exceeded. Please try again later.",
-                    cause: {
-                      errorCode: ErrorCode.RATE_LIMIT_EXCEEDED,
-                      provider: providerName,
-                    },
-                  })
-                );
-              } else if (
-                errorMessage.includes("quota") ||
-                errorMessage.includes("billing")
-              ) {
-                error(
-                  new TRPCError({
-                    code: "FORBIDDEN",
-                    message: "Quota exceeded. Please check your billing.",
-                    cause: {
-                      errorCode: ErrorCode.QUOTA_EXCEEDED,
-                      provider: providerName,
-                    },
-                  })
-                );
-              } else {
-                error(
-                  new TRPCError({
-                    code: "INTERNAL_SERVER_ERROR",
-                    message: errorMessage,
-                    cause: {
-                      errorCode: ErrorCode.PROVIDER_UNAVAILABLE,
-                      provider: providerName,
-                    },
-                  })
-                );
-              }
-            }
-          } finally {
-            // Always cleanup both streams when done
-            streamAbortRegistry.cleanup(streamId);
+      const tree = await fetchChatTree(target.chatId);
+      await prisma.$transaction(activateBranch(tree, target.id));
 
-            // Cleanup Redis stream queue
-            if (redisStreamQueue) {
-              redisStreamQueue.cleanup();
-            }
+      await cacheHelpers.invalidateChat(target.chatId);
+
+      return { success: true, chatId: target.chatId, messageId: target.id };
+    }),
+
+  // Answer one prompt with several models side by side. The answers are
+  // siblings; the first stays on the active branch until a winner is picked
+  compareWithStream: streamingProcedure
+    .input(
+      z.object({
+        chatId: z.string(),
+        content: z.string().min(1, "Message content is required"),
+        modelIds: z
+          .array(z.string())
+          .min(COMPARE_LIMITS.minModels, `Pick at least ${COMPARE_LIMITS.minModels} models`)
+          .max(COMPARE_LIMITS.maxModels, `Pick at most ${COMPARE_LIMITS.maxModels} models`)
+          .refine((ids) => new Set(ids).size === ids.length, "Models must be different"),
+      })
+    )
+    .mutation(async function* ({ input, ctx }) {
+      if (!ctx.owner) {
+        throw new Error("Owner not found");
+      }
+
+      const ownerId = ctx.owner.id;
+      const chatId = input.chatId;
+
+      const chat = await prisma.chat.findFirst({
+        where: { id: chatId, ownerId, isDeleted: false },
+        include: {
+          messages: {
+            where: { isActive: true }, // Only the selected branch
+            orderBy: { createdAt: "desc" },
+            // Newest first; the context builder trims to the token budget
+            take: DEFAULT_CONTEXT_SETTINGS.maxHistoryMessages,
+          },
+        },
+      });
 
-            // Cleanup stop flag if it was set
-            const stopKey = `stop-stream:${chatId}`;
-            await redisUtil.del(stopKey);
-          }
+      if (!chat) {
+        throw new Error("Chat not found");
+      }
+
+      // Every model must be enabled and usable by the owner, or nothing is asked
+      const models = await getUsableModels(ownerId, input.modelIds);
+      if (models.length !== input.modelIds.length) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Model not found or not accessible",
+        });
+      }
+
+      const credentials = await getOwnerCredentials(ownerId);
+      await enforceMonthlyBudget(ownerId);
+      for (const model of models) {
+        await enforceFreeTierRateLimit(ownerId, model, credentials);
+      }
+
+      const history = [...chat.messages].reverse();
+      const comparisonId = randomUUID();
+
+      // Siblings are ordered by createdAt, so the answers keep the order the
+      // models were picked in
+      const startedAt = Date.now();
+      const answers = await prisma.$transaction(
+        input.modelIds.map((modelId, index) =>
+          prisma.message.create({
+            data: {
+              userContent: input.content,
+              agentContent: null, // Will be filled during streaming
+              chatId,
+              parentMessageId: history.at(-1)?.id ?? null,
+              status: MessageStatus.STARTED,
+              modelId,
+              isActive: index === 0,
+              createdAt: new Date(startedAt + index),
+              metadata: { comparison: { id: comparisonId, modelId } },
+            },
+            select: publicMessageSelect,
+          })
+        )
+      );
+
+      for (const message of answers) {
+        yield {
+          type: "messageStart" as const,
+          message: message as MessageType,
+          chatId,
         };
+      }
+
+      // Stream all answers at once; like a single answer, they keep going
+      // when the client disconnects
+      const stream = createIsolatedStream<StreamMessage>(async ({ enqueue }) => {
+        await Promise.all(
+          answers.map(async (message, index) => {
+            try {
+              for await (const event of streamAgentResponse({
+                ownerId,
+                chatId,
+                combinedMessage: message,
+                history,
+                modelToUse: models[index]!,
+                credentials,
+                chatSettings: chat,
+                comparison: { id: comparisonId, modelId: input.modelIds[index]! },
+              })) {
+                enqueue(event);
+              }
+            } catch (err) {
+              // A failing model leaves the other answers streaming
+              console.error(`Compared answer ${message.id} failed:`, err);
+              const failedMessage = await prisma.message.update({
+                where: { id: message.id },
+                data: {
+                  status: MessageStatus.FAILED,
+                  errorReason: (err as Error)?.message || "Streaming error",
+                  finishedAt: new Date(),
+                },
+                select: publicMessageSelect,
+              });
+              enqueue({
+                type: "messageComplete",
+                message: failedMessage as MessageType,
+                chatId,
+              });
+            }
+          })
+        );
 
-        // Create isolated iterator with streaming process, so that if request drops; request can still complete
-        const stream = createIsolatedStream<StreamMessage>(streamAIResponse);
+        // The stop flag applies to every answer, so it is cleared once all are done
+        await redisUtil.del(`stop-stream:${chatId}`);
+      });
 
-        // Forward items to the client only while the connection is active
-        for await (const item of stream) {
-          yield item;
+      // Forward events only while the connection is active
+      const reader = stream.getReader();
+      try {
+        for (let next = await reader.read(); !next.done; next = await reader.read()) {
+          yield next.value;
         }
-      } catch (error) {
-        console.error("Error in message processing:", error);
-        throw new Error(
-          error instanceof Error ? error.message : "Failed to process message"
-        );
+      } finally {
+        // Stops forwarding only; the answers keep streaming
+        await reader.cancel().catch(() => undefined);
       }
     }),
 
+  // Keep one of the compared answers in the main thread
+  pickWinner: withOwnerProcedure
+    .input(
+      z.object({
+        messageId: z.string(),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      if (!ctx.owner) {
+        throw new Error("Owner not found");
+      }
+
+      const target = await prisma.message.findFirst({
+        where: {
+          id: input.messageId,
+          chat: { ownerId: ctx.owner.id, isDeleted: false },
+        },
+        select: {
+          id: true,
+          chatId: true,
+          parentMessageId: true,
+          finishedAt: true,
+          metadata: true,
+        },
+      });
+
+      if (!target) {
+        throw new Error("Message not found");
+      }
+
+      const comparison = getComparison(target.metadata);
+      if (!comparison) {
+        throw new Error("Message is not a compared answer");
+      }
+      if (!target.finishedAt) {
+        throw new Error("The answer is still streaming");
+      }
+
+      const siblings = await prisma.message.findMany({
+        where: { chatId: target.chatId, parentMessageId: target.parentMessageId },
+        select: { id: true, metadata: true },
+      });
+      const compared = siblings.filter(
+        (sibling) => getComparison(sibling.metadata)?.id === comparison.id
+      );
+
+      const tree = await fetchChatTree(target.chatId);
+      await prisma.$transaction([
+        ...activateBranch(tree, target.id),
+        ...compared.map((answer) =>
+          prisma.message.update({
+            where: { id: answer.id },
+            data: {
+              metadata: {
+                ...(answer.metadata as Prisma.JsonObject),
+                comparison: { ...getComparison(answer.metadata)!, winnerId: target.id },
+              },
+            },
+          })
+        ),
+      ]);
+
+      await cacheHelpers.invalidateChat(target.chatId);
+
+      return { success: true, chatId: target.chatId, messageId: target.id };
+    }),
+
   // Get messages for a chat with bidirectional infinite scroll
   getMessages: withOwnerProcedure
     .input(
@@ -611,12 +1312,19 @@ export const messageRouter = router({
       syncDate ??= cursor;
 
       const streamingMessage = await fetchStreamingMessage(chatId);
+      const streamingComparison = await fetchStreamingComparison(chatId);
+      const siblings = await fetchSiblingIds(chatId, [
+        ...messages.map((message) => message.id),
+        ...(streamingMessage ? [streamingMessage.id] : []),
+      ]);
 
       return {
         messages: messages as MessageType[],
         direction,
         syncDate,
         streamingMessage: streamingMessage as MessageType | null,
+        streamingComparison: streamingComparison as MessageType[],
+        siblings,
       };
     }),
 
@@ -649,6 +1357,8 @@ export const messageRouter = router({
     .input(
       z.object({
         chatId: z.string(),
+        // A compared answer to follow, see getMessages' streamingComparison
+        messageId: z.string().optional(),
       })
     )
     .mutation(async ({ input, ctx }) => {
@@ -656,6 +1366,34 @@ export const messageRouter = router({
         `🎧 User ${ctx.owner?.id} listening to message chunk stream for chat: ${input.chatId}`
       );
 
-      return subscribeToMessageChunkStream(input.chatId);
+      if (input.messageId) {
+        const answer = await prisma.message.findFirst({
+          where: {
+            id: input.messageId,
+            chatId: input.chatId,
+            chat: { ownerId: ctx.owner?.id, isDeleted: false },
+          },
+          select: { id: true, metadata: true },
+        });
+
+        if (!answer) {
+          throw new Error("Message not found");
+        }
+
+        return subscribeToMessageChunkStream(
+          getComparison(answer.metadata)
+            ? getAnswerStreamKey(input.chatId, answer.id)
+            : input.chatId
+        );
+      }
+
+      // A compared answer on the active branch streams through its own queue
+      const streamingMessage = await fetchStreamingMessage(input.chatId);
+      const streamKey =
+        streamingMessage && getComparison(streamingMessage.metadata)
+          ? getAnswerStreamKey(input.chatId, streamingMessage.id)
+          : input.chatId;
+
+      return subscribeToMessageChunkStream(streamKey);
     }),
 });
@@ -1,11 +1,87 @@
 import { z } from "zod";
 import { router } from "../trpc";
 import { withOwnerProcedure } from "../procedures";
-import { PrismaClient } from "@prisma/client";
-import { FALLBACK_MODEL_ID } from "../constants/defaultOwnerSettings";
+import { Prisma, PrismaClient } from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+import { CUSTOM_MODEL_LIMITS, FALLBACK_MODEL_ID } from "../constants/defaultOwnerSettings";
+import { AIProviderFactory, DEFAULT_OLLAMA_ENDPOINT } from "../lib/ai-providers";
+import { assertPublicEndpoint } from "../lib/endpoint-policy";
+import { syncOllamaModels } from "../services/ollama.service";
 
 const prisma = new PrismaClient();
 
+// HTTP header names (RFC 7230 tokens)
+const headerNameSchema = z
+  .string()
+  .trim()
+  .regex(/^[A-Za-z0-9!#$%&'*+.^_`|~-]+$/, "Invalid header name");
+
+// Fields of a model registered by its owner on their own server
+const customModelSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, "Model name is required")
+    .max(CUSTOM_MODEL_LIMITS.nameMaxLength),
+  description: z.string().trim().max(500).nullable().optional(),
+  endpoint: z
+    .string()
+    .trim()
+    .url("Endpoint must be a URL")
+    .refine((url) => /^https?:\/\//i.test(url), "Endpoint must be an http or https URL"),
+  headers: z
+    .record(headerNameSchema, z.string().max(CUSTOM_MODEL_LIMITS.headerValueMaxLength))
+    .refine(
+      (headers) => Object.keys(headers).length <= CUSTOM_MODEL_LIMITS.maxHeaders,
+      `At most ${CUSTOM_MODEL_LIMITS.maxHeaders} headers are allowed`
+    )
+    .optional(),
+  contextWindow: z.number().int().positive().nullable().optional(),
+  isEnabled: z.boolean().optional(),
+});
+
+const providerSchema = z
+  .string()
+  .refine(
+    (provider) => AIProviderFactory.getEndpointProviders().includes(provider),
+    "This provider doesn't support custom models"
+  );
+
+// Headers and context window live in `extra`, next to anything else stored there
+const buildExtra = (
+  extra: Prisma.JsonValue | null,
+  { headers, contextWindow }: Pick<z.infer<typeof customModelSchema>, "headers" | "contextWindow">
+): Prisma.InputJsonObject => {
+  const current = extra && typeof extra === "object" && !Array.isArray(extra) ? extra : {};
+  const next: Record<string, unknown> = { ...current };
+
+  if (headers !== undefined) next.headers = headers;
+  if (contextWindow === null) delete next.contextWindow;
+  else if (contextWindow !== undefined) next.contextWindow = contextWindow;
+
+  return next as Prisma.InputJsonObject;
+};
+
+// The server calls custom models itself, so only signed-in users may set them up
+const assertSignedIn = (owner: { userId: string | null }) => {
+  if (!owner.userId) {
+    throw new TRPCError({
+      code: "UNAUTHORIZED",
+      message: "Sign in to use your own models",
+    });
+  }
+};
+
+const assertUniqueModelName = async (ownerId: string, name: string) => {
+  const existing = await prisma.modelCatalog.findUnique({
+    where: { ownerId_name: { ownerId, name } },
+  });
+
+  if (existing) {
+    throw new Error(`A model named "${name}" already exists`);
+  }
+};
+
 export const modelRouter = router({
   /**
    * List models visible to the requester.
@@ -137,6 +213,139 @@ export const modelRouter = router({
       };
     }),
 
+  /**
+   * Providers owners can register their own models with.
+   */
+  customProviders: withOwnerProcedure.query(() => {
+    return AIProviderFactory.getEndpointProviders();
+  }),
+
+  /**
+   * Register a model served by the requester's own server, e.g. vLLM,
+   * LM Studio or Ollama through their OpenAI-compatible API.
+   */
+  create: withOwnerProcedure
+    .input(
+      customModelSchema.extend({
+        provider: providerSchema.default("openai-compatible"),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      if (!ctx.owner) {
+        throw new Error("Owner not found");
+      }
+      assertSignedIn(ctx.owner);
+
+      const count = await prisma.modelCatalog.count({
+        where: { ownerId: ctx.owner.id },
+      });
+
+      if (count >= CUSTOM_MODEL_LIMITS.maxModelsPerOwner) {
+        throw new Error(`You can register at most ${CUSTOM_MODEL_LIMITS.maxModelsPerOwner} models`);
+      }
+
+      await assertUniqueModelName(ctx.owner.id, input.name);
+      await assertPublicEndpoint(input.endpoint);
+
+      return prisma.modelCatalog.create({
+        data: {
+          ownerId: ctx.owner.id,
+          provider: input.provider,
+          name: input.name,
+          description: input.description || null,
+          endpoint: input.endpoint,
+          isEnabled: input.isEnabled ?? true,
+          extra: buildExtra(null, input),
+        },
+      });
+    }),
+
+  /**
+   * Update one of the requester's models. Omitted fields are left unchanged.
+   */
+  update: withOwnerProcedure
+    .input(
+      customModelSchema.partial().extend({
+        id: z.string(),
+        provider: providerSchema.optional(),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      if (!ctx.owner) {
+        throw new Error("Owner not found");
+      }
+      assertSignedIn(ctx.owner);
+
+      const model = await prisma.modelCatalog.findFirst({
+        where: { id: input.id, ownerId: ctx.owner.id },
+      });
+
+      if (!model) {
+        throw new Error("Model not found");
+      }
+
+      if (input.name && input.name !== model.name) {
+        await assertUniqueModelName(ctx.owner.id, input.name);
+      }
+      if (input.endpoint) {
+        await assertPublicEndpoint(input.endpoint);
+      }
+
+      return prisma.modelCatalog.update({
+        where: { id: model.id },
+        data: {
+          provider: input.provider,
+          name: input.name,
+          description: input.description === undefined ? undefined : input.description || null,
+          endpoint: input.endpoint,
+          isEnabled: input.isEnabled,
+          extra: buildExtra(model.extra, input),
+        },
+      });
+    }),
+
+  /**
+   * Delete one of the requester's models. Chats and presets using it fall
+   * back to the default model.
+   */
+  delete: withOwnerProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ input, ctx }) => {
+      if (!ctx.owner) {
+        throw new Error("Owner not found");
+      }
+
+      const result = await prisma.modelCatalog.deleteMany({
+        where: { id: input.id, ownerId: ctx.owner.id },
+      });
+
+      if (result.count === 0) {
+        throw new Error("Model not found");
+      }
+
+      return { success: true, modelId: input.id };
+    }),
+
+  /**
+   * Add the models installed on an Ollama server to the requester's models,
+   * and disable the ones since removed from it.
+   */
+  syncOllama: withOwnerProcedure
+    .input(
+      z.object({
+        endpoint: customModelSchema.shape.endpoint.default(DEFAULT_OLLAMA_ENDPOINT),
+        headers: customModelSchema.shape.headers,
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      if (!ctx.owner) {
+        throw new Error("Owner not found");
+      }
+      assertSignedIn(ctx.owner);
+
+      return syncOllamaModels(ctx.owner.id, input);
+    }),
+
   /**
    * Update owner's default model selection.
    */
@@ -176,8 +385,6 @@ export const modelRouter = router({
         create: {
           ownerId: ctx.owner.id,
           defaultModelId: modelId,
-          openaiApiKey: null,
-          anthropicApiKey: null,
           extra: {},
         },
       });
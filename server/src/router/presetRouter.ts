@@ -0,0 +1,280 @@
+import { z } from "zod";
+import { router } from "../trpc";
+import { adminProcedure, withOwnerProcedure } from "../procedures";
+import { PrismaClient } from "@prisma/client";
+import {
+  assertPublishableModel,
+  findAccessibleModel,
+  parsePresetExport,
+  presetNameSchema,
+  presetSettingsSchema,
+  type PresetExport,
+} from "../services/preset.service";
+
+const prisma = new PrismaClient();
+
+const presetInclude = {
+  model: {
+    select: { id: true, name: true, provider: true },
+  },
+} as const;
+
+export const presetRouter = router({
+  /**
+   * List presets visible to the requester: their own plus published ones.
+   */
+  list: withOwnerProcedure.query(async ({ ctx }) => {
+    const presets = await prisma.preset.findMany({
+      where: ctx.owner
+        ? { OR: [{ ownerId: ctx.owner.id }, { isPublic: true }] }
+        : { isPublic: true },
+      include: presetInclude,
+      orderBy: [{ isPublic: "asc" }, { name: "asc" }],
+    });
+
+    return presets.map((preset) => ({
+      ...preset,
+      isOwn: preset.ownerId === ctx.owner?.id,
+    }));
+  }),
+
+  /**
+   * Create a preset owned by the requester.
+   */
+  create: withOwnerProcedure
+    .input(
+      presetSettingsSchema.extend({
+        name: presetNameSchema,
+        modelId: z.string().nullable().optional(),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      if (!ctx.owner) {
+        throw new Error("Owner not found");
+      }
+
+      if (input.modelId && !(await findAccessibleModel(ctx.owner.id, { id: input.modelId }))) {
+        throw new Error("Model not found or access denied");
+      }
+
+      const existing = await prisma.preset.findUnique({
+        where: { ownerId_name: { ownerId: ctx.owner.id, name: input.name } },
+      });
+
+      if (existing) {
+        throw new Error(`A preset named "${input.name}" already exists`);
+      }
+
+      return prisma.preset.create({
+        data: {
+          ...input,
+          systemPrompt: input.systemPrompt?.trim() || null,
+          ownerId: ctx.owner.id,
+        },
+        include: presetInclude,
+      });
+    }),
+
+  /**
+   * Update one of the requester's presets. Omitted fields are left unchanged.
+   */
+  update: withOwnerProcedure
+    .input(
+      presetSettingsSchema.extend({
+        id: z.string(),
+        name: presetNameSchema.optional(),
+        modelId: z.string().nullable().optional(),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      if (!ctx.owner) {
+        throw new Error("Owner not found");
+      }
+
+      const { id, ...data } = input;
+
+      const preset = await prisma.preset.findFirst({
+        where: { id, ownerId: ctx.owner.id },
+      });
+
+      if (!preset) {
+        throw new Error("Preset not found");
+      }
+
+      if (data.modelId && !(await findAccessibleModel(ctx.owner.id, { id: data.modelId }))) {
+        throw new Error("Model not found or access denied");
+      }
+
+      if (preset.isPublic && data.modelId !== undefined) {
+        await assertPublishableModel(data.modelId);
+      }
+
+      if (data.name && data.name !== preset.name) {
+        const existing = await prisma.preset.findUnique({
+          where: { ownerId_name: { ownerId: ctx.owner.id, name: data.name } },
+        });
+
+        if (existing) {
+          throw new Error(`A preset named "${data.name}" already exists`);
+        }
+      }
+
+      if (data.systemPrompt !== undefined) {
+        data.systemPrompt = data.systemPrompt?.trim() || null;
+      }
+
+      return prisma.preset.update({
+        where: { id },
+        data,
+        include: presetInclude,
+      });
+    }),
+
+  /**
+   * Delete one of the requester's presets.
+   */
+  delete: withOwnerProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ input, ctx }) => {
+      if (!ctx.owner) {
+        throw new Error("Owner not found");
+      }
+
+      const result = await prisma.preset.deleteMany({
+        where: { id: input.id, ownerId: ctx.owner.id },
+      });
+
+      if (result.count === 0) {
+        throw new Error("Preset not found");
+      }
+
+      return { success: true, presetId: input.id };
+    }),
+
+  /**
+   * Export the requester's presets as a portable JSON document.
+   */
+  export: withOwnerProcedure.query(async ({ ctx }) => {
+    if (!ctx.owner) {
+      throw new Error("Owner not found");
+    }
+
+    const presets = await prisma.preset.findMany({
+      where: { ownerId: ctx.owner.id },
+      include: presetInclude,
+      orderBy: { name: "asc" },
+    });
+
+    const exportData: PresetExport = {
+      version: "1.0",
+      exportDate: new Date().toISOString(),
+      presets: presets.map((preset) => ({
+        name: preset.name,
+        description: preset.description,
+        systemPrompt: preset.systemPrompt,
+        temperature: preset.temperature,
+        maxTokens: preset.maxTokens,
+        topP: preset.topP,
+        model: preset.model
+          ? { provider: preset.model.provider, name: preset.model.name }
+          : null,
+      })),
+    };
+
+    return exportData;
+  }),
+
+  /**
+   * Import presets from an export document. Name clashes get a numeric
+   * suffix; models that can't be found are dropped from the preset.
+   */
+  import: withOwnerProcedure
+    .input(
+      z.object({
+        jsonData: z.string().min(1, "JSON data is required"),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      if (!ctx.owner) {
+        throw new Error("Owner not found");
+      }
+
+      const { presets } = parsePresetExport(input.jsonData);
+
+      const existingNames = new Set(
+        (
+          await prisma.preset.findMany({
+            where: { ownerId: ctx.owner.id },
+            select: { name: true },
+          })
+        ).map((preset) => preset.name)
+      );
+
+      const importResults = {
+        imported: 0,
+        warnings: [] as string[],
+      };
+
+      for (const { model, ...preset } of presets) {
+        let name = preset.name;
+        for (let n = 2; existingNames.has(name); n++) {
+          name = `${preset.name} (${n})`;
+        }
+        existingNames.add(name);
+
+        const matchedModel = model
+          ? await findAccessibleModel(ctx.owner.id, model)
+          : null;
+        if (model && !matchedModel) {
+          importResults.warnings.push(
+            `Preset "${name}": model ${model.provider}/${model.name} not available, using default`
+          );
+        }
+
+        await prisma.preset.create({
+          data: {
+            ...preset,
+            name,
+            modelId: matchedModel?.id ?? null,
+            ownerId: ctx.owner.id,
+          },
+        });
+        importResults.imported++;
+      }
+
+      return {
+        success: true,
+        results: importResults,
+        message: `Import completed: ${importResults.imported} presets imported`,
+      };
+    }),
+
+  /**
+   * Publish (or unpublish) a preset for everyone. Admin only. A published
+   * preset can't use a model that is private to its author.
+   */
+  setPublic: adminProcedure
+    .input(z.object({ id: z.string(), isPublic: z.boolean() }))
+    .mutation(async ({ input }) => {
+      if (input.isPublic) {
+        const existing = await prisma.preset.findUnique({
+          where: { id: input.id },
+          select: { modelId: true },
+        });
+
+        if (!existing) {
+          throw new Error("Preset not found");
+        }
+
+        await assertPublishableModel(existing.modelId);
+      }
+
+      const preset = await prisma.preset.update({
+        where: { id: input.id },
+        data: { isPublic: input.isPublic },
+        include: presetInclude,
+      });
+
+      return preset;
+    }),
+});
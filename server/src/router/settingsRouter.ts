@@ -1,20 +1,30 @@
 import { z } from "zod";
 import { router } from "../trpc";
 import { withOwnerProcedure } from "../procedures";
-import { PrismaClient, type OwnerSettings } from "@prisma/client";
+import { PrismaClient } from "@prisma/client";
 import { cacheHelpers } from "../lib/redis";
-
-// Type for settings response without API keys
-type SafeOwnerSettings = Omit<OwnerSettings, 'openaiApiKey' | 'anthropicApiKey'> & {
-    hasOpenaiApiKey: boolean;
-    hasAnthropicApiKey: boolean;
-};
+import { AIProviderFactory, testProviderCredential } from "../lib/ai-providers";
+import {
+    deleteOwnerCredential,
+    getOwnerCredentials,
+    listOwnerCredentials,
+    saveOwnerCredential,
+} from "../services/credentials.service";
+import { getOwnerModelPolicies, saveModelPolicy } from "../services/model-policy.service";
+import { MODEL_POLICY_LIMITS } from "../constants/defaultOwnerSettings";
 
 const prisma = new PrismaClient();
 
+const credentialProviderSchema = z
+    .string()
+    .refine(
+        (provider) => AIProviderFactory.getCredentialProviders().some(({ name }) => name === provider),
+        "This provider doesn't take an API key"
+    );
+
 export const settingsRouter = router({
 
-    // Get user settings including API keys (masked for security)
+    // Get user settings
     get: withOwnerProcedure
         .query(async ({ ctx }) => {
             if (!ctx.owner) {
@@ -48,24 +58,16 @@ export const settingsRouter = router({
                 throw new Error("User settings not found. Please initialize your settings first.");
             }
 
-            const { openaiApiKey, anthropicApiKey, ...rest } = settings;
-            const safeSettings: SafeOwnerSettings = {
-                ...rest,
-                hasOpenaiApiKey: !!openaiApiKey,
-                hasAnthropicApiKey: !!anthropicApiKey
-            };
-
-            await cacheHelpers.setOwnerSettings(ctx.owner.id, safeSettings, 300);
+            await cacheHelpers.setOwnerSettings(ctx.owner.id, settings, 300);
 
-            return safeSettings;
+            return settings;
         }),
 
-    // Update API keys
-    updateApiKeys: withOwnerProcedure
+    // Update default model
+    updateDefaultModel: withOwnerProcedure
         .input(
             z.object({
-                openaiApiKey: z.string().optional(),
-                anthropicApiKey: z.string().optional(),
+                defaultModelId: z.string().nullable(),
             })
         )
         .mutation(async ({ input, ctx }) => {
@@ -73,24 +75,22 @@ export const settingsRouter = router({
                 throw new Error("Owner not found");
             }
 
-            // Validate API key formats
-            if (input.openaiApiKey && !input.openaiApiKey.startsWith('sk-')) {
-                throw new Error("Invalid OpenAI API key format. Must start with 'sk-'");
-            }
-
-            if (input.anthropicApiKey && !input.anthropicApiKey.startsWith('sk-ant-')) {
-                throw new Error("Invalid Anthropic API key format. Must start with 'sk-ant-'");
-            }
-
-            // Prepare update data - only include fields that are provided
-            const updateData: { openaiApiKey?: string | null; anthropicApiKey?: string | null } = {};
-
-            if (input.openaiApiKey !== undefined) {
-                updateData.openaiApiKey = input.openaiApiKey || null;
-            }
+            // If a model ID is provided, verify it exists and the user has access to it
+            if (input.defaultModelId) {
+                const model = await prisma.modelCatalog.findFirst({
+                    where: {
+                        id: input.defaultModelId,
+                        OR: [
+                            { ownerId: null }, // System model
+                            { ownerId: ctx.owner.id }, // User's own model
+                            { isPublic: true }, // Public model
+                        ],
+                    },
+                });
 
-            if (input.anthropicApiKey !== undefined) {
-                updateData.anthropicApiKey = input.anthropicApiKey || null;
+                if (!model) {
+                    throw new Error("Model not found or access denied");
+                }
             }
 
             // Update or create settings
@@ -98,10 +98,12 @@ export const settingsRouter = router({
                 where: {
                     ownerId: ctx.owner.id,
                 },
-                update: updateData,
+                update: {
+                    defaultModelId: input.defaultModelId,
+                },
                 create: {
                     ownerId: ctx.owner.id,
-                    ...updateData,
+                    defaultModelId: input.defaultModelId,
                 },
                 include: {
                     model: {
@@ -118,25 +120,18 @@ export const settingsRouter = router({
             // Invalidate cache
             await cacheHelpers.invalidateOwnerSettings(ctx.owner.id);
 
-            const { openaiApiKey, anthropicApiKey, ...rest } = updatedSettings;
-            const safeSettings: SafeOwnerSettings = {
-                ...rest,
-                hasOpenaiApiKey: !!openaiApiKey,
-                hasAnthropicApiKey: !!anthropicApiKey
-            };
-
             return {
                 success: true,
-                message: "API keys updated successfully",
-                settings: safeSettings,
+                message: "Default model updated successfully",
+                settings: updatedSettings,
             };
         }),
 
-    // Update default model
-    updateDefaultModel: withOwnerProcedure
+    // Update monthly spending cap (null removes the cap)
+    updateMonthlyBudget: withOwnerProcedure
         .input(
             z.object({
-                defaultModelId: z.string().nullable(),
+                monthlyBudgetUsd: z.number().min(0).nullable(),
             })
         )
         .mutation(async ({ input, ctx }) => {
@@ -144,35 +139,17 @@ export const settingsRouter = router({
                 throw new Error("Owner not found");
             }
 
-            // If a model ID is provided, verify it exists and the user has access to it
-            if (input.defaultModelId) {
-                const model = await prisma.modelCatalog.findFirst({
-                    where: {
-                        id: input.defaultModelId,
-                        OR: [
-                            { ownerId: null }, // System model
-                            { ownerId: ctx.owner.id }, // User's own model
-                            { isPublic: true }, // Public model
-                        ],
-                    },
-                });
-
-                if (!model) {
-                    throw new Error("Model not found or access denied");
-                }
-            }
-
             // Update or create settings
             const updatedSettings = await prisma.ownerSettings.upsert({
                 where: {
                     ownerId: ctx.owner.id,
                 },
                 update: {
-                    defaultModelId: input.defaultModelId,
+                    monthlyBudgetUsd: input.monthlyBudgetUsd,
                 },
                 create: {
                     ownerId: ctx.owner.id,
-                    defaultModelId: input.defaultModelId,
+                    monthlyBudgetUsd: input.monthlyBudgetUsd,
                 },
                 include: {
                     model: {
@@ -189,49 +166,77 @@ export const settingsRouter = router({
             // Invalidate cache
             await cacheHelpers.invalidateOwnerSettings(ctx.owner.id);
 
-            const { openaiApiKey, anthropicApiKey, ...rest } = updatedSettings;
-            const safeSettings: SafeOwnerSettings = {
-                ...rest,
-                hasOpenaiApiKey: !!openaiApiKey,
-                hasAnthropicApiKey: !!anthropicApiKey
-            };
-
             return {
                 success: true,
-                message: "Default model updated successfully",
-                settings: safeSettings,
+                message: input.monthlyBudgetUsd === null
+                    ? "Monthly budget removed"
+                    : "Monthly budget updated successfully",
+                settings: updatedSettings,
             };
         }),
 
-    // Get raw API keys for internal use (not exposed to frontend)
-    getRawApiKeys: withOwnerProcedure
-        .query(async ({ ctx }) => {
+    // Turn background summarization of long chats on or off
+    updateAutoSummarize: withOwnerProcedure
+        .input(
+            z.object({
+                autoSummarize: z.boolean(),
+            })
+        )
+        .mutation(async ({ input, ctx }) => {
             if (!ctx.owner) {
                 throw new Error("Owner not found");
             }
 
-            const settings = await prisma.ownerSettings.findUnique({
+            await prisma.ownerSettings.upsert({
                 where: {
                     ownerId: ctx.owner.id,
                 },
-                select: {
-                    openaiApiKey: true,
-                    anthropicApiKey: true,
+                update: {
+                    autoSummarize: input.autoSummarize,
+                },
+                create: {
+                    ownerId: ctx.owner.id,
+                    autoSummarize: input.autoSummarize,
                 },
             });
 
+            // Invalidate cache
+            await cacheHelpers.invalidateOwnerSettings(ctx.owner.id);
+
             return {
-                openaiApiKey: settings?.openaiApiKey || null,
-                anthropicApiKey: settings?.anthropicApiKey || null,
+                success: true,
+                autoSummarize: input.autoSummarize,
+                message: input.autoSummarize
+                    ? "Automatic summaries enabled"
+                    : "Automatic summaries disabled",
             };
         }),
 
-    // Delete API keys
-    deleteApiKeys: withOwnerProcedure
+    // Providers that take an API key, with what the owner stored for each
+    // (the keys themselves are never sent back)
+    listCredentials: withOwnerProcedure
+        .query(async ({ ctx }) => {
+            if (!ctx.owner) {
+                throw new Error("Owner not found");
+            }
+
+            const credentials = await listOwnerCredentials(ctx.owner.id);
+
+            return AIProviderFactory.getCredentialProviders().map((provider) => ({
+                ...provider,
+                credential: credentials.find((credential) => credential.provider === provider.name) ?? null,
+            }));
+        }),
+
+    // Check an API key with its provider, before saving it
+    testApiKey: withOwnerProcedure
         .input(
             z.object({
-                deleteOpenai: z.boolean().default(false),
-                deleteAnthropic: z.boolean().default(false),
+                provider: credentialProviderSchema,
+                // Omit to test the stored key with new options
+                apiKey: z.string().trim().min(1).max(500).optional(),
+                baseUrl: z.string().trim().url("Base URL must be a URL").nullable().optional(),
+                orgId: z.string().trim().max(200).nullable().optional(),
             })
         )
         .mutation(async ({ input, ctx }) => {
@@ -239,61 +244,147 @@ export const settingsRouter = router({
                 throw new Error("Owner not found");
             }
 
-            if (!input.deleteOpenai && !input.deleteAnthropic) {
-                throw new Error("Must specify at least one API key to delete");
+            const provider = AIProviderFactory.getCredentialProviders().find(({ name }) => name === input.provider)!;
+
+            const apiKey = input.apiKey ?? (await getOwnerCredentials(ctx.owner.id))[provider.name]?.apiKey;
+            if (!apiKey) {
+                throw new Error("API key is required");
             }
 
-            // Prepare update data
-            const updateData: { openaiApiKey?: null; anthropicApiKey?: null } = {};
+            return testProviderCredential(provider.name, {
+                apiKey,
+                baseUrl: provider.baseUrl ? input.baseUrl : null,
+                orgId: provider.orgId ? input.orgId : null,
+            });
+        }),
 
-            if (input.deleteOpenai) {
-                updateData.openaiApiKey = null;
+    // Store or replace the owner's API key for a provider
+    saveCredential: withOwnerProcedure
+        .input(
+            z.object({
+                provider: credentialProviderSchema,
+                // Omit to keep the stored key and only change the options
+                apiKey: z.string().trim().min(1).max(500).optional(),
+                baseUrl: z.string().trim().url("Base URL must be a URL").nullable().optional(),
+                orgId: z.string().trim().max(200).nullable().optional(),
+            })
+        )
+        .mutation(async ({ input, ctx }) => {
+            if (!ctx.owner) {
+                throw new Error("Owner not found");
             }
 
-            if (input.deleteAnthropic) {
-                updateData.anthropicApiKey = null;
+            const provider = AIProviderFactory.getCredentialProviders().find(({ name }) => name === input.provider)!;
+
+            // Validate API key format
+            if (input.apiKey && provider.keyPrefix && !input.apiKey.startsWith(provider.keyPrefix)) {
+                throw new Error(`Invalid ${provider.label} API key format. Must start with '${provider.keyPrefix}'`);
             }
 
-            // Update settings
-            const updatedSettings = await prisma.ownerSettings.upsert({
-                where: {
-                    ownerId: ctx.owner.id,
-                },
-                update: updateData,
-                create: {
-                    ownerId: ctx.owner.id,
-                    ...updateData,
-                },
-                include: {
-                    model: {
-                        select: {
-                            id: true,
-                            name: true,
-                            provider: true,
-                            description: true,
-                        },
-                    },
-                },
+            const credential = await saveOwnerCredential(ctx.owner.id, provider.name, {
+                apiKey: input.apiKey,
+                baseUrl: provider.baseUrl ? input.baseUrl || null : null,
+                orgId: provider.orgId ? input.orgId || null : null,
+            });
+
+            return {
+                success: true,
+                message: `${provider.label} API key saved`,
+                credential,
+            };
+        }),
+
+    // Delete the owner's API key for a provider
+    deleteCredential: withOwnerProcedure
+        .input(
+            z.object({
+                provider: credentialProviderSchema,
+            })
+        )
+        .mutation(async ({ input, ctx }) => {
+            if (!ctx.owner) {
+                throw new Error("Owner not found");
+            }
+
+            const deleted = await deleteOwnerCredential(ctx.owner.id, input.provider);
+            if (!deleted) {
+                throw new Error("API key not found");
+            }
+
+            const provider = AIProviderFactory.getCredentialProviders().find(({ name }) => name === input.provider)!;
+
+            return {
+                success: true,
+                message: `${provider.label} API key deleted successfully`,
+            };
+        }),
+
+    // Retries and fallback chains the owner set, by model id
+    getModelPolicies: withOwnerProcedure
+        .query(async ({ ctx }) => {
+            if (!ctx.owner) {
+                throw new Error("Owner not found");
+            }
+
+            return getOwnerModelPolicies(ctx.owner.id);
+        }),
+
+    // Set how a model is retried and what answers when it fails
+    updateModelPolicy: withOwnerProcedure
+        .input(
+            z.object({
+                modelId: z.string(),
+                retry: z
+                    .object({
+                        maxRetries: z.number().int().min(0).max(MODEL_POLICY_LIMITS.maxRetries),
+                        initialDelayMs: z.number().int().min(0).max(MODEL_POLICY_LIMITS.maxDelayMs),
+                        maxDelayMs: z.number().int().min(0).max(MODEL_POLICY_LIMITS.maxDelayMs),
+                    })
+                    .optional(),
+                fallbackModelIds: z.array(z.string()).max(MODEL_POLICY_LIMITS.maxFallbackModels),
+            })
+        )
+        .mutation(async ({ input, ctx }) => {
+            if (!ctx.owner) {
+                throw new Error("Owner not found");
+            }
+
+            const policies = await saveModelPolicy(ctx.owner.id, input.modelId, {
+                retry: input.retry,
+                fallbackModelIds: input.fallbackModelIds,
             });
 
             // Invalidate cache
             await cacheHelpers.invalidateOwnerSettings(ctx.owner.id);
 
-            const deletedKeys = [];
-            if (input.deleteOpenai) deletedKeys.push("OpenAI");
-            if (input.deleteAnthropic) deletedKeys.push("Anthropic");
-
-            const { openaiApiKey, anthropicApiKey, ...rest } = updatedSettings;
-            const safeSettings: SafeOwnerSettings = {
-                ...rest,
-                hasOpenaiApiKey: !!openaiApiKey,
-                hasAnthropicApiKey: !!anthropicApiKey
+            return {
+                success: true,
+                message: "Failover settings saved",
+                policies,
             };
+        }),
+
+    // Go back to the default retries, without fallbacks
+    resetModelPolicy: withOwnerProcedure
+        .input(
+            z.object({
+                modelId: z.string(),
+            })
+        )
+        .mutation(async ({ input, ctx }) => {
+            if (!ctx.owner) {
+                throw new Error("Owner not found");
+            }
+
+            const policies = await saveModelPolicy(ctx.owner.id, input.modelId, null);
+
+            // Invalidate cache
+            await cacheHelpers.invalidateOwnerSettings(ctx.owner.id);
 
             return {
                 success: true,
-                message: `${deletedKeys.join(" and ")} API key${deletedKeys.length > 1 ? 's' : ''} deleted successfully`,
-                settings: safeSettings,
+                message: "Failover settings removed",
+                policies,
             };
         }),
-}); 
\ No newline at end of file
+});
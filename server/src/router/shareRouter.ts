@@ -0,0 +1,26 @@
+import { z } from "zod";
+import { router } from "../trpc";
+import { publicProcedure } from "../procedures";
+import { TRPCError } from "@trpc/server";
+import { getSharedChat } from "../services/share.service";
+
+// Public, unauthenticated access to shared chats
+export const shareRouter = router({
+  /**
+   * Read-only snapshot of a shared chat, without any owner data.
+   */
+  get: publicProcedure
+    .input(z.object({ token: z.string().min(1).max(100) }))
+    .query(async ({ input }) => {
+      const sharedChat = await getSharedChat(input.token);
+
+      if (!sharedChat) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "This share link does not exist or has expired",
+        });
+      }
+
+      return sharedChat;
+    }),
+});
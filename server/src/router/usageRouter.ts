@@ -0,0 +1,86 @@
+import { z } from "zod";
+import { router } from "../trpc";
+import { withOwnerProcedure } from "../procedures";
+import { PrismaClient } from "@prisma/client";
+import { getBudgetStatus, startOfUtcDay } from "../services/usage.service";
+
+const prisma = new PrismaClient();
+
+export const usageRouter = router({
+  /**
+   * Spending overview for the requester.
+   * Returns:
+   *   - month-to-date spend against the optional monthly budget
+   *   - totals, per-day and per-model breakdowns for the last `days` days
+   */
+  summary: withOwnerProcedure
+    .input(
+      z
+        .object({
+          days: z.number().min(1).max(366).optional().default(30),
+        })
+        .optional()
+        .default({})
+    )
+    .query(async ({ input, ctx }) => {
+      if (!ctx.owner) {
+        throw new Error("Owner not found");
+      }
+
+      const now = new Date();
+      const from = startOfUtcDay(now);
+      from.setUTCDate(from.getUTCDate() - (input.days - 1));
+
+      const [budget, entries] = await Promise.all([
+        getBudgetStatus(ctx.owner.id, now),
+        prisma.usageLedger.findMany({
+          where: { ownerId: ctx.owner.id, date: { gte: from } },
+          orderBy: [{ date: "asc" }, { provider: "asc" }, { model: "asc" }],
+        }),
+      ]);
+
+      const emptyTotals = () => ({
+        messageCount: 0,
+        promptTokens: 0,
+        completionTokens: 0,
+        totalTokens: 0,
+        costUsd: 0,
+      });
+      type Totals = ReturnType<typeof emptyTotals>;
+      const add = (totals: Totals, entry: Totals) => {
+        totals.messageCount += entry.messageCount;
+        totals.promptTokens += entry.promptTokens;
+        totals.completionTokens += entry.completionTokens;
+        totals.totalTokens += entry.totalTokens;
+        totals.costUsd += entry.costUsd;
+      };
+
+      // Aggregate ledger rows (one per day and model) in memory
+      const totals = emptyTotals();
+      const daily = new Map<string, Totals & { date: Date }>();
+      const byModel = new Map<string, Totals & { provider: string; model: string }>();
+
+      for (const entry of entries) {
+        add(totals, entry);
+
+        const dayKey = entry.date.toISOString();
+        if (!daily.has(dayKey)) daily.set(dayKey, { date: entry.date, ...emptyTotals() });
+        add(daily.get(dayKey)!, entry);
+
+        const modelKey = `${entry.provider}/${entry.model}`;
+        if (!byModel.has(modelKey)) {
+          byModel.set(modelKey, { provider: entry.provider, model: entry.model, ...emptyTotals() });
+        }
+        add(byModel.get(modelKey)!, entry);
+      }
+
+      return {
+        from,
+        to: now,
+        budget,
+        totals,
+        daily: Array.from(daily.values()),
+        byModel: Array.from(byModel.values()).sort((a, b) => b.costUsd - a.costUsd),
+      };
+    }),
+});
@@ -0,0 +1,270 @@
+import { Marked, type Tokens } from 'marked';
+import Prism from 'prismjs';
+import 'prismjs/components/prism-bash';
+import 'prismjs/components/prism-c';
+import 'prismjs/components/prism-cpp';
+import 'prismjs/components/prism-csharp';
+import 'prismjs/components/prism-diff';
+import 'prismjs/components/prism-docker';
+import 'prismjs/components/prism-go';
+import 'prismjs/components/prism-java';
+import 'prismjs/components/prism-json';
+import 'prismjs/components/prism-jsx';
+import 'prismjs/components/prism-markdown';
+import 'prismjs/components/prism-python';
+import 'prismjs/components/prism-rust';
+import 'prismjs/components/prism-sql';
+import 'prismjs/components/prism-typescript';
+import 'prismjs/components/prism-tsx';
+import 'prismjs/components/prism-yaml';
+import { MessageStatus, PrismaClient } from '@prisma/client';
+import type { ZipEntry } from '../lib/zip';
+
+const prisma = new PrismaClient();
+
+export type ChatDocumentFormat = 'markdown' | 'html';
+
+export const CHAT_DOCUMENT_EXTENSIONS: Record<ChatDocumentFormat, string> = {
+  markdown: 'md',
+  html: 'html',
+};
+
+export interface DocumentChat {
+  id: string;
+  title: string;
+  description: string;
+  createdAt: Date;
+  model: { provider: string; name: string } | null;
+  messages: {
+    userContent: string;
+    agentContent: string | null;
+    status: MessageStatus;
+    createdAt: Date;
+    model: { provider: string; name: string } | null;
+  }[];
+}
+
+const documentChatInclude = {
+  model: { select: { provider: true, name: true } },
+  messages: {
+    where: { isActive: true },
+    orderBy: { createdAt: 'asc' },
+    select: {
+      userContent: true,
+      agentContent: true,
+      status: true,
+      createdAt: true,
+      model: { select: { provider: true, name: true } },
+    },
+  },
+} as const;
+
+const formatDate = (date: Date) => date.toISOString().slice(0, 16).replace('T', ' ');
+
+const modelLabel = (model: DocumentChat['model']) => (model ? `${model.provider}/${model.name}` : null);
+
+const NO_ANSWER: Partial<Record<MessageStatus, string>> = {
+  [MessageStatus.FAILED]: 'The answer failed.',
+  [MessageStatus.ABORTED]: 'The answer was stopped.',
+};
+
+const answerOf = (message: DocumentChat['messages'][number]) =>
+  message.agentContent || NO_ANSWER[message.status] || 'No answer.';
+
+/**
+ * File name for a chat document: readable title plus the chat id so names
+ * stay unique inside an archive
+ */
+export function chatDocumentFileName(chat: Pick<DocumentChat, 'id' | 'title'>, format: ChatDocumentFormat): string {
+  const slug =
+    chat.title
+      .normalize('NFKD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .replace(/[^\w\s-]/g, '')
+      .trim()
+      .replace(/[\s_-]+/g, '-')
+      .toLowerCase()
+      .slice(0, 60) || 'chat';
+
+  return `${slug}-${chat.id.slice(-8)}.${CHAT_DOCUMENT_EXTENSIONS[format]}`;
+}
+
+/**
+ * The active branch of a chat as Markdown. Answers are kept verbatim, so
+ * their fenced code blocks survive as written.
+ */
+export function renderChatMarkdown(chat: DocumentChat): string {
+  const meta = [`Created ${formatDate(chat.createdAt)}`, modelLabel(chat.model)].filter(Boolean).join(' · ');
+  const parts = [`# ${chat.title}`, `_${meta}_`];
+
+  if (chat.description) parts.push(chat.description);
+
+  for (const message of chat.messages) {
+    const model = modelLabel(message.model);
+    parts.push(
+      '---',
+      `### You`,
+      // Questions are plain text; a blockquote keeps their line breaks visible
+      message.userContent
+        .split('\n')
+        .map((line) => `> ${line}`.trimEnd())
+        .join('\n'),
+      `### Assistant${model ? ` (${model})` : ''}`,
+      answerOf(message)
+    );
+  }
+
+  return `${parts.join('\n\n')}\n`;
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+const highlight = (code: string, lang: string) => {
+  const grammar = Prism.languages[lang];
+  return grammar ? Prism.highlight(code, grammar, lang) : escapeHtml(code);
+};
+
+// Answers may contain raw HTML; it is shown as text, never rendered
+const markdown = new Marked({
+  renderer: {
+    code({ text, lang }: Tokens.Code) {
+      const language = (lang ?? '').match(/^\S*/)?.[0]?.toLowerCase() || 'text';
+      return `<pre class="language-${escapeHtml(language)}"><code class="language-${escapeHtml(language)}">${highlight(text, language)}</code></pre>\n`;
+    },
+    html({ text }: Tokens.HTML | Tokens.Tag) {
+      return escapeHtml(text);
+    },
+  },
+});
+
+// Token colors of the vscDarkPlus theme used by MarkdownHighlighter in the app
+const CODE_STYLES = `
+pre[class*="language-"], code[class*="language-"] {
+  color: #d4d4d4; background: #1e1e1e; font-size: 13px; line-height: 1.5; tab-size: 4;
+  font-family: Menlo, Monaco, Consolas, "Andale Mono", "Ubuntu Mono", "Courier New", monospace;
+  white-space: pre; word-break: normal; text-align: left; direction: ltr;
+}
+pre[class*="language-"] { padding: 1em; margin: .5em 0; overflow: auto; border-radius: 6px; }
+.token.comment, .token.prolog { color: #6a9955; }
+.token.punctuation, .token.operator { color: #d4d4d4; }
+.token.property, .token.constant, .token.attr-name, .token.variable, .token.parameter { color: #9cdcfe; }
+.token.tag, .token.boolean, .token.entity, .token.keyword, .token.important { color: #569cd6; }
+.token.number, .token.symbol, .token.inserted, .token.unit { color: #b5cea8; }
+.token.selector, .token.escape { color: #d7ba7d; }
+.token.string, .token.char, .token.builtin, .token.deleted, .token.attr-value { color: #ce9178; }
+.token.function { color: #dcdcaa; }
+.token.regex { color: #d16969; }
+.token.class-name, .token.namespace { color: #4ec9b0; }
+.token.keyword.module, .token.keyword.control-flow, .token.atrule .token.rule { color: #c586c0; }
+.token.tag .token.punctuation, .token.cdata { color: #808080; }
+.token.italic { font-style: italic; }
+code[class*="language-javascript"], code[class*="language-jsx"],
+code[class*="language-typescript"], code[class*="language-tsx"] { color: #9cdcfe; }
+`;
+
+const PAGE_STYLES = `
+body { max-width: 820px; margin: 0 auto; padding: 32px 24px; font: 15px/1.6 -apple-system, "Segoe UI", Roboto, sans-serif; color: #1f2328; }
+header { border-bottom: 1px solid #d0d7de; margin-bottom: 24px; }
+header p { color: #59636e; margin-top: 0; }
+.turn { margin-bottom: 24px; }
+.role { font-size: 12px; font-weight: 600; text-transform: uppercase; letter-spacing: .04em; color: #59636e; margin: 16px 0 4px; }
+.question { white-space: pre-wrap; background: #f6f8fa; border: 1px solid #d0d7de; border-radius: 8px; padding: 12px 16px; }
+.answer.missing { color: #59636e; font-style: italic; }
+:not(pre) > code { background: #eff1f3; padding: .1em .3em; border-radius: 4px; font-size: 90%; }
+table { border-collapse: collapse; } th, td { border: 1px solid #d0d7de; padding: 4px 8px; }
+blockquote { margin: 0; padding-left: 12px; border-left: 3px solid #d0d7de; color: #59636e; }
+img { max-width: 100%; }
+@media print {
+  body { max-width: none; padding: 0; font-size: 11pt; }
+  .turn, pre { break-inside: avoid; }
+  .role { break-after: avoid; }
+  pre[class*="language-"] { white-space: pre-wrap; word-break: break-word; overflow: visible; }
+  a[href^="http"]::after { content: " (" attr(href) ")"; font-size: 90%; color: #59636e; }
+}
+@page { margin: 18mm 16mm; }
+`;
+
+/**
+ * The active branch of a chat as a standalone HTML page with highlighted code
+ * and a print stylesheet, ready to be saved as PDF from the browser
+ */
+export function renderChatHtml(chat: DocumentChat): string {
+  const meta = [`Created ${formatDate(chat.createdAt)}`, modelLabel(chat.model)].filter(Boolean).join(' · ');
+
+  const turns = chat.messages.map((message) => {
+    const model = modelLabel(message.model);
+    const answer = message.agentContent
+      ? `<div class="answer">${markdown.parse(message.agentContent, { async: false })}</div>`
+      : `<p class="answer missing">${escapeHtml(answerOf(message))}</p>`;
+
+    return `<section class="turn">
+<div class="role">You</div>
+<div class="question">${escapeHtml(message.userContent)}</div>
+<div class="role">Assistant${model ? ` · ${escapeHtml(model)}` : ''}</div>
+${answer}
+</section>`;
+  });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(chat.title)}</title>
+<style>${PAGE_STYLES}${CODE_STYLES}</style>
+</head>
+<body>
+<header>
+<h1>${escapeHtml(chat.title)}</h1>
+<p>${escapeHtml(meta)}</p>
+${chat.description ? `<p>${escapeHtml(chat.description)}</p>` : ''}
+</header>
+${turns.join('\n')}
+</body>
+</html>
+`;
+}
+
+export const renderChatDocument = (chat: DocumentChat, format: ChatDocumentFormat) =>
+  format === 'html' ? renderChatHtml(chat) : renderChatMarkdown(chat);
+
+export async function getDocumentChat(ownerId: string, chatId: string): Promise<DocumentChat | null> {
+  return prisma.chat.findFirst({
+    where: { id: chatId, ownerId, isDeleted: false },
+    include: documentChatInclude,
+  });
+}
+
+/**
+ * Documents for every chat of the owner, loaded a batch at a time so large
+ * histories never sit in memory at once
+ */
+export async function* chatDocumentEntries(
+  ownerId: string,
+  format: ChatDocumentFormat,
+  batchSize: number = 20
+): AsyncGenerator<ZipEntry> {
+  let cursor: string | undefined;
+
+  while (true) {
+    const chats = await prisma.chat.findMany({
+      where: { ownerId, isDeleted: false },
+      include: documentChatInclude,
+      orderBy: { id: 'asc' },
+      take: batchSize,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    });
+
+    for (const chat of chats) {
+      yield {
+        name: chatDocumentFileName(chat, format),
+        data: renderChatDocument(chat, format),
+        modifiedAt: chat.messages.at(-1)?.createdAt ?? chat.createdAt,
+      };
+    }
+
+    if (chats.length < batchSize) return;
+    cursor = chats[chats.length - 1]!.id;
+  }
+}
@@ -0,0 +1,454 @@
+import { z } from 'zod';
+import { MessageStatus, PrismaClient, type Chat, type Message } from '@prisma/client';
+import { chatSettingsSchema } from '../router/chat.settings';
+
+const prisma = new PrismaClient();
+
+export const CHAT_EXPORT_VERSION = '2.0';
+
+// Models are referenced by provider and name so exports work across databases
+const modelRefSchema = z.object({ provider: z.string().min(1), name: z.string().min(1) });
+
+const isoDateSchema = z.string().datetime({ offset: true });
+
+export const exportedMessageSchema = z
+  .object({
+    id: z.string().min(1),
+    parentMessageId: z.string().nullable().default(null),
+    isActive: z.boolean().default(true),
+    userContent: z.string(),
+    agentContent: z.string().nullable().default(null),
+    status: z.nativeEnum(MessageStatus).default(MessageStatus.COMPLETED),
+    model: modelRefSchema.nullable().default(null),
+    createdAt: isoDateSchema,
+    finishedAt: isoDateSchema.nullable().default(null),
+    promptTokens: z.number().int().nonnegative().nullable().default(null),
+    completionTokens: z.number().int().nonnegative().nullable().default(null),
+    totalTokens: z.number().int().nonnegative().nullable().default(null),
+  })
+  // Answers still streaming when exported will never finish after the import
+  .transform((message) =>
+    message.status === MessageStatus.STARTED || message.status === MessageStatus.STREAMING
+      ? { ...message, status: MessageStatus.ABORTED, finishedAt: message.finishedAt ?? message.createdAt }
+      : message
+  );
+
+export const exportedChatSchema = z.object({
+  id: z.string().min(1),
+  title: z.string().min(1),
+  description: z.string().default(''),
+  createdAt: isoDateSchema,
+  model: modelRefSchema.nullable().default(null),
+  // Same limits as `chat.updateSettings`
+  settings: chatSettingsSchema.partial().default({}),
+  tags: z.array(z.string()).default([]),
+  isPinned: z.boolean().default(false),
+  messages: z.array(exportedMessageSchema),
+});
+
+export const chatExportSchema = z.object({
+  version: z.literal(CHAT_EXPORT_VERSION),
+  exportDate: isoDateSchema.optional(),
+  // Informational only, ignored on import
+  owner: z.unknown().optional(),
+  stats: z.object({ totalChats: z.number(), totalMessages: z.number() }).optional(),
+  chats: z.array(z.unknown()),
+});
+
+// Version 1.0: flat message list without branches or settings
+const legacyChatExportSchema = z.object({
+  version: z.literal('1.0'),
+  chats: z.array(
+    z
+      .object({
+        messages: z.array(
+          z
+            .object({
+              model: z.object({ provider: z.string(), name: z.string() }).nullable().optional(),
+            })
+            .passthrough()
+        ),
+        model: z.object({ provider: z.string(), name: z.string() }).nullable().optional(),
+      })
+      .passthrough()
+  ),
+});
+
+export type ModelRef = z.infer<typeof modelRefSchema>;
+export type ExportedMessage = z.infer<typeof exportedMessageSchema>;
+export type ExportedChat = z.infer<typeof exportedChatSchema>;
+type ChatExportEnvelope = z.infer<typeof chatExportSchema>;
+export type ChatExport = Omit<ChatExportEnvelope, 'chats' | 'stats'> & {
+  stats: NonNullable<ChatExportEnvelope['stats']>;
+  chats: ExportedChat[];
+};
+
+type ChatWithMessages = Chat & {
+  model: ModelRef | null;
+  messages: (Message & { model: ModelRef | null })[];
+};
+
+const modelRef = (model: ModelRef | null): ModelRef | null =>
+  model ? { provider: model.provider, name: model.name } : null;
+
+const modelKey = ({ provider, name }: ModelRef) => `${provider}/${name}`;
+
+/**
+ * Export format of a chat loaded with its messages and model references
+ */
+export function toExportedChat(chat: ChatWithMessages): ExportedChat {
+  return {
+    id: chat.id,
+    title: chat.title,
+    description: chat.description,
+    createdAt: chat.createdAt.toISOString(),
+    model: modelRef(chat.model),
+    settings: {
+      systemPrompt: chat.systemPrompt,
+      temperature: chat.temperature,
+      maxTokens: chat.maxTokens,
+      topP: chat.topP,
+    },
+    tags: chat.tags,
+    isPinned: chat.isPinned,
+    messages: chat.messages.map((message) => ({
+      id: message.id,
+      parentMessageId: message.parentMessageId,
+      isActive: message.isActive,
+      userContent: message.userContent,
+      agentContent: message.agentContent,
+      status: message.status,
+      model: modelRef(message.model),
+      createdAt: message.createdAt.toISOString(),
+      finishedAt: message.finishedAt?.toISOString() ?? null,
+      promptTokens: message.promptTokens,
+      completionTokens: message.completionTokens,
+      totalTokens: message.totalTokens,
+    })),
+  };
+}
+
+/**
+ * Turn a version 1.0 export into the current format. Its messages had no
+ * parent links, so each one answers the message before it.
+ */
+export function upgradeLegacyExport(data: z.infer<typeof legacyChatExportSchema>): z.infer<typeof chatExportSchema> {
+  return {
+    version: CHAT_EXPORT_VERSION,
+    chats: data.chats.map((chat) => ({
+      ...chat,
+      model: chat.model ? modelRef(chat.model) : null,
+      messages: chat.messages.map((message, index) => ({
+        ...message,
+        model: message.model ? modelRef(message.model) : null,
+        parentMessageId: index > 0 ? (chat.messages[index - 1]?.id ?? null) : null,
+      })),
+    })),
+  };
+}
+
+export interface ParsedImportChat {
+  index: number;
+  title: string;
+  chat?: ExportedChat;
+  error?: string;
+}
+
+/**
+ * Parse an export file. The envelope must be valid; chats are validated one
+ * by one so a broken chat doesn't block the others.
+ */
+export function parseChatExport(jsonData: string): { chats: ParsedImportChat[] } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(jsonData);
+  } catch {
+    throw new Error('Invalid JSON format');
+  }
+
+  return parseChatExportData(parsed);
+}
+
+export function parseChatExportData(parsed: unknown): { chats: ParsedImportChat[] } {
+  const legacy = legacyChatExportSchema.safeParse(parsed);
+  const envelope = chatExportSchema.safeParse(legacy.success ? upgradeLegacyExport(legacy.data) : parsed);
+  if (!envelope.success) {
+    const version = (parsed as { version?: unknown } | null)?.version;
+    throw new Error(
+      typeof version === 'string' && version !== CHAT_EXPORT_VERSION && version !== '1.0'
+        ? `Unsupported export version "${version}"`
+        : `Invalid export format: ${formatIssues(envelope.error)}`
+    );
+  }
+
+  return {
+    chats: envelope.data.chats.map((raw, index) => {
+      const title = (raw as { title?: unknown } | null)?.title;
+      const result = exportedChatSchema.safeParse(raw);
+
+      return result.success
+        ? { index, title: result.data.title, chat: result.data }
+        : { index, title: typeof title === 'string' && title ? title : 'Untitled', error: formatIssues(result.error) };
+    }),
+  };
+}
+
+export const formatIssues = (error: z.ZodError) =>
+  error.issues
+    .slice(0, 3)
+    .map((issue) => (issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message))
+    .join('; ');
+
+/**
+ * Messages ordered so every parent comes before its children. Throws when a
+ * message points to a parent that is not part of the chat.
+ */
+export function orderParentsFirst<T extends Pick<ExportedMessage, 'id' | 'parentMessageId' | 'createdAt'>>(
+  messages: T[]
+): T[] {
+  const ids = new Set(messages.map((message) => message.id));
+  if (ids.size !== messages.length) {
+    throw new Error('Duplicate message ids');
+  }
+
+  const missingParent = messages.find((message) => message.parentMessageId && !ids.has(message.parentMessageId));
+  if (missingParent) {
+    throw new Error(`Message ${missingParent.id} answers an unknown message`);
+  }
+
+  const byCreatedAt = [...messages].sort((a, b) => Date.parse(a.createdAt) - Date.parse(b.createdAt));
+  const ordered: T[] = [];
+  const placed = new Set<string>();
+
+  // Each pass places the messages whose parent is already placed
+  while (ordered.length < byCreatedAt.length) {
+    const ready = byCreatedAt.filter(
+      (message) => !placed.has(message.id) && (!message.parentMessageId || placed.has(message.parentMessageId))
+    );
+    if (ready.length === 0) {
+      throw new Error('Messages form a cycle');
+    }
+
+    for (const message of ready) {
+      ordered.push(message);
+      placed.add(message.id);
+    }
+  }
+
+  return ordered;
+}
+
+const modelSelect = { select: { name: true, provider: true } } as const;
+
+const exportChatInclude = {
+  model: modelSelect,
+  messages: {
+    orderBy: { createdAt: 'asc' },
+    include: { model: modelSelect },
+  },
+} as const;
+
+async function exportOwner(ownerId: string) {
+  const owner = await prisma.owner.findUnique({
+    where: { id: ownerId },
+    include: {
+      user: { select: { id: true, name: true, email: true } },
+      anonUser: { select: { id: true, sessionId: true } },
+    },
+  });
+
+  return {
+    id: ownerId,
+    type: owner?.user ? 'authenticated' : 'anonymous',
+    user: owner?.user ?? null,
+    anonUser: owner?.anonUser ?? null,
+  };
+}
+
+/**
+ * Export every chat of the owner that is not in the trash
+ */
+export async function buildChatExport(ownerId: string): Promise<ChatExport> {
+  const [chats, owner] = await Promise.all([
+    prisma.chat.findMany({
+      where: { ownerId, isDeleted: false },
+      include: exportChatInclude,
+      orderBy: { createdAt: 'desc' },
+    }),
+    exportOwner(ownerId),
+  ]);
+
+  return {
+    version: CHAT_EXPORT_VERSION,
+    exportDate: new Date().toISOString(),
+    owner,
+    stats: {
+      totalChats: chats.length,
+      totalMessages: chats.reduce((acc, chat) => acc + chat.messages.length, 0),
+    },
+    chats: chats.map(toExportedChat),
+  };
+}
+
+// First line of an NDJSON export; every following line is one exported chat
+export const ndjsonHeaderSchema = z.object({
+  version: z.literal(CHAT_EXPORT_VERSION),
+  format: z.literal('ndjson'),
+  exportDate: isoDateSchema.optional(),
+  owner: z.unknown().optional(),
+});
+
+/**
+ * The owner's chats as NDJSON lines, loaded a page at a time so the export
+ * never holds the whole account in memory
+ */
+export async function* chatExportLines(ownerId: string, batchSize: number = 50): AsyncGenerator<string> {
+  const header: z.infer<typeof ndjsonHeaderSchema> = {
+    version: CHAT_EXPORT_VERSION,
+    format: 'ndjson',
+    exportDate: new Date().toISOString(),
+    owner: await exportOwner(ownerId),
+  };
+  yield `${JSON.stringify(header)}\n`;
+
+  let cursor: string | undefined;
+  while (true) {
+    const chats = await prisma.chat.findMany({
+      where: { ownerId, isDeleted: false },
+      include: exportChatInclude,
+      orderBy: { id: 'asc' },
+      take: batchSize,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    });
+
+    for (const chat of chats) {
+      yield `${JSON.stringify(toExportedChat(chat))}\n`;
+    }
+
+    if (chats.length < batchSize) return;
+    cursor = chats[chats.length - 1]!.id;
+  }
+}
+
+export type ModelResolver = (ref: ModelRef | null) => Promise<string | null>;
+
+/**
+ * Match model references by provider and name against the models the owner
+ * can use, preferring the owner's own model over a system or public one with
+ * the same name. Lookups are cached for the lifetime of the resolver.
+ */
+export function createModelResolver(ownerId: string): ModelResolver {
+  const cache = new Map<string, Promise<string | null>>();
+
+  return (ref) => {
+    if (!ref) return Promise.resolve(null);
+
+    const key = modelKey(ref);
+    if (!cache.has(key)) {
+      cache.set(
+        key,
+        prisma.modelCatalog
+          .findMany({
+            where: {
+              provider: ref.provider,
+              name: ref.name,
+              OR: [{ ownerId: null }, { ownerId }, { isPublic: true }],
+            },
+            select: { id: true, ownerId: true },
+          })
+          .then((models) => (models.find((model) => model.ownerId === ownerId) ?? models[0])?.id ?? null)
+      );
+    }
+
+    return cache.get(key)!;
+  };
+}
+
+/**
+ * Create one exported chat as a new chat of the owner, in a single
+ * transaction. Unknown model references are dropped.
+ */
+export async function importChat(ownerId: string, chat: ExportedChat, resolveModel: ModelResolver): Promise<string> {
+  const messages = orderParentsFirst(chat.messages);
+  const chatModelId = await resolveModel(chat.model);
+  const messageModelIds = await Promise.all(messages.map((message) => resolveModel(message.model)));
+
+  const created = await prisma.$transaction(
+    async (tx) => {
+      const created = await tx.chat.create({
+        data: {
+          ownerId,
+          title: chat.title,
+          description: chat.description,
+          createdAt: new Date(chat.createdAt),
+          modelId: chatModelId,
+          ...chat.settings,
+          tags: chat.tags,
+          isPinned: chat.isPinned,
+        },
+        select: { id: true },
+      });
+
+      const copiedIds = new Map<string, string>();
+      for (const [index, message] of messages.entries()) {
+        const copy = await tx.message.create({
+          data: {
+            chatId: created.id,
+            parentMessageId: message.parentMessageId ? (copiedIds.get(message.parentMessageId) ?? null) : null,
+            isActive: message.isActive,
+            userContent: message.userContent,
+            agentContent: message.agentContent,
+            status: message.status,
+            modelId: messageModelIds[index] ?? null,
+            createdAt: new Date(message.createdAt),
+            finishedAt: message.finishedAt ? new Date(message.finishedAt) : null,
+            promptTokens: message.promptTokens,
+            completionTokens: message.completionTokens,
+            totalTokens: message.totalTokens,
+          },
+          select: { id: true },
+        });
+        copiedIds.set(message.id, copy.id);
+      }
+
+      return created;
+    },
+    { timeout: 30_000 }
+  );
+
+  return created.id;
+}
+
+export interface ChatImportResults {
+  successful: number;
+  failed: number;
+  failures: { index: number; title: string; error: string }[];
+  importedChatIds: string[];
+}
+
+/**
+ * Import parsed chats as new chats of the owner. Every chat is imported in
+ * its own transaction; failures are reported per chat.
+ */
+export async function importChats(ownerId: string, chats: ParsedImportChat[]): Promise<ChatImportResults> {
+  const results: ChatImportResults = { successful: 0, failed: 0, failures: [], importedChatIds: [] };
+  const resolveModel = createModelResolver(ownerId);
+
+  for (const { index, title, chat, error } of chats) {
+    if (!chat) {
+      results.failed++;
+      results.failures.push({ index, title, error: error ?? 'Invalid chat' });
+      continue;
+    }
+
+    try {
+      results.importedChatIds.push(await importChat(ownerId, chat, resolveModel));
+      results.successful++;
+    } catch (err) {
+      results.failed++;
+      results.failures.push({ index, title, error: err instanceof Error ? err.message : 'Unknown error' });
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,301 @@
+import { z } from 'zod';
+import { MessageStatus } from '@prisma/client';
+import { DEFAULT_TITLE_SETTINGS } from '../constants/defaultChatSettings';
+import {
+  formatIssues,
+  parseChatExportData,
+  type ExportedChat,
+  type ExportedMessage,
+  type ModelRef,
+  type ParsedImportChat,
+} from './chat-export.service';
+
+export type ImportFormat = 'tea4chat' | 'chatgpt' | 'claude';
+
+// ChatGPT conversations.json: every conversation is a tree of nodes keyed by id
+const chatGptNodeSchema = z.object({
+  parent: z.string().nullable().optional(),
+  message: z
+    .object({
+      author: z.object({ role: z.string() }),
+      create_time: z.number().nullable().optional(),
+      content: z.object({
+        content_type: z.string(),
+        parts: z.array(z.unknown()).nullable().optional(),
+      }),
+      metadata: z.record(z.unknown()).nullable().optional(),
+    })
+    .nullable()
+    .optional(),
+});
+
+const chatGptConversationSchema = z.object({
+  title: z.string().nullable().optional(),
+  create_time: z.number().nullable().optional(),
+  current_node: z.string().nullable().optional(),
+  default_model_slug: z.string().nullable().optional(),
+  mapping: z.record(chatGptNodeSchema),
+});
+
+// Claude conversations.json: a message list, linked by parent ids in newer exports
+const claudeConversationSchema = z.object({
+  name: z.string().nullable().optional(),
+  created_at: z.string(),
+  current_leaf_message_uuid: z.string().nullable().optional(),
+  chat_messages: z.array(
+    z.object({
+      uuid: z.string(),
+      sender: z.string(),
+      text: z.string().nullable().optional(),
+      content: z
+        .array(z.object({ type: z.string(), text: z.string().nullable().optional() }))
+        .nullable()
+        .optional(),
+      created_at: z.string(),
+      parent_message_uuid: z.string().nullable().optional(),
+    })
+  ),
+});
+
+type ChatGptConversation = z.infer<typeof chatGptConversationSchema>;
+type ClaudeConversation = z.infer<typeof claudeConversationSchema>;
+
+export interface ImportTurn {
+  role: 'user' | 'assistant';
+  text: string;
+  createdAt: Date;
+  model?: ModelRef | null;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Guess the format of an import file from its shape
+ */
+export function detectImportFormat(data: unknown): ImportFormat | null {
+  if (isRecord(data) && typeof data.version === 'string' && Array.isArray(data.chats)) {
+    return 'tea4chat';
+  }
+
+  const first = Array.isArray(data) ? data[0] : data;
+  if (isRecord(first) && isRecord(first.mapping)) return 'chatgpt';
+  if (isRecord(first) && Array.isArray(first.chat_messages)) return 'claude';
+
+  return null;
+}
+
+const toDate = (value: Date | number | string | null | undefined, fallback: Date) => {
+  const date = typeof value === 'number' ? new Date(value * 1000) : value ? new Date(value) : null;
+  return date && !Number.isNaN(date.getTime()) ? date : fallback;
+};
+
+/**
+ * Turn a conversation into question/answer pairs. Consecutive assistant
+ * turns (e.g. around tool use) are joined into one answer; a question that
+ * never got an answer is kept as an aborted message.
+ */
+export function pairTurns(turns: ImportTurn[]): ExportedMessage[] {
+  const messages: ExportedMessage[] = [];
+
+  for (const turn of turns) {
+    const last = messages[messages.length - 1];
+
+    if (turn.role === 'assistant' && last) {
+      last.agentContent = last.agentContent ? `${last.agentContent}\n\n${turn.text}` : turn.text;
+      last.status = MessageStatus.COMPLETED;
+      last.finishedAt = turn.createdAt.toISOString();
+      last.model = turn.model ?? last.model;
+      continue;
+    }
+
+    messages.push({
+      id: `m${messages.length + 1}`,
+      parentMessageId: last?.id ?? null,
+      isActive: true,
+      userContent: turn.role === 'user' ? turn.text : '',
+      agentContent: turn.role === 'assistant' ? turn.text : null,
+      status: turn.role === 'assistant' ? MessageStatus.COMPLETED : MessageStatus.ABORTED,
+      model: turn.model ?? null,
+      createdAt: turn.createdAt.toISOString(),
+      finishedAt: turn.role === 'assistant' ? turn.createdAt.toISOString() : null,
+      promptTokens: null,
+      completionTokens: null,
+      totalTokens: null,
+    });
+  }
+
+  return messages;
+}
+
+const importedTitle = (title: string | null | undefined, turns: ImportTurn[]) => {
+  const fallback = turns.find((turn) => turn.role === 'user')?.text.split('\n')[0]?.trim();
+  return (title?.trim() || fallback || 'Imported chat').slice(0, DEFAULT_TITLE_SETTINGS.maxLength);
+};
+
+const importedChat = (
+  id: string,
+  title: string | null | undefined,
+  createdAt: Date,
+  turns: ImportTurn[],
+  model: ModelRef | null
+): ExportedChat => {
+  const messages = pairTurns(turns);
+
+  return {
+    id,
+    title: importedTitle(title, turns),
+    description: '',
+    createdAt: createdAt.toISOString(),
+    model: model ?? [...messages].reverse().find((message) => message.model)?.model ?? null,
+    settings: { systemPrompt: null, temperature: null, maxTokens: null, topP: null },
+    tags: [],
+    isPinned: false,
+    messages,
+  };
+};
+
+/**
+ * Walk from a leaf up to the root, returning the branch root first
+ */
+function branchFrom<T>(leafId: string | null | undefined, parentOf: (id: string) => string | null | undefined, nodes: Map<string, T>): T[] {
+  const branch: T[] = [];
+  const visited = new Set<string>();
+
+  for (let id = leafId; id && nodes.has(id) && !visited.has(id); id = parentOf(id)) {
+    visited.add(id);
+    branch.unshift(nodes.get(id)!);
+  }
+
+  return branch;
+}
+
+const chatGptText = (content: { content_type: string; parts?: unknown[] | null }) =>
+  ['text', 'multimodal_text'].includes(content.content_type)
+    ? (content.parts ?? [])
+        .filter((part): part is string => typeof part === 'string')
+        .join('\n\n')
+        .trim()
+    : '';
+
+/**
+ * Current branch of a ChatGPT conversation. System prompts, tool calls and
+ * hidden messages are skipped.
+ */
+export function convertChatGptConversation(conversation: ChatGptConversation, index: number): ExportedChat {
+  const created = toDate(conversation.create_time, new Date());
+  const nodes = new Map(Object.entries(conversation.mapping));
+
+  // Older exports lack current_node; fall back to the latest message
+  const leafId =
+    conversation.current_node ??
+    [...nodes.entries()].sort(
+      ([, a], [, b]) => (a.message?.create_time ?? 0) - (b.message?.create_time ?? 0)
+    ).at(-1)?.[0];
+
+  const turns = branchFrom(leafId, (id) => nodes.get(id)?.parent, nodes).flatMap(({ message }): ImportTurn[] => {
+    const role = message?.author.role;
+    if (!message || (role !== 'user' && role !== 'assistant') || message.metadata?.is_visually_hidden_from_conversation) {
+      return [];
+    }
+
+    const text = chatGptText(message.content);
+    const slug = message.metadata?.model_slug;
+
+    return text
+      ? [
+          {
+            role,
+            text,
+            createdAt: toDate(message.create_time, created),
+            model: role === 'assistant' && typeof slug === 'string' ? { provider: 'openai', name: slug } : null,
+          },
+        ]
+      : [];
+  });
+
+  const defaultModel = conversation.default_model_slug
+    ? { provider: 'openai', name: conversation.default_model_slug }
+    : null;
+
+  return importedChat(`chatgpt-${index}`, conversation.title, created, turns, defaultModel);
+}
+
+const claudeText = (message: ClaudeConversation['chat_messages'][number]) => {
+  const parts = (message.content ?? []).filter((part) => part.type === 'text' && part.text).map((part) => part.text);
+  return (parts.length ? parts.join('\n\n') : (message.text ?? '')).trim();
+};
+
+/**
+ * Current branch of a Claude conversation. Exports without parent links are
+ * read as a linear conversation.
+ */
+export function convertClaudeConversation(conversation: ClaudeConversation, index: number): ExportedChat {
+  const created = toDate(conversation.created_at, new Date());
+  const nodes = new Map(conversation.chat_messages.map((message) => [message.uuid, message]));
+  const isBranched = conversation.chat_messages.some(
+    (message) => message.parent_message_uuid && nodes.has(message.parent_message_uuid)
+  );
+
+  const branch = isBranched
+    ? branchFrom(
+        conversation.current_leaf_message_uuid ?? conversation.chat_messages.at(-1)?.uuid,
+        (id) => nodes.get(id)?.parent_message_uuid,
+        nodes
+      )
+    : conversation.chat_messages;
+
+  const turns = branch.flatMap((message): ImportTurn[] => {
+    const text = claudeText(message);
+    const role = message.sender === 'human' ? 'user' : message.sender === 'assistant' ? 'assistant' : null;
+
+    return role && text ? [{ role, text, createdAt: toDate(message.created_at, created) }] : [];
+  });
+
+  return importedChat(`claude-${index}`, conversation.name, created, turns, null);
+}
+
+const convertEach = <T>(
+  conversations: unknown[],
+  schema: z.ZodType<T>,
+  convert: (conversation: T, index: number) => ExportedChat
+): ParsedImportChat[] =>
+  conversations.map((raw, index) => {
+    const result = schema.safeParse(raw);
+    if (!result.success) {
+      const title = isRecord(raw) ? (raw.title ?? raw.name) : null;
+      return { index, title: typeof title === 'string' && title ? title : 'Untitled', error: formatIssues(result.error) };
+    }
+
+    const chat = convert(result.data, index);
+    return chat.messages.length
+      ? { index, title: chat.title, chat }
+      : { index, title: chat.title, error: 'Conversation has no messages' };
+  });
+
+/**
+ * Read an import file in any supported format: our own export, a ChatGPT
+ * conversations.json or a Claude conversations.json
+ */
+export function readImportFile(jsonData: string): { format: ImportFormat; chats: ParsedImportChat[] } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(jsonData);
+  } catch {
+    throw new Error('Invalid JSON format');
+  }
+
+  const format = detectImportFormat(parsed);
+  const conversations = Array.isArray(parsed) ? parsed : [parsed];
+
+  switch (format) {
+    case 'tea4chat':
+      return { format, chats: parseChatExportData(parsed).chats };
+    case 'chatgpt':
+      return { format, chats: convertEach(conversations, chatGptConversationSchema, convertChatGptConversation) };
+    case 'claude':
+      return { format, chats: convertEach(conversations, claudeConversationSchema, convertClaudeConversation) };
+    default:
+      throw new Error('Unrecognized file: expected a tea4chat, ChatGPT or Claude export');
+  }
+}
@@ -0,0 +1,130 @@
+import { PrismaClient, type ProviderCredential } from '@prisma/client';
+import type { OwnerCredentials } from '../lib/ai-providers';
+import { decryptSecret, encryptSecret, loadCredentialKeys, type CredentialKeys } from '../lib/credential-crypto';
+
+const prisma = new PrismaClient();
+
+// Last characters of a key, enough to recognize it in settings
+const keyHint = (apiKey: string) => apiKey.slice(-4);
+
+/**
+ * The owner's API keys, decrypted, for calling providers
+ */
+export async function getOwnerCredentials(ownerId: string): Promise<OwnerCredentials> {
+  const rows = await prisma.providerCredential.findMany({ where: { ownerId } });
+  if (rows.length === 0) return {};
+
+  let credentialKeys: CredentialKeys | undefined;
+  try {
+    credentialKeys = rows.some((row) => row.keyId !== null) ? loadCredentialKeys() : undefined;
+  } catch (error) {
+    console.error('Failed to load credential keys:', error);
+  }
+
+  return decryptCredentials(rows, credentialKeys);
+}
+
+/**
+ * Decrypt stored keys one by one. A key that can't be decrypted (its server
+ * key was retired, the row is corrupt) is left out, so the owner's other
+ * providers keep working.
+ */
+export function decryptCredentials(
+  rows: Pick<ProviderCredential, 'ownerId' | 'provider' | 'secret' | 'keyId' | 'baseUrl' | 'orgId'>[],
+  credentialKeys?: CredentialKeys
+): OwnerCredentials {
+  return Object.fromEntries(
+    rows.flatMap((row) => {
+      try {
+        return [[row.provider, { apiKey: decryptSecret(row, credentialKeys), baseUrl: row.baseUrl, orgId: row.orgId }]];
+      } catch (error) {
+        console.error(`Failed to decrypt the ${row.provider} key of owner ${row.ownerId}:`, error);
+        return [];
+      }
+    })
+  );
+}
+
+/**
+ * What settings show about the owner's keys: never the keys themselves
+ */
+export async function listOwnerCredentials(ownerId: string) {
+  return prisma.providerCredential.findMany({
+    where: { ownerId },
+    select: { provider: true, hint: true, baseUrl: true, orgId: true, updatedAt: true },
+  });
+}
+
+/**
+ * Store a provider key for the owner. Without `apiKey` the stored key is
+ * kept and only the base URL and organization change.
+ */
+export async function saveOwnerCredential(
+  ownerId: string,
+  provider: string,
+  { apiKey, baseUrl, orgId }: { apiKey?: string; baseUrl?: string | null; orgId?: string | null }
+) {
+  const encrypted = apiKey ? { ...encryptSecret(apiKey), hint: keyHint(apiKey) } : undefined;
+
+  if (!encrypted) {
+    const existing = await prisma.providerCredential.findUnique({
+      where: { ownerId_provider: { ownerId, provider } },
+    });
+    if (!existing) {
+      throw new Error('API key is required');
+    }
+  }
+
+  return prisma.providerCredential.upsert({
+    where: { ownerId_provider: { ownerId, provider } },
+    update: { ...encrypted, baseUrl, orgId },
+    create: { ownerId, provider, ...encrypted!, baseUrl, orgId },
+    select: { provider: true, hint: true, baseUrl: true, orgId: true, updatedAt: true },
+  });
+}
+
+export async function deleteOwnerCredential(ownerId: string, provider: string): Promise<boolean> {
+  const result = await prisma.providerCredential.deleteMany({ where: { ownerId, provider } });
+  return result.count > 0;
+}
+
+/**
+ * Re-encrypt every stored key not encrypted with the current server key,
+ * including keys stored before encryption. Keys that can't be decrypted
+ * (their server key was removed) are reported and left as they are.
+ */
+export async function rotateCredentialKeys(batchSize = 100) {
+  const credentialKeys = loadCredentialKeys();
+  let rotated = 0;
+  const failed: string[] = [];
+  let cursor: string | undefined;
+
+  while (true) {
+    const rows = await prisma.providerCredential.findMany({
+      where: {
+        OR: [{ keyId: null }, { keyId: { not: credentialKeys.currentId } }],
+        ...(cursor && { id: { gt: cursor } }),
+      },
+      orderBy: { id: 'asc' },
+      take: batchSize,
+    });
+    if (rows.length === 0) break;
+    cursor = rows[rows.length - 1]!.id;
+
+    for (const row of rows) {
+      try {
+        const apiKey = decryptSecret(row, credentialKeys);
+        await prisma.providerCredential.update({
+          where: { id: row.id },
+          data: { ...encryptSecret(apiKey, credentialKeys), hint: keyHint(apiKey) },
+        });
+        rotated++;
+      } catch (error) {
+        console.error(`Failed to rotate credential ${row.id}:`, error);
+        failed.push(row.id);
+      }
+    }
+  }
+
+  return { rotated, failed };
+}
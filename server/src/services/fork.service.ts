@@ -0,0 +1,123 @@
+import { MessageStatus, Prisma, PrismaClient, type Message } from '@prisma/client';
+import { DEFAULT_TITLE_SETTINGS } from '../constants/defaultChatSettings';
+import { getAncestorIds, type MessageTreeNode } from '../lib/message-tree';
+
+const prisma = new PrismaClient();
+
+const IN_PROGRESS: MessageStatus[] = [MessageStatus.STARTED, MessageStatus.STREAMING];
+
+export function forkTitle(title: string, maxLength: number = DEFAULT_TITLE_SETTINGS.maxLength): string {
+  const suffix = ' (fork)';
+  if (title.length + suffix.length <= maxLength) return `${title}${suffix}`;
+
+  return `${title.slice(0, maxLength - suffix.length - 1).trimEnd()}…${suffix}`;
+}
+
+/**
+ * Messages to copy into a fork: the chosen message and every turn before it
+ * on its branch, oldest first. Throws when the message is unknown or still
+ * being answered.
+ */
+export function selectForkPath<T extends MessageTreeNode & { status: MessageStatus }>(
+  messages: T[],
+  messageId: string
+): T[] {
+  const byId = new Map(messages.map((message) => [message.id, message]));
+  const target = byId.get(messageId);
+
+  if (!target) {
+    throw new Error('Message not found');
+  }
+  if (IN_PROGRESS.includes(target.status)) {
+    throw new Error('Wait for the answer to finish before forking');
+  }
+
+  return [...getAncestorIds(messages, messageId), messageId].flatMap((id) => byId.get(id) ?? []);
+}
+
+const copyMessage = (message: Message, chatId: string, parentMessageId: string | null) => ({
+  chatId,
+  parentMessageId,
+  isActive: true,
+  userContent: message.userContent,
+  agentContent: message.agentContent,
+  modelId: message.modelId,
+  status: message.status,
+  createdAt: message.createdAt,
+  finishedAt: message.finishedAt,
+  promptTokens: message.promptTokens,
+  completionTokens: message.completionTokens,
+  totalTokens: message.totalTokens,
+  providerLatencyMs: message.providerLatencyMs,
+  firstByteMs: message.firstByteMs,
+  errorReason: message.errorReason,
+  metadata: message.metadata ?? Prisma.JsonNull,
+});
+
+/**
+ * Copy a chat up to `messageId` into a new chat of the same owner. The fork
+ * keeps the model, generation settings and folder of the source, and the
+ * chat summary when it only covers copied messages.
+ */
+export async function forkChat({ ownerId, chatId, messageId }: { ownerId: string; chatId: string; messageId: string }) {
+  const chat = await prisma.chat.findFirst({
+    where: { id: chatId, ownerId, isDeleted: false },
+    include: { summary: true },
+  });
+
+  if (!chat) {
+    throw new Error('Chat not found');
+  }
+
+  const messages = await prisma.message.findMany({
+    where: { chatId },
+    orderBy: { createdAt: 'asc' },
+  });
+  const path = selectForkPath(messages, messageId);
+
+  return prisma.$transaction(async (tx) => {
+    const fork = await tx.chat.create({
+      data: {
+        title: forkTitle(chat.title),
+        description: chat.description,
+        ownerId,
+        modelId: chat.modelId,
+        systemPrompt: chat.systemPrompt,
+        temperature: chat.temperature,
+        maxTokens: chat.maxTokens,
+        topP: chat.topP,
+        folderId: chat.folderId,
+        forkedFromChatId: chat.id,
+        forkedFromMessageId: messageId,
+      },
+    });
+
+    // Parents come first in the path, so their copies already exist
+    const copiedIds = new Map<string, string>();
+    for (const message of path) {
+      const parentId = message.parentMessageId ? copiedIds.get(message.parentMessageId) ?? null : null;
+      const copy = await tx.message.create({
+        data: copyMessage(message, fork.id, parentId),
+        select: { id: true },
+      });
+      copiedIds.set(message.id, copy.id);
+    }
+
+    const summarizedUpTo = chat.summary?.summarizedUpToMessageId;
+    if (chat.summary && summarizedUpTo && copiedIds.has(summarizedUpTo)) {
+      await tx.chatSummary.create({
+        data: {
+          chatId: fork.id,
+          content: chat.summary.content,
+          summarizedUpToMessageId: copiedIds.get(summarizedUpTo),
+          summarizedMessageCount: chat.summary.summarizedMessageCount,
+          provider: chat.summary.provider,
+          model: chat.summary.model,
+          isEdited: chat.summary.isEdited,
+        },
+      });
+    }
+
+    return { ...fork, messageCount: path.length };
+  }, { timeout: 30_000 });
+}
@@ -0,0 +1,369 @@
+import { randomUUID } from 'crypto';
+import { createReadStream } from 'fs';
+import { mkdir, open, readFile, readdir, rm, stat, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { CHAT_IMPORT_LIMITS } from '../constants/defaultChatSettings';
+import { cacheHelpers, redis } from '../lib/redis';
+import {
+  createModelResolver,
+  exportedChatSchema,
+  formatIssues,
+  importChat,
+  ndjsonHeaderSchema,
+  type ParsedImportChat,
+} from './chat-export.service';
+import { readImportFile } from './chat-import.service';
+import { publishOwnerEvent } from './owner-events.service';
+
+export type ImportJobStatus = 'uploading' | 'processing' | 'completed' | 'failed';
+
+export interface ImportJob {
+  id: string;
+  ownerId: string;
+  fileName: string;
+  size: number;
+  status: ImportJobStatus;
+  chunkBytes: number;
+  totalChunks: number;
+  uploadedChunks: number;
+  processedChats: number;
+  importedChats: number;
+  failedChats: number;
+  failures: { index: number; title: string; error: string }[];
+  error: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Chunks are kept on local disk: every cluster worker of an instance can read
+// them, and they never have to fit in memory or in Redis
+const IMPORT_DIR = process.env.IMPORT_TMP_DIR || path.join(tmpdir(), 'tea4chat-imports');
+const JOB_TTL_SECONDS = CHAT_IMPORT_LIMITS.jobTtlHours * 60 * 60;
+const UPLOAD_IDLE_MS = CHAT_IMPORT_LIMITS.uploadIdleMinutes * 60 * 1000;
+const PROGRESS_INTERVAL_MS = 1000;
+
+const jobKey = (id: string) => `chat:import:job:${id}`;
+const activeJobKey = (ownerId: string) => `chat:import:active:${ownerId}`;
+// Set once by whichever of start or cancel comes first; the upload is over from then on
+const startKey = (id: string) => `chat:import:start:${id}`;
+const jobDir = (id: string) => path.join(IMPORT_DIR, id);
+const chunkPath = (id: string, index: number) => path.join(jobDir(id), `${String(index).padStart(6, '0')}.part`);
+
+/**
+ * Size a chunk must have: all are `chunkBytes` long except the last one
+ */
+export function expectedChunkSize(size: number, index: number, chunkBytes: number = CHAT_IMPORT_LIMITS.chunkBytes): number {
+  const totalChunks = Math.ceil(size / chunkBytes);
+  return index === totalChunks - 1 ? size - chunkBytes * (totalChunks - 1) : chunkBytes;
+}
+
+/**
+ * Whether the first line of a file is the header of an NDJSON export
+ */
+export function isNdjsonHeader(line: string): boolean {
+  try {
+    return ndjsonHeaderSchema.safeParse(JSON.parse(line)).success;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Lines of the concatenated files, decoded as UTF-8 across chunk boundaries
+ */
+export async function* readLines(files: string[]): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  let rest = '';
+
+  for (const file of files) {
+    for await (const chunk of createReadStream(file)) {
+      let text = decoder.decode(chunk as Buffer, { stream: true });
+
+      for (let newline = text.indexOf('\n'); newline !== -1; newline = text.indexOf('\n')) {
+        yield (rest + text.slice(0, newline)).replace(/\r$/, '');
+        rest = '';
+        text = text.slice(newline + 1);
+      }
+      rest += text;
+    }
+  }
+
+  rest += decoder.decode();
+  if (rest) yield rest.replace(/\r$/, '');
+}
+
+/**
+ * Whether an upload has stopped sending chunks, e.g. because its tab was closed
+ */
+export function isUploadAbandoned(job: Pick<ImportJob, 'status' | 'updatedAt'>, now: number = Date.now()): boolean {
+  return job.status === 'uploading' && now - new Date(job.updatedAt).getTime() >= UPLOAD_IDLE_MS;
+}
+
+async function readHead(file: string, bytes: number = 64 * 1024): Promise<string> {
+  const handle = await open(file);
+  try {
+    const { buffer, bytesRead } = await handle.read(Buffer.alloc(bytes), 0, bytes, 0);
+    return buffer.subarray(0, bytesRead).toString('utf8');
+  } finally {
+    await handle.close();
+  }
+}
+
+async function saveImportJob(job: ImportJob): Promise<ImportJob> {
+  job.updatedAt = new Date().toISOString();
+  await redis.set(jobKey(job.id), JSON.stringify(job), 'EX', JOB_TTL_SECONDS);
+  return job;
+}
+
+// Saves the job unless the upload is over: a chunk finishing after the
+// import started must not put the job back to `uploading`
+const SAVE_UPLOAD_SCRIPT = `
+if redis.call('EXISTS', KEYS[2]) == 1 then return 0 end
+redis.call('SET', KEYS[1], ARGV[1], 'EX', ARGV[2])
+return 1`;
+
+async function saveUploadingJob(job: ImportJob): Promise<ImportJob> {
+  job.updatedAt = new Date().toISOString();
+  const saved = await redis.eval(SAVE_UPLOAD_SCRIPT, 2, jobKey(job.id), startKey(job.id), JSON.stringify(job), JOB_TTL_SECONDS);
+  if (!saved) {
+    throw new Error('The upload is already complete');
+  }
+  return job;
+}
+
+// Ends the upload; only the first of concurrent starts and cancels gets it
+async function claimUpload(job: ImportJob): Promise<boolean> {
+  return !!(await redis.set(startKey(job.id), '1', 'EX', JOB_TTL_SECONDS, 'NX'));
+}
+
+export async function getImportJob(id: string, ownerId: string): Promise<ImportJob | null> {
+  const raw = await redis.get(jobKey(id));
+  const job = raw ? (JSON.parse(raw) as ImportJob) : null;
+
+  return job?.ownerId === ownerId ? job : null;
+}
+
+// Uploads that were abandoned leave their chunks behind
+async function removeStaleUploads(): Promise<void> {
+  const cutoff = Date.now() - JOB_TTL_SECONDS * 1000;
+  const entries = await readdir(IMPORT_DIR).catch(() => [] as string[]);
+
+  await Promise.all(
+    entries.map(async (entry) => {
+      const info = await stat(path.join(IMPORT_DIR, entry)).catch(() => null);
+      if (info && info.mtimeMs < cutoff) {
+        await rm(path.join(IMPORT_DIR, entry), { recursive: true, force: true });
+      }
+    })
+  );
+}
+
+/**
+ * Start an upload. An owner runs one import at a time.
+ */
+export async function createImportJob(ownerId: string, file: { fileName: string; size: number }): Promise<ImportJob> {
+  if (file.size <= 0) {
+    throw new Error('The file is empty');
+  }
+  if (file.size > CHAT_IMPORT_LIMITS.maxFileBytes) {
+    throw new Error(`Files are limited to ${CHAT_IMPORT_LIMITS.maxFileBytes / 1024 / 1024}MB`);
+  }
+
+  const id = randomUUID();
+  const acquired = await redis.set(activeJobKey(ownerId), id, 'EX', JOB_TTL_SECONDS, 'NX');
+  if (!acquired) {
+    const activeId = await redis.get(activeJobKey(ownerId));
+    const active = activeId ? await getImportJob(activeId, ownerId) : null;
+    if (active && (active.status === 'uploading' || active.status === 'processing') && !isUploadAbandoned(active)) {
+      throw new Error('Another import is still running');
+    }
+    if (active && isUploadAbandoned(active)) {
+      // It may have been started just now after all
+      if (!(await claimUpload(active))) {
+        throw new Error('Another import is still running');
+      }
+      await removeImportJob(active);
+    }
+    await redis.set(activeJobKey(ownerId), id, 'EX', JOB_TTL_SECONDS);
+  }
+
+  await removeStaleUploads();
+  await mkdir(jobDir(id), { recursive: true });
+
+  const now = new Date().toISOString();
+  return saveImportJob({
+    id,
+    ownerId,
+    fileName: file.fileName,
+    size: file.size,
+    status: 'uploading',
+    chunkBytes: CHAT_IMPORT_LIMITS.chunkBytes,
+    totalChunks: Math.ceil(file.size / CHAT_IMPORT_LIMITS.chunkBytes),
+    uploadedChunks: 0,
+    processedChats: 0,
+    importedChats: 0,
+    failedChats: 0,
+    failures: [],
+    error: null,
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
+async function removeImportJob(job: ImportJob): Promise<void> {
+  await rm(jobDir(job.id), { recursive: true, force: true });
+  await redis.del(jobKey(job.id));
+}
+
+/**
+ * Cancel an upload: its chunks are removed and the owner can start another
+ * import straight away. Imports already processing run to the end.
+ */
+export async function cancelImportJob(job: ImportJob): Promise<void> {
+  if (job.status !== 'uploading' || !(await claimUpload(job))) {
+    throw new Error('The import has already started');
+  }
+
+  await removeImportJob(job);
+  if ((await redis.get(activeJobKey(job.ownerId))) === job.id) {
+    await redis.del(activeJobKey(job.ownerId));
+  }
+}
+
+/**
+ * Store one chunk of the file. Sending the same chunk again replaces it, so
+ * failed uploads can simply be retried.
+ */
+export async function saveImportChunk(job: ImportJob, index: number, data: Uint8Array): Promise<ImportJob> {
+  // The job may have been started while the chunk was being received
+  const current = await getImportJob(job.id, job.ownerId);
+  if (current?.status !== 'uploading') {
+    throw new Error('The upload is already complete');
+  }
+  if (!Number.isInteger(index) || index < 0 || index >= job.totalChunks) {
+    throw new Error('Invalid chunk index');
+  }
+  const expected = expectedChunkSize(job.size, index, job.chunkBytes);
+  if (data.length !== expected) {
+    throw new Error(`Chunk ${index} should be ${expected} bytes`);
+  }
+
+  await writeFile(chunkPath(job.id, index), data);
+  job.uploadedChunks = (await readdir(jobDir(job.id))).length;
+
+  return saveUploadingJob(job);
+}
+
+/**
+ * Import the uploaded file in the background. Progress is written to Redis
+ * so any worker can report it.
+ */
+export async function startImportJob(job: ImportJob): Promise<ImportJob> {
+  if (job.status !== 'uploading') {
+    throw new Error('The import has already started');
+  }
+
+  // An abandoned upload may have been replaced by a newer import
+  if ((await redis.get(activeJobKey(job.ownerId))) !== job.id) {
+    throw new Error('The upload has expired');
+  }
+
+  const uploaded = (await readdir(jobDir(job.id)).catch(() => [] as string[])).length;
+  if (uploaded !== job.totalChunks) {
+    throw new Error(`Upload incomplete: ${uploaded} of ${job.totalChunks} chunks received`);
+  }
+
+  // A second start, e.g. a double click or a retry, would import every chat twice
+  if (!(await claimUpload(job))) {
+    throw new Error('The import has already started');
+  }
+
+  job.status = 'processing';
+  job.uploadedChunks = uploaded;
+  await saveImportJob(job);
+
+  processImportJob(job).catch((error) => console.error('Failed to process import job:', error));
+
+  return job;
+}
+
+async function processImportJob(job: ImportJob): Promise<void> {
+  const files = Array.from({ length: job.totalChunks }, (_, index) => chunkPath(job.id, index));
+  const resolveModel = createModelResolver(job.ownerId);
+  let lastSave = Date.now();
+
+  const record = async ({ index, title, chat, error }: ParsedImportChat) => {
+    job.processedChats++;
+
+    try {
+      if (!chat) throw new Error(error ?? 'Invalid chat');
+      await importChat(job.ownerId, chat, resolveModel);
+      job.importedChats++;
+    } catch (err) {
+      job.failedChats++;
+      if (job.failures.length < CHAT_IMPORT_LIMITS.maxReportedFailures) {
+        job.failures.push({ index, title, error: err instanceof Error ? err.message : 'Unknown error' });
+      }
+    }
+
+    if (Date.now() - lastSave >= PROGRESS_INTERVAL_MS) {
+      lastSave = Date.now();
+      await saveImportJob(job);
+    }
+  };
+
+  try {
+    const head = await readHead(files[0]!);
+    const firstLine = head.split('\n')[0] ?? '';
+
+    if (head.includes('\n') && isNdjsonHeader(firstLine)) {
+      // One chat per line after the header
+      let index = -1;
+      for await (const line of readLines(files)) {
+        if (index++ < 0 || !line.trim()) continue;
+
+        let parsed: unknown;
+        try {
+          parsed = JSON.parse(line);
+        } catch {
+          await record({ index, title: 'Untitled', error: `Invalid JSON on line ${index + 2}` });
+          continue;
+        }
+
+        const result = exportedChatSchema.safeParse(parsed);
+        const title = (parsed as { title?: unknown } | null)?.title;
+        await record(
+          result.success
+            ? { index, title: result.data.title, chat: result.data }
+            : { index, title: typeof title === 'string' && title ? title : 'Untitled', error: formatIssues(result.error) }
+        );
+      }
+    } else {
+      if (job.size > CHAT_IMPORT_LIMITS.maxJsonBytes) {
+        throw new Error('This file is too large to import at once. Export it as NDJSON instead.');
+      }
+
+      const text = Buffer.concat(await Promise.all(files.map((file) => readFile(file)))).toString('utf8');
+      for (const chat of readImportFile(text).chats) {
+        await record(chat);
+      }
+    }
+
+    job.status = 'completed';
+  } catch (err) {
+    job.status = 'failed';
+    job.error = err instanceof Error ? err.message : 'Unknown error';
+  } finally {
+    await saveImportJob(job);
+    await rm(jobDir(job.id), { recursive: true, force: true });
+
+    if ((await redis.get(activeJobKey(job.ownerId))) === job.id) {
+      await redis.del(activeJobKey(job.ownerId));
+    }
+    if (job.importedChats > 0) {
+      await cacheHelpers.invalidateOwnerCache(job.ownerId);
+      await publishOwnerEvent(job.ownerId, { type: 'chats.changed' });
+    }
+  }
+}
@@ -0,0 +1,104 @@
+import { Prisma, PrismaClient, type ModelCatalog } from '@prisma/client';
+import {
+  getModelPolicies,
+  resolveRetryPolicy,
+  type FailoverCandidate,
+  type ModelPolicy,
+} from '../lib/provider-failover';
+
+const prisma = new PrismaClient();
+
+type PolicyModel = Pick<ModelCatalog, 'provider' | 'name'> &
+  Partial<Pick<ModelCatalog, 'id' | 'extra' | 'endpoint'>>;
+
+// Models an owner can answer with
+const accessibleTo = (ownerId: string): Prisma.ModelCatalogWhereInput => ({
+  OR: [{ ownerId: null }, { ownerId }, { isPublic: true }],
+});
+
+export async function getOwnerModelPolicies(ownerId: string): Promise<Record<string, ModelPolicy>> {
+  const settings = await prisma.ownerSettings.findUnique({
+    where: { ownerId },
+    select: { extra: true },
+  });
+  return getModelPolicies(settings?.extra);
+}
+
+/**
+ * Set the retries and fallback chain of one of the models the owner can use;
+ * `null` goes back to the defaults.
+ */
+export async function saveModelPolicy(ownerId: string, modelId: string, policy: ModelPolicy | null) {
+  const fallbackModelIds = [...new Set(policy?.fallbackModelIds ?? [])];
+  if (fallbackModelIds.includes(modelId)) {
+    throw new Error("A model can't fall back to itself");
+  }
+
+  const ids = [modelId, ...fallbackModelIds];
+  const models = await prisma.modelCatalog.count({
+    where: { id: { in: ids }, ...accessibleTo(ownerId) },
+  });
+  if (models !== ids.length) {
+    throw new Error('Model not found or access denied');
+  }
+
+  const settings = await prisma.ownerSettings.findUnique({
+    where: { ownerId },
+    select: { extra: true },
+  });
+  const extra =
+    settings?.extra && typeof settings.extra === 'object' && !Array.isArray(settings.extra) ? settings.extra : {};
+
+  const policies = getModelPolicies(extra);
+  if (policy) {
+    policies[modelId] = { retry: policy.retry, fallbackModelIds };
+  } else {
+    delete policies[modelId];
+  }
+
+  const updated = { ...extra, modelPolicies: policies } as Prisma.InputJsonObject;
+  await prisma.ownerSettings.upsert({
+    where: { ownerId },
+    update: { extra: updated },
+    create: { ownerId, extra: updated },
+  });
+
+  return policies;
+}
+
+/**
+ * The enabled models among `ids` that the owner can answer with, in the
+ * order of `ids`
+ */
+export async function getUsableModels(ownerId: string, ids: string[]): Promise<PolicyModel[]> {
+  const models = await prisma.modelCatalog.findMany({
+    where: { id: { in: ids }, isEnabled: true, ...accessibleTo(ownerId) },
+    select: { id: true, provider: true, name: true, extra: true, endpoint: true },
+  });
+
+  return ids.flatMap((id) => models.filter((model) => model.id === id));
+}
+
+/**
+ * The model to answer with followed by its fallback chain, each with its
+ * retry policy. Fallbacks the owner can no longer use, or that are
+ * disabled, are left out.
+ */
+export async function getFailoverCandidates<M extends PolicyModel>(
+  ownerId: string,
+  model: M
+): Promise<(PolicyModel & FailoverCandidate)[]> {
+  const policies = await getOwnerModelPolicies(ownerId);
+  const policy = model.id ? policies[model.id] : undefined;
+  const primary = { ...model, retry: resolveRetryPolicy(policy?.retry) };
+
+  const fallbackModelIds = policy?.fallbackModelIds ?? [];
+  if (fallbackModelIds.length === 0) return [primary];
+
+  const fallbacks = await getUsableModels(ownerId, fallbackModelIds);
+
+  return [
+    primary,
+    ...fallbacks.map((fallback) => ({ ...fallback, retry: resolveRetryPolicy(policies[fallback.id!]?.retry) })),
+  ];
+}
@@ -0,0 +1,130 @@
+import { Prisma, PrismaClient, type ModelCatalog } from '@prisma/client';
+import { CUSTOM_MODEL_LIMITS } from '../constants/defaultOwnerSettings';
+import { listOllamaModels, type OllamaModelInfo } from '../lib/ai-providers';
+import { assertPublicEndpoint } from '../lib/endpoint-policy';
+
+const prisma = new PrismaClient();
+
+export interface OllamaSyncPlan {
+  create: OllamaModelInfo[];
+  update: { id: string; model: OllamaModelInfo }[];
+  // Ollama models of this server that are no longer installed
+  disable: { id: string; name: string }[];
+  // Installed models that can't be added: the name is taken by another
+  // provider's model, or the owner has no room left
+  skipped: string[];
+}
+
+export const normalizeOllamaEndpoint = (endpoint: string) => endpoint.trim().replace(/\/+$/, '');
+
+const describeOllamaModel = (model: OllamaModelInfo) =>
+  ['Ollama', model.family, model.parameterSize, model.quantizationLevel].filter(Boolean).join(' · ');
+
+/**
+ * Work out how the owner's catalog changes to match the models installed on
+ * an Ollama server. Catalog names are unique per owner, so a model is matched
+ * by name whatever endpoint it was found at before.
+ */
+export function planOllamaSync(
+  existing: Pick<ModelCatalog, 'id' | 'name' | 'provider' | 'endpoint'>[],
+  installed: OllamaModelInfo[],
+  endpoint: string,
+  maxModels: number = CUSTOM_MODEL_LIMITS.maxModelsPerOwner
+): OllamaSyncPlan {
+  const byName = new Map(existing.map((model) => [model.name, model]));
+  const installedNames = new Set(installed.map((model) => model.name));
+  const plan: OllamaSyncPlan = { create: [], update: [], disable: [], skipped: [] };
+  let room = maxModels - existing.length;
+
+  for (const model of installed) {
+    const entry = byName.get(model.name);
+
+    if (entry && entry.provider !== 'ollama') {
+      plan.skipped.push(model.name);
+    } else if (entry) {
+      plan.update.push({ id: entry.id, model });
+    } else if (room > 0) {
+      plan.create.push(model);
+      room--;
+    } else {
+      plan.skipped.push(model.name);
+    }
+  }
+
+  for (const model of existing) {
+    if (
+      model.provider === 'ollama' &&
+      model.endpoint &&
+      normalizeOllamaEndpoint(model.endpoint) === endpoint &&
+      !installedNames.has(model.name)
+    ) {
+      plan.disable.push({ id: model.id, name: model.name });
+    }
+  }
+
+  return plan;
+}
+
+const withHeaders = (extra: Prisma.JsonValue | null, headers?: Record<string, string>): Prisma.InputJsonObject => {
+  const current = extra && typeof extra === 'object' && !Array.isArray(extra) ? extra : {};
+  return (headers ? { ...current, headers } : current) as Prisma.InputJsonObject;
+};
+
+/**
+ * Add the models installed on an Ollama server to the owner's catalog,
+ * re-enable the ones already there and disable the ones removed from the
+ * server. `headers` are stored on every synced model when given. Servers on
+ * a local or private network must be allowed by the operator, see
+ * lib/endpoint-policy.ts.
+ */
+export async function syncOllamaModels(
+  ownerId: string,
+  { endpoint, headers }: { endpoint: string; headers?: Record<string, string> }
+) {
+  const baseUrl = normalizeOllamaEndpoint(endpoint);
+  await assertPublicEndpoint(baseUrl);
+
+  const installed = await listOllamaModels(baseUrl, headers);
+  const existing = await prisma.modelCatalog.findMany({ where: { ownerId } });
+  const plan = planOllamaSync(existing, installed, baseUrl);
+  const extraById = new Map(existing.map((model) => [model.id, model.extra]));
+
+  await prisma.$transaction([
+    ...plan.create.map((model) =>
+      prisma.modelCatalog.create({
+        data: {
+          ownerId,
+          provider: 'ollama',
+          name: model.name,
+          description: describeOllamaModel(model),
+          endpoint: baseUrl,
+          isEnabled: true,
+          extra: withHeaders(null, headers),
+        },
+      })
+    ),
+    ...plan.update.map(({ id, model }) =>
+      prisma.modelCatalog.update({
+        where: { id },
+        data: {
+          description: describeOllamaModel(model),
+          endpoint: baseUrl,
+          isEnabled: true,
+          extra: withHeaders(extraById.get(id) ?? null, headers),
+        },
+      })
+    ),
+    prisma.modelCatalog.updateMany({
+      where: { id: { in: plan.disable.map((model) => model.id) } },
+      data: { isEnabled: false },
+    }),
+  ]);
+
+  return {
+    endpoint: baseUrl,
+    added: plan.create.map((model) => model.name),
+    updated: plan.update.map(({ model }) => model.name),
+    disabled: plan.disable.map((model) => model.name),
+    skipped: plan.skipped,
+  };
+}
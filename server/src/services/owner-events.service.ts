@@ -0,0 +1,107 @@
+import type Redis from 'ioredis';
+import { redisPubSub } from '../lib/redis';
+
+/**
+ * Changes to an owner's chats, pushed to their other tabs and devices so
+ * chat lists stay current without refetching
+ */
+export type OwnerEvent =
+  | { type: 'chat.created'; chatId: string }
+  | { type: 'chat.updated'; chatIds: string[]; title?: string }
+  | { type: 'chat.deleted'; chatIds: string[] }
+  | { type: 'chat.restored'; chatIds: string[] }
+  | { type: 'chat.purged'; chatIds: string[] }
+  // Bulk changes (imports, syncs, deleting everything): reload the lists
+  | { type: 'chats.changed' };
+
+type OwnerEventListener = (event: OwnerEvent) => void;
+
+const channelOf = (ownerId: string) => `owner:events:${ownerId}`;
+
+const listeners = new Map<string, Set<OwnerEventListener>>();
+let subscriber: Redis | null = null;
+
+/**
+ * Notify every open session of the owner. Failures are logged only: a missed
+ * event costs a stale list, not the change that caused it.
+ */
+export async function publishOwnerEvent(ownerId: string, event: OwnerEvent): Promise<void> {
+  try {
+    await redisPubSub.publish(channelOf(ownerId), JSON.stringify(event));
+  } catch (error) {
+    console.error('Failed to publish owner event:', error);
+  }
+}
+
+// One subscriber connection per process, shared by all open subscriptions
+function getSubscriber(): Redis {
+  if (!subscriber) {
+    subscriber = redisPubSub.duplicate();
+    subscriber.on('message', (channel: string, message: string) => {
+      const channelListeners = listeners.get(channel);
+      if (!channelListeners) return;
+
+      const event = JSON.parse(message) as OwnerEvent;
+      for (const listener of channelListeners) listener(event);
+    });
+    subscriber.on('error', (error) => {
+      console.error('Owner events subscriber error:', error);
+    });
+  }
+  return subscriber;
+}
+
+/**
+ * Listen to the owner's events; returns a function removing the listener
+ */
+export function addOwnerEventListener(ownerId: string, listener: OwnerEventListener): () => void {
+  const channel = channelOf(ownerId);
+  let channelListeners = listeners.get(channel);
+
+  if (!channelListeners) {
+    channelListeners = new Set();
+    listeners.set(channel, channelListeners);
+    getSubscriber().subscribe(channel).catch((error) => console.error('Failed to subscribe to owner events:', error));
+  }
+  channelListeners.add(listener);
+
+  return () => {
+    channelListeners.delete(listener);
+    if (channelListeners.size === 0 && listeners.get(channel) === channelListeners) {
+      listeners.delete(channel);
+      getSubscriber().unsubscribe(channel).catch((error) => console.error('Failed to unsubscribe from owner events:', error));
+    }
+  };
+}
+
+/**
+ * The owner's events as they happen, until `signal` aborts
+ */
+export async function* ownerEvents(ownerId: string, signal?: AbortSignal): AsyncGenerator<OwnerEvent> {
+  const queue: OwnerEvent[] = [];
+  let wake: (() => void) | null = null;
+
+  const removeListener = addOwnerEventListener(ownerId, (event) => {
+    queue.push(event);
+    wake?.();
+  });
+  const onAbort = () => wake?.();
+  signal?.addEventListener('abort', onAbort);
+
+  try {
+    while (!signal?.aborted) {
+      const event = queue.shift();
+      if (event) {
+        yield event;
+        continue;
+      }
+      await new Promise<void>((resolve) => {
+        wake = resolve;
+      });
+      wake = null;
+    }
+  } finally {
+    removeListener();
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
@@ -0,0 +1,101 @@
+import { z } from 'zod';
+import { PrismaClient } from '@prisma/client';
+import { CHAT_SETTINGS_LIMITS } from '../constants/defaultChatSettings';
+
+const prisma = new PrismaClient();
+
+// Generation fields shared by create, update and import
+export const presetSettingsSchema = z.object({
+  description: z.string().max(500).nullable().optional(),
+  systemPrompt: z.string().max(CHAT_SETTINGS_LIMITS.systemPromptMaxLength).nullable().optional(),
+  temperature: z
+    .number()
+    .min(CHAT_SETTINGS_LIMITS.temperature.min)
+    .max(CHAT_SETTINGS_LIMITS.temperature.max)
+    .nullable()
+    .optional(),
+  maxTokens: z
+    .number()
+    .int()
+    .min(CHAT_SETTINGS_LIMITS.maxTokens.min)
+    .max(CHAT_SETTINGS_LIMITS.maxTokens.max)
+    .nullable()
+    .optional(),
+  topP: z.number().min(CHAT_SETTINGS_LIMITS.topP.min).max(CHAT_SETTINGS_LIMITS.topP.max).nullable().optional(),
+});
+
+export const presetNameSchema = z.string().trim().min(1, 'Preset name is required').max(100);
+
+// Exported presets reference models by provider and name, not by id
+export const presetExportSchema = z.object({
+  version: z.literal('1.0'),
+  exportDate: z.string().optional(),
+  presets: z.array(
+    presetSettingsSchema.extend({
+      name: presetNameSchema,
+      model: z.object({ provider: z.string(), name: z.string() }).nullable().optional(),
+    })
+  ),
+});
+
+export type PresetExport = z.infer<typeof presetExportSchema>;
+
+/**
+ * Read a preset export document, throwing with the first problem found.
+ */
+export function parsePresetExport(jsonData: string): PresetExport {
+  let parsedData: unknown;
+  try {
+    parsedData = JSON.parse(jsonData);
+  } catch {
+    throw new Error('Invalid JSON format');
+  }
+
+  const result = presetExportSchema.safeParse(parsedData);
+  if (!result.success) {
+    throw new Error(`Invalid preset export: ${result.error.issues[0]?.message ?? 'unknown error'}`);
+  }
+
+  return result.data;
+}
+
+/**
+ * Models an owner may attach to a preset: system, own and public models.
+ */
+export const findAccessibleModel = (ownerId: string, where: { id: string } | { provider: string; name: string }) =>
+  prisma.modelCatalog.findFirst({
+    where: {
+      ...where,
+      isEnabled: true,
+      OR: [{ ownerId: null }, { ownerId }, { isPublic: true }],
+    },
+    select: { id: true },
+  });
+
+/**
+ * Find the preset an owner may use: their own or a published one.
+ */
+export const findUsablePreset = (ownerId: string, presetId: string) =>
+  prisma.preset.findFirst({
+    where: {
+      id: presetId,
+      OR: [{ ownerId }, { isPublic: true }],
+    },
+  });
+
+/**
+ * Throws unless a published preset may use the model: everyone who picks
+ * the preset must be able to use it, so it has to be a system or public one.
+ */
+export async function assertPublishableModel(modelId: string | null): Promise<void> {
+  if (!modelId) return;
+
+  const model = await prisma.modelCatalog.findFirst({
+    where: { id: modelId, OR: [{ ownerId: null }, { isPublic: true }] },
+    select: { id: true },
+  });
+
+  if (!model) {
+    throw new Error('Published presets can only use system or public models');
+  }
+}
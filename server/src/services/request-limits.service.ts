@@ -0,0 +1,55 @@
+import { type ModelCatalog } from '@prisma/client';
+import { TRPCError } from '@trpc/server';
+import { AIProviderFactory, type OwnerCredentials } from '../lib/ai-providers';
+import { BudgetExceededError } from '../lib/errors';
+import { checkFreeTierRateLimit } from '../lib/rate-limit';
+import { getBudgetStatus } from './usage.service';
+
+/**
+ * Whether requests to the provider are paid with the server's API key: it
+ * needs one and the owner has none of their own
+ */
+export function usesServerKey(provider: string, credentials: OwnerCredentials): boolean {
+  return (
+    AIProviderFactory.getCredentialProviders().some(({ name }) => name === provider) && !credentials[provider]
+  );
+}
+
+/**
+ * Throws when the owner relies on the free tier (no own API key) and has used it up
+ */
+export async function enforceFreeTierRateLimit(
+  ownerId: string,
+  model: Pick<ModelCatalog, 'provider' | 'name'>,
+  credentials: OwnerCredentials
+): Promise<void> {
+  if (!usesServerKey(model.provider, credentials)) return;
+
+  const rateLimitResult = await checkFreeTierRateLimit(ownerId, model.provider);
+  if (!rateLimitResult.isRateLimited) return;
+
+  const timeLeftMinutes = rateLimitResult.timeLeftSeconds ? Math.ceil(rateLimitResult.timeLeftSeconds / 60) : null;
+  throw new TRPCError({
+    code: 'TOO_MANY_REQUESTS',
+    message: timeLeftMinutes
+      ? `Rate limit exceeded. Please try again in ${timeLeftMinutes} minutes or setup API key in settings.`
+      : 'Rate limit exceeded. Please try again later or setup API key in settings.',
+  });
+}
+
+/**
+ * Refuses new requests once the owner's monthly budget is used up
+ */
+export async function enforceMonthlyBudget(ownerId: string): Promise<void> {
+  const budget = await getBudgetStatus(ownerId);
+  if (!budget.isExceeded || budget.budgetUsd === null) return;
+
+  const budgetError = new BudgetExceededError(budget.budgetUsd);
+  throw new TRPCError({
+    code: 'FORBIDDEN',
+    message: budgetError.message,
+    cause: {
+      errorCode: budgetError.code,
+    },
+  });
+}
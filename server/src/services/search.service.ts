@@ -0,0 +1,158 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+// Markers ts_headline puts around matches; split into segments before leaving the server
+const HIGHLIGHT_START = '⟦';
+const HIGHLIGHT_END = '⟧';
+const HEADLINE_OPTIONS = [
+  `StartSel=${HIGHLIGHT_START}`,
+  `StopSel=${HIGHLIGHT_END}`,
+  'MaxWords=24',
+  'MinWords=8',
+  'MaxFragments=2',
+  'FragmentDelimiter=" … "',
+].join(', ');
+
+export interface SnippetSegment {
+  text: string;
+  highlight: boolean;
+}
+
+export interface SearchHit {
+  kind: 'chat' | 'message';
+  chatId: string;
+  chatTitle: string;
+  /** Matching message; null when only the chat title matched */
+  messageId: string | null;
+  createdAt: Date;
+  snippet: SnippetSegment[];
+}
+
+interface SearchCursor {
+  createdAt: Date;
+  id: string;
+}
+
+/**
+ * Split a ts_headline result into plain and highlighted segments
+ */
+export function parseSnippet(headline: string): SnippetSegment[] {
+  const segments: SnippetSegment[] = [];
+
+  for (const part of headline.split(HIGHLIGHT_START)) {
+    const [highlighted, rest] = part.includes(HIGHLIGHT_END)
+      ? (part.split(HIGHLIGHT_END, 2) as [string, string])
+      : [null, part];
+
+    if (highlighted) segments.push({ text: highlighted, highlight: true });
+    if (rest) segments.push({ text: rest, highlight: false });
+  }
+
+  // Merge neighbours of the same kind ("foo bar" matched word by word)
+  return segments.reduce<SnippetSegment[]>((merged, segment) => {
+    const last = merged.at(-1);
+    if (last && last.highlight === segment.highlight) last.text += segment.text;
+    else merged.push({ ...segment });
+    return merged;
+  }, []);
+}
+
+/** Opaque cursor pointing after the given hit */
+export function encodeCursor({ createdAt, id }: SearchCursor): string {
+  return Buffer.from(JSON.stringify([createdAt.toISOString(), id])).toString('base64url');
+}
+
+export function decodeCursor(cursor: string): SearchCursor | null {
+  try {
+    const [createdAt, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+    const date = new Date(createdAt);
+    if (typeof id !== 'string' || Number.isNaN(date.getTime())) return null;
+    return { createdAt: date, id };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Full-text search over the owner's chat titles and the messages of their
+ * active branches, newest first
+ */
+export async function searchChats(
+  ownerId: string,
+  { query, limit, cursor }: { query: string; limit: number; cursor?: string }
+): Promise<{ hits: SearchHit[]; nextCursor: string | null }> {
+  const after = cursor ? decodeCursor(cursor) : null;
+  if (cursor && !after) {
+    throw new Error('Invalid search cursor');
+  }
+
+  const afterCondition = after
+    ? // Timestamps are stored as UTC without a zone
+      Prisma.sql`WHERE ("createdAt", "hitId") < (${after.createdAt.toISOString()}::timestamp, ${after.id})`
+    : Prisma.empty;
+
+  const rows = await prisma.$queryRaw<
+    {
+      kind: 'chat' | 'message';
+      hitId: string;
+      chatId: string;
+      messageId: string | null;
+      createdAt: Date;
+      chatTitle: string;
+      headline: string;
+    }[]
+  >`
+    WITH search AS (
+      SELECT websearch_to_tsquery('simple', ${query}) AS query
+    ),
+    hits AS (
+      SELECT 'message' AS kind, m."id" AS "hitId", m."chatId", m."id" AS "messageId", m."createdAt",
+             m."userContent" || E'\\n' || coalesce(m."agentContent", '') AS body
+      FROM "Message" m
+      JOIN "Chat" c ON c."id" = m."chatId"
+      CROSS JOIN search
+      WHERE c."ownerId" = ${ownerId}
+        AND c."isDeleted" = false
+        AND m."isActive" = true
+        AND m."searchVector" @@ search.query
+      UNION ALL
+      SELECT 'chat', c."id", c."id", NULL, c."createdAt", c."title"
+      FROM "Chat" c
+      CROSS JOIN search
+      WHERE c."ownerId" = ${ownerId}
+        AND c."isDeleted" = false
+        AND c."searchVector" @@ search.query
+    ),
+    page AS (
+      SELECT * FROM hits
+      ${afterCondition}
+      ORDER BY "createdAt" DESC, "hitId" DESC
+      LIMIT ${limit + 1}
+    )
+    -- Highlight only the rows that are returned
+    SELECT page.kind, page."hitId", page."chatId", page."messageId", page."createdAt",
+           c."title" AS "chatTitle",
+           ts_headline('simple', page.body, search.query, ${HEADLINE_OPTIONS}) AS headline
+    FROM page
+    JOIN "Chat" c ON c."id" = page."chatId"
+    CROSS JOIN search
+    ORDER BY page."createdAt" DESC, page."hitId" DESC
+  `;
+
+  const hasMore = rows.length > limit;
+  const pageRows = hasMore ? rows.slice(0, limit) : rows;
+  const last = pageRows.at(-1);
+
+  return {
+    hits: pageRows.map((row) => ({
+      kind: row.kind,
+      chatId: row.chatId,
+      chatTitle: row.chatTitle,
+      messageId: row.messageId,
+      createdAt: row.createdAt,
+      snippet: parseSnippet(row.headline),
+    })),
+    nextCursor: hasMore && last ? encodeCursor({ createdAt: last.createdAt, id: last.hitId }) : null,
+  };
+}
@@ -0,0 +1,73 @@
+import { randomBytes } from 'crypto';
+import { MessageStatus, PrismaClient, type ChatShareLink } from '@prisma/client';
+import { publicMessageSelect, type PublicMessage } from '../router/message.public';
+
+const prisma = new PrismaClient();
+
+/**
+ * Random URL-safe token (192 bits)
+ */
+export function createShareToken(): string {
+  return randomBytes(24).toString('base64url');
+}
+
+export function isShareLinkExpired(link: Pick<ChatShareLink, 'expiresAt'>, now: Date = new Date()): boolean {
+  return !!link.expiresAt && link.expiresAt <= now;
+}
+
+/**
+ * Strip what only the owner should see: the metadata carries the system
+ * prompt and generation settings, error reasons can leak provider details
+ */
+export function sanitizeSharedMessage(message: PublicMessage): PublicMessage {
+  return { ...message, metadata: null, errorReason: null };
+}
+
+/**
+ * Messages a share link shows: the completed messages of the active branch,
+ * in thread order. Stored with the link, so regenerating or switching
+ * branches afterwards doesn't change what was shared.
+ */
+export async function getShareSnapshotMessageIds(chatId: string): Promise<string[]> {
+  const messages = await prisma.message.findMany({
+    where: { chatId, isActive: true, status: MessageStatus.COMPLETED },
+    select: { id: true },
+    orderBy: { createdAt: 'asc' },
+  });
+  return messages.map(({ id }) => id);
+}
+
+/**
+ * Read-only snapshot behind a share token: the chat title and the messages
+ * picked when the link was (re)created. Returns null for unknown, expired or
+ * deleted chats.
+ */
+export async function getSharedChat(token: string) {
+  const link = await prisma.chatShareLink.findUnique({
+    where: { token },
+    include: { chat: { select: { id: true, title: true, isDeleted: true } } },
+  });
+
+  if (!link || link.chat.isDeleted || isShareLinkExpired(link)) {
+    return null;
+  }
+
+  const [messages] = await Promise.all([
+    prisma.message.findMany({
+      where: { chatId: link.chatId, id: { in: link.messageIds } },
+      select: publicMessageSelect,
+      orderBy: { createdAt: 'asc' },
+    }),
+    prisma.chatShareLink.update({
+      where: { id: link.id },
+      data: { viewCount: { increment: 1 } },
+    }),
+  ]);
+
+  return {
+    title: link.chat.title,
+    sharedAt: link.snapshotAt,
+    expiresAt: link.expiresAt,
+    messages: messages.map(sanitizeSharedMessage),
+  };
+}
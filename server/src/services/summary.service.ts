@@ -0,0 +1,186 @@
+import { MessageStatus, PrismaClient, type ModelCatalog } from '@prisma/client';
+import { DEFAULT_SUMMARY_SETTINGS } from '../constants/defaultChatSettings';
+import { createAIProviderFromModel, type AIMessage, type AIProvider, type AIUsage, type OwnerCredentials } from '../lib/ai-providers';
+import { turnsAfter, type ContextTurn } from '../lib/context-builder';
+import { assertPublicEndpoint } from '../lib/endpoint-policy';
+import { redis } from '../lib/redis';
+import { recordUsage } from './usage.service';
+
+const prisma = new PrismaClient();
+
+export interface SummarizeChatOptions {
+  ownerId: string;
+  chatId: string;
+  model: Pick<ModelCatalog, 'provider' | 'name'> & Partial<Pick<ModelCatalog, 'endpoint' | 'extra'>>;
+  apiKeys: OwnerCredentials;
+  /** Summarize regardless of the token threshold (manual "summarize now") */
+  force?: boolean;
+}
+
+const lockKey = (chatId: string) => `chat:summary:lock:${chatId}`;
+
+const turnToMessages = (turn: ContextTurn): AIMessage[] => [
+  { role: 'user', content: turn.userContent },
+  { role: 'assistant', content: turn.agentContent ?? '' },
+];
+
+/**
+ * Older turns to fold into the summary. Empty while the unsummarized history
+ * stays under `triggerTokens`; the newest `keepRecentMessages` turns are
+ * never summarized so the model still sees them verbatim.
+ */
+export function selectTurnsToSummarize(
+  turns: ContextTurn[],
+  provider: Pick<AIProvider, 'estimateTokens'>,
+  { triggerTokens, keepRecentMessages }: { triggerTokens: number; keepRecentMessages: number }
+): ContextTurn[] {
+  if (turns.length <= keepRecentMessages) return [];
+
+  const tokens = provider.estimateTokens(turns.flatMap(turnToMessages));
+  if (tokens < triggerTokens) return [];
+
+  return turns.slice(0, turns.length - keepRecentMessages);
+}
+
+/**
+ * Prompt asking the model to extend the previous summary with new turns
+ */
+export function buildSummaryPrompt(previousSummary: string | null, turns: ContextTurn[]): AIMessage[] {
+  const transcript = turns
+    .map((turn) =>
+      turn.agentContent
+        ? `User: ${turn.userContent.trim()}\nAssistant: ${turn.agentContent.trim()}`
+        : `User: ${turn.userContent.trim()}`
+    )
+    .join('\n\n');
+
+  return [
+    {
+      role: 'system',
+      content:
+        'You maintain a running summary of a conversation between a user and an assistant. ' +
+        'Keep facts, decisions, names, preferences and open questions; drop small talk. ' +
+        'Answer with the updated summary only, in plain prose.',
+    },
+    {
+      role: 'user',
+      content: [
+        previousSummary ? `Previous summary:\n${previousSummary.trim()}` : null,
+        `New messages:\n${transcript}`,
+        'Write the updated summary.',
+      ]
+        .filter(Boolean)
+        .join('\n\n'),
+    },
+  ];
+}
+
+/**
+ * Ask the provider for an updated summary
+ */
+export async function generateSummary(
+  provider: AIProvider,
+  previousSummary: string | null,
+  turns: ContextTurn[]
+): Promise<{ content: string; usage?: AIUsage }> {
+  const response = await provider.generateResponse(buildSummaryPrompt(previousSummary, turns));
+
+  return {
+    content: response.content.trim().slice(0, DEFAULT_SUMMARY_SETTINGS.maxLength),
+    usage: response.metadata.usage,
+  };
+}
+
+/**
+ * Summary of the chat if it belongs to the active branch. A summary written
+ * on another branch (before a regenerate or edit) doesn't apply.
+ */
+export async function getActiveSummary(chatId: string) {
+  const summary = await prisma.chatSummary.findUnique({ where: { chatId } });
+  if (!summary?.summarizedUpToMessageId) return summary;
+
+  const message = await prisma.message.findUnique({
+    where: { id: summary.summarizedUpToMessageId },
+    select: { isActive: true },
+  });
+
+  return message?.isActive ? summary : null;
+}
+
+/**
+ * Fold older turns of the active branch into the chat summary.
+ * Returns the updated summary, or null when there was nothing to do or
+ * another summarization of the chat is already running.
+ */
+export async function summarizeChat({ ownerId, chatId, model, apiKeys, force = false }: SummarizeChatOptions) {
+  const acquired = await redis.set(lockKey(chatId), '1', 'EX', 300, 'NX');
+  if (!acquired) return null;
+
+  try {
+    const [summary, messages] = await Promise.all([
+      getActiveSummary(chatId),
+      prisma.message.findMany({
+        where: { chatId, isActive: true, status: MessageStatus.COMPLETED },
+        orderBy: { createdAt: 'asc' },
+        select: { id: true, userContent: true, agentContent: true },
+      }),
+    ]);
+
+    if (model.endpoint) {
+      await assertPublicEndpoint(model.endpoint);
+    }
+
+    const provider = createAIProviderFromModel(
+      model,
+      apiKeys,
+      {
+        maxTokens: DEFAULT_SUMMARY_SETTINGS.maxSummaryTokens,
+        temperature: DEFAULT_SUMMARY_SETTINGS.temperature,
+      }
+    );
+
+    const turns = selectTurnsToSummarize(turnsAfter(messages, summary?.summarizedUpToMessageId), provider, {
+      triggerTokens: force ? 0 : DEFAULT_SUMMARY_SETTINGS.triggerTokens,
+      keepRecentMessages: DEFAULT_SUMMARY_SETTINGS.keepRecentMessages,
+    });
+    const lastTurn = turns.at(-1);
+    if (!lastTurn) return null;
+
+    const { content, usage } = await generateSummary(provider, summary?.content ?? null, turns);
+    if (!content) return null;
+
+    const data = {
+      content,
+      summarizedUpToMessageId: lastTurn.id,
+      summarizedMessageCount: (summary?.summarizedMessageCount ?? 0) + turns.length,
+      provider: model.provider,
+      model: model.name,
+      isEdited: false,
+    };
+
+    const updated = await prisma.chatSummary.upsert({
+      where: { chatId },
+      update: data,
+      create: { chatId, ...data },
+    });
+
+    if (usage) {
+      await recordUsage({ ownerId, provider: model.provider, model: model.name, usage });
+    }
+
+    return updated;
+  } finally {
+    await redis.del(lockKey(chatId));
+  }
+}
+
+/**
+ * Run `summarizeChat` without blocking the caller, if the owner enabled
+ * automatic summaries. Failures are logged and otherwise ignored.
+ */
+export function summarizeChatInBackground(options: Omit<SummarizeChatOptions, 'force'>): void {
+  prisma.ownerSettings
+    .findUnique({ where: { ownerId: options.ownerId }, select: { autoSummarize: true } })
+    .then((settings) => (settings?.autoSummarize ? summarizeChat(options) : null))
+    .catch((error) => console.error('Failed to summarize chat:', error));
+}
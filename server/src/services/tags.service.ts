@@ -0,0 +1,61 @@
+import { PrismaClient } from '@prisma/client';
+import { CHAT_ORGANIZATION_LIMITS } from '../constants/defaultChatSettings';
+
+const prisma = new PrismaClient();
+
+const tagKey = (tag: string) => tag.toLowerCase();
+
+/**
+ * Trim and collapse whitespace, drop empty tags and case-insensitive
+ * duplicates (the first spelling wins)
+ */
+export function normalizeTags(tags: string[]): string[] {
+  const seen = new Set<string>();
+  const result: string[] = [];
+
+  for (const raw of tags) {
+    const tag = raw.trim().replace(/\s+/g, ' ').slice(0, CHAT_ORGANIZATION_LIMITS.tagMaxLength);
+    if (!tag || seen.has(tagKey(tag))) continue;
+
+    seen.add(tagKey(tag));
+    result.push(tag);
+  }
+
+  return result;
+}
+
+/**
+ * Apply a bulk tag change to one chat's tags. Added tags reuse the spelling
+ * of a matching `knownTags` entry so "Work" and "work" stay one tag.
+ * Throws when the chat would end up with more tags than allowed.
+ */
+export function applyTagChanges(
+  current: string[],
+  { add = [], remove = [] }: { add?: string[]; remove?: string[] },
+  knownTags: string[] = []
+): string[] {
+  const known = new Map(knownTags.map((tag) => [tagKey(tag), tag]));
+  const removed = new Set(normalizeTags(remove).map(tagKey));
+  const added = normalizeTags(add).map((tag) => known.get(tagKey(tag)) ?? tag);
+  const tags = normalizeTags([...current, ...added]).filter((tag) => !removed.has(tagKey(tag)));
+
+  if (tags.length > CHAT_ORGANIZATION_LIMITS.maxTagsPerChat) {
+    throw new Error(`A chat can have at most ${CHAT_ORGANIZATION_LIMITS.maxTagsPerChat} tags`);
+  }
+
+  return tags;
+}
+
+/**
+ * Tags used on the owner's chats with the number of chats carrying each
+ */
+export async function listOwnerTags(ownerId: string): Promise<{ tag: string; count: number }[]> {
+  return prisma.$queryRaw<{ tag: string; count: number }[]>`
+    SELECT tag, COUNT(*)::int AS count
+    FROM "Chat", unnest("tags") AS tag
+    WHERE "ownerId" = ${ownerId}
+      AND "isDeleted" = false
+    GROUP BY tag
+    ORDER BY lower(tag)
+  `;
+}
@@ -0,0 +1,114 @@
+import { MessageStatus, PrismaClient } from '@prisma/client';
+import { DEFAULT_TITLE_SETTINGS } from '../constants/defaultChatSettings';
+import { createAIProviderFromModel, generateAIResponse, type AIMessage, type OwnerCredentials } from '../lib/ai-providers';
+import { cacheHelpers } from '../lib/redis';
+import { publishOwnerEvent } from './owner-events.service';
+import { usesServerKey } from './request-limits.service';
+import { recordUsage } from './usage.service';
+
+const prisma = new PrismaClient();
+
+// Cheap model that names chats, see TITLE_MODEL_PROVIDER and TITLE_MODEL
+export const TITLE_MODEL = { provider: DEFAULT_TITLE_SETTINGS.provider, name: DEFAULT_TITLE_SETTINGS.model };
+
+/**
+ * Whether new chats of the owner are named automatically. That takes the
+ * owner's own key for the title model: the server's key would pay for
+ * every new chat of every owner.
+ */
+export function canAutoTitle(apiKeys: OwnerCredentials): boolean {
+  return !usesServerKey(TITLE_MODEL.provider, apiKeys);
+}
+
+/**
+ * Title used until a generated one is available: the first line of the
+ * prompt, shortened to fit the chat list
+ */
+export function fallbackTitle(content: string, maxLength: number = DEFAULT_TITLE_SETTINGS.maxLength): string {
+  const firstLine = content.trim().split('\n')[0]?.trim() ?? '';
+  if (firstLine.length <= maxLength) return firstLine || 'New chat';
+
+  return `${firstLine.slice(0, maxLength - 1).trimEnd()}…`;
+}
+
+/**
+ * Normalize a model answer into a title: one line, no quotes, no "Title:"
+ * prefix or trailing period. Returns null when nothing usable is left.
+ */
+export function cleanTitle(raw: string, maxLength: number = DEFAULT_TITLE_SETTINGS.maxLength): string | null {
+  const title = (raw.trim().split('\n')[0] ?? '')
+    .replace(/^\s*title\s*:\s*/i, '')
+    .replace(/^["'“”‘’`*#\s]+|["'“”‘’`*\s]+$/g, '')
+    .replace(/[.!]+$/, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  if (!title) return null;
+  return title.length <= maxLength ? title : `${title.slice(0, maxLength - 1).trimEnd()}…`;
+}
+
+export function buildTitlePrompt(userContent: string, agentContent: string | null): AIMessage[] {
+  // The start of the conversation is enough to name it
+  const excerpt = (text: string) => text.trim().slice(0, 1000);
+
+  return [
+    {
+      role: 'system',
+      content:
+        'Write a short title (at most 6 words) for the conversation below. ' +
+        'Use the language of the conversation. Answer with the title only, without quotes.',
+    },
+    {
+      role: 'user',
+      content: agentContent
+        ? `User: ${excerpt(userContent)}\n\nAssistant: ${excerpt(agentContent)}`
+        : `User: ${excerpt(userContent)}`,
+    },
+  ];
+}
+
+/**
+ * Name a chat from its first exchange with the configured title model, save
+ * the title and drop cached chat data. Returns the new title, or null when
+ * the chat has no completed message yet or the model gave nothing usable.
+ */
+export async function generateChatTitle({
+  ownerId,
+  chatId,
+  apiKeys,
+}: {
+  ownerId: string;
+  chatId: string;
+  apiKeys: OwnerCredentials;
+}): Promise<string | null> {
+  const firstMessage = await prisma.message.findFirst({
+    where: { chatId, isActive: true, status: MessageStatus.COMPLETED },
+    orderBy: { createdAt: 'asc' },
+    select: { userContent: true, agentContent: true },
+  });
+  if (!firstMessage) return null;
+
+  const model = TITLE_MODEL;
+  const provider = createAIProviderFromModel(model, apiKeys, {
+    maxTokens: DEFAULT_TITLE_SETTINGS.maxTokens,
+    temperature: DEFAULT_TITLE_SETTINGS.temperature,
+  });
+
+  const response = await generateAIResponse(
+    provider,
+    buildTitlePrompt(firstMessage.userContent, firstMessage.agentContent)
+  );
+
+  if (response.metadata.usage) {
+    await recordUsage({ ownerId, provider: model.provider, model: model.name, usage: response.metadata.usage });
+  }
+
+  const title = cleanTitle(response.content);
+  if (!title) return null;
+
+  await prisma.chat.update({ where: { id: chatId }, data: { title } });
+  await Promise.all([cacheHelpers.invalidateChat(chatId), cacheHelpers.invalidateOwnerCache(ownerId)]);
+  await publishOwnerEvent(ownerId, { type: 'chat.updated', chatIds: [chatId], title });
+
+  return title;
+}
@@ -0,0 +1,114 @@
+import { PrismaClient } from '@prisma/client';
+import { DEFAULT_TRASH_SETTINGS } from '../constants/defaultChatSettings';
+import { cacheHelpers, redis } from '../lib/redis';
+import { publishOwnerEvent } from './owner-events.service';
+
+const prisma = new PrismaClient();
+
+const PURGE_LOCK_KEY = 'chat:trash:purge:lock';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * When a chat deleted at `deletedAt` is removed for good
+ */
+export function purgeDate(deletedAt: Date, retentionDays: number = DEFAULT_TRASH_SETTINGS.retentionDays): Date {
+  return new Date(deletedAt.getTime() + retentionDays * DAY_MS);
+}
+
+/**
+ * Chats deleted before this date are past the retention period
+ */
+export function purgeCutoff(now: Date = new Date(), retentionDays: number = DEFAULT_TRASH_SETTINGS.retentionDays): Date {
+  return new Date(now.getTime() - retentionDays * DAY_MS);
+}
+
+/**
+ * Permanently remove chats with their messages. Only chats already in the
+ * trash are touched. Returns the number of chats removed.
+ */
+export async function purgeChats(where: { ownerId?: string; ids?: string[]; deletedBefore?: Date }): Promise<number> {
+  const chats = await prisma.chat.findMany({
+    where: {
+      isDeleted: true,
+      ...(where.ownerId && { ownerId: where.ownerId }),
+      ...(where.ids && { id: { in: where.ids } }),
+      ...(where.deletedBefore && { deletedAt: { lt: where.deletedBefore } }),
+    },
+    select: { id: true, ownerId: true },
+    take: where.ids ? undefined : DEFAULT_TRASH_SETTINGS.purgeBatchSize,
+  });
+  if (chats.length === 0) return 0;
+
+  const chatIds = chats.map((chat) => chat.id);
+
+  // Summaries go with the chat (cascade); messages have to be removed first
+  const [, result] = await prisma.$transaction([
+    prisma.message.deleteMany({ where: { chatId: { in: chatIds } } }),
+    prisma.chat.deleteMany({ where: { id: { in: chatIds } } }),
+  ]);
+
+  const ownerIds = [...new Set(chats.map((chat) => chat.ownerId))];
+  await Promise.all([
+    ...chatIds.map((id) => cacheHelpers.invalidateChat(id)),
+    ...ownerIds.map((ownerId) => cacheHelpers.invalidateOwnerCache(ownerId)),
+  ]);
+  await Promise.all(
+    ownerIds.map((ownerId) =>
+      publishOwnerEvent(ownerId, {
+        type: 'chat.purged',
+        chatIds: chats.filter((chat) => chat.ownerId === ownerId).map((chat) => chat.id),
+      })
+    )
+  );
+
+  return result.count;
+}
+
+// Repeat `purgeChats` until a batch comes back short
+async function purgeInBatches(where: { ownerId?: string; deletedBefore?: Date }): Promise<number> {
+  let total = 0;
+
+  for (;;) {
+    const count = await purgeChats(where);
+    total += count;
+    if (count < DEFAULT_TRASH_SETTINGS.purgeBatchSize) return total;
+  }
+}
+
+/**
+ * Permanently remove everything in the owner's trash
+ */
+export function emptyTrash(ownerId: string): Promise<number> {
+  return purgeInBatches({ ownerId });
+}
+
+/**
+ * Remove every chat past the retention period. Only one server process
+ * runs the purge at a time.
+ */
+export async function purgeExpiredChats(now: Date = new Date()): Promise<number> {
+  const acquired = await redis.set(PURGE_LOCK_KEY, '1', 'EX', 15 * 60, 'NX');
+  if (!acquired) return 0;
+
+  try {
+    return await purgeInBatches({ deletedBefore: purgeCutoff(now) });
+  } finally {
+    await redis.del(PURGE_LOCK_KEY);
+  }
+}
+
+/**
+ * Run `purgeExpiredChats` on an interval. Returns a function that stops it.
+ */
+export function startTrashPurgeJob(intervalMinutes: number = DEFAULT_TRASH_SETTINGS.purgeIntervalMinutes): () => void {
+  const run = () =>
+    purgeExpiredChats()
+      .then((count) => {
+        if (count > 0) console.log(`🗑️  Purged ${count} chats from the trash`);
+      })
+      .catch((error) => console.error('Failed to purge trash:', error));
+
+  run();
+  const timer = setInterval(run, intervalMinutes * 60 * 1000);
+  return () => clearInterval(timer);
+}
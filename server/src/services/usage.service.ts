@@ -0,0 +1,152 @@
+import { PrismaClient } from '@prisma/client';
+import type { AIMessage, AIProvider } from '../lib/ai-providers';
+
+const prisma = new PrismaClient();
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface ModelPriceRates {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+export interface BudgetStatus {
+  budgetUsd: number | null;
+  spentUsd: number;
+  remainingUsd: number | null;
+  isExceeded: boolean;
+}
+
+/**
+ * Cost of a single request in USD
+ * @param usage - Token usage reported by the provider
+ * @param price - Model price per million tokens (free when missing)
+ */
+export function calculateCostUsd(usage: TokenUsage, price?: ModelPriceRates | null): number {
+  if (!price) return 0;
+
+  return (
+    (usage.promptTokens * price.inputPerMillion + usage.completionTokens * price.outputPerMillion) /
+    1_000_000
+  );
+}
+
+/**
+ * Usage of an answer the provider never reported on, e.g. one stopped or
+ * failing midway: estimated from the messages sent and the content streamed
+ */
+export function estimateUsage(
+  provider: Pick<AIProvider, 'estimateTokens'>,
+  messages: AIMessage[],
+  content: string
+): TokenUsage {
+  const promptTokens = provider.estimateTokens(messages);
+  const completionTokens = content ? provider.estimateTokens([{ role: 'assistant', content }]) : 0;
+
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+}
+
+// Ledger rows are bucketed by UTC day
+export function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+export function startOfUtcMonth(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+}
+
+/**
+ * Price of a model visible to the owner (system, own or public model)
+ */
+async function findModelPrice(ownerId: string, provider: string, model: string) {
+  return prisma.modelPrice.findFirst({
+    where: {
+      model: {
+        provider,
+        name: model,
+        OR: [{ ownerId: null }, { ownerId }, { isPublic: true }],
+      },
+    },
+    select: { inputPerMillion: true, outputPerMillion: true },
+  });
+}
+
+/**
+ * Add a completed request to the owner's daily ledger.
+ * Failures are logged and swallowed so accounting never breaks a response.
+ */
+export async function recordUsage({
+  ownerId,
+  provider,
+  model,
+  usage,
+  date = new Date(),
+}: {
+  ownerId: string;
+  provider: string;
+  model: string;
+  usage: TokenUsage;
+  date?: Date;
+}): Promise<void> {
+  try {
+    const price = await findModelPrice(ownerId, provider, model);
+    const costUsd = calculateCostUsd(usage, price);
+    const day = startOfUtcDay(date);
+
+    await prisma.usageLedger.upsert({
+      where: {
+        ownerId_date_provider_model: { ownerId, date: day, provider, model },
+      },
+      update: {
+        messageCount: { increment: 1 },
+        promptTokens: { increment: usage.promptTokens },
+        completionTokens: { increment: usage.completionTokens },
+        totalTokens: { increment: usage.totalTokens },
+        costUsd: { increment: costUsd },
+      },
+      create: {
+        ownerId,
+        date: day,
+        provider,
+        model,
+        messageCount: 1,
+        promptTokens: usage.promptTokens,
+        completionTokens: usage.completionTokens,
+        totalTokens: usage.totalTokens,
+        costUsd,
+      },
+    });
+  } catch (error) {
+    console.error('Failed to record usage:', error);
+  }
+}
+
+/**
+ * Spend of the current calendar month (UTC) against the owner's monthly budget
+ */
+export async function getBudgetStatus(ownerId: string, now: Date = new Date()): Promise<BudgetStatus> {
+  const [settings, spend] = await Promise.all([
+    prisma.ownerSettings.findUnique({
+      where: { ownerId },
+      select: { monthlyBudgetUsd: true },
+    }),
+    prisma.usageLedger.aggregate({
+      where: { ownerId, date: { gte: startOfUtcMonth(now) } },
+      _sum: { costUsd: true },
+    }),
+  ]);
+
+  const budgetUsd = settings?.monthlyBudgetUsd ?? null;
+  const spentUsd = spend._sum.costUsd ?? 0;
+
+  return {
+    budgetUsd,
+    spentUsd,
+    remainingUsd: budgetUsd === null ? null : Math.max(budgetUsd - spentUsd, 0),
+    isExceeded: budgetUsd !== null && spentUsd >= budgetUsd,
+  };
+}
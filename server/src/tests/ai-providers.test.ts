@@ -0,0 +1,152 @@
+import { describe, it, expect, vi } from 'vitest';
+
+// The seed script runs against the database on import; only its model list is needed here
+vi.mock('../../prisma/seed', () => ({
+  systemModels: [
+    { provider: 'mock', name: 'mock-fast', description: 'Mock fast model' },
+    { provider: 'openai', name: 'gpt-4o', description: 'OpenAI GPT-4o' },
+  ],
+}));
+
+// Record how the OpenAI SDK is configured and called instead of reaching a server
+const { openAIClients } = vi.hoisted(() => ({
+  openAIClients: [] as { options: Record<string, unknown>; requests: Record<string, unknown>[] }[],
+}));
+
+vi.mock('openai', () => ({
+  default: class {
+    chat: unknown;
+
+    constructor(options: Record<string, unknown>) {
+      const client = { options, requests: [] as Record<string, unknown>[] };
+      openAIClients.push(client);
+      this.chat = {
+        completions: {
+          create: async (request: Record<string, unknown>) => {
+            client.requests.push(request);
+            return {
+              model: request.model,
+              choices: [{ message: { content: 'Hi!' }, finish_reason: 'stop' }],
+              usage: { prompt_tokens: 3, completion_tokens: 2, total_tokens: 5 },
+            };
+          },
+        },
+      };
+    }
+  },
+}));
+
+import {
+  AIProviderFactory,
+  createAIProviderFromModel,
+  getModelHeaders,
+  MockProvider,
+  type AIMessage,
+  type AIStreamChunk,
+} from '../lib/ai-providers';
+
+const messages: AIMessage[] = [
+  { role: 'user', content: 'Hello there, how are you?' }, // 25 chars -> 7 tokens
+];
+
+const createProvider = () =>
+  new MockProvider({ apiKey: 'mock-api-key', model: 'mock-fast', maxTokens: 5 });
+
+describe('MockProvider usage reporting', () => {
+  it('reports deterministic usage and timing on the final stream chunk', async () => {
+    const chunks: AIStreamChunk[] = [];
+    for await (const chunk of createProvider().streamResponse(messages)) {
+      chunks.push(chunk);
+    }
+
+    const final = chunks.at(-1)!;
+    expect(final.isComplete).toBe(true);
+    expect(final.usage).toEqual({ promptTokens: 7, completionTokens: 5, totalTokens: 12 });
+    expect(final.timing?.firstByteMs).toBeGreaterThanOrEqual(0);
+    expect(final.timing!.providerLatencyMs).toBeGreaterThanOrEqual(final.timing!.firstByteMs);
+
+    // Content chunks carry no usage
+    expect(chunks.slice(0, -1).every((chunk) => chunk.usage === undefined)).toBe(true);
+  });
+
+  it('reports the same usage for non-streaming responses', async () => {
+    const response = await createProvider().generateResponse(messages);
+
+    expect(response.metadata.usage).toEqual({ promptTokens: 7, completionTokens: 5, totalTokens: 12 });
+    expect(response.metadata.tokenCount).toBe(12);
+  });
+});
+
+describe('OpenAI-compatible provider', () => {
+  const customModel = {
+    provider: 'openai-compatible',
+    name: 'llama3.1:8b',
+    endpoint: 'http://localhost:11434/v1',
+    extra: { headers: { 'X-Api-Token': 'secret' }, contextWindow: 8192 },
+  };
+
+  it('calls the model at its endpoint with its headers', async () => {
+    const provider = createAIProviderFromModel(customModel, { openai: { apiKey: 'sk-owner' } });
+    const response = await provider.generateResponse(messages);
+
+    const client = openAIClients.at(-1)!;
+    expect(client.options).toMatchObject({
+      baseURL: 'http://localhost:11434/v1',
+      defaultHeaders: { 'X-Api-Token': 'secret' },
+    });
+    // The owner's OpenAI key is never sent to a custom server
+    expect(client.options.apiKey).not.toBe('sk-owner');
+    expect(client.requests[0]).toMatchObject({ model: 'llama3.1:8b' });
+    expect(response.metadata).toMatchObject({ provider: 'openai-compatible', usage: { totalTokens: 5 } });
+  });
+
+  it('requires an endpoint', () => {
+    expect(() => createAIProviderFromModel({ ...customModel, endpoint: null }, {})).toThrow(
+      'No endpoint configured for model llama3.1:8b'
+    );
+  });
+
+  it('rejects unknown providers', () => {
+    expect(() => createAIProviderFromModel({ provider: 'acme', name: 'model' }, {})).toThrow('Unknown AI provider: acme');
+  });
+
+  it('reads only string headers from the catalog entry', () => {
+    expect(getModelHeaders({ headers: { Authorization: 'Bearer x', Retries: 3 } })).toEqual({ Authorization: 'Bearer x' });
+    expect(getModelHeaders({ contextWindow: 8192 })).toBeUndefined();
+    expect(getModelHeaders(null)).toBeUndefined();
+  });
+});
+
+describe('owner credentials', () => {
+  const gpt4o = { provider: 'openai', name: 'gpt-4o' };
+
+  it("calls the provider with the owner's key, base URL and organization", () => {
+    createAIProviderFromModel(gpt4o, {
+      openai: { apiKey: 'sk-owner', baseUrl: 'https://gateway.example.com/v1', orgId: 'org-123' },
+    });
+
+    expect(openAIClients.at(-1)!.options).toMatchObject({
+      apiKey: 'sk-owner',
+      baseURL: 'https://gateway.example.com/v1',
+      organization: 'org-123',
+    });
+  });
+
+  it('falls back to the server key, and fails without one', () => {
+    vi.stubEnv('OPENAI_API_KEY', 'sk-server');
+    createAIProviderFromModel(gpt4o, {});
+    expect(openAIClients.at(-1)!.options).toMatchObject({ apiKey: 'sk-server', baseURL: undefined });
+
+    vi.stubEnv('OPENAI_API_KEY', '');
+    expect(() => createAIProviderFromModel(gpt4o, {})).toThrow('openai API key not configured');
+    vi.unstubAllEnvs();
+  });
+
+  it('lists the providers that take a key', () => {
+    expect(AIProviderFactory.getCredentialProviders()).toEqual([
+      { name: 'openai', label: 'OpenAI', keyPrefix: 'sk-', baseUrl: true, orgId: true },
+      { name: 'anthropic', label: 'Anthropic', keyPrefix: 'sk-ant-', baseUrl: true, orgId: false },
+      { name: 'gemini', label: 'Gemini', keyPrefix: 'AIza', baseUrl: true, orgId: false },
+    ]);
+  });
+});
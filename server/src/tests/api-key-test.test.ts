@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { createServer, type IncomingMessage, type ServerResponse, type Server } from 'http';
+import type { AddressInfo } from 'net';
+
+// The seed script runs against the database on import; only its model list is needed here
+vi.mock('../../prisma/seed', () => ({
+  systemModels: [
+    { provider: 'openai', name: 'gpt-4.1-nano', description: 'GPT-4.1 nano' },
+    { provider: 'gemini', name: 'gemini-2.5-flash-lite', description: 'Gemini 2.5 Flash-Lite' },
+  ],
+}));
+
+import { testProviderCredential } from '../lib/ai-providers';
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  // Keep the SDKs from retrying errors
+  res.writeHead(status, { 'Content-Type': 'application/json', 'x-should-retry': 'false' });
+  res.end(JSON.stringify(body));
+};
+
+const completions: string[] = [];
+
+// Minimal OpenAI and Gemini APIs: sk-good works, sk-broke is out of credit
+// and anything else is rejected
+const server: Server = createServer(async (req: IncomingMessage, res) => {
+  for await (const _chunk of req);
+  const apiKey = req.headers.authorization?.replace('Bearer ', '') ?? req.headers['x-goog-api-key'];
+
+  if (req.url?.startsWith('/v1beta/')) {
+    if (apiKey !== 'AIza-good') {
+      sendJson(res, 400, { error: { code: 400, message: 'API key not valid. Please pass a valid API key.', status: 'INVALID_ARGUMENT' } });
+    } else if (req.url.startsWith('/v1beta/models?')) {
+      sendJson(res, 200, { models: [{ name: 'models/gemini-2.5-flash-lite' }, { name: 'models/gemini-2.5-pro' }] });
+    } else {
+      sendJson(res, 200, { candidates: [{ content: { parts: [{ text: 'Hi' }] }, finishReason: 'MAX_TOKENS' }] });
+    }
+    return;
+  }
+
+  if (apiKey !== 'sk-good' && apiKey !== 'sk-broke') {
+    sendJson(res, 401, { error: { message: 'Incorrect API key provided', type: 'invalid_request_error', code: 'invalid_api_key' } });
+  } else if (req.url === '/v1/models') {
+    sendJson(res, 200, { object: 'list', data: [{ id: 'gpt-4.1-nano', object: 'model' }, { id: 'gpt-4o', object: 'model' }] });
+  } else if (apiKey === 'sk-broke') {
+    completions.push(apiKey);
+    sendJson(res, 429, { error: { message: 'You exceeded your current quota', type: 'insufficient_quota', code: 'insufficient_quota' } });
+  } else {
+    completions.push(apiKey);
+    sendJson(res, 200, {
+      id: 'chatcmpl-1',
+      object: 'chat.completion',
+      model: 'gpt-4.1-nano',
+      choices: [{ index: 0, message: { role: 'assistant', content: 'Hi' }, finish_reason: 'length' }],
+      usage: { prompt_tokens: 8, completion_tokens: 1, total_tokens: 9 },
+    });
+  }
+});
+
+let endpoint: string;
+
+beforeAll(async () => {
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+describe('testProviderCredential', () => {
+  it('reports a working key with the models it can use', async () => {
+    const result = await testProviderCredential('openai', { apiKey: 'sk-good', baseUrl: `${endpoint}/v1` });
+
+    expect(result).toEqual({
+      status: 'valid',
+      valid: true,
+      message: 'API key works with 2 models',
+      models: ['gpt-4.1-nano', 'gpt-4o'],
+    });
+    expect(completions.at(-1)).toBe('sk-good');
+  });
+
+  it('reports a rejected key as invalid', async () => {
+    const result = await testProviderCredential('openai', { apiKey: 'sk-wrong', baseUrl: `${endpoint}/v1` });
+
+    expect(result).toMatchObject({ status: 'invalid', valid: false, models: [] });
+    expect(result.message).toContain('Invalid OpenAI API key');
+  });
+
+  it('reports a key without credit as valid but out of quota', async () => {
+    const result = await testProviderCredential('openai', { apiKey: 'sk-broke', baseUrl: `${endpoint}/v1` });
+
+    expect(result).toMatchObject({
+      status: 'quota_exceeded',
+      valid: true,
+      models: ['gpt-4.1-nano', 'gpt-4o'],
+    });
+  });
+
+  it('tests Gemini keys against the models list', async () => {
+    await expect(testProviderCredential('gemini', { apiKey: 'AIza-good', baseUrl: endpoint })).resolves.toMatchObject({
+      status: 'valid',
+      models: ['gemini-2.5-flash-lite', 'gemini-2.5-pro'],
+    });
+    await expect(testProviderCredential('gemini', { apiKey: 'AIza-wrong', baseUrl: endpoint })).resolves.toMatchObject({
+      status: 'invalid',
+      valid: false,
+    });
+  });
+
+  it("refuses providers that don't take a key", async () => {
+    await expect(testProviderCredential('mock', { apiKey: 'anything' })).rejects.toThrow("mock API keys can't be tested");
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { MessageStatus } from '@prisma/client';
+import {
+  chatDocumentFileName,
+  renderChatHtml,
+  renderChatMarkdown,
+  type DocumentChat,
+} from '../services/chat-document.service';
+
+const at = (minute: number) => new Date(Date.UTC(2025, 9, 4, 9, minute));
+const gpt = { provider: 'openai', name: 'gpt-4o-mini' };
+
+const chat: DocumentChat = {
+  id: 'cmg1abcdefgh12345678',
+  title: 'Café <script> helpers',
+  description: '',
+  createdAt: at(0),
+  model: gpt,
+  messages: [
+    {
+      userContent: 'Write a sum function\nin TypeScript',
+      agentContent: 'Here it is:\n\n```ts\nconst sum = (a: number, b: number) => a + b;\n```\n\n<img src=x onerror=alert(1)>',
+      status: MessageStatus.COMPLETED,
+      createdAt: at(1),
+      model: gpt,
+    },
+    { userContent: 'Thanks', agentContent: null, status: MessageStatus.FAILED, createdAt: at(2), model: null },
+  ],
+};
+
+describe('renderChatMarkdown', () => {
+  it('keeps answers verbatim, including fenced code blocks', () => {
+    const markdown = renderChatMarkdown(chat);
+
+    expect(markdown.startsWith('# Café <script> helpers\n\n_Created 2025-10-04 09:00 · openai/gpt-4o-mini_')).toBe(true);
+    expect(markdown).toContain('### You\n\n> Write a sum function\n> in TypeScript');
+    expect(markdown).toContain('### Assistant (openai/gpt-4o-mini)\n\nHere it is:\n\n```ts\nconst sum');
+    expect(markdown).toContain('### Assistant\n\nThe answer failed.');
+  });
+});
+
+describe('renderChatHtml', () => {
+  const html = renderChatHtml(chat);
+
+  it('highlights code with the app theme classes', () => {
+    expect(html).toContain('<pre class="language-ts"><code class="language-ts">');
+    expect(html).toContain('<span class="token keyword">const</span>');
+    expect(html).toContain('.token.keyword');
+  });
+
+  it('never renders HTML coming from the chat', () => {
+    expect(html).toContain('<title>Café &lt;script&gt; helpers</title>');
+    expect(html).toContain('&lt;img src=x onerror=alert(1)&gt;');
+    expect(html).not.toContain('<img');
+    expect(html).toContain('<div class="question">Write a sum function\nin TypeScript</div>');
+  });
+
+  it('includes a print stylesheet', () => {
+    expect(html).toMatch(/@media print \{[^]*break-inside: avoid/);
+  });
+});
+
+describe('chatDocumentFileName', () => {
+  it('builds a safe name that stays unique per chat', () => {
+    expect(chatDocumentFileName(chat, 'markdown')).toBe('cafe-script-helpers-12345678.md');
+    expect(chatDocumentFileName({ id: 'abc', title: '???' }, 'html')).toBe('chat-abc.html');
+  });
+});
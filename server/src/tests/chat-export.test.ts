@@ -0,0 +1,200 @@
+import { describe, it, expect } from 'vitest';
+import { MessageStatus, type Chat, type Message } from '@prisma/client';
+import {
+  CHAT_EXPORT_VERSION,
+  orderParentsFirst,
+  parseChatExport,
+  toExportedChat,
+  type ExportedChat,
+  type ModelRef,
+} from '../services/chat-export.service';
+
+const at = (minute: number) => new Date(Date.UTC(2025, 9, 2, 10, minute));
+const gpt: ModelRef = { provider: 'openai', name: 'gpt-4o-mini' };
+
+type MessageRow = Message & { model: ModelRef | null };
+
+const message = (id: string, parentMessageId: string | null, minute: number, overrides: Partial<MessageRow> = {}) =>
+  ({
+    id,
+    chatId: 'c1',
+    parentMessageId,
+    isActive: true,
+    userContent: `question ${id}`,
+    agentContent: `answer ${id}`,
+    status: MessageStatus.COMPLETED,
+    modelId: 'model-1',
+    model: gpt,
+    createdAt: at(minute),
+    finishedAt: at(minute + 1),
+    promptTokens: 10,
+    completionTokens: 20,
+    totalTokens: 30,
+    ...overrides,
+  }) as MessageRow;
+
+// m1 ─ m2 (inactive)
+//    └ m2b ─ m3 (failed)
+const chat = {
+  id: 'c1',
+  title: 'Trip planning',
+  description: 'Two weeks in Japan',
+  createdAt: at(0),
+  model: gpt,
+  systemPrompt: 'You are a travel agent',
+  temperature: 0.4,
+  maxTokens: null,
+  topP: null,
+  tags: ['travel'],
+  isPinned: true,
+  messages: [
+    message('m1', null, 1),
+    message('m2', 'm1', 2, { isActive: false }),
+    message('m2b', 'm1', 4),
+    message('m3', 'm2b', 6, { status: MessageStatus.FAILED, agentContent: null, finishedAt: null, model: null }),
+  ],
+} as unknown as Chat & { model: ModelRef | null; messages: MessageRow[] };
+
+const exportFile = (chats: unknown[]) => JSON.stringify({ version: CHAT_EXPORT_VERSION, chats });
+
+// What importChats writes, with fresh ids like the database would assign
+const reimport = (exported: ExportedChat) => {
+  const newIds = new Map<string, string>();
+  const messages = orderParentsFirst(exported.messages).map((m) => {
+    newIds.set(m.id, `new-${m.id}`);
+    return message(newIds.get(m.id)!, m.parentMessageId ? newIds.get(m.parentMessageId)! : null, 0, {
+      ...m,
+      id: newIds.get(m.id),
+      parentMessageId: m.parentMessageId ? newIds.get(m.parentMessageId) : null,
+      createdAt: new Date(m.createdAt),
+      finishedAt: m.finishedAt ? new Date(m.finishedAt) : null,
+    });
+  });
+
+  return toExportedChat({
+    ...chat,
+    ...exported.settings,
+    id: 'c2',
+    title: exported.title,
+    description: exported.description,
+    createdAt: new Date(exported.createdAt),
+    tags: exported.tags,
+    isPinned: exported.isPinned,
+    model: exported.model,
+    messages,
+  });
+};
+
+const withoutIds = (exported: ExportedChat) => ({
+  ...exported,
+  id: undefined,
+  messages: exported.messages.map((m) => ({ ...m, id: undefined, parentMessageId: undefined })),
+});
+
+describe('chat export format', () => {
+  it('parses its own output without losing anything', () => {
+    const exported = toExportedChat(chat);
+    const [parsed] = parseChatExport(exportFile([exported])).chats;
+
+    expect(parsed?.error).toBeUndefined();
+    expect(parsed?.chat).toEqual(exported);
+  });
+
+  it('round-trips export → import → export', () => {
+    const exported = toExportedChat(chat);
+    const [parsed] = parseChatExport(exportFile([exported])).chats;
+    const again = reimport(parsed!.chat!);
+
+    expect(withoutIds(again)).toEqual(withoutIds(exported));
+    // The branch structure survives with the new ids
+    expect(again.messages.map((m) => m.parentMessageId)).toEqual([null, 'new-m1', 'new-m1', 'new-m2b']);
+  });
+
+  it('upgrades 1.0 exports into a linear conversation', () => {
+    const legacy = JSON.stringify({
+      version: '1.0',
+      chats: [
+        {
+          id: 'old',
+          title: 'Old chat',
+          description: '',
+          createdAt: at(0).toISOString(),
+          model: { id: 'x', ...gpt },
+          messageCount: 2,
+          messages: [
+            { id: 'a', userContent: 'hi', agentContent: 'hello', status: 'COMPLETED', model: { id: 'x', ...gpt }, createdAt: at(1).toISOString() },
+            { id: 'b', userContent: 'bye', agentContent: null, status: 'FAILED', model: null, createdAt: at(2).toISOString() },
+          ],
+        },
+      ],
+    });
+
+    const [parsed] = parseChatExport(legacy).chats;
+    expect(parsed?.chat?.model).toEqual(gpt);
+    expect(parsed?.chat?.messages.map((m) => [m.parentMessageId, m.status, m.userContent])).toEqual([
+      [null, MessageStatus.COMPLETED, 'hi'],
+      ['a', MessageStatus.FAILED, 'bye'],
+    ]);
+  });
+
+  it('reports invalid chats one by one', () => {
+    const valid = toExportedChat(chat);
+    const { chats } = parseChatExport(exportFile([{ title: 'Broken', messages: [{ id: 'x' }] }, valid]));
+
+    expect(chats[0]).toMatchObject({ index: 0, title: 'Broken' });
+    expect(chats[0]?.error).toMatch(/createdAt/);
+    expect(chats[1]?.chat?.title).toBe('Trip planning');
+  });
+
+  it('holds imported settings to the chat settings limits', () => {
+    const exported = toExportedChat(chat);
+    const { chats } = parseChatExport(
+      exportFile([{ ...exported, settings: { ...exported.settings, temperature: 9, maxTokens: 10_000_000 } }])
+    );
+
+    expect(chats[0]?.error).toMatch(/temperature/);
+    expect(chats[0]?.error).toMatch(/maxTokens/);
+  });
+
+  it('imports answers that were still streaming as aborted', () => {
+    const exported = toExportedChat({
+      ...chat,
+      messages: [
+        message('m1', null, 1),
+        message('m2', 'm1', 2, { status: MessageStatus.STREAMING, agentContent: 'half an', finishedAt: null }),
+      ],
+    });
+    const [parsed] = parseChatExport(exportFile([exported])).chats;
+
+    expect(parsed?.chat?.messages[1]).toMatchObject({
+      status: MessageStatus.ABORTED,
+      agentContent: 'half an',
+      finishedAt: at(2).toISOString(),
+    });
+  });
+
+  it('rejects files that are not an export', () => {
+    expect(() => parseChatExport('{nope')).toThrow('Invalid JSON format');
+    expect(() => parseChatExport(JSON.stringify({ version: '9.0', chats: [] }))).toThrow(/Unsupported export version "9.0"/);
+    expect(() => parseChatExport(JSON.stringify({ version: CHAT_EXPORT_VERSION }))).toThrow(/Invalid export format: chats/);
+  });
+});
+
+describe('orderParentsFirst', () => {
+  const node = (id: string, parentMessageId: string | null, minute: number) => ({
+    id,
+    parentMessageId,
+    createdAt: at(minute).toISOString(),
+  });
+
+  it('puts parents before their answers even when timestamps disagree', () => {
+    const ordered = orderParentsFirst([node('b', 'a', 1), node('a', null, 5), node('c', 'b', 2)]);
+    expect(ordered.map((m) => m.id)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('rejects dangling parents, duplicates and cycles', () => {
+    expect(() => orderParentsFirst([node('a', 'ghost', 1)])).toThrow(/unknown message/);
+    expect(() => orderParentsFirst([node('a', null, 1), node('a', null, 2)])).toThrow('Duplicate message ids');
+    expect(() => orderParentsFirst([node('a', 'b', 1), node('b', 'a', 2)])).toThrow('Messages form a cycle');
+  });
+});
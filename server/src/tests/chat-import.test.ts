@@ -0,0 +1,165 @@
+import { describe, it, expect } from 'vitest';
+import { MessageStatus } from '@prisma/client';
+import { detectImportFormat, pairTurns, readImportFile } from '../services/chat-import.service';
+
+const unix = (minute: number) => Date.UTC(2024, 4, 1, 12, minute) / 1000;
+const iso = (minute: number) => new Date(unix(minute) * 1000).toISOString();
+
+const gptNode = (
+  id: string,
+  parent: string | null,
+  role: string,
+  parts: unknown[],
+  minute: number,
+  metadata: Record<string, unknown> = {}
+) => ({
+  id,
+  parent,
+  children: [],
+  message: {
+    id,
+    author: { role },
+    create_time: unix(minute),
+    content: { content_type: 'text', parts },
+    metadata,
+  },
+});
+
+// root ─ system ─ u1 ─ a1 ─ u2 ─ a2 (edited away)
+//                          └ u2b ─ tool call ─ a2b
+const chatGptExport = [
+  {
+    title: 'Sourdough starter',
+    create_time: unix(0),
+    current_node: 'a2b',
+    default_model_slug: 'gpt-4o',
+    mapping: {
+      root: { id: 'root', parent: null, children: ['system'], message: null },
+      system: gptNode('system', 'root', 'system', ['You are ChatGPT'], 0, { is_visually_hidden_from_conversation: true }),
+      u1: gptNode('u1', 'system', 'user', ['How do I start a sourdough starter?'], 1),
+      a1: gptNode('a1', 'u1', 'assistant', ['Mix flour and water.'], 2, { model_slug: 'gpt-4o' }),
+      u2: gptNode('u2', 'a1', 'user', ['How long?'], 3),
+      a2: gptNode('a2', 'u2', 'assistant', ['A week.'], 4),
+      u2b: gptNode('u2b', 'a1', 'user', ['How long does it take?', { asset_pointer: 'file-1' }], 5),
+      tool: {
+        ...gptNode('tool', 'u2b', 'assistant', [], 6),
+        message: { author: { role: 'assistant' }, create_time: unix(6), content: { content_type: 'code', text: 'search()' } },
+      },
+      a2b: gptNode('a2b', 'tool', 'assistant', ['About 5 to 7 days.'], 7, { model_slug: 'gpt-4o-mini' }),
+    },
+  },
+  { title: 'Empty', create_time: unix(0), current_node: null, mapping: {} },
+];
+
+const claudeMessage = (uuid: string, parent: string | null, sender: string, text: string, minute: number) => ({
+  uuid,
+  sender,
+  text,
+  content: [{ type: 'text', text }],
+  created_at: iso(minute),
+  parent_message_uuid: parent ?? '00000000-0000-4000-8000-000000000000',
+});
+
+const claudeExport = [
+  {
+    uuid: 'c1',
+    name: '',
+    created_at: iso(0),
+    current_leaf_message_uuid: 'a1b',
+    chat_messages: [
+      claudeMessage('u1', null, 'human', 'Name a color', 1),
+      claudeMessage('a1', 'u1', 'assistant', 'Blue', 2),
+      claudeMessage('a1b', 'u1', 'assistant', 'Green', 3),
+    ],
+  },
+  {
+    uuid: 'c2',
+    name: 'Linear',
+    created_at: iso(0),
+    chat_messages: [
+      { uuid: 'x', sender: 'human', text: 'Hi', created_at: iso(1) },
+      { uuid: 'y', sender: 'assistant', text: 'Hello', created_at: iso(2) },
+      { uuid: 'z', sender: 'human', text: 'Still there?', created_at: iso(3) },
+    ],
+  },
+  { uuid: 'c3', name: 'Broken' },
+];
+
+describe('detectImportFormat', () => {
+  it('recognizes each supported export by its shape', () => {
+    expect(detectImportFormat({ version: '2.0', chats: [] })).toBe('tea4chat');
+    expect(detectImportFormat(chatGptExport)).toBe('chatgpt');
+    expect(detectImportFormat(claudeExport)).toBe('claude');
+    expect(detectImportFormat([{ foo: 1 }])).toBeNull();
+  });
+
+  it('rejects files it does not recognize', () => {
+    expect(() => readImportFile('[{"foo":1}]')).toThrow(/Unrecognized file/);
+  });
+});
+
+describe('ChatGPT import', () => {
+  const { format, chats } = readImportFile(JSON.stringify(chatGptExport));
+
+  it('keeps the current branch as question/answer pairs', () => {
+    expect(format).toBe('chatgpt');
+    const chat = chats[0]?.chat;
+
+    expect(chat?.title).toBe('Sourdough starter');
+    expect(chat?.createdAt).toBe(iso(0));
+    expect(chat?.model).toEqual({ provider: 'openai', name: 'gpt-4o' });
+    expect(chat?.messages.map((m) => [m.userContent, m.agentContent, m.parentMessageId])).toEqual([
+      ['How do I start a sourdough starter?', 'Mix flour and water.', null],
+      ['How long does it take?', 'About 5 to 7 days.', 'm1'],
+    ]);
+    expect(chat?.messages[1]).toMatchObject({
+      status: MessageStatus.COMPLETED,
+      createdAt: iso(5),
+      finishedAt: iso(7),
+      model: { provider: 'openai', name: 'gpt-4o-mini' },
+    });
+  });
+
+  it('reports conversations without messages', () => {
+    expect(chats[1]).toEqual({ index: 1, title: 'Empty', error: 'Conversation has no messages' });
+  });
+});
+
+describe('Claude import', () => {
+  const { format, chats } = readImportFile(JSON.stringify(claudeExport));
+
+  it('follows the current leaf and titles untitled chats from the first question', () => {
+    expect(format).toBe('claude');
+    expect(chats[0]?.chat?.title).toBe('Name a color');
+    expect(chats[0]?.chat?.messages.map((m) => [m.userContent, m.agentContent])).toEqual([['Name a color', 'Green']]);
+  });
+
+  it('reads exports without parent links as a linear conversation', () => {
+    expect(chats[1]?.chat?.messages.map((m) => [m.userContent, m.agentContent, m.status])).toEqual([
+      ['Hi', 'Hello', MessageStatus.COMPLETED],
+      ['Still there?', null, MessageStatus.ABORTED],
+    ]);
+  });
+
+  it('reports invalid conversations one by one', () => {
+    expect(chats[2]).toMatchObject({ index: 2, title: 'Broken' });
+    expect(chats[2]?.error).toMatch(/created_at/);
+  });
+});
+
+describe('pairTurns', () => {
+  it('joins consecutive answers and keeps an answer without a question', () => {
+    const at = new Date(unix(1) * 1000);
+    const messages = pairTurns([
+      { role: 'assistant', text: 'Welcome', createdAt: at },
+      { role: 'user', text: 'Q', createdAt: at },
+      { role: 'assistant', text: 'A1', createdAt: at },
+      { role: 'assistant', text: 'A2', createdAt: at },
+    ]);
+
+    expect(messages.map((m) => [m.userContent, m.agentContent])).toEqual([
+      ['', 'Welcome'],
+      ['Q', 'A1\n\nA2'],
+    ]);
+  });
+});
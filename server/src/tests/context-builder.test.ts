@@ -0,0 +1,170 @@
+import { describe, it, expect, vi } from 'vitest';
+
+// The seed script runs against the database on import; only its model list is needed here
+vi.mock('../../prisma/seed', () => ({
+  systemModels: [
+    { provider: 'mock', name: 'mock-fast', description: 'Mock fast model' },
+  ],
+}));
+
+import { MockProvider } from '../lib/ai-providers';
+import { buildContext, getContextWindow, turnsAfter, type ContextTurn } from '../lib/context-builder';
+import { DEFAULT_CONTEXT_SETTINGS } from '../constants/defaultChatSettings';
+
+const provider = new MockProvider({ apiKey: 'mock-api-key', model: 'mock-fast' });
+
+// MockProvider estimates ~4 characters per token: every turn below costs 10 + 10 tokens
+const turn = (id: string): ContextTurn => ({
+  id,
+  userContent: `${id}`.padEnd(40, 'u'),
+  agentContent: `${id}`.padEnd(40, 'a'),
+});
+
+const history = ['m1', 'm2', 'm3', 'm4'].map(turn);
+const userContent = 'x'.repeat(40); // 10 tokens
+
+describe('buildContext', () => {
+  it('includes the whole history when it fits', () => {
+    const { messages, context } = buildContext({
+      provider,
+      history,
+      userContent,
+      contextWindow: 1000,
+      maxTokens: 100,
+    });
+
+    expect(messages).toHaveLength(9);
+    expect(messages.at(-1)).toEqual({ role: 'user', content: userContent });
+    expect(context).toEqual({
+      contextWindow: 1000,
+      reservedCompletionTokens: 100,
+      estimatedPromptTokens: 90,
+      summaryIncluded: false,
+      includedMessageIds: ['m1', 'm2', 'm3', 'm4'],
+      omittedMessageCount: 0,
+    });
+  });
+
+  it('keeps the newest turns and drops the oldest ones', () => {
+    // 100 - 40 reserved = 60 tokens: new message (10) + two turns (40)
+    const { messages, context } = buildContext({
+      provider,
+      history,
+      userContent,
+      contextWindow: 100,
+      maxTokens: 40,
+    });
+
+    expect(context.includedMessageIds).toEqual(['m3', 'm4']);
+    expect(context.omittedMessageCount).toBe(2);
+    expect(context.estimatedPromptTokens).toBe(50);
+    expect(messages.map((m) => m.role)).toEqual(['user', 'assistant', 'user', 'assistant', 'user']);
+    expect(messages[0]!.content.startsWith('m3')).toBe(true);
+  });
+
+  it('reserves room for the system prompt', () => {
+    // 100 - 50 reserved = 50 tokens: system prompt (10) + new message (10) + one turn (20)
+    const { messages, context } = buildContext({
+      provider,
+      history,
+      userContent,
+      systemPrompt: '  ' + 's'.repeat(40) + '  ', // 10 tokens once trimmed
+      contextWindow: 100,
+      maxTokens: 50,
+    });
+
+    expect(messages[0]).toEqual({ role: 'system', content: 's'.repeat(40) });
+    expect(context.includedMessageIds).toEqual(['m4']);
+    expect(context.estimatedPromptTokens).toBe(40);
+  });
+
+  it('adds the chat summary after the system prompt and counts it against the budget', () => {
+    const { messages, context } = buildContext({
+      provider,
+      history,
+      userContent,
+      systemPrompt: 's'.repeat(40),
+      summary: 'earlier',
+      contextWindow: 100,
+      maxTokens: 50,
+    });
+
+    expect(messages.slice(0, 2)).toEqual([
+      { role: 'system', content: 's'.repeat(40) },
+      { role: 'system', content: 'Summary of the earlier conversation:\nearlier' },
+    ]);
+    expect(context.summaryIncluded).toBe(true);
+    // The summary message (11 tokens) leaves no room for the last turn
+    expect(context.includedMessageIds).toEqual([]);
+  });
+
+  it('always sends the new message, even when nothing else fits', () => {
+    const { messages, context } = buildContext({
+      provider,
+      history,
+      userContent,
+      contextWindow: 10,
+      maxTokens: 40,
+    });
+
+    expect(messages).toEqual([{ role: 'user', content: userContent }]);
+    expect(context.includedMessageIds).toEqual([]);
+    expect(context.omittedMessageCount).toBe(4);
+  });
+
+  it('stops at the first turn that does not fit to keep the history contiguous', () => {
+    const withLongTurn = [turn('m1'), { ...turn('m2'), agentContent: 'a'.repeat(400) }, turn('m3')];
+
+    const { context } = buildContext({
+      provider,
+      history: withLongTurn,
+      userContent,
+      contextWindow: 100,
+      maxTokens: 40,
+    });
+
+    expect(context.includedMessageIds).toEqual(['m3']);
+  });
+
+  it('sends only the user side of unanswered turns', () => {
+    const { messages, context } = buildContext({
+      provider,
+      history: [{ id: 'm1', userContent: 'u'.repeat(40), agentContent: null }],
+      userContent,
+      contextWindow: 1000,
+      maxTokens: 100,
+    });
+
+    expect(messages.map((m) => m.role)).toEqual(['user', 'user']);
+    expect(context.includedMessageIds).toEqual(['m1']);
+  });
+});
+
+describe('turnsAfter', () => {
+  it('returns the turns after the given message', () => {
+    expect(turnsAfter(history, 'm2').map((t) => t.id)).toEqual(['m3', 'm4']);
+    expect(turnsAfter(history, 'm4')).toEqual([]);
+  });
+
+  it('returns every turn when the message is missing or unknown', () => {
+    expect(turnsAfter(history, null)).toEqual(history);
+    expect(turnsAfter(history, 'older')).toEqual(history);
+  });
+});
+
+describe('getContextWindow', () => {
+  it('reads the context window from the model catalog extra field', () => {
+    expect(getContextWindow({ contextWindow: 128000 })).toBe(128000);
+  });
+
+  it('falls back to the default for missing or invalid values', () => {
+    const fallback = DEFAULT_CONTEXT_SETTINGS.contextWindow;
+
+    expect(getContextWindow(null)).toBe(fallback);
+    expect(getContextWindow(undefined)).toBe(fallback);
+    expect(getContextWindow({})).toBe(fallback);
+    expect(getContextWindow({ contextWindow: '8k' })).toBe(fallback);
+    expect(getContextWindow({ contextWindow: -1 })).toBe(fallback);
+    expect(getContextWindow([1, 2])).toBe(fallback);
+  });
+});
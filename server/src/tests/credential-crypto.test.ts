@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { randomBytes } from 'crypto';
+import { decryptSecret, encryptSecret, loadCredentialKeys } from '../lib/credential-crypto';
+import { decryptCredentials } from '../services/credentials.service';
+
+const newKey = () => randomBytes(32).toString('base64');
+
+describe('credential encryption', () => {
+  const oldKey = newKey();
+  const currentKey = newKey();
+
+  it('encrypts with the first key and decrypts the result', () => {
+    const keys = loadCredentialKeys(`v2:${currentKey}, v1:${oldKey}`);
+    const encrypted = encryptSecret('sk-secret', keys);
+
+    expect(encrypted.keyId).toBe('v2');
+    expect(encrypted.secret).not.toContain('sk-secret');
+    expect(decryptSecret(encrypted, keys)).toBe('sk-secret');
+  });
+
+  it('decrypts secrets of older keys after rotation', () => {
+    const encrypted = encryptSecret('sk-secret', loadCredentialKeys(`v1:${oldKey}`));
+
+    expect(decryptSecret(encrypted, loadCredentialKeys(`v2:${currentKey},v1:${oldKey}`))).toBe('sk-secret');
+    expect(() => decryptSecret(encrypted, loadCredentialKeys(`v2:${currentKey}`))).toThrow('Credential key "v1"');
+  });
+
+  it('returns secrets stored before encryption as they are', () => {
+    expect(decryptSecret({ secret: 'sk-legacy', keyId: null })).toBe('sk-legacy');
+  });
+
+  it('detects tampered secrets', () => {
+    const keys = loadCredentialKeys(`v1:${currentKey}`);
+    const { secret, keyId } = encryptSecret('sk-secret', keys);
+    const [iv, tag, data] = secret.split(':');
+    const tampered = Buffer.from(data!, 'base64');
+    tampered[0]! ^= 1;
+
+    expect(() => decryptSecret({ secret: [iv, tag, tampered.toString('base64')].join(':'), keyId }, keys)).toThrow();
+  });
+
+  it('rejects missing and malformed keys', () => {
+    expect(() => loadCredentialKeys('')).toThrow('CREDENTIAL_KEYS is not configured');
+    expect(() => loadCredentialKeys('v1:dG9vIHNob3J0')).toThrow('32-byte');
+    expect(() => loadCredentialKeys(currentKey)).toThrow('id:key pairs');
+  });
+});
+
+describe('decryptCredentials', () => {
+  it('leaves out keys that cannot be decrypted and keeps the others', () => {
+    const retired = loadCredentialKeys(`v1:${newKey()}`);
+    const current = loadCredentialKeys(`v2:${newKey()}`);
+    const row = (provider: string, secret: { secret: string; keyId: string | null }) => ({
+      ownerId: 'owner-1',
+      provider,
+      baseUrl: null,
+      orgId: null,
+      ...secret,
+    });
+
+    const credentials = decryptCredentials(
+      [
+        row('openai', encryptSecret('sk-openai', current)),
+        row('anthropic', encryptSecret('sk-ant', retired)),
+        row('gemini', { secret: 'not:a:secret', keyId: 'v2' }),
+      ],
+      current
+    );
+
+    expect(credentials).toEqual({ openai: { apiKey: 'sk-openai', baseUrl: null, orgId: null } });
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { assertPublicEndpoint, isPrivateAddress } from '../lib/endpoint-policy';
+
+describe('isPrivateAddress', () => {
+  it('refuses loopback, link-local and private IPv4 addresses', () => {
+    for (const address of ['127.0.0.1', '10.1.2.3', '172.16.0.1', '172.31.255.255', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0']) {
+      expect(isPrivateAddress(address), address).toBe(true);
+    }
+  });
+
+  it('accepts public IPv4 addresses', () => {
+    for (const address of ['8.8.8.8', '172.32.0.1', '100.128.0.1', '1.1.1.1']) {
+      expect(isPrivateAddress(address), address).toBe(false);
+    }
+  });
+
+  it('sees through IPv6 forms of IPv4 addresses', () => {
+    expect(isPrivateAddress('::ffff:127.0.0.1')).toBe(true);
+    expect(isPrivateAddress('::ffff:7f00:1')).toBe(true);
+    expect(isPrivateAddress('::ffff:a9fe:a9fe')).toBe(true);
+    expect(isPrivateAddress('64:ff9b::a00:1')).toBe(true);
+    expect(isPrivateAddress('::ffff:808:808')).toBe(false);
+  });
+
+  it('refuses local IPv6 addresses', () => {
+    for (const address of ['::1', '::', 'fe80::1', 'fd00::1', 'fc00::abcd', '[::1]']) {
+      expect(isPrivateAddress(address), address).toBe(true);
+    }
+    expect(isPrivateAddress('2606:4700:4700::1111')).toBe(false);
+  });
+
+  it('treats anything that is not an address as private', () => {
+    expect(isPrivateAddress('localhost')).toBe(true);
+    expect(isPrivateAddress('1.2.3')).toBe(true);
+  });
+});
+
+describe('assertPublicEndpoint', () => {
+  const allowlist = process.env.CUSTOM_ENDPOINT_ALLOWLIST;
+
+  afterEach(() => {
+    if (allowlist === undefined) delete process.env.CUSTOM_ENDPOINT_ALLOWLIST;
+    else process.env.CUSTOM_ENDPOINT_ALLOWLIST = allowlist;
+  });
+
+  it('refuses endpoints on the server network', async () => {
+    delete process.env.CUSTOM_ENDPOINT_ALLOWLIST;
+
+    await expect(assertPublicEndpoint('http://169.254.169.254/latest/meta-data')).rejects.toThrow(/private networks/);
+    await expect(assertPublicEndpoint('http://[::ffff:127.0.0.1]:11434')).rejects.toThrow(/private networks/);
+    await expect(assertPublicEndpoint('http://2130706433:8080')).rejects.toThrow(/private networks/);
+  });
+
+  it('accepts public addresses', async () => {
+    await expect(assertPublicEndpoint('https://8.8.8.8/v1')).resolves.toBeUndefined();
+  });
+
+  it('refuses other protocols', async () => {
+    await expect(assertPublicEndpoint('file:///etc/passwd')).rejects.toThrow(/http or https/);
+  });
+
+  it('lets the operator allow hosts on a private network', async () => {
+    process.env.CUSTOM_ENDPOINT_ALLOWLIST = 'localhost:11434, 10.0.0.5';
+
+    await expect(assertPublicEndpoint('http://localhost:11434')).resolves.toBeUndefined();
+    await expect(assertPublicEndpoint('http://10.0.0.5:8000/v1')).resolves.toBeUndefined();
+    await expect(assertPublicEndpoint('http://127.0.0.1:11434')).rejects.toThrow(/private networks/);
+  });
+});
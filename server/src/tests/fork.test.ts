@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { MessageStatus } from '@prisma/client';
+import { forkTitle, selectForkPath } from '../services/fork.service';
+
+const at = (minute: number) => new Date(Date.UTC(2025, 8, 30, 10, minute));
+
+// m1 ─ m2 ─ m3
+//    └ m2b (regenerated answer) ─ m4
+const messages = [
+  { id: 'm1', parentMessageId: null, createdAt: at(1), status: MessageStatus.COMPLETED },
+  { id: 'm2', parentMessageId: 'm1', createdAt: at(2), status: MessageStatus.COMPLETED },
+  { id: 'm3', parentMessageId: 'm2', createdAt: at(3), status: MessageStatus.COMPLETED },
+  { id: 'm2b', parentMessageId: 'm1', createdAt: at(4), status: MessageStatus.COMPLETED },
+  { id: 'm4', parentMessageId: 'm2b', createdAt: at(5), status: MessageStatus.STREAMING },
+];
+
+describe('selectForkPath', () => {
+  it('copies the chosen message and the turns before it on its branch', () => {
+    expect(selectForkPath(messages, 'm3').map((m) => m.id)).toEqual(['m1', 'm2', 'm3']);
+    expect(selectForkPath(messages, 'm2b').map((m) => m.id)).toEqual(['m1', 'm2b']);
+    expect(selectForkPath(messages, 'm1').map((m) => m.id)).toEqual(['m1']);
+  });
+
+  it('rejects unknown messages and answers still in progress', () => {
+    expect(() => selectForkPath(messages, 'missing')).toThrow('Message not found');
+    expect(() => selectForkPath(messages, 'm4')).toThrow(/Wait for the answer/);
+  });
+});
+
+describe('forkTitle', () => {
+  it('marks the title as a fork and keeps it within the length limit', () => {
+    expect(forkTitle('Trip planning')).toBe('Trip planning (fork)');
+
+    const title = forkTitle('x'.repeat(100), 40);
+    expect(title).toHaveLength(40);
+    expect(title.endsWith('… (fork)')).toBe(true);
+  });
+});
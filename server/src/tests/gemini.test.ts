@@ -0,0 +1,140 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { createServer, type IncomingMessage, type Server } from 'http';
+import type { AddressInfo } from 'net';
+
+// The seed script runs against the database on import; only its model list is needed here
+vi.mock('../../prisma/seed', () => ({
+  systemModels: [{ provider: 'gemini', name: 'gemini-2.5-flash', description: 'Gemini 2.5 Flash' }],
+}));
+
+import { createAIProviderFromModel, GeminiProvider, type AIStreamChunk } from '../lib/ai-providers';
+
+const readBody = async (req: IncomingMessage) => {
+  let body = '';
+  for await (const chunk of req) body += chunk;
+  return JSON.parse(body);
+};
+
+// Minimal Gemini API: answers generateContent with one response and
+// streamGenerateContent with server-sent events split at awkward places
+const requests: { url?: string; headers: IncomingMessage['headers']; body: any }[] = [];
+
+const server: Server = createServer(async (req, res) => {
+  const body = await readBody(req);
+  requests.push({ url: req.url, headers: req.headers, body });
+
+  if (req.headers['x-goog-api-key'] !== 'AIza-test') {
+    res.writeHead(400, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: { code: 400, message: 'API key not valid. Please pass a valid API key.', status: 'INVALID_ARGUMENT' } }));
+    return;
+  }
+
+  if (req.url === '/v1beta/models/gemini-2.5-flash:generateContent') {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({
+      candidates: [{ content: { role: 'model', parts: [{ text: 'Hello!' }] }, finishReason: 'STOP' }],
+      usageMetadata: { promptTokenCount: 9, candidatesTokenCount: 2, totalTokenCount: 11 },
+      modelVersion: 'gemini-2.5-flash',
+    }));
+    return;
+  }
+
+  if (req.url === '/v1beta/models/gemini-2.5-flash:streamGenerateContent?alt=sse') {
+    const events = [
+      { candidates: [{ content: { role: 'model', parts: [{ text: 'Hel' }] } }], usageMetadata: { promptTokenCount: 9 }, modelVersion: 'gemini-2.5-flash' },
+      { candidates: [{ content: { role: 'model', parts: [{ text: 'lo ☕' }] } }], usageMetadata: { promptTokenCount: 9, candidatesTokenCount: 2 } },
+      { candidates: [{ content: { role: 'model', parts: [{ text: '' }] }, finishReason: 'STOP' }], usageMetadata: { promptTokenCount: 9, candidatesTokenCount: 3, totalTokenCount: 12 } },
+    ];
+    const bytes = Buffer.from(events.map((event) => `data: ${JSON.stringify(event)}\r\n\r\n`).join(''));
+    const coffee = bytes.indexOf(Buffer.from('☕')) + 1;
+
+    res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+    res.write(bytes.subarray(0, 10));
+    res.write(bytes.subarray(10, coffee));
+    res.end(bytes.subarray(coffee));
+    return;
+  }
+
+  res.writeHead(404);
+  res.end();
+});
+
+let endpoint: string;
+
+beforeAll(async () => {
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+const createProvider = (apiKey = 'AIza-test') =>
+  new GeminiProvider({ apiKey, model: 'gemini-2.5-flash', endpoint });
+
+const messages = [
+  { role: 'system' as const, content: 'Be brief.' },
+  { role: 'user' as const, content: 'Hi' },
+  { role: 'assistant' as const, content: 'Hello, how can I help?' },
+  { role: 'user' as const, content: 'Say hello again' },
+];
+
+describe('GeminiProvider', () => {
+  it('streams responses with usage from the last event', async () => {
+    const chunks: AIStreamChunk[] = [];
+    for await (const chunk of createProvider().streamResponse(messages, { maxTokens: 64, temperature: 0.2 })) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks.map((chunk) => chunk.content).join('')).toBe('Hello ☕');
+    expect(chunks.at(-1)).toMatchObject({
+      isComplete: true,
+      metadata: { model: 'gemini-2.5-flash', provider: 'gemini' },
+      usage: { promptTokens: 9, completionTokens: 3, totalTokens: 12 },
+    });
+  });
+
+  it('sends the system prompt as systemInstruction and assistant turns as model turns', async () => {
+    await createProvider().generateResponse(messages, { maxTokens: 64, temperature: 0.2 });
+
+    expect(requests.at(-1)!.body).toEqual({
+      systemInstruction: { parts: [{ text: 'Be brief.' }] },
+      contents: [
+        { role: 'user', parts: [{ text: 'Hi' }] },
+        { role: 'model', parts: [{ text: 'Hello, how can I help?' }] },
+        { role: 'user', parts: [{ text: 'Say hello again' }] },
+      ],
+      generationConfig: { maxOutputTokens: 64, temperature: 0.2 },
+    });
+  });
+
+  it('reports usage for non-streaming responses', async () => {
+    const response = await createProvider().generateResponse(messages);
+
+    expect(response.content).toBe('Hello!');
+    expect(response.metadata).toMatchObject({
+      finishReason: 'STOP',
+      tokenCount: 11,
+      usage: { promptTokens: 9, completionTokens: 2, totalTokens: 11 },
+    });
+  });
+
+  it('reports errors returned by the API', async () => {
+    await expect(createProvider('AIza-wrong').generateResponse(messages)).rejects.toThrow('API key not valid');
+  });
+
+  it("uses the owner's Gemini key", () => {
+    const provider = createAIProviderFromModel(
+      { provider: 'gemini', name: 'gemini-2.5-flash' },
+      { gemini: { apiKey: 'AIza-owner' } }
+    );
+    expect(provider.name).toBe('gemini');
+
+    vi.stubEnv('GEMINI_API_KEY', '');
+    expect(() => createAIProviderFromModel({ provider: 'gemini', name: 'gemini-2.5-flash' }, {})).toThrow(
+      'gemini API key not configured'
+    );
+    vi.unstubAllEnvs();
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, it, expect, vi } from 'vitest';
+
+// The seed script runs against the database on import; only its model list is needed here
+vi.mock('../../prisma/seed', () => ({
+  systemModels: [
+    { provider: 'mock', name: 'mock-fast', description: 'Mock fast model' },
+    { provider: 'openai', name: 'gpt-4o', description: 'OpenAI GPT-4o' },
+  ],
+}));
+
+// Record the requests sent through the OpenAI SDK instead of reaching a server
+const { openAIRequests } = vi.hoisted(() => ({
+  openAIRequests: [] as Record<string, unknown>[],
+}));
+
+vi.mock('openai', () => ({
+  default: class {
+    chat = {
+      completions: {
+        create: async (request: Record<string, unknown>) => {
+          openAIRequests.push(request);
+          return {
+            model: request.model,
+            choices: [{ message: { content: 'Hi!' }, finish_reason: 'stop' }],
+            usage: { prompt_tokens: 3, completion_tokens: 2, total_tokens: 5 },
+          };
+        },
+      },
+    };
+  },
+}));
+
+import type { AIStreamChunk } from '../lib/ai-providers';
+import { generationMetadata, prepareGeneration, resolveGenerationSettings } from '../lib/generation-settings';
+import { chatSettingsSchema } from '../router/chat.settings';
+import { CHAT_SETTINGS_LIMITS, DEFAULT_CHAT_SETTINGS } from '../constants/defaultChatSettings';
+
+const chatSettings = {
+  systemPrompt: 'Answer like a pirate.',
+  temperature: 0.2,
+  maxTokens: 5,
+  topP: 0.9,
+};
+
+const history = [{ id: 'm1', userContent: 'Hello', agentContent: 'Ahoy!' }];
+
+describe('chatSettingsSchema', () => {
+  const { temperature, maxTokens, topP, systemPromptMaxLength } = CHAT_SETTINGS_LIMITS;
+
+  it('accepts settings at their limits and nulls', () => {
+    for (const settings of [
+      { systemPrompt: 'x'.repeat(systemPromptMaxLength), temperature: temperature.min, maxTokens: maxTokens.min, topP: topP.min },
+      { systemPrompt: '', temperature: temperature.max, maxTokens: maxTokens.max, topP: topP.max },
+      { systemPrompt: null, temperature: null, maxTokens: null, topP: null },
+    ]) {
+      expect(chatSettingsSchema.safeParse(settings).success).toBe(true);
+    }
+  });
+
+  it('refuses settings out of bounds', () => {
+    const valid = { systemPrompt: null, temperature: null, maxTokens: null, topP: null };
+
+    for (const override of [
+      { systemPrompt: 'x'.repeat(systemPromptMaxLength + 1) },
+      { temperature: temperature.min - 0.1 },
+      { temperature: temperature.max + 0.1 },
+      { maxTokens: maxTokens.min - 1 },
+      { maxTokens: maxTokens.max + 1 },
+      { maxTokens: 100.5 },
+      { topP: topP.min - 0.1 },
+      { topP: topP.max + 0.1 },
+    ]) {
+      expect(chatSettingsSchema.safeParse({ ...valid, ...override }).success, JSON.stringify(override)).toBe(false);
+    }
+  });
+});
+
+describe('resolveGenerationSettings', () => {
+  it('keeps the chat overrides', () => {
+    expect(resolveGenerationSettings(chatSettings)).toEqual(chatSettings);
+  });
+
+  it('falls back to the defaults', () => {
+    expect(resolveGenerationSettings({ systemPrompt: null, temperature: null, maxTokens: null, topP: null })).toEqual(
+      DEFAULT_CHAT_SETTINGS
+    );
+  });
+});
+
+describe('prepareGeneration', () => {
+  const generation = resolveGenerationSettings(chatSettings);
+
+  it('sends the settings to the provider', async () => {
+    const { provider, messages } = prepareGeneration({
+      model: { provider: 'openai', name: 'gpt-4o' },
+      credentials: { openai: { apiKey: 'sk-owner' } },
+      generation,
+      history,
+      userContent: 'Where is the treasure?',
+    });
+
+    await provider.generateResponse(messages);
+
+    expect(openAIRequests.at(-1)).toMatchObject({
+      temperature: 0.2,
+      max_tokens: 5,
+      top_p: 0.9,
+      messages: [
+        { role: 'system', content: 'Answer like a pirate.' },
+        { role: 'user', content: 'Hello' },
+        { role: 'assistant', content: 'Ahoy!' },
+        { role: 'user', content: 'Where is the treasure?' },
+      ],
+    });
+  });
+
+  it('limits the answer to maxTokens', async () => {
+    const { provider, messages, context } = prepareGeneration({
+      model: { provider: 'mock', name: 'mock-fast' },
+      credentials: {},
+      generation,
+      history,
+      userContent: 'Where is the treasure?',
+    });
+
+    const chunks: AIStreamChunk[] = [];
+    for await (const chunk of provider.streamResponse(messages)) {
+      chunks.push(chunk);
+    }
+
+    // MockProvider answers one word per token
+    expect(chunks.at(-1)?.usage?.completionTokens).toBe(5);
+    expect(context.reservedCompletionTokens).toBe(5);
+  });
+
+  it('leaves sampling to the provider when topP is not set', async () => {
+    const { provider, messages } = prepareGeneration({
+      model: { provider: 'openai', name: 'gpt-4o' },
+      credentials: { openai: { apiKey: 'sk-owner' } },
+      generation: resolveGenerationSettings({ ...chatSettings, systemPrompt: null, topP: null }),
+      history: [],
+      userContent: 'Hello',
+    });
+
+    await provider.generateResponse(messages);
+
+    expect(openAIRequests.at(-1)).toMatchObject({ top_p: undefined, messages: [{ role: 'user', content: 'Hello' }] });
+  });
+});
+
+describe('generationMetadata', () => {
+  it('records the model and the settings used', () => {
+    expect(generationMetadata({ provider: 'mock', name: 'mock-fast' }, resolveGenerationSettings(chatSettings))).toEqual({
+      provider: 'mock',
+      model: 'mock-fast',
+      systemPrompt: 'Answer like a pirate.',
+      temperature: 0.2,
+      maxTokens: 5,
+      topP: 0.9,
+    });
+  });
+});
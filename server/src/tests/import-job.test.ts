@@ -0,0 +1,152 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { randomUUID } from 'crypto';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+
+// In-memory stand-in for the Redis commands import jobs use
+const { fakeRedis } = vi.hoisted(() => {
+  const store = new Map<string, string>();
+
+  const fakeRedis = {
+    get: async (key: string) => store.get(key) ?? null,
+    set: async (key: string, value: string, ...options: unknown[]) => {
+      if (options.includes('NX') && store.has(key)) return null;
+      store.set(key, String(value));
+      return 'OK';
+    },
+    del: async (key: string) => Number(store.delete(key)),
+    // The only script run saves an upload unless it has been started
+    eval: async (_script: string, _keys: number, jobKey: string, startKey: string, job: string) => {
+      if (store.has(startKey)) return 0;
+      store.set(jobKey, job);
+      return 1;
+    },
+  };
+
+  return { fakeRedis };
+});
+
+vi.mock('../lib/redis', () => ({
+  redis: fakeRedis,
+  cacheHelpers: { invalidateOwnerCache: async () => undefined },
+}));
+vi.mock('../services/owner-events.service', () => ({ publishOwnerEvent: async () => undefined }));
+
+import {
+  cancelImportJob,
+  createImportJob,
+  expectedChunkSize,
+  getImportJob,
+  isNdjsonHeader,
+  isUploadAbandoned,
+  readLines,
+  saveImportChunk,
+  startImportJob,
+} from '../services/import-job.service';
+
+describe('import job chunks', () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'import-job-test-'));
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  // Split the bytes of `text` at the given offsets into chunk files
+  const writeChunks = async (name: string, text: string, offsets: number[]) => {
+    const bytes = Buffer.from(text, 'utf8');
+    const bounds = [0, ...offsets, bytes.length];
+    const files = bounds.slice(1).map((_, index) => path.join(dir, `${name}-${index}.part`));
+
+    await Promise.all(files.map((file, index) => writeFile(file, bytes.subarray(bounds[index], bounds[index + 1]))));
+    return files;
+  };
+
+  const collect = async (files: string[]) => {
+    const lines: string[] = [];
+    for await (const line of readLines(files)) lines.push(line);
+    return lines;
+  };
+
+  it('joins lines split across chunks', async () => {
+    const files = await writeChunks('split', '{"a":1}\n{"b":2}\n{"c":3}', [3, 12, 13]);
+
+    expect(await collect(files)).toEqual(['{"a":1}', '{"b":2}', '{"c":3}']);
+  });
+
+  it('decodes characters whose bytes are split between chunks', async () => {
+    const text = '{"title":"Café ☕"}\r\n{"title":"日本"}\n';
+    const coffee = Buffer.from('{"title":"Café ', 'utf8').length + 1;
+    const files = await writeChunks('utf8', text, [coffee, Buffer.from(text).length - 4]);
+
+    expect(await collect(files)).toEqual(['{"title":"Café ☕"}', '{"title":"日本"}']);
+  });
+
+  it('sizes every chunk but the last to the chunk size', () => {
+    expect(expectedChunkSize(10, 0, 4)).toBe(4);
+    expect(expectedChunkSize(10, 1, 4)).toBe(4);
+    expect(expectedChunkSize(10, 2, 4)).toBe(2);
+    expect(expectedChunkSize(8, 1, 4)).toBe(4);
+  });
+});
+
+describe('isNdjsonHeader', () => {
+  it('recognizes the header line of an NDJSON export', () => {
+    expect(isNdjsonHeader('{"version":"2.0","format":"ndjson","exportDate":"2025-01-01T00:00:00.000Z"}')).toBe(true);
+  });
+
+  it('rejects other files', () => {
+    expect(isNdjsonHeader('{"version":"2.0","chats":[]}')).toBe(false);
+    expect(isNdjsonHeader('{"version":"1.0","format":"ndjson"}')).toBe(false);
+    expect(isNdjsonHeader('[{"title":"ChatGPT conversation"')).toBe(false);
+  });
+});
+
+describe('isUploadAbandoned', () => {
+  const updatedAt = '2025-01-01T12:00:00.000Z';
+  const minutesLater = (minutes: number) => new Date(updatedAt).getTime() + minutes * 60 * 1000;
+
+  it('gives up on uploads that stopped sending chunks', () => {
+    expect(isUploadAbandoned({ status: 'uploading', updatedAt }, minutesLater(1))).toBe(false);
+    expect(isUploadAbandoned({ status: 'uploading', updatedAt }, minutesLater(15))).toBe(true);
+  });
+
+  it('never gives up on imports that are processing', () => {
+    expect(isUploadAbandoned({ status: 'processing', updatedAt }, minutesLater(60))).toBe(false);
+  });
+});
+
+describe('import job uploads', () => {
+  const content = Buffer.from('[]');
+
+  const upload = async () => {
+    const job = await createImportJob(`owner-${randomUUID()}`, { fileName: 'chats.json', size: content.length });
+    return saveImportChunk(job, 0, content);
+  };
+
+  it('starts an upload once however often it is asked to', async () => {
+    const job = await upload();
+    const results = await Promise.allSettled([startImportJob({ ...job }), startImportJob({ ...job })]);
+
+    expect(results.map(({ status }) => status).sort()).toEqual(['fulfilled', 'rejected']);
+  });
+
+  it('keeps chunks arriving after the start from reopening the upload', async () => {
+    const job = await upload();
+    await startImportJob({ ...job });
+
+    await expect(saveImportChunk({ ...job }, 0, content)).rejects.toThrow('The upload is already complete');
+    expect((await getImportJob(job.id, job.ownerId))?.status).not.toBe('uploading');
+  });
+
+  it('cannot cancel an upload that has started', async () => {
+    const job = await upload();
+    await startImportJob({ ...job });
+
+    await expect(cancelImportJob({ ...job })).rejects.toThrow('The import has already started');
+  });
+});
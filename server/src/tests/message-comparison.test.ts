@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { getAnswerStreamKey, getComparison } from '../lib/message-comparison';
+
+describe('getComparison', () => {
+  it('reads the comparison from message metadata', () => {
+    expect(
+      getComparison({
+        generation: { provider: 'mock', model: 'mock-fast' },
+        comparison: { id: 'cmp_1', modelId: 'model_a', winnerId: 'msg_2' },
+      })
+    ).toEqual({ id: 'cmp_1', modelId: 'model_a', winnerId: 'msg_2' });
+    expect(getComparison({ comparison: { id: 'cmp_1', modelId: 'model_a' } })).toEqual({
+      id: 'cmp_1',
+      modelId: 'model_a',
+    });
+  });
+
+  it('ignores messages that are not compared answers', () => {
+    expect(getComparison(null)).toBeNull();
+    expect(getComparison({ generation: { provider: 'mock', model: 'mock-fast' } })).toBeNull();
+    expect(getComparison({ comparison: { id: 'cmp_1' } })).toBeNull();
+    expect(getComparison({ comparison: ['cmp_1'] })).toBeNull();
+  });
+});
+
+describe('getAnswerStreamKey', () => {
+  it('gives every answer of a chat its own stream', () => {
+    expect(getAnswerStreamKey('chat_1', 'msg_1')).not.toBe(getAnswerStreamKey('chat_1', 'msg_2'));
+    expect(getAnswerStreamKey('chat_1', 'msg_1')).not.toBe('chat_1');
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getAncestorIds,
+  getDescendantIds,
+  getLatestPathFrom,
+  getSiblingIds,
+  groupByParent,
+  type MessageTreeNode,
+} from '../lib/message-tree';
+
+const node = (id: string, parentMessageId: string | null, minute: number): MessageTreeNode => ({
+  id,
+  parentMessageId,
+  createdAt: new Date(Date.UTC(2025, 0, 1, 0, minute)),
+});
+
+/**
+ * a ─ b ─ c
+ *   ├ b2 ─ c2
+ *   └ b3
+ */
+const tree: MessageTreeNode[] = [
+  node('c2', 'b2', 5),
+  node('a', null, 0),
+  node('b', 'a', 1),
+  node('c', 'b', 2),
+  node('b2', 'a', 3),
+  node('b3', 'a', 6),
+];
+
+describe('message tree helpers', () => {
+  it('groups nodes by parent, oldest first', () => {
+    const groups = groupByParent(tree);
+
+    expect(groups.get('__root__')?.map((n) => n.id)).toEqual(['a']);
+    expect(groups.get('a')?.map((n) => n.id)).toEqual(['b', 'b2', 'b3']);
+  });
+
+  it('returns ordered siblings including the message itself', () => {
+    expect(getSiblingIds(tree, 'b2')).toEqual(['b', 'b2', 'b3']);
+    expect(getSiblingIds(tree, 'c')).toEqual(['c']);
+    expect(getSiblingIds(tree, 'missing')).toEqual([]);
+  });
+
+  it('returns ancestors from the first turn down to the parent', () => {
+    expect(getAncestorIds(tree, 'c2')).toEqual(['a', 'b2']);
+    expect(getAncestorIds(tree, 'a')).toEqual([]);
+  });
+
+  it('stops on cycles when walking ancestors', () => {
+    const cyclic = [node('x', 'y', 0), node('y', 'x', 1)];
+
+    expect(getAncestorIds(cyclic, 'x')).toEqual(['y']);
+  });
+
+  it('returns every descendant across branches', () => {
+    expect(getDescendantIds(tree, 'a').sort()).toEqual(['b', 'b2', 'b3', 'c', 'c2']);
+    expect(getDescendantIds(tree, 'b3')).toEqual([]);
+  });
+
+  it('follows the latest child at every level', () => {
+    expect(getLatestPathFrom(tree, 'a')).toEqual(['a', 'b3']);
+    expect(getLatestPathFrom(tree, 'b2')).toEqual(['b2', 'c2']);
+  });
+});
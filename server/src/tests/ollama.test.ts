@@ -0,0 +1,191 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { createServer, type IncomingMessage, type Server } from 'http';
+import type { AddressInfo } from 'net';
+
+// The seed script runs against the database on import; only its model list is needed here
+vi.mock('../../prisma/seed', () => ({ systemModels: [] }));
+
+import { createAIProviderFromModel, listOllamaModels, type AIStreamChunk } from '../lib/ai-providers';
+import { planOllamaSync, syncOllamaModels } from '../services/ollama.service';
+
+const readBody = async (req: IncomingMessage) => {
+  let body = '';
+  for await (const chunk of req) body += chunk;
+  return JSON.parse(body);
+};
+
+// Minimal Ollama server: two installed models, and a chat that answers in
+// NDJSON chunks split at awkward places, as a real stream may arrive
+const requests: { path?: string; headers: IncomingMessage['headers']; body?: any }[] = [];
+
+const server: Server = createServer(async (req, res) => {
+  const body = req.method === 'POST' ? await readBody(req) : undefined;
+  requests.push({ path: req.url, headers: req.headers, body });
+
+  if (req.url === '/api/tags') {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({
+      models: [
+        {
+          name: 'llama3.1:8b',
+          modified_at: '2025-01-01T00:00:00Z',
+          size: 4920753328,
+          digest: 'abc',
+          details: { family: 'llama', parameter_size: '8.0B', quantization_level: 'Q4_K_M' },
+        },
+        { name: 'qwen2.5:0.5b', modified_at: '2025-01-02T00:00:00Z', size: 397821319, digest: 'def' },
+      ],
+    }));
+    return;
+  }
+
+  if (req.url === '/api/chat' && body.model === 'missing') {
+    res.writeHead(404, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: 'model "missing" not found, try pulling it first' }));
+    return;
+  }
+
+  if (req.url === '/api/chat' && !body.stream) {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({
+      model: body.model,
+      message: { role: 'assistant', content: 'Hello!' },
+      done: true,
+      done_reason: 'stop',
+      prompt_eval_count: 7,
+      eval_count: 2,
+    }));
+    return;
+  }
+
+  if (req.url === '/api/chat') {
+    const lines = [
+      { model: body.model, message: { role: 'assistant', content: 'Hel' }, done: false },
+      { model: body.model, message: { role: 'assistant', content: 'lo ☕' }, done: false },
+      { model: body.model, message: { role: 'assistant', content: '' }, done: true, done_reason: 'stop', prompt_eval_count: 7, eval_count: 3 },
+    ];
+    const bytes = Buffer.from(lines.map((line) => JSON.stringify(line)).join('\n') + '\n');
+    const coffee = bytes.indexOf(Buffer.from('☕')) + 1;
+
+    res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+    res.write(bytes.subarray(0, 20));
+    res.write(bytes.subarray(20, coffee));
+    res.end(bytes.subarray(coffee));
+    return;
+  }
+
+  res.writeHead(404);
+  res.end();
+});
+
+let endpoint: string;
+
+beforeAll(async () => {
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+const ollamaModel = (name = 'llama3.1:8b') => ({
+  provider: 'ollama',
+  name,
+  endpoint: `${endpoint}/`,
+  extra: { headers: { Authorization: 'Bearer proxy-token' } },
+});
+
+const messages = [{ role: 'user' as const, content: 'Hi' }];
+
+describe('OllamaProvider', () => {
+  it('streams /api/chat responses with usage from the final chunk', async () => {
+    const provider = createAIProviderFromModel(ollamaModel(), {});
+    const chunks: AIStreamChunk[] = [];
+    for await (const chunk of provider.streamResponse(messages, { temperature: 0.2, maxTokens: 64 })) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks.map((chunk) => chunk.content).join('')).toBe('Hello ☕');
+    expect(chunks.at(-1)).toMatchObject({
+      isComplete: true,
+      metadata: { model: 'llama3.1:8b', provider: 'ollama' },
+      usage: { promptTokens: 7, completionTokens: 3, totalTokens: 10 },
+    });
+
+    const request = requests.at(-1)!;
+    expect(request.path).toBe('/api/chat');
+    expect(request.headers.authorization).toBe('Bearer proxy-token');
+    expect(request.body).toMatchObject({
+      model: 'llama3.1:8b',
+      messages: [{ role: 'user', content: 'Hi' }],
+      stream: true,
+      options: { temperature: 0.2, num_predict: 64 },
+    });
+  });
+
+  it('generates non-streaming responses', async () => {
+    const response = await createAIProviderFromModel(ollamaModel(), {}).generateResponse(messages);
+
+    expect(response.content).toBe('Hello!');
+    expect(response.metadata).toMatchObject({ finishReason: 'stop', usage: { totalTokens: 9 } });
+  });
+
+  it('reports errors returned by the server', async () => {
+    const provider = createAIProviderFromModel(ollamaModel('missing'), {});
+
+    await expect(provider.generateResponse(messages)).rejects.toThrow('model "missing" not found');
+  });
+
+  it('lists installed models', async () => {
+    const models = await listOllamaModels(endpoint);
+
+    expect(models).toEqual([
+      expect.objectContaining({ name: 'llama3.1:8b', family: 'llama', parameterSize: '8.0B', quantizationLevel: 'Q4_K_M' }),
+      expect.objectContaining({ name: 'qwen2.5:0.5b', family: undefined }),
+    ]);
+  });
+});
+
+describe('planOllamaSync', () => {
+  const installed = [
+    { name: 'llama3.1:8b', size: 1, digest: 'a', modifiedAt: '' },
+    { name: 'qwen2.5:0.5b', size: 1, digest: 'b', modifiedAt: '' },
+    { name: 'gpt-4o', size: 1, digest: 'c', modifiedAt: '' },
+  ];
+  const server = 'http://localhost:11434';
+
+  it('adds new models, updates known ones and disables removed ones', () => {
+    const plan = planOllamaSync(
+      [
+        { id: '1', name: 'llama3.1:8b', provider: 'ollama', endpoint: server },
+        { id: '2', name: 'mistral:7b', provider: 'ollama', endpoint: `${server}/` },
+        { id: '3', name: 'phi3', provider: 'ollama', endpoint: 'http://gpu-box:11434' },
+        { id: '4', name: 'gpt-4o', provider: 'openai-compatible', endpoint: 'http://vllm:8000/v1' },
+      ],
+      installed,
+      server
+    );
+
+    expect(plan.create.map((model) => model.name)).toEqual(['qwen2.5:0.5b']);
+    expect(plan.update).toEqual([{ id: '1', model: installed[0] }]);
+    // Models of other servers are left alone
+    expect(plan.disable).toEqual([{ id: '2', name: 'mistral:7b' }]);
+    // The name belongs to a model of another provider
+    expect(plan.skipped).toEqual(['gpt-4o']);
+  });
+
+  it('stops adding models at the per-owner limit', () => {
+    const plan = planOllamaSync([], installed, server, 2);
+
+    expect(plan.create.map((model) => model.name)).toEqual(['llama3.1:8b', 'qwen2.5:0.5b']);
+    expect(plan.skipped).toEqual(['gpt-4o']);
+  });
+});
+
+describe('syncOllamaModels', () => {
+  it('never asks servers on the local network for their models', async () => {
+    await expect(syncOllamaModels('owner-1', { endpoint: 'http://127.0.0.1:11434' })).rejects.toThrow(/private networks/);
+    await expect(syncOllamaModels('owner-1', { endpoint: 'http://10.0.0.2:11434/' })).rejects.toThrow(/private networks/);
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect, vi } from 'vitest';
+
+// In-memory stand-in for Redis pub/sub: publishing delivers to subscribed channels
+const { fakePubSub, subscribed } = vi.hoisted(() => {
+  type MessageHandler = (channel: string, message: string) => void;
+  const subscribed = new Set<string>();
+  const handlers: MessageHandler[] = [];
+
+  const fakePubSub = {
+    publish: async (channel: string, message: string) => {
+      if (subscribed.has(channel)) {
+        for (const handler of handlers) handler(channel, message);
+      }
+      return 1;
+    },
+    duplicate: () => ({
+      on: (event: string, handler: MessageHandler) => {
+        if (event === 'message') handlers.push(handler);
+      },
+      subscribe: async (channel: string) => subscribed.add(channel),
+      unsubscribe: async (channel: string) => subscribed.delete(channel),
+    }),
+  };
+
+  return { fakePubSub, subscribed };
+});
+
+vi.mock('../lib/redis', () => ({ redisPubSub: fakePubSub }));
+
+import { addOwnerEventListener, ownerEvents, publishOwnerEvent, type OwnerEvent } from '../services/owner-events.service';
+
+describe('owner events', () => {
+  it('delivers events to the listeners of that owner only', async () => {
+    const received: OwnerEvent[] = [];
+    const others: OwnerEvent[] = [];
+    const stop = addOwnerEventListener('owner-1', (event) => received.push(event));
+    const stopOther = addOwnerEventListener('owner-2', (event) => others.push(event));
+
+    await publishOwnerEvent('owner-1', { type: 'chat.created', chatId: 'chat-1' });
+
+    expect(received).toEqual([{ type: 'chat.created', chatId: 'chat-1' }]);
+    expect(others).toEqual([]);
+
+    stop();
+    stopOther();
+  });
+
+  it('unsubscribes once the last listener of a channel leaves', () => {
+    const stopFirst = addOwnerEventListener('owner-3', () => {});
+    const stopSecond = addOwnerEventListener('owner-3', () => {});
+
+    stopFirst();
+    expect(subscribed.has('owner:events:owner-3')).toBe(true);
+
+    stopSecond();
+    expect(subscribed.has('owner:events:owner-3')).toBe(false);
+  });
+
+  it('streams events until the signal aborts', async () => {
+    const controller = new AbortController();
+    const events = ownerEvents('owner-4', controller.signal);
+
+    const first = events.next();
+    await publishOwnerEvent('owner-4', { type: 'chat.deleted', chatIds: ['chat-1'] });
+    await publishOwnerEvent('owner-4', { type: 'chats.changed' });
+
+    expect((await first).value).toEqual({ type: 'chat.deleted', chatIds: ['chat-1'] });
+    expect((await events.next()).value).toEqual({ type: 'chats.changed' });
+
+    const pending = events.next();
+    controller.abort();
+
+    expect((await pending).done).toBe(true);
+    expect(subscribed.has('owner:events:owner-4')).toBe(false);
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect, vi } from 'vitest';
+
+// In-memory stand-in for the preset and model lookups, matching plain
+// fields and OR lists the way Prisma does
+const { presets, models } = vi.hoisted(() => ({
+  presets: [
+    { id: 'own', ownerId: 'alice', isPublic: false, modelId: null },
+    { id: 'published', ownerId: 'bob', isPublic: true, modelId: null },
+    { id: 'private', ownerId: 'bob', isPublic: false, modelId: null },
+  ],
+  models: [
+    { id: 'system', ownerId: null, isPublic: false, isEnabled: true },
+    { id: 'shared', ownerId: 'bob', isPublic: true, isEnabled: true },
+    { id: 'bobs', ownerId: 'bob', isPublic: false, isEnabled: true },
+  ],
+}));
+
+vi.mock('@prisma/client', () => {
+  type Where = Record<string, unknown> & { OR?: Where[] };
+
+  const matches = (row: Record<string, unknown>, { OR, ...fields }: Where): boolean =>
+    Object.entries(fields).every(([key, value]) => row[key] === value) &&
+    (!OR || OR.some((where) => matches(row, where)));
+
+  const findFirst =
+    (rows: Record<string, unknown>[]) =>
+    async ({ where }: { where: Where }) =>
+      rows.find((row) => matches(row, where)) ?? null;
+
+  class PrismaClient {
+    preset = { findFirst: findFirst(presets) };
+    modelCatalog = { findFirst: findFirst(models) };
+  }
+
+  return { PrismaClient };
+});
+
+import { assertPublishableModel, findUsablePreset, parsePresetExport } from '../services/preset.service';
+
+describe('parsePresetExport', () => {
+  const document = (presets: unknown[]) => JSON.stringify({ version: '1.0', presets });
+
+  it('reads presets with their settings and model', () => {
+    const { presets } = parsePresetExport(
+      document([
+        { name: ' Reviewer ', temperature: 0.2, maxTokens: 800, model: { provider: 'openai', name: 'gpt-4o' } },
+        { name: 'Plain' },
+      ])
+    );
+
+    expect(presets).toEqual([
+      { name: 'Reviewer', temperature: 0.2, maxTokens: 800, model: { provider: 'openai', name: 'gpt-4o' } },
+      { name: 'Plain' },
+    ]);
+  });
+
+  it('refuses anything that is not JSON', () => {
+    expect(() => parsePresetExport('{ presets: [')).toThrow('Invalid JSON format');
+  });
+
+  it('refuses other export versions', () => {
+    expect(() => parsePresetExport(JSON.stringify({ version: '2.0', presets: [] }))).toThrow(/Invalid preset export/);
+  });
+
+  it('refuses presets without a name', () => {
+    expect(() => parsePresetExport(document([{ name: '   ' }]))).toThrow('Preset name is required');
+  });
+
+  it('refuses settings out of bounds', () => {
+    expect(() => parsePresetExport(document([{ name: 'Hot', temperature: 5 }]))).toThrow(/Invalid preset export/);
+    expect(() => parsePresetExport(document([{ name: 'Long', maxTokens: 1.5 }]))).toThrow(/Invalid preset export/);
+    expect(() => parsePresetExport(document([{ name: 'Wide', topP: -1 }]))).toThrow(/Invalid preset export/);
+  });
+});
+
+describe('findUsablePreset', () => {
+  it('finds presets of the owner', async () => {
+    expect(await findUsablePreset('alice', 'own')).toMatchObject({ id: 'own' });
+  });
+
+  it('finds published presets of other owners', async () => {
+    expect(await findUsablePreset('alice', 'published')).toMatchObject({ id: 'published' });
+  });
+
+  it('hides private presets of other owners', async () => {
+    expect(await findUsablePreset('alice', 'private')).toBeNull();
+    expect(await findUsablePreset('bob', 'private')).toMatchObject({ id: 'private' });
+  });
+});
+
+describe('assertPublishableModel', () => {
+  it('accepts presets without a model, or with a system or public one', async () => {
+    await expect(assertPublishableModel(null)).resolves.toBeUndefined();
+    await expect(assertPublishableModel('system')).resolves.toBeUndefined();
+    await expect(assertPublishableModel('shared')).resolves.toBeUndefined();
+  });
+
+  it('refuses models private to their owner', async () => {
+    await expect(assertPublishableModel('bobs')).rejects.toThrow(/system or public models/);
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect, vi } from 'vitest';
+
+// The seed script runs against the database on import; only its model list is needed here
+vi.mock('../../prisma/seed', () => ({
+  systemModels: [
+    { provider: 'mock', name: 'mock-fast', description: 'Mock fast model' },
+    { provider: 'mock', name: 'mock-unavailable', description: 'Mock model failing before answering' },
+    { provider: 'mock', name: 'mock-flaky', description: 'Mock model failing its first request' },
+    { provider: 'mock', name: 'mock-cutoff', description: 'Mock model failing after three words' },
+  ],
+}));
+
+import { createAIProviderFromModel } from '../lib/ai-providers';
+import { ErrorCode } from '../lib/errors';
+import {
+  getBackoffDelay,
+  getModelPolicies,
+  resolveRetryPolicy,
+  streamWithFailover,
+  type FailoverAttempt,
+  type RetryPolicy,
+} from '../lib/provider-failover';
+
+const noDelay: RetryPolicy = { maxRetries: 2, initialDelayMs: 0, maxDelayMs: 0 };
+
+const candidate = (name: string, retry = noDelay) => ({ provider: 'mock', name, retry });
+
+// Runs a chain of mock models the way sendWithStream does
+const answer = async (candidates: ReturnType<typeof candidate>[]) => {
+  const failures: FailoverAttempt[] = [];
+  const chunks: { model: string; content: string }[] = [];
+
+  const stream = streamWithFailover(candidates, {
+    prepare: (model) => createAIProviderFromModel(model, {}, { maxTokens: 5 }),
+    stream: (provider) => provider.streamResponse([{ role: 'user', content: 'Hi' }]),
+    onFailure: (failure) => failures.push(failure),
+  });
+
+  let error: unknown;
+  try {
+    for await (const { candidate, chunk } of stream) {
+      chunks.push({ model: candidate.name, content: chunk.content });
+    }
+  } catch (err) {
+    error = err;
+  }
+
+  return { chunks, failures, error };
+};
+
+describe('streamWithFailover', () => {
+  it('retries a model failing before its first byte', async () => {
+    const { chunks, failures, error } = await answer([candidate('mock-flaky'), candidate('mock-fast')]);
+
+    expect(error).toBeUndefined();
+    expect(new Set(chunks.map((chunk) => chunk.model))).toEqual(new Set(['mock-flaky']));
+    expect(failures).toEqual([
+      {
+        provider: 'mock',
+        model: 'mock-flaky',
+        attempt: 1,
+        errorCode: ErrorCode.PROVIDER_UNAVAILABLE,
+        error: 'Mock provider unavailable (mock-flaky)',
+        retried: true,
+      },
+    ]);
+  });
+
+  it('fails over to the next model once retries are used up', async () => {
+    const { chunks, failures } = await answer([candidate('mock-unavailable'), candidate('mock-fast')]);
+
+    expect(failures.map(({ model, attempt, retried }) => ({ model, attempt, retried }))).toEqual([
+      { model: 'mock-unavailable', attempt: 1, retried: true },
+      { model: 'mock-unavailable', attempt: 2, retried: true },
+      { model: 'mock-unavailable', attempt: 3, retried: false },
+    ]);
+    expect(chunks.length).toBeGreaterThan(0);
+    expect(chunks.every((chunk) => chunk.model === 'mock-fast')).toBe(true);
+  });
+
+  it('fails over at once when the model cannot be used', async () => {
+    const { chunks, failures } = await answer([candidate('mock-missing'), candidate('mock-fast')]);
+
+    expect(failures).toEqual([
+      expect.objectContaining({ model: 'mock-missing', attempt: 1, retried: false }),
+    ]);
+    expect(chunks.at(-1)?.model).toBe('mock-fast');
+  });
+
+  it('fails over when a model is refused while being set up', async () => {
+    const failures: FailoverAttempt[] = [];
+    const models: string[] = [];
+
+    const candidates = [
+      candidate('mock-unavailable', { ...noDelay, maxRetries: 0 }),
+      candidate('mock-fast'),
+      candidate('mock-fast'),
+    ];
+
+    // The second model is over its rate limit
+    const stream = streamWithFailover(candidates, {
+      prepare: async (model) => {
+        if (models.push(model.name) === 2) throw new Error('Rate limit exceeded');
+        return createAIProviderFromModel(model, {}, { maxTokens: 5 });
+      },
+      stream: (provider) => provider.streamResponse([{ role: 'user', content: 'Hi' }]),
+      onFailure: (failure) => failures.push(failure),
+    });
+    for await (const { chunk } of stream) expect(chunk).toBeDefined();
+
+    expect(models).toEqual(['mock-unavailable', 'mock-fast', 'mock-fast']);
+    expect(failures.map(({ model, error, retried }) => ({ model, error, retried }))).toEqual([
+      { model: 'mock-unavailable', error: 'Mock provider unavailable (mock-unavailable)', retried: false },
+      { model: 'mock-fast', error: 'Rate limit exceeded', retried: false },
+    ]);
+  });
+
+  it('never retries once the answer has started', async () => {
+    const { chunks, failures, error } = await answer([candidate('mock-cutoff'), candidate('mock-fast')]);
+
+    expect(error).toBeInstanceOf(Error);
+    expect((error as Error).message).toBe('Mock provider unavailable (mock-cutoff)');
+    expect(chunks).toHaveLength(3);
+    expect(failures).toEqual([]);
+  });
+
+  it('throws the last error when no model answers', async () => {
+    const { chunks, failures, error } = await answer([
+      candidate('mock-unavailable', { ...noDelay, maxRetries: 0 }),
+      candidate('mock-unavailable', { ...noDelay, maxRetries: 1 }),
+    ]);
+
+    expect(chunks).toEqual([]);
+    expect(failures).toHaveLength(3);
+    expect((error as Error).message).toBe('Mock provider unavailable (mock-unavailable)');
+  });
+});
+
+describe('model policies', () => {
+  it('reads policies from owner settings, ignoring malformed entries', () => {
+    expect(
+      getModelPolicies({
+        theme: 'dark',
+        modelPolicies: {
+          model_a: { retry: { maxRetries: 1, initialDelayMs: 'soon' }, fallbackModelIds: ['model_b', 7] },
+          model_b: 'broken',
+        },
+      })
+    ).toEqual({
+      model_a: { retry: { maxRetries: 1 }, fallbackModelIds: ['model_b'] },
+    });
+    expect(getModelPolicies(null)).toEqual({});
+  });
+
+  it('doubles the delay between retries up to the maximum', () => {
+    const policy = resolveRetryPolicy({ initialDelayMs: 500, maxDelayMs: 1500 });
+
+    expect(policy.maxRetries).toBe(2);
+    expect([1, 2, 3].map((retry) => getBackoffDelay(policy, retry))).toEqual([500, 1000, 1500]);
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { decodeCursor, encodeCursor, parseSnippet } from '../services/search.service';
+
+describe('parseSnippet', () => {
+  it('splits a headline into plain and highlighted segments', () => {
+    expect(parseSnippet('how to ⟦deploy⟧ with ⟦docker⟧ compose')).toEqual([
+      { text: 'how to ', highlight: false },
+      { text: 'deploy', highlight: true },
+      { text: ' with ', highlight: false },
+      { text: 'docker', highlight: true },
+      { text: ' compose', highlight: false },
+    ]);
+  });
+
+  it('merges adjacent highlights', () => {
+    expect(parseSnippet('⟦hello⟧⟦world⟧!')).toEqual([
+      { text: 'helloworld', highlight: true },
+      { text: '!', highlight: false },
+    ]);
+  });
+
+  it('returns a single plain segment when nothing is highlighted', () => {
+    expect(parseSnippet('plain text')).toEqual([{ text: 'plain text', highlight: false }]);
+    expect(parseSnippet('')).toEqual([]);
+  });
+});
+
+describe('search cursor', () => {
+  it('round-trips the position of the last hit', () => {
+    const position = { createdAt: new Date('2025-09-22T10:00:00.123Z'), id: 'msg_1' };
+
+    expect(decodeCursor(encodeCursor(position))).toEqual(position);
+  });
+
+  it('rejects malformed cursors', () => {
+    expect(decodeCursor('not-a-cursor')).toBeNull();
+    expect(decodeCursor(Buffer.from('["yesterday", "msg_1"]').toString('base64url'))).toBeNull();
+    expect(decodeCursor(Buffer.from('["2025-09-22T10:00:00.000Z", 42]').toString('base64url'))).toBeNull();
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { MessageStatus } from '@prisma/client';
+import { createShareToken, isShareLinkExpired, sanitizeSharedMessage } from '../services/share.service';
+import type { PublicMessage } from '../router/message.public';
+
+describe('createShareToken', () => {
+  it('creates long, URL-safe and unique tokens', () => {
+    const tokens = new Set(Array.from({ length: 100 }, createShareToken));
+
+    expect(tokens.size).toBe(100);
+    for (const token of tokens) {
+      expect(token).toMatch(/^[A-Za-z0-9_-]{32}$/);
+    }
+  });
+});
+
+describe('isShareLinkExpired', () => {
+  const now = new Date('2025-09-28T10:00:00.000Z');
+
+  it('never expires links without an expiry', () => {
+    expect(isShareLinkExpired({ expiresAt: null }, now)).toBe(false);
+  });
+
+  it('expires links once the expiry has passed', () => {
+    expect(isShareLinkExpired({ expiresAt: new Date('2025-09-28T11:00:00.000Z') }, now)).toBe(false);
+    expect(isShareLinkExpired({ expiresAt: now }, now)).toBe(true);
+  });
+});
+
+describe('sanitizeSharedMessage', () => {
+  it('drops the generation metadata and error details', () => {
+    const message: PublicMessage = {
+      id: 'msg_1',
+      createdAt: new Date(),
+      chatId: 'chat_1',
+      userContent: 'Hello',
+      agentContent: 'Hi!',
+      status: MessageStatus.COMPLETED,
+      finishedAt: new Date(),
+      parentMessageId: null,
+      promptTokens: 3,
+      completionTokens: 2,
+      totalTokens: 5,
+      providerLatencyMs: 120,
+      firstByteMs: 40,
+      errorReason: 'upstream 500',
+      metadata: { generation: { systemPrompt: 'secret' } },
+    };
+
+    expect(sanitizeSharedMessage(message)).toEqual({ ...message, metadata: null, errorReason: null });
+  });
+});
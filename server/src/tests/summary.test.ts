@@ -0,0 +1,69 @@
+import { describe, it, expect, vi } from 'vitest';
+
+// The seed script runs against the database on import; only its model list is needed here
+vi.mock('../../prisma/seed', () => ({
+  systemModels: [
+    { provider: 'mock', name: 'mock-concise', description: 'Mock concise model' },
+  ],
+}));
+
+import { MockProvider } from '../lib/ai-providers';
+import type { ContextTurn } from '../lib/context-builder';
+import { buildSummaryPrompt, generateSummary, selectTurnsToSummarize } from '../services/summary.service';
+
+const provider = new MockProvider({ apiKey: 'mock-api-key', model: 'mock-concise', maxTokens: 20 });
+
+// 40 + 40 characters: 20 tokens per turn with MockProvider's estimate
+const turns: ContextTurn[] = ['m1', 'm2', 'm3', 'm4', 'm5'].map((id) => ({
+  id,
+  userContent: id.padEnd(40, 'u'),
+  agentContent: id.padEnd(40, 'a'),
+}));
+
+describe('selectTurnsToSummarize', () => {
+  it('does nothing while the history is under the threshold', () => {
+    expect(selectTurnsToSummarize(turns, provider, { triggerTokens: 101, keepRecentMessages: 2 })).toEqual([]);
+  });
+
+  it('summarizes everything but the most recent turns once over the threshold', () => {
+    const selected = selectTurnsToSummarize(turns, provider, { triggerTokens: 100, keepRecentMessages: 2 });
+
+    expect(selected.map((turn) => turn.id)).toEqual(['m1', 'm2', 'm3']);
+  });
+
+  it('never summarizes the recent turns, even when forced', () => {
+    expect(selectTurnsToSummarize(turns.slice(0, 2), provider, { triggerTokens: 0, keepRecentMessages: 2 })).toEqual([]);
+  });
+});
+
+describe('buildSummaryPrompt', () => {
+  it('includes the previous summary and a transcript of the new turns', () => {
+    const [system, user] = buildSummaryPrompt('They like tea.', [
+      { id: 'm1', userContent: ' Hi ', agentContent: ' Hello! ' },
+      { id: 'm2', userContent: 'Still there?', agentContent: null },
+    ]);
+
+    expect(system!.role).toBe('system');
+    expect(user!.content).toBe(
+      'Previous summary:\nThey like tea.\n\n' +
+        'New messages:\nUser: Hi\nAssistant: Hello!\n\nUser: Still there?\n\n' +
+        'Write the updated summary.'
+    );
+  });
+
+  it('leaves out the previous summary section for a first summary', () => {
+    const [, user] = buildSummaryPrompt(null, turns.slice(0, 1));
+
+    expect(user!.content.startsWith('New messages:')).toBe(true);
+  });
+});
+
+describe('generateSummary', () => {
+  it('returns the provider answer with its usage', async () => {
+    const summary = await generateSummary(provider, null, turns);
+
+    expect(summary.content.length).toBeGreaterThan(0);
+    expect(summary.content).toBe(summary.content.trim());
+    expect(summary.usage?.promptTokens).toBe(provider.estimateTokens(buildSummaryPrompt(null, turns)));
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { applyTagChanges, normalizeTags } from '../services/tags.service';
+import { CHAT_ORGANIZATION_LIMITS } from '../constants/defaultChatSettings';
+
+describe('normalizeTags', () => {
+  it('trims tags and drops empty ones and duplicates regardless of case', () => {
+    expect(normalizeTags(['  Work ', 'work', '', 'side   project', 'WORK'])).toEqual(['Work', 'side project']);
+  });
+
+  it('shortens tags to the maximum length', () => {
+    const [tag] = normalizeTags(['x'.repeat(100)]);
+    expect(tag).toHaveLength(CHAT_ORGANIZATION_LIMITS.tagMaxLength);
+  });
+});
+
+describe('applyTagChanges', () => {
+  it('adds and removes tags', () => {
+    expect(applyTagChanges(['work', 'ideas'], { add: ['reading'], remove: ['IDEAS'] })).toEqual(['work', 'reading']);
+  });
+
+  it('reuses the spelling of tags the owner already has', () => {
+    expect(applyTagChanges([], { add: ['work'] }, ['Work'])).toEqual(['Work']);
+  });
+
+  it('keeps the existing tag when it is added again', () => {
+    expect(applyTagChanges(['Work'], { add: ['work'] })).toEqual(['Work']);
+  });
+
+  it('rejects more tags than a chat may have', () => {
+    const tags = Array.from({ length: CHAT_ORGANIZATION_LIMITS.maxTagsPerChat }, (_, i) => `tag${i}`);
+
+    expect(() => applyTagChanges(tags, { add: ['one more'] })).toThrow(/at most/);
+    expect(applyTagChanges(tags, { add: ['one more'], remove: ['tag0'] })).toHaveLength(tags.length);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect, vi } from 'vitest';
+
+// The seed script runs against the database on import; only its model list is needed here
+vi.mock('../../prisma/seed', () => ({
+  systemModels: [],
+}));
+
+import { buildTitlePrompt, canAutoTitle, cleanTitle, fallbackTitle, TITLE_MODEL } from '../services/title.service';
+
+describe('fallbackTitle', () => {
+  it('uses the first line of the prompt', () => {
+    expect(fallbackTitle('  How do I sort a list?\nHere is my code:\n...')).toBe('How do I sort a list?');
+  });
+
+  it('shortens long prompts', () => {
+    const title = fallbackTitle('word '.repeat(50), 20);
+
+    expect(title).toBe('word word word word…');
+    expect(title.length).toBeLessThanOrEqual(20);
+  });
+
+  it('never returns an empty title', () => {
+    expect(fallbackTitle('   \n  ')).toBe('New chat');
+  });
+});
+
+describe('cleanTitle', () => {
+  it('strips quotes, prefixes and trailing punctuation', () => {
+    expect(cleanTitle('"Sorting Lists in Python."')).toBe('Sorting Lists in Python');
+    expect(cleanTitle('Title: **Trip to Rome**')).toBe('Trip to Rome');
+    expect(cleanTitle('  “Quick question”  ')).toBe('Quick question');
+  });
+
+  it('keeps only the first line', () => {
+    expect(cleanTitle('Budget planning\n\nThis conversation is about...')).toBe('Budget planning');
+  });
+
+  it('keeps question marks', () => {
+    expect(cleanTitle('Why is the sky blue?')).toBe('Why is the sky blue?');
+  });
+
+  it('returns null when nothing is left', () => {
+    expect(cleanTitle('""')).toBeNull();
+    expect(cleanTitle('   ')).toBeNull();
+  });
+
+  it('shortens long answers', () => {
+    expect(cleanTitle('a'.repeat(100), 10)).toBe('aaaaaaaaa…');
+  });
+});
+
+describe('buildTitlePrompt', () => {
+  it('sends the first exchange to the model', () => {
+    const [system, user] = buildTitlePrompt(' Plan a trip ', ' Sure! Where to? ');
+
+    expect(system!.role).toBe('system');
+    expect(user).toEqual({ role: 'user', content: 'User: Plan a trip\n\nAssistant: Sure! Where to?' });
+  });
+
+  it('works before the first answer exists', () => {
+    const [, user] = buildTitlePrompt('Plan a trip', null);
+
+    expect(user!.content).toBe('User: Plan a trip');
+  });
+});
+
+describe('canAutoTitle', () => {
+  it('names chats only with the owner own key for the title model', () => {
+    expect(TITLE_MODEL.provider).toBe('openai');
+    expect(canAutoTitle({})).toBe(false);
+    expect(canAutoTitle({ anthropic: { apiKey: 'sk-ant-test' } })).toBe(false);
+    expect(canAutoTitle({ openai: { apiKey: 'sk-test' } })).toBe(true);
+  });
+});
@@ -0,0 +1,17 @@
+import { describe, it, expect } from 'vitest';
+import { purgeCutoff, purgeDate } from '../services/trash.service';
+import { DEFAULT_TRASH_SETTINGS } from '../constants/defaultChatSettings';
+
+describe('trash retention', () => {
+  const deletedAt = new Date('2025-09-01T12:00:00.000Z');
+
+  it('purges a chat once the retention period has passed', () => {
+    expect(purgeDate(deletedAt, 30)).toEqual(new Date('2025-10-01T12:00:00.000Z'));
+    expect(purgeCutoff(new Date('2025-10-01T12:00:00.000Z'), 30)).toEqual(deletedAt);
+  });
+
+  it('uses the configured retention by default', () => {
+    const days = (purgeDate(deletedAt).getTime() - deletedAt.getTime()) / (24 * 60 * 60 * 1000);
+    expect(days).toBe(DEFAULT_TRASH_SETTINGS.retentionDays);
+  });
+});
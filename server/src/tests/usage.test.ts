@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { calculateCostUsd, estimateUsage, startOfUtcDay, startOfUtcMonth } from '../services/usage.service';
+
+describe('usage accounting helpers', () => {
+  it('prices prompt and completion tokens separately', () => {
+    const usage = { promptTokens: 1_000, completionTokens: 500, totalTokens: 1_500 };
+
+    expect(calculateCostUsd(usage, { inputPerMillion: 2.5, outputPerMillion: 10 })).toBeCloseTo(0.0075);
+  });
+
+  it('treats models without a price as free', () => {
+    const usage = { promptTokens: 1_000, completionTokens: 500, totalTokens: 1_500 };
+
+    expect(calculateCostUsd(usage, null)).toBe(0);
+  });
+
+  it('estimates answers the provider never reported on', () => {
+    // One token per 4 characters
+    const provider = {
+      estimateTokens: (messages: { content: string }[]) =>
+        Math.ceil(messages.reduce((sum, { content }) => sum + content.length, 0) / 4),
+    };
+
+    expect(estimateUsage(provider, [{ role: 'user', content: 'a'.repeat(40) }], 'b'.repeat(20))).toEqual({
+      promptTokens: 10,
+      completionTokens: 5,
+      totalTokens: 15,
+    });
+    expect(estimateUsage(provider, [{ role: 'user', content: 'a'.repeat(40) }], '').completionTokens).toBe(0);
+  });
+
+  it('buckets dates by UTC day and month', () => {
+    const date = new Date('2025-03-17T23:59:59.999Z');
+
+    expect(startOfUtcDay(date).toISOString()).toBe('2025-03-17T00:00:00.000Z');
+    expect(startOfUtcMonth(date).toISOString()).toBe('2025-03-01T00:00:00.000Z');
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { inflateRawSync } from 'zlib';
+import { crc32, createZipStream, type ZipEntry } from '../lib/zip';
+
+async function* entries(list: ZipEntry[]) {
+  yield* list;
+}
+
+const readAll = async (stream: ReadableStream<Uint8Array>) => Buffer.from(await new Response(stream).arrayBuffer());
+
+// Reads the archive through its central directory, like unzip tools do
+function unzip(zip: Buffer) {
+  const end = zip.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  const count = zip.readUInt16LE(end + 10);
+  let at = zip.readUInt32LE(end + 16);
+  const files: Record<string, string> = {};
+
+  for (let i = 0; i < count; i++) {
+    expect(zip.readUInt32LE(at)).toBe(0x02014b50);
+    const crc = zip.readUInt32LE(at + 16);
+    const compressedSize = zip.readUInt32LE(at + 20);
+    const nameLength = zip.readUInt16LE(at + 28);
+    const offset = zip.readUInt32LE(at + 42);
+    const name = zip.subarray(at + 46, at + 46 + nameLength).toString('utf8');
+
+    const dataStart = offset + 30 + zip.readUInt16LE(offset + 26);
+    const data = inflateRawSync(zip.subarray(dataStart, dataStart + compressedSize));
+    expect(crc32(data)).toBe(crc);
+
+    files[name] = data.toString('utf8');
+    at += 46 + nameLength;
+  }
+
+  return files;
+}
+
+describe('createZipStream', () => {
+  it('writes a valid archive with UTF-8 names', async () => {
+    const zip = await readAll(
+      createZipStream(
+        entries([
+          { name: 'notes/café.md', data: '# Café\n'.repeat(100) },
+          { name: 'empty.txt', data: '' },
+          { name: 'bytes.bin', data: new Uint8Array([0, 1, 2, 255]) },
+        ])
+      )
+    );
+
+    const files = unzip(zip);
+    expect(Object.keys(files)).toEqual(['notes/café.md', 'empty.txt', 'bytes.bin']);
+    expect(files['notes/café.md']).toBe('# Café\n'.repeat(100));
+    expect(files['empty.txt']).toBe('');
+  });
+
+  it('writes an empty archive when there is nothing to export', async () => {
+    const zip = await readAll(createZipStream(entries([])));
+    expect(zip).toHaveLength(22);
+    expect(unzip(zip)).toEqual({});
+  });
+});
+
+describe('crc32', () => {
+  it('matches the reference checksum', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+  });
+});
@@ -5,6 +5,12 @@ import type { Context } from "./context";
 // Initialize tRPC with the enhanced context type
 const t = initTRPC.context<Context>().create({
   transformer: superjson,
+  // Subscriptions are served over SSE: ping well within Bun's idle timeout
+  // and let clients reconnect when pings stop arriving
+  sse: {
+    ping: { enabled: true, intervalMs: 30_000 },
+    client: { reconnectAfterInactivityMs: 75_000 },
+  },
 });
 
 // Export the initialized tRPC pieces
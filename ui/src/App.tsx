@@ -17,7 +17,9 @@ import "./logger";
 const HomePage = lazy(() => import("./pages/Home/HomePage"));
 const Chat = lazy(() => import("./pages/Chat/Chat"));
 const Settings = lazy(() => import("./pages/Settings/Settings"));
+const Models = lazy(() => import("./pages/Models/Models"));
 const AdminDashboard = lazy(() => import("./pages/Admin/AdminDashboard"));
+const SharedChat = lazy(() => import("./pages/Share/SharedChat"));
 const ResumableStream = lazy(() => import("./pages/Docs/ResumableStream"));
 const Forbidden = lazy(() => import("./pages/Error/Forbidden"));
 const NotFound = lazy(() => import("./pages/Error/NotFound"));
@@ -53,6 +55,7 @@ function App() {
                     <Route path="chat" element={<Chat />} />
                     <Route path="chat/:id" element={<Chat />} />
                     <Route path="settings" element={<Settings />} />
+                    <Route path="models" element={<Models />} />
                     <Route path="docs/resumable-stream" element={<ResumableStream />} />
 
                     {/* Admin Routes */}
@@ -66,6 +69,8 @@ function App() {
                     />
                   </Route>
 
+                  {/* Public read-only shared chats */}
+                  <Route path="share/:token" element={<SharedChat />} />
                   <Route path="403" element={<Forbidden />} />
                   <Route path="*" element={<NotFound />} />
                 </Routes>
@@ -1,17 +1,23 @@
 import ArrowForwardIosIcon from "@mui/icons-material/ArrowForwardIos";
 import { Box, CircularProgress, Divider, IconButton } from "@mui/material";
 import { ChatTextField } from "../ChatTextField/ChatTextField";
+import PresetPicker, { PresetOption } from "../PresetPicker/PresetPicker";
 
 const ChatCreateForm = ({
   question,
   setQuestion,
   isLoading,
   handleSubmit,
+  presetId,
+  onPresetChange,
 }: {
   question: string;
   setQuestion: (value: string) => void;
   isLoading: boolean;
   handleSubmit: (e: React.SyntheticEvent) => void;
+  // Preset picker is shown only when a change handler is provided
+  presetId?: string;
+  onPresetChange?: (preset: PresetOption | null) => void;
 }) => {
   return (
     <Box
@@ -30,6 +36,16 @@ const ChatCreateForm = ({
       component="form"
       onSubmit={handleSubmit}
     >
+      {onPresetChange && (
+        <>
+          <PresetPicker
+            value={presetId}
+            onChange={onPresetChange}
+            disabled={isLoading}
+          />
+          <Divider sx={{ height: 28, m: 0.5 }} orientation="vertical" />
+        </>
+      )}
       <ChatTextField
         onChange={setQuestion}
         value={question}
@@ -0,0 +1,202 @@
+import { useChatOrganization } from "@/hooks/useChatOrganization";
+import { useNotify } from "@/providers/NotificationProdiver/useNotify";
+import { trpc } from "@/services/trpc";
+import CreateNewFolderOutlinedIcon from "@mui/icons-material/CreateNewFolderOutlined";
+import FolderOutlinedIcon from "@mui/icons-material/FolderOutlined";
+import LocalOfferOutlinedIcon from "@mui/icons-material/LocalOfferOutlined";
+import PushPinOutlinedIcon from "@mui/icons-material/PushPinOutlined";
+import {
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  TextField,
+} from "@mui/material";
+import { useState } from "react";
+
+export interface ChatListFilter {
+  /** null lists chats outside any folder */
+  folderId?: string | null;
+  tag?: string;
+  pinned?: boolean;
+}
+
+const isSameFilter = (a: ChatListFilter, b: ChatListFilter) =>
+  a.folderId === b.folderId && a.tag === b.tag && a.pinned === b.pinned;
+
+/**
+ * Folder, pinned and tag chips filtering a chat list. Folder chips also
+ * accept dragged chats: dropping a chat on a folder moves it there.
+ */
+const ChatFolderFilter = ({
+  value,
+  onChange,
+  organization,
+}: {
+  value: ChatListFilter;
+  onChange: (filter: ChatListFilter) => void;
+  organization: ReturnType<typeof useChatOrganization>;
+}) => {
+  const { error } = useNotify();
+  const utils = trpc.useUtils();
+  const { data: folders = [] } = trpc.folder.list.useQuery();
+  const { data: tags = [] } = trpc.chat.getTags.useQuery();
+
+  // Folder dialog: create when no folder id is set, rename otherwise
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [folderId, setFolderId] = useState<string | null>(null);
+  const [folderName, setFolderName] = useState("");
+
+  const onFolderSaved = () => {
+    utils.folder.list.invalidate();
+    setDialogOpen(false);
+  };
+
+  const createFolder = trpc.folder.create.useMutation({
+    onSuccess: onFolderSaved,
+    onError: (err) => error(err.message),
+  });
+  const renameFolder = trpc.folder.update.useMutation({
+    onSuccess: onFolderSaved,
+    onError: (err) => error(err.message),
+  });
+  const deleteFolder = trpc.folder.delete.useMutation({
+    onSuccess: (_, { id }) => {
+      utils.folder.list.invalidate();
+      utils.chat.getAll.invalidate();
+      if (value.folderId === id) onChange({});
+    },
+    onError: (err) => error(err.message),
+  });
+
+  const openDialog = (folder?: { id: string; name: string }) => {
+    setFolderId(folder?.id ?? null);
+    setFolderName(folder?.name ?? "");
+    setDialogOpen(true);
+  };
+
+  const saveFolder = () => {
+    const name = folderName.trim();
+    if (!name) return;
+    if (folderId) renameFolder.mutate({ id: folderId, name });
+    else createFolder.mutate({ name });
+  };
+
+  const chip = (
+    key: string,
+    label: string,
+    filter: ChatListFilter,
+    props: Partial<React.ComponentProps<typeof Chip>> = {}
+  ) => (
+    <Chip
+      key={key}
+      size="small"
+      label={label}
+      color={isSameFilter(value, filter) ? "primary" : "default"}
+      variant={isSameFilter(value, filter) ? "filled" : "outlined"}
+      onClick={() => onChange(isSameFilter(value, filter) ? {} : filter)}
+      {...props}
+    />
+  );
+
+  // Folders and "No folder" are drop targets for dragged chats
+  const folderDropProps = (targetFolderId: string | null) => {
+    const targetId = `folder:${targetFolderId ?? "none"}`;
+    return {
+      ...organization.dropTargetProps(targetId, (chatId) =>
+        organization.moveChats.mutate({
+          ids: [chatId],
+          folderId: targetFolderId,
+        })
+      ),
+      sx: organization.isDropTarget(targetId)
+        ? { outline: "2px dashed", outlineColor: "primary.main" }
+        : undefined,
+    };
+  };
+
+  return (
+    <>
+      <Box sx={{ display: "flex", flexWrap: "wrap", gap: 0.5 }}>
+        {chip("all", "All", {})}
+        {chip("pinned", "Pinned", { pinned: true }, {
+          icon: <PushPinOutlinedIcon fontSize="small" />,
+        })}
+        {(folders.length > 0 || organization.draggedChatId) &&
+          chip("no-folder", "No folder", { folderId: null }, folderDropProps(null))}
+        {folders.map((folder) =>
+          chip(
+            folder.id,
+            `${folder.name} (${folder._count.chats})`,
+            { folderId: folder.id },
+            {
+              icon: <FolderOutlinedIcon fontSize="small" />,
+              onDelete: () => deleteFolder.mutate({ id: folder.id }),
+              onDoubleClick: () => openDialog(folder),
+              title: "Double-click to rename",
+              ...folderDropProps(folder.id),
+            }
+          )
+        )}
+        <Chip
+          size="small"
+          variant="outlined"
+          icon={<CreateNewFolderOutlinedIcon fontSize="small" />}
+          label="Folder"
+          onClick={() => openDialog()}
+        />
+      </Box>
+      {tags.length > 0 && (
+        <Box sx={{ display: "flex", flexWrap: "wrap", gap: 0.5, mt: 0.5 }}>
+          {tags.map(({ tag, count }) =>
+            chip(`tag:${tag}`, `${tag} (${count})`, { tag }, {
+              icon: <LocalOfferOutlinedIcon fontSize="small" />,
+            })
+          )}
+        </Box>
+      )}
+
+      <Dialog
+        open={dialogOpen}
+        onClose={() => setDialogOpen(false)}
+        maxWidth="xs"
+        fullWidth
+      >
+        <DialogTitle>{folderId ? "Rename folder" : "New folder"}</DialogTitle>
+        <DialogContent>
+          <TextField
+            autoFocus
+            fullWidth
+            margin="dense"
+            label="Folder name"
+            value={folderName}
+            onChange={(e) => setFolderName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") saveFolder();
+            }}
+            inputProps={{ maxLength: 60 }}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDialogOpen(false)}>Cancel</Button>
+          <Button
+            variant="contained"
+            onClick={saveFolder}
+            disabled={
+              !folderName.trim() ||
+              createFolder.isPending ||
+              renameFolder.isPending
+            }
+          >
+            Save
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  );
+};
+
+export default ChatFolderFilter;
@@ -0,0 +1,94 @@
+import { trpc } from "@/services/trpc";
+import PsychologyIcon from "@mui/icons-material/Psychology";
+import PublicIcon from "@mui/icons-material/Public";
+import {
+  Divider,
+  IconButton,
+  ListItemIcon,
+  ListItemText,
+  Menu,
+  MenuItem,
+  Tooltip,
+} from "@mui/material";
+import { useState } from "react";
+
+export interface PresetOption {
+  id: string;
+  name: string;
+  description: string | null;
+  modelId: string | null;
+  isPublic: boolean;
+}
+
+/**
+ * Compact preset (persona) picker used when starting a new chat.
+ * Renders an icon button that opens the list of own and published presets.
+ */
+const PresetPicker = ({
+  value,
+  onChange,
+  disabled,
+}: {
+  value?: string;
+  onChange: (preset: PresetOption | null) => void;
+  disabled?: boolean;
+}) => {
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+  const { data: presets = [] } = trpc.preset.list.useQuery();
+
+  const selected = presets.find((preset) => preset.id === value);
+
+  const handleSelect = (preset: PresetOption | null) => {
+    onChange(preset);
+    setAnchorEl(null);
+  };
+
+  return (
+    <>
+      <Tooltip title={selected ? `Preset: ${selected.name}` : "Choose a preset"}>
+        <span>
+          <IconButton
+            color={selected ? "primary" : "default"}
+            onClick={(e) => setAnchorEl(e.currentTarget)}
+            disabled={disabled}
+            aria-label="choose preset"
+            sx={{ p: "10px" }}
+          >
+            <PsychologyIcon sx={{ fontSize: 22 }} />
+          </IconButton>
+        </span>
+      </Tooltip>
+      <Menu
+        anchorEl={anchorEl}
+        open={!!anchorEl}
+        onClose={() => setAnchorEl(null)}
+      >
+        <MenuItem selected={!selected} onClick={() => handleSelect(null)}>
+          <ListItemText primary="No preset" />
+        </MenuItem>
+        {presets.length > 0 && <Divider />}
+        {presets.map((preset) => (
+          <MenuItem
+            key={preset.id}
+            selected={preset.id === value}
+            onClick={() => handleSelect(preset)}
+            sx={{ maxWidth: 360 }}
+          >
+            <ListItemText
+              primary={preset.name}
+              secondary={preset.description}
+              secondaryTypographyProps={{ noWrap: true }}
+            />
+            {preset.isPublic && (
+              <ListItemIcon sx={{ minWidth: 0, ml: 1 }}>
+                <PublicIcon fontSize="small" />
+              </ListItemIcon>
+            )}
+          </MenuItem>
+        ))}
+      </Menu>
+    </>
+  );
+};
+
+export default PresetPicker;
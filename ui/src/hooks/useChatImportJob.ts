@@ -0,0 +1,79 @@
+import { trpc } from "@/services/trpc";
+import { useState } from "react";
+
+interface ImportJobResponse {
+  id: string;
+  chunkBytes: number;
+  totalChunks: number;
+}
+
+const ACTIVE_STATUSES = ["uploading", "processing"];
+
+async function request<T>(url: string, init: RequestInit): Promise<T> {
+  const response = await fetch(url, { credentials: "include", ...init });
+  const body = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    throw new Error(body?.error || `Request failed (${response.status})`);
+  }
+  return body as T;
+}
+
+/**
+ * Import a file of any size: it is uploaded to /api/import in chunks, then
+ * imported by a server-side job whose progress is polled until it finishes.
+ */
+export const useChatImportJob = () => {
+  const [jobId, setJobId] = useState<string | null>(null);
+  const [upload, setUpload] = useState<{ sent: number; total: number } | null>(null);
+
+  const jobQuery = trpc.chat.getImportJob.useQuery(
+    { jobId: jobId ?? "" },
+    {
+      enabled: !!jobId && !upload,
+      refetchInterval: (query) =>
+        ACTIVE_STATUSES.includes(query.state.data?.status ?? "processing") ? 1000 : false,
+    }
+  );
+
+  const startImport = async (file: File) => {
+    const job = await request<ImportJobResponse>("/api/import", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ fileName: file.name, size: file.size }),
+    });
+
+    setJobId(job.id);
+    setUpload({ sent: 0, total: job.totalChunks });
+    try {
+      for (let index = 0; index < job.totalChunks; index++) {
+        const start = index * job.chunkBytes;
+        await request(`/api/import/${job.id}/chunks/${index}`, {
+          method: "PUT",
+          headers: { "Content-Type": "application/octet-stream" },
+          body: file.slice(start, start + job.chunkBytes),
+        });
+        setUpload({ sent: index + 1, total: job.totalChunks });
+      }
+
+      await request(`/api/import/${job.id}/start`, { method: "POST" });
+    } catch (err) {
+      setJobId(null);
+      // Free the server for the next attempt
+      fetch(`/api/import/${job.id}`, { method: "DELETE", credentials: "include" }).catch(() => undefined);
+      throw err;
+    } finally {
+      setUpload(null);
+    }
+  };
+
+  const job = jobId ? (jobQuery.data ?? null) : null;
+
+  return {
+    job,
+    upload,
+    isRunning: !!upload || (!!jobId && (!job || ACTIVE_STATUSES.includes(job.status))),
+    startImport,
+    reset: () => setJobId(null),
+  };
+};
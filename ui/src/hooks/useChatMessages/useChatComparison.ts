@@ -0,0 +1,180 @@
+import { useNotify } from "@/providers/NotificationProdiver/useNotify";
+import { queryClient } from "@/services/queryClient";
+import { trpc } from "@/services/trpc";
+import { isUserAbortError } from "@/utils";
+import { useCallback, useState } from "react";
+import type { MessageType, StreamChunk } from "./useChatMessages";
+
+export interface Comparison {
+  chatId: string;
+  answers: MessageType[]; // In the order the models were picked
+}
+
+/**
+ * useChatComparison - Compare mode: one prompt answered by several models
+ *
+ * The answers stream side by side through `compareWithStream` and are kept
+ * here, outside the message cache, until a winner is picked. Meanwhile the
+ * first answer is on the chat's active branch, so carrying on keeps it.
+ * After a reload, a comparison still streaming is resumed from the answers
+ * `getMessages` returns, each column following its own Redis stream.
+ */
+export const useChatComparison = (chatId?: string) => {
+  const { error } = useNotify();
+  const [comparison, setComparison] = useState<Comparison | null>(null);
+
+  // Cached pages don't hold the compared answers; refetch them once it is decided
+  const resetMessages = useCallback(() => {
+    if (!chatId) return;
+
+    queryClient.resetQueries({
+      queryKey: [["message", "getMessages"], { input: { chatId } }],
+      exact: false,
+    });
+  }, [chatId]);
+
+  const updateAnswer = (message: MessageType) =>
+    setComparison((prev) => {
+      if (!prev || prev.chatId !== message.chatId) return prev;
+
+      const answers = prev.answers.some(({ id }) => id === message.id)
+        ? prev.answers.map((answer) => (answer.id === message.id ? message : answer))
+        : [...prev.answers, message];
+      return { ...prev, answers };
+    });
+
+  const handleChunk = (chunk: StreamChunk) => {
+    switch (chunk.type) {
+      case "messageStart":
+      case "messageComplete":
+        updateAnswer(chunk.message);
+        break;
+
+      case "agentChunk":
+        setComparison((prev) =>
+          prev && {
+            ...prev,
+            answers: prev.answers.map((answer) =>
+              answer.id === chunk.messageId
+                ? { ...answer, agentContent: (answer.agentContent || "") + chunk.chunk }
+                : answer
+            ),
+          }
+        );
+        break;
+
+      default:
+        break;
+    }
+  };
+
+  const compareMutation = trpc.message.compareWithStream.useMutation({
+    onSuccess: async (streamGenerator) => {
+      try {
+        for await (const chunk of streamGenerator) {
+          handleChunk(chunk as StreamChunk);
+        }
+      } catch (err) {
+        if (isUserAbortError(err)) return;
+
+        console.error("Comparison stream error:", err);
+        error(`Failed to process stream: ${(err as Error).message}`);
+      }
+    },
+    onError: (err) => {
+      if (!isUserAbortError(err)) {
+        error(`Failed to compare models: ${err.message}`);
+      }
+    },
+  });
+
+  // One call per compared answer still streaming after a reload
+  const listenToAnswerMutation =
+    trpc.message.listenToMessageChunkStream.useMutation({
+      onSuccess: async (streamGenerator) => {
+        try {
+          for await (const chunk of streamGenerator) {
+            handleChunk(chunk as StreamChunk);
+          }
+        } catch (err) {
+          if (isUserAbortError(err)) return;
+
+          console.error("Comparison stream error:", err);
+          error(`Failed to listen to stream: ${(err as Error).message}`);
+        }
+      },
+      onError: (err) => {
+        error(`Failed to listen to stream: ${err.message}`);
+      },
+    });
+
+  const pickWinnerMutation = trpc.message.pickWinner.useMutation({
+    onSuccess: () => {
+      setComparison(null);
+      resetMessages();
+    },
+    onError: (err) => {
+      error(`Failed to pick winner: ${err.message}`);
+    },
+  });
+
+  const isComparing = compareMutation.isPending;
+
+  // Send a prompt to every given model at once
+  const compare = useCallback(
+    (content: string, modelIds: string[]) => {
+      if (!chatId || !content.trim() || isComparing) return;
+
+      // An undecided comparison keeps its first answer
+      if (comparison) resetMessages();
+      setComparison({ chatId, answers: [] });
+
+      compareMutation.mutate({ chatId, content: content.trim(), modelIds });
+    },
+    [chatId, comparison, isComparing, compareMutation, resetMessages]
+  );
+
+  // Show answers that were still streaming when the chat was loaded
+  const resumeComparison = useCallback(
+    (answers: MessageType[]) => {
+      if (!chatId || comparison || isComparing) return;
+
+      setComparison({ chatId, answers });
+
+      for (const answer of answers) {
+        if (answer.status !== "STARTED" && answer.status !== "STREAMING") continue;
+
+        listenToAnswerMutation.mutate({ chatId, messageId: answer.id });
+      }
+    },
+    [chatId, comparison, isComparing, listenToAnswerMutation]
+  );
+
+  // Keep the chosen answer in the main thread
+  const pickWinner = useCallback(
+    (messageId: string) => {
+      if (isComparing) return;
+
+      pickWinnerMutation.mutate({ messageId });
+    },
+    [isComparing, pickWinnerMutation]
+  );
+
+  // Stop showing the comparison, keeping its first answer
+  const closeComparison = useCallback(() => {
+    if (!comparison) return;
+
+    setComparison(null);
+    resetMessages();
+  }, [comparison, resetMessages]);
+
+  return {
+    comparison: comparison?.chatId === chatId ? comparison : null,
+    compare,
+    resumeComparison,
+    pickWinner,
+    closeComparison,
+    isComparing,
+    isPickingWinner: pickWinnerMutation.isPending,
+  };
+};
@@ -2,6 +2,7 @@ import useValueChange from "@/hooks/useValueChange";
 import { trpc } from "@/services/trpc";
 import { useCallback, useMemo } from "react";
 import { useStreamingStore } from "./streamingStore";
+import { useChatComparison } from "./useChatComparison";
 import { useChatStreaming } from "./useChatStreaming";
 import { useRefreshLatestOnFocus } from "./useRefreshLatestOnFocus";
 import useSyncMessages from "./useSyncMessages";
@@ -22,7 +23,11 @@ import useSyncMessages from "./useSyncMessages";
  *    - This streams from Redis state, which is slower but more reliable for reconnections
  *    - Used when the primary stream is interrupted or for manual sync
  *
- * 3. HISTORICAL MESSAGES:
+ * 3. COMPARISONS:
+ *    - Uses `trpc.message.compareWithStream` to answer one prompt with several models
+ *    - The answers are kept apart from the message cache until a winner is picked
+ *
+ * 4. HISTORICAL MESSAGES:
  *    - Uses `trpc.message.getMessages.useInfiniteQuery` for paginated message history
  *    - Provides efficient loading of older messages with caching
  *    - Supports both forward and backward pagination
@@ -113,6 +118,18 @@ export const useChatMessages = ({
     chatId || ""
   );
 
+  // Alternatives per message id ("2 / 3"), merged across loaded pages
+  const siblings = useMemo(
+    () =>
+      Object.assign(
+        {},
+        ...(messagesQuery.data?.pages ?? [])
+          .toReversed() // newest page wins
+          .map((page) => page?.siblings)
+      ) as Record<string, string[]>,
+    [messagesQuery.data?.pages]
+  );
+
   // Streaming hook
   const streaming = useChatStreaming({
     chatId,
@@ -121,6 +138,9 @@ export const useChatMessages = ({
     utils,
   });
 
+  // Compare mode
+  const comparison = useChatComparison(chatId);
+
   // Manual sync function to trigger Redis stream listening
   const manualSync = useCallback(() => {
     if (!chatId) return;
@@ -128,11 +148,24 @@ export const useChatMessages = ({
     streaming.listenToStream();
   }, [chatId, streaming]);
 
+  // A comparison still streaming on load: every column resumes its own stream
+  const streamingComparison = messagesQuery.data?.pages?.[0]?.streamingComparison;
+  const { resumeComparison } = comparison;
+  useValueChange(
+    streamingComparison?.[0]?.id,
+    () => {
+      if (streamingComparison?.length) resumeComparison(streamingComparison);
+    }
+  );
+
   // this clears the streaming messages when new messages comes from infinite query
   const { actions } = useStreamingStore();
   useValueChange(
     messagesQuery.data?.pages?.[0]?.streamingMessage?.id,
     (streamingMessageId) => {
+      // the compared answers are followed by the comparison instead
+      if (streamingComparison?.some(({ id }) => id === streamingMessageId)) return;
+
       if (streamingMessageId) {
         // there is a streaming message, so we need to sync
         manualSync();
@@ -172,6 +205,7 @@ export const useChatMessages = ({
     // Messages data
     messages: prevMessages, // Cached/previous messages
     streamingMessage, // Current streaming messages
+    siblings, // Alternative message ids for branched turns
 
     // Query states
     isLoading: messagesQuery.isLoading,
@@ -193,9 +227,21 @@ export const useChatMessages = ({
     // Message sending
     sendMessage: streaming.sendMessage,
     isSending: streaming.isSending,
+    regenerate: streaming.regenerate,
+    editAndResend: streaming.editAndResend,
+    switchBranch: streaming.switchBranch,
+    isSwitchingBranch: streaming.isSwitchingBranch,
     abortStream: streaming.abortStream,
     isAborting: streaming.isAborting,
 
+    // Compare mode
+    comparison: comparison.comparison,
+    compare: comparison.compare,
+    pickWinner: comparison.pickWinner,
+    closeComparison: comparison.closeComparison,
+    isComparing: comparison.isComparing,
+    isPickingWinner: comparison.isPickingWinner,
+
     // Manual sync function for reconnection
     manualSync,
   };
@@ -1,4 +1,5 @@
 import { useNotify } from "@/providers/NotificationProdiver/useNotify";
+import { queryClient } from "@/services/queryClient";
 import { trpc } from "@/services/trpc";
 import { isUserAbortError } from "@/utils";
 import { useCallback } from "react";
@@ -43,6 +44,7 @@ const useIsStreamingActive = (chatId?: string) =>
  *
  * This hook encapsulates:
  * 1. sendWithStream - Primary streaming mutation for new messages
+ *    (regenerate / editAndResend stream the same way on a new branch)
  * 2. listenToMessageChunkStream - Fallback streaming for reconnection
  * 3. abortStream - Stream abortion functionality
  * 4. Stream chunk event emission (no state management)
@@ -79,14 +81,16 @@ export const useChatStreaming = ({
     [chatId, onChatCreated, utils.chat.getAll, onStreamChunk]
   );
 
-  // Primary streaming mutation
-  const sendMessageMutation = trpc.message.sendWithStream.useMutation({
-    onSuccess: async (streamGenerator) => {
-      // Process the stream
+  // Consumes a streaming mutation's generator, emitting every chunk
+  const processStream = useCallback(
+    async (
+      streamGenerator: AsyncIterable<StreamChunk>,
+      onChunk?: (chunk: StreamChunk) => void
+    ) => {
       try {
         for await (const chunk of streamGenerator) {
+          onChunk?.(chunk);
           handleStreamingUpdate(chunk);
-
         }
       } catch (err) {
         if (isUserAbortError(err)) return;
@@ -96,6 +100,32 @@ export const useChatStreaming = ({
         error(`Failed to process stream: ${(err as Error).message}`);
       }
     },
+    [chatId, actions, error, handleStreamingUpdate]
+  );
+
+  // Cached pages hold the previous branch; refetch them once the active branch moves
+  const resetMessages = useCallback(() => {
+    if (!chatId) return;
+
+    queryClient.resetQueries({
+      queryKey: [["message", "getMessages"], { input: { chatId } }],
+      exact: false,
+    });
+  }, [chatId]);
+
+  const handleBranchChunk = useCallback(
+    (chunk: StreamChunk) => {
+      if (chunk.type === "messageStart") resetMessages();
+    },
+    [resetMessages]
+  );
+
+  // Primary streaming mutation
+  const sendMessageMutation = trpc.message.sendWithStream.useMutation({
+    onSuccess: async (streamGenerator) => {
+      // Process the stream
+      await processStream(streamGenerator);
+    },
     onError: (err) => {
       // Don't show error if user aborted the stream
       if (!isUserAbortError(err)) {
@@ -104,6 +134,39 @@ export const useChatStreaming = ({
     },
   });
 
+  // Answer an earlier prompt again on a new branch
+  const regenerateMutation = trpc.message.regenerate.useMutation({
+    onSuccess: async (streamGenerator) => {
+      await processStream(streamGenerator, handleBranchChunk);
+    },
+    onError: (err) => {
+      if (!isUserAbortError(err)) {
+        error(`Failed to regenerate message: ${err.message}`);
+      }
+    },
+  });
+
+  // Resend an edited prompt on a new branch
+  const editAndResendMutation = trpc.message.editAndResend.useMutation({
+    onSuccess: async (streamGenerator) => {
+      await processStream(streamGenerator, handleBranchChunk);
+    },
+    onError: (err) => {
+      if (!isUserAbortError(err)) {
+        error(`Failed to resend message: ${err.message}`);
+      }
+    },
+  });
+
+  const switchBranchMutation = trpc.message.switchBranch.useMutation({
+    onSuccess: () => {
+      resetMessages();
+    },
+    onError: (err) => {
+      error(`Failed to switch branch: ${err.message}`);
+    },
+  });
+
   // Redis stream listening mutation for reconnection scenarios
   const listenToStreamMutation =
     trpc.message.listenToMessageChunkStream.useMutation({
@@ -144,18 +207,53 @@ export const useChatStreaming = ({
 
   // Send message function
   const sendMessage = useCallback(
-    (content: string, modelId?: string) => {
+    (content: string, modelId?: string, presetId?: string) => {
       if (!content.trim() || isActive) return;
 
       sendMessageMutation.mutate({
         content: content.trim(),
         chatId,
         modelId,
+        presetId,
       });
     },
     [chatId, isActive, sendMessageMutation]
   );
 
+  // Regenerate the answer of a message, keeping the old one as an alternative
+  const regenerate = useCallback(
+    (messageId: string, modelId?: string) => {
+      if (isActive) return;
+
+      regenerateMutation.mutate({ messageId, modelId });
+    },
+    [isActive, regenerateMutation]
+  );
+
+  // Replace a prompt with an edited version, keeping the old one as an alternative
+  const editAndResend = useCallback(
+    (messageId: string, content: string, modelId?: string) => {
+      if (!content.trim() || isActive) return;
+
+      editAndResendMutation.mutate({
+        messageId,
+        content: content.trim(),
+        modelId,
+      });
+    },
+    [isActive, editAndResendMutation]
+  );
+
+  // Show another alternative of a message
+  const switchBranch = useCallback(
+    (messageId: string) => {
+      if (isActive) return;
+
+      switchBranchMutation.mutate({ messageId });
+    },
+    [isActive, switchBranchMutation]
+  );
+
   // Abort stream function
   const abortStream = useCallback(() => {
     if (!chatId) return;
@@ -173,18 +271,28 @@ export const useChatStreaming = ({
   return {
     // Mutation objects
     sendMessageMutation,
+    regenerateMutation,
+    editAndResendMutation,
+    switchBranchMutation,
     listenToStreamMutation,
     abortStreamMutation,
 
     // Functions
     sendMessage,
+    regenerate,
+    editAndResend,
+    switchBranch,
     abortStream,
     listenToStream,
 
     // States
     isActive: isActive,
     isListeningToStream: listenToStreamMutation.isPending,
-    isSending: sendMessageMutation.isPending,
+    isSending:
+      sendMessageMutation.isPending ||
+      regenerateMutation.isPending ||
+      editAndResendMutation.isPending,
+    isSwitchingBranch: switchBranchMutation.isPending,
     isAborting: abortStreamMutation.isPending,
   };
 };
@@ -0,0 +1,104 @@
+import { useNotify } from "@/providers/NotificationProdiver/useNotify";
+import { trpc } from "@/services/trpc";
+import { useState } from "react";
+
+// Data type used to carry a chat id in drag events
+const CHAT_DRAG_TYPE = "application/x-tea4chat-chat";
+
+/**
+ * Folder, tag, pin and manual-order actions for chat lists, plus native
+ * drag-and-drop helpers: drag a chat onto a folder to move it, or onto
+ * another chat to place it before that chat.
+ */
+export const useChatOrganization = () => {
+  const { error } = useNotify();
+  const utils = trpc.useUtils();
+  const [draggedChatId, setDraggedChatId] = useState<string | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+
+  const invalidate = () => {
+    utils.chat.getAll.invalidate();
+    utils.chat.getTags.invalidate();
+    utils.folder.list.invalidate();
+  };
+
+  const onError = (err: { message: string }) => error(err.message);
+
+  const moveChats = trpc.chat.move.useMutation({ onSuccess: invalidate, onError });
+  const tagChats = trpc.chat.tag.useMutation({ onSuccess: invalidate, onError });
+  const pinChats = trpc.chat.pin.useMutation({ onSuccess: invalidate, onError });
+  const reorderChats = trpc.chat.reorder.useMutation({
+    onSuccess: invalidate,
+    onError,
+  });
+
+  /**
+   * Move `chatId` before `targetId` in the given list and save the order
+   * of the affected part of the list
+   */
+  const placeBefore = (chatIds: string[], chatId: string, targetId: string) => {
+    const from = chatIds.indexOf(chatId);
+    const to = chatIds.indexOf(targetId);
+    if (from === -1 || to === -1 || from === to) return;
+
+    const reordered = chatIds.filter((id) => id !== chatId);
+    reordered.splice(reordered.indexOf(targetId), 0, chatId);
+
+    reorderChats.mutate({
+      ids: reordered.slice(0, Math.max(from, to) + 1).slice(0, 100),
+    });
+  };
+
+  const endDrag = () => {
+    setDraggedChatId(null);
+    setDropTargetId(null);
+  };
+
+  const chatDragProps = (chatId: string) => ({
+    draggable: true,
+    onDragStart: (event: React.DragEvent) => {
+      event.dataTransfer.setData(CHAT_DRAG_TYPE, chatId);
+      event.dataTransfer.effectAllowed = "move";
+      setDraggedChatId(chatId);
+    },
+    onDragEnd: endDrag,
+  });
+
+  /**
+   * Props for an element that accepts dropped chats. `targetId` identifies
+   * the element for the hover highlight (`isDropTarget`).
+   */
+  const dropTargetProps = (
+    targetId: string,
+    onDropChat: (chatId: string) => void
+  ) => ({
+    onDragOver: (event: React.DragEvent) => {
+      if (!event.dataTransfer.types.includes(CHAT_DRAG_TYPE)) return;
+      event.preventDefault();
+      event.dataTransfer.dropEffect = "move";
+      setDropTargetId(targetId);
+    },
+    onDragLeave: () => {
+      setDropTargetId((current) => (current === targetId ? null : current));
+    },
+    onDrop: (event: React.DragEvent) => {
+      const chatId = event.dataTransfer.getData(CHAT_DRAG_TYPE);
+      event.preventDefault();
+      endDrag();
+      if (chatId && chatId !== targetId) onDropChat(chatId);
+    },
+  });
+
+  return {
+    moveChats,
+    tagChats,
+    pinChats,
+    reorderChats,
+    placeBefore,
+    chatDragProps,
+    dropTargetProps,
+    draggedChatId,
+    isDropTarget: (targetId: string) =>
+      draggedChatId !== null && dropTargetId === targetId,
+  };
+};
@@ -0,0 +1,79 @@
+import { queryClient } from "@/services/queryClient";
+import { trpc } from "@/services/trpc";
+import type { InfiniteData } from "@tanstack/react-query";
+import { getQueryKey } from "@trpc/react-query";
+
+// The fields of a chat list page this hook touches
+interface ChatListPage {
+  chats: { id: string; title: string }[];
+}
+
+// Every cached chat list, whatever its filters
+const chatListKey = getQueryKey(trpc.chat.getAll);
+
+const updateChatLists = (
+  update: (chats: ChatListPage["chats"]) => ChatListPage["chats"]
+) =>
+  queryClient.setQueriesData<InfiniteData<ChatListPage>>(
+    { queryKey: chatListKey },
+    (data) =>
+      data && {
+        ...data,
+        pages: data.pages.map((page) => ({ ...page, chats: update(page.chats) })),
+      }
+  );
+
+/**
+ * Keep chat lists in sync with changes made in other tabs and devices.
+ * Renames and deletions are applied to the cache directly; other changes
+ * refetch the lists. Reconnecting refetches them too, in case events were
+ * missed while offline.
+ */
+export const useOwnerEvents = () => {
+  const utils = trpc.useUtils();
+
+  const reloadLists = () => {
+    utils.chat.getAll.invalidate();
+    utils.chat.getTags.invalidate();
+    utils.folder.list.invalidate();
+  };
+
+  trpc.chat.onOwnerEvent.useSubscription(undefined, {
+    onStarted: reloadLists,
+    onData: (event) => {
+      switch (event.type) {
+        case "chat.updated": {
+          const { chatIds, title } = event;
+          if (title !== undefined && chatIds.length === 1) {
+            updateChatLists((chats) =>
+              chats.map((chat) => (chat.id === chatIds[0] ? { ...chat, title } : chat))
+            );
+          } else {
+            reloadLists();
+          }
+          break;
+        }
+        case "chat.deleted": {
+          const { chatIds } = event;
+          updateChatLists((chats) => chats.filter((chat) => !chatIds.includes(chat.id)));
+          utils.chat.getAll.invalidate(undefined, { refetchType: "none" });
+          utils.chat.listDeleted.invalidate();
+          utils.folder.list.invalidate();
+          break;
+        }
+        case "chat.purged":
+          utils.chat.listDeleted.invalidate();
+          break;
+        case "chat.restored":
+          reloadLists();
+          utils.chat.listDeleted.invalidate();
+          break;
+        default:
+          reloadLists();
+      }
+    },
+    onError: (err) => {
+      console.error("Chat sync stopped:", err);
+    },
+  });
+};
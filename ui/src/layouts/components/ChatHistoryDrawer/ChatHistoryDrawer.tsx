@@ -1,11 +1,20 @@
+import ChatFolderFilter, {
+  type ChatListFilter,
+} from "@/components/ChatFolderFilter/ChatFolderFilter";
+import { useChatOrganization } from "@/hooks/useChatOrganization";
+import { useOwnerEvents } from "@/hooks/useOwnerEvents";
 import { useNotify } from "@/providers/NotificationProdiver/useNotify";
 import UserInfoSection from "@/services/auth/UserInfoSection";
 import { trpc } from "@/services/trpc";
 import AddIcon from "@mui/icons-material/Add";
+import AutoAwesomeIcon from "@mui/icons-material/AutoAwesome";
 import ChatBubbleOutlineIcon from "@mui/icons-material/ChatBubbleOutline";
 import DeleteOutlineOutlinedIcon from "@mui/icons-material/DeleteOutlineOutlined";
 import EditIcon from "@mui/icons-material/Edit";
 import ErrorOutlineIcon from "@mui/icons-material/ErrorOutline";
+import PushPinIcon from "@mui/icons-material/PushPin";
+import PushPinOutlinedIcon from "@mui/icons-material/PushPinOutlined";
+import SearchIcon from "@mui/icons-material/Search";
 import {
   Box,
   Button,
@@ -18,6 +27,7 @@ import {
   Divider,
   Drawer,
   IconButton,
+  InputAdornment,
   List,
   ListItem,
   ListItemButton,
@@ -32,6 +42,7 @@ import relativeTime from "dayjs/plugin/relativeTime";
 import { useEffect, useState } from "react";
 import { useInView } from "react-intersection-observer";
 import { useNavigate } from "react-router-dom";
+import ChatSearchResults from "../ChatSearchResults/ChatSearchResults";
 
 dayjs.extend(relativeTime);
 
@@ -106,6 +117,21 @@ const ChatHistoryDrawer = ({
   const [editDialogOpen, setEditDialogOpen] = useState(false);
   const [chatToEdit, setChatToEdit] = useState<string | null>(null);
   const [editingTitle, setEditingTitle] = useState("");
+  const [editingTags, setEditingTags] = useState("");
+  const [originalTags, setOriginalTags] = useState<string[]>([]);
+
+  // Folder, tag and pinned filter
+  const [filter, setFilter] = useState<ChatListFilter>({});
+  const organization = useChatOrganization();
+
+  // Search state, the query is debounced before hitting the server
+  const [searchInput, setSearchInput] = useState("");
+  const [searchQuery, setSearchQuery] = useState("");
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setSearchQuery(searchInput.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchInput]);
 
   // Replace regular query with infinite query for pagination
   const {
@@ -118,6 +144,7 @@ const ChatHistoryDrawer = ({
   } = trpc.chat.getAll.useInfiniteQuery(
     {
       limit: 10,
+      ...filter,
     },
     {
       enabled: open, // Only fetch when drawer is open
@@ -125,10 +152,14 @@ const ChatHistoryDrawer = ({
     }
   );
 
+  // Apply chats created, renamed or deleted in other tabs and devices
+  useOwnerEvents();
+
   const utils = trpc.useUtils();
   const { mutate: deleteChat } = trpc.chat.delete.useMutation({
     onSuccess: () => {
       utils.chat.getAll.invalidate();
+      utils.chat.listDeleted.invalidate();
       setDeleteDialogOpen(false);
       setChatToDelete(null);
     },
@@ -149,6 +180,17 @@ const ChatHistoryDrawer = ({
     },
   });
 
+  const { mutate: regenerateTitle, isPending: isRegeneratingTitle } =
+    trpc.chat.regenerateTitle.useMutation({
+      onSuccess: ({ title }) => {
+        utils.chat.getAll.invalidate();
+        setEditingTitle(title);
+      },
+      onError: (err) => {
+        error(err.message);
+      },
+    });
+
   const navigate = useNavigate();
 
   // Flatten all chats from all pages
@@ -185,9 +227,15 @@ const ChatHistoryDrawer = ({
   };
 
   // Edit handlers
-  const handleEditClick = (chatId: string, currentTitle: string) => {
+  const handleEditClick = (
+    chatId: string,
+    currentTitle: string,
+    currentTags: string[]
+  ) => {
     setChatToEdit(chatId);
     setEditingTitle(currentTitle);
+    setOriginalTags(currentTags);
+    setEditingTags(currentTags.join(", "));
     setEditDialogOpen(true);
   };
 
@@ -197,6 +245,22 @@ const ChatHistoryDrawer = ({
         id: chatToEdit,
         title: editingTitle.trim(),
       });
+
+      // Tags are entered comma-separated and compared without case
+      const tags = editingTags
+        .split(",")
+        .map((tag) => tag.trim())
+        .filter(Boolean);
+      const lower = (list: string[]) => list.map((tag) => tag.toLowerCase());
+      const add = tags.filter(
+        (tag) => !lower(originalTags).includes(tag.toLowerCase())
+      );
+      const remove = originalTags.filter(
+        (tag) => !lower(tags).includes(tag.toLowerCase())
+      );
+      if (add.length > 0 || remove.length > 0) {
+        organization.tagChats.mutate({ ids: [chatToEdit], add, remove });
+      }
     }
   };
 
@@ -219,11 +283,13 @@ const ChatHistoryDrawer = ({
   };
 
   let content = null;
-  if (isLoading) {
+  if (searchQuery) {
+    content = <ChatSearchResults query={searchQuery} onNavigate={onClose} />;
+  } else if (isLoading) {
     content = <LoadingSkeleton />;
   } else if (isError) {
     content = <ErrorState />;
-  } else if (allChats.length === 0) {
+  } else if (allChats.length === 0 && Object.keys(filter).length === 0) {
     content = <EmptyState />;
   } else {
     content = (
@@ -248,13 +314,35 @@ const ChatHistoryDrawer = ({
         }}
       >
         <List>
+          {allChats.length === 0 && (
+            <ListItem>
+              <ListItemText
+                secondary="No chats match this filter"
+                sx={{ textAlign: "center" }}
+              />
+            </ListItem>
+          )}
           {allChats.map((item) => (
             <ListItem
+              {...organization.chatDragProps(item.id)}
+              // Dropping a chat here places it before this one
+              {...organization.dropTargetProps(item.id, (chatId) =>
+                organization.placeBefore(
+                  allChats.map((chat) => chat.id),
+                  chatId,
+                  item.id
+                )
+              )}
               sx={{
                 "&:hover .action-buttons, &:focus-within .action-buttons": {
                   visibility: "visible",
                 },
                 width: "100%",
+                opacity: organization.draggedChatId === item.id ? 0.5 : 1,
+                borderTop: "2px solid",
+                borderColor: organization.isDropTarget(item.id)
+                  ? "primary.main"
+                  : "transparent",
               }}
               key={item.id}
               secondaryAction={
@@ -267,11 +355,27 @@ const ChatHistoryDrawer = ({
                     visibility: "hidden",
                   }}
                 >
+                  <Tooltip title={item.isPinned ? "unpin" : "pin"} placement="bottom">
+                    <IconButton
+                      edge="end"
+                      aria-label={item.isPinned ? "unpin" : "pin"}
+                      onClick={() =>
+                        organization.pinChats.mutate({
+                          ids: [item.id],
+                          isPinned: !item.isPinned,
+                        })
+                      }
+                    >
+                      <PushPinOutlinedIcon fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
                   <Tooltip title="edit" placement="bottom">
                     <IconButton
                       edge="end"
                       aria-label="edit"
-                      onClick={() => handleEditClick(item.id, item.title)}
+                      onClick={() =>
+                        handleEditClick(item.id, item.title, item.tags)
+                      }
                     >
                       <EditIcon fontSize="small" />
                     </IconButton>
@@ -296,10 +400,20 @@ const ChatHistoryDrawer = ({
                 }}
                 dense
               >
+                {item.isPinned && (
+                  <PushPinIcon
+                    fontSize="small"
+                    color="primary"
+                    sx={{ mr: 1, fontSize: "1rem" }}
+                  />
+                )}
                 <ListItemText
                   id={item.id}
                   primary={item.title}
-                  secondary={dayjs(item.createdAt).fromNow()}
+                  secondary={[
+                    dayjs(item.createdAt).fromNow(),
+                    ...item.tags.map((tag: string) => `#${tag}`),
+                  ].join(" · ")}
                   sx={{
                     "& .MuiListItemText-primary": {
                       display: "-webkit-box",
@@ -364,6 +478,34 @@ const ChatHistoryDrawer = ({
           >
             New Chat
           </Button>
+          <TextField
+            size="small"
+            fullWidth
+            placeholder="Search chats"
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Escape") setSearchInput("");
+            }}
+            inputProps={{ maxLength: 200, "aria-label": "search chats" }}
+            InputProps={{
+              startAdornment: (
+                <InputAdornment position="start">
+                  <SearchIcon fontSize="small" />
+                </InputAdornment>
+              ),
+            }}
+            sx={{ mb: 1 }}
+          />
+          {!searchQuery && (
+            <Box sx={{ mb: 1 }}>
+              <ChatFolderFilter
+                value={filter}
+                onChange={setFilter}
+                organization={organization}
+              />
+            </Box>
+          )}
         </Box>
 
         <Box sx={{ px: 2, width: "100%" }}>
@@ -383,8 +525,8 @@ const ChatHistoryDrawer = ({
         <DialogTitle id="delete-dialog-title">Delete Chat</DialogTitle>
         <DialogContent>
           <DialogContentText id="delete-dialog-description">
-            Are you sure you want to delete this chat from your history? This
-            action cannot be undone.
+            Move this chat to the trash? You can restore it from Settings
+            until it is removed for good.
           </DialogContentText>
         </DialogContent>
         <DialogActions sx={{ gap: 1, p: 2 }}>
@@ -427,8 +569,32 @@ const ChatHistoryDrawer = ({
             multiline
             rows={2}
           />
+          <TextField
+            margin="dense"
+            label="Tags"
+            fullWidth
+            variant="outlined"
+            value={editingTags}
+            onChange={(e) => setEditingTags(e.target.value)}
+            placeholder="work, ideas"
+            helperText="Separate tags with commas"
+          />
         </DialogContent>
         <DialogActions>
+          <Button
+            onClick={() => chatToEdit && regenerateTitle({ id: chatToEdit })}
+            disabled={!chatToEdit || isRegeneratingTitle}
+            startIcon={
+              isRegeneratingTitle ? (
+                <CircularProgress size={16} />
+              ) : (
+                <AutoAwesomeIcon />
+              )
+            }
+            sx={{ mr: "auto" }}
+          >
+            Regenerate title
+          </Button>
           <Button onClick={handleEditCancel} color="primary">
             Cancel
           </Button>
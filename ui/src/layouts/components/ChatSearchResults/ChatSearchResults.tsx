@@ -0,0 +1,147 @@
+import { trpc } from "@/services/trpc";
+import SearchOffIcon from "@mui/icons-material/SearchOff";
+import {
+  Box,
+  CircularProgress,
+  List,
+  ListItem,
+  ListItemButton,
+  ListItemText,
+  Typography,
+} from "@mui/material";
+import dayjs from "dayjs";
+import { useEffect } from "react";
+import { useInView } from "react-intersection-observer";
+import { useNavigate } from "react-router-dom";
+
+interface ChatSearchResultsProps {
+  query: string;
+  onNavigate: () => void;
+}
+
+/**
+ * Full-text search hits over chat titles and messages, newest first.
+ * Opening a message hit scrolls the chat to that message.
+ */
+const ChatSearchResults = ({ query, onNavigate }: ChatSearchResultsProps) => {
+  const navigate = useNavigate();
+
+  const { data, isLoading, isError, fetchNextPage, hasNextPage, isFetchingNextPage } =
+    trpc.chat.search.useInfiniteQuery(
+      { query, limit: 20 },
+      { getNextPageParam: (lastPage) => lastPage.nextCursor }
+    );
+
+  const hits = data?.pages.flatMap((page) => page.hits) ?? [];
+
+  const { ref: sentinelRef, inView } = useInView({
+    threshold: 0,
+    rootMargin: "100px",
+  });
+
+  useEffect(() => {
+    if (inView && hasNextPage && !isFetchingNextPage) {
+      fetchNextPage();
+    }
+  }, [inView, hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  if (isLoading) {
+    return (
+      <Box sx={{ display: "flex", justifyContent: "center", py: 4 }}>
+        <CircularProgress size={24} />
+      </Box>
+    );
+  }
+
+  if (isError || hits.length === 0) {
+    return (
+      <Box
+        sx={{
+          mt: 4,
+          display: "flex",
+          flexDirection: "column",
+          alignItems: "center",
+          p: 3,
+          textAlign: "center",
+          color: "text.secondary",
+        }}
+      >
+        <SearchOffIcon sx={{ fontSize: 48, mb: 2, opacity: 0.5 }} />
+        <Typography variant="body2">
+          {isError ? "Search failed, please try again" : "No matching chats"}
+        </Typography>
+      </Box>
+    );
+  }
+
+  return (
+    <Box sx={{ flex: 1, width: 300, overflowY: "auto" }}>
+      <List>
+        {hits.map((hit) => (
+          <ListItem key={`${hit.kind}-${hit.messageId ?? hit.chatId}`} disablePadding>
+            <ListItemButton
+              dense
+              onClick={() => {
+                navigate(
+                  hit.messageId
+                    ? `/chat/${hit.chatId}?message=${hit.messageId}`
+                    : `/chat/${hit.chatId}`,
+                  { viewTransition: true }
+                );
+                onNavigate();
+              }}
+            >
+              <ListItemText
+                primary={hit.chatTitle}
+                secondary={
+                  <>
+                    {hit.snippet.map((segment, index) =>
+                      segment.highlight ? (
+                        <Box
+                          key={index}
+                          component="mark"
+                          sx={{
+                            bgcolor: "warning.light",
+                            color: "inherit",
+                            borderRadius: 0.5,
+                          }}
+                        >
+                          {segment.text}
+                        </Box>
+                      ) : (
+                        <span key={index}>{segment.text}</span>
+                      )
+                    )}
+                    <Box component="span" sx={{ display: "block", mt: 0.5 }}>
+                      {dayjs(hit.createdAt).fromNow()}
+                    </Box>
+                  </>
+                }
+                sx={{
+                  "& .MuiListItemText-primary": {
+                    overflow: "hidden",
+                    textOverflow: "ellipsis",
+                    whiteSpace: "nowrap",
+                    maxWidth: 240,
+                  },
+                  "& .MuiListItemText-secondary": {
+                    fontSize: "0.8rem",
+                    wordBreak: "break-word",
+                  },
+                }}
+              />
+            </ListItemButton>
+          </ListItem>
+        ))}
+        {hasNextPage && <Box ref={sentinelRef} sx={{ height: "1px" }} />}
+        {isFetchingNextPage && (
+          <ListItem sx={{ justifyContent: "center", py: 2 }}>
+            <CircularProgress size={24} />
+          </ListItem>
+        )}
+      </List>
+    </Box>
+  );
+};
+
+export default ChatSearchResults;
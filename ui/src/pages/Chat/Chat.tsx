@@ -1,11 +1,36 @@
+import { useNotify } from "@/providers/NotificationProdiver/useNotify";
+import { trpc } from "@/services/trpc";
+import CallSplitIcon from "@mui/icons-material/CallSplit";
+import EditIcon from "@mui/icons-material/Edit";
 import KeyboardArrowDownIcon from "@mui/icons-material/KeyboardArrowDown";
 import SyncIcon from "@mui/icons-material/Sync";
-import { Box, Container, Fab, Paper, Typography } from "@mui/material";
+import {
+  Box,
+  Button,
+  Container,
+  Fab,
+  IconButton,
+  Link,
+  Paper,
+  TextField,
+  Typography,
+} from "@mui/material";
 import { useEffect, useRef, useState } from "react";
-import { useNavigate, useParams } from "react-router-dom";
+import {
+  Link as RouterLink,
+  useNavigate,
+  useParams,
+  useSearchParams,
+} from "react-router-dom";
 
 import { ChatTextForm } from "../../components/ChatTextForm/ChatTextForm";
 import AgentMessage from "./components/AgentMessage/AgentMessage";
+import ChatExportMenu from "./components/ChatExportMenu/ChatExportMenu";
+import ChatSettingsPanel from "./components/ChatSettingsPanel/ChatSettingsPanel";
+import ChatSharePanel from "./components/ChatSharePanel/ChatSharePanel";
+import ChatSummaryPanel from "./components/ChatSummaryPanel/ChatSummaryPanel";
+import ComparePanel from "./components/ComparePanel/ComparePanel";
+import ComparisonView from "./components/ComparisonView/ComparisonView";
 import ModelSelector from "./components/ModelSelector/ModelSelector";
 
 import {
@@ -16,6 +41,7 @@ import { useInfiniteScroll } from "../../hooks/useInfiniteScroll";
 
 const Chat = () => {
   const { id: chatId } = useParams<{ id: string }>();
+  const [searchParams, setSearchParams] = useSearchParams();
   const navigate = useNavigate();
   const containerRef = useRef<HTMLDivElement>(null);
   const bottomRef = useRef<HTMLDivElement>(null);
@@ -24,6 +50,7 @@ const Chat = () => {
   const {
     messages: previousMessages,
     streamingMessage,
+    siblings,
     isLoading,
     error,
     fetchNextPage,
@@ -33,9 +60,19 @@ const Chat = () => {
     isFetchingNextPage,
     isFetchingPreviousPage,
     sendMessage,
+    regenerate,
+    editAndResend,
+    switchBranch,
+    isSwitchingBranch,
     abortStream,
     isStreamingActive,
     isListeningToStream,
+    comparison,
+    compare,
+    pickWinner,
+    closeComparison,
+    isComparing,
+    isPickingWinner,
     manualSync,
   } = useChatMessages({
     chatId,
@@ -79,10 +116,108 @@ const Chat = () => {
     return () => container?.removeEventListener("scroll", handleScroll);
   }, []);
 
+  // Inline editing of a sent prompt (resent on a new branch)
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(
+    null
+  );
+  const [editContent, setEditContent] = useState("");
+
+  const startEditing = (message: MessageType) => {
+    setEditingMessageId(message.id);
+    setEditContent(message.userContent);
+  };
+
+  const cancelEditing = () => {
+    setEditingMessageId(null);
+    setEditContent("");
+  };
+
+  const submitEdit = () => {
+    if (!editingMessageId || !editContent.trim()) return;
+    editAndResend(editingMessageId, editContent);
+    cancelEditing();
+  };
+
+  // Jump to a message opened from search: load older pages until it is
+  // rendered, then scroll to it and highlight it briefly
+  const targetMessageId = searchParams.get("message");
+  const [highlightedMessageId, setHighlightedMessageId] = useState<
+    string | null
+  >(null);
+
+  useEffect(() => {
+    if (!targetMessageId || isLoading) return;
+
+    const element = containerRef.current?.querySelector(
+      `[data-message-id="${CSS.escape(targetMessageId)}"]`
+    );
+
+    if (!element) {
+      if (hasNextPage && !isFetchingNextPage) {
+        fetchNextPage();
+      } else if (!hasNextPage) {
+        // Not on the active branch anymore
+        setSearchParams({}, { replace: true });
+      }
+      return;
+    }
+
+    element.scrollIntoView({ block: "center", behavior: "smooth" });
+    setHighlightedMessageId(targetMessageId);
+    setSearchParams({}, { replace: true });
+  }, [
+    targetMessageId,
+    isLoading,
+    previousMessages,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+    setSearchParams,
+  ]);
+
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    const timeout = setTimeout(() => setHighlightedMessageId(null), 2000);
+    return () => clearTimeout(timeout);
+  }, [highlightedMessageId]);
+
+  // Forks: link back to the source chat, and create new forks
+  const notify = useNotify();
+  const utils = trpc.useUtils();
+  const { data: forkSource } = trpc.chat.getForkSource.useQuery(
+    { id: chatId ?? "" },
+    { enabled: !!chatId }
+  );
+  const { mutate: forkChat, isPending: isForking } =
+    trpc.chat.fork.useMutation({
+      onSuccess: (fork) => {
+        utils.chat.getAll.invalidate();
+        notify.success(`Forked ${fork.messageCount} messages into a new chat`);
+        navigate(`/chat/${fork.id}`);
+      },
+      onError: (error) => {
+        notify.error(`Failed to fork chat: ${error.message}`);
+      },
+    });
+
   const [newChatModelId, setNewChatModelId] = useState<string | undefined>(
     undefined
   );
 
+  // Compare mode: models every prompt is sent to, empty when off
+  const [compareModelIds, setCompareModelIds] = useState<string[]>([]);
+
+  const handleSend = (content: string, modelId?: string) => {
+    if (compareModelIds.length > 0) {
+      compare(content, compareModelIds);
+      return;
+    }
+
+    // Carrying on without picking a winner keeps the first answer
+    closeComparison();
+    sendMessage(content, modelId);
+  };
+
   if (!chatId) {
     return (
       <Box
@@ -163,7 +298,18 @@ const Chat = () => {
 
   const renderMessages = (messagesToRender: MessageType[]) => {
     return messagesToRender.map((message) => (
-      <Box key={message.id} data-testid="message-pair">
+      <Box
+        key={message.id}
+        data-testid="message-pair"
+        sx={{
+          borderRadius: 2,
+          transition: "background-color 0.5s",
+          bgcolor:
+            highlightedMessageId === message.id
+              ? "action.selected"
+              : "transparent",
+        }}
+      >
         {/* User Message */}
         <Box
           data-testid="message"
@@ -175,21 +321,69 @@ const Chat = () => {
             mb: 2,
           }}
         >
-          <Box
-            sx={{
-              height: "100%",
-              maxWidth: "70%",
-              p: 2,
-              borderRadius: 2,
-              bgcolor: "background.paper",
-              border: (theme) =>
-                theme.palette.mode === "light" ? "2px solid" : "none",
-              borderColor: (theme) =>
-                theme.palette.mode === "light" ? "divider" : "transparent",
-            }}
-          >
-            {message.userContent}
-          </Box>
+          {editingMessageId === message.id ? (
+            <Box
+              sx={{
+                width: "70%",
+                display: "flex",
+                flexDirection: "column",
+                gap: 1,
+              }}
+            >
+              <TextField
+                multiline
+                fullWidth
+                autoFocus
+                value={editContent}
+                onChange={(e) => setEditContent(e.target.value)}
+                inputProps={{ "aria-label": "Edit message" }}
+              />
+              <Box sx={{ display: "flex", justifyContent: "flex-end", gap: 1 }}>
+                <Button size="small" onClick={cancelEditing}>
+                  Cancel
+                </Button>
+                <Button
+                  size="small"
+                  variant="contained"
+                  onClick={submitEdit}
+                  disabled={
+                    !editContent.trim() || isStreamingActive || isComparing
+                  }
+                >
+                  Send
+                </Button>
+              </Box>
+            </Box>
+          ) : (
+            <>
+              {message.finishedAt && (
+                <IconButton
+                  size="small"
+                  aria-label="Edit message"
+                  onClick={() => startEditing(message)}
+                  disabled={isStreamingActive || isComparing}
+                  sx={{ alignSelf: "center", mr: 1, opacity: 0.6 }}
+                >
+                  <EditIcon fontSize="small" />
+                </IconButton>
+              )}
+              <Box
+                sx={{
+                  height: "100%",
+                  maxWidth: "70%",
+                  p: 2,
+                  borderRadius: 2,
+                  bgcolor: "background.paper",
+                  border: (theme) =>
+                    theme.palette.mode === "light" ? "2px solid" : "none",
+                  borderColor: (theme) =>
+                    theme.palette.mode === "light" ? "divider" : "transparent",
+                }}
+              >
+                {message.userContent}
+              </Box>
+            </>
+          )}
         </Box>
 
         {/* Agent Message (only if response exists) */}
@@ -205,7 +399,19 @@ const Chat = () => {
             }}
           >
             <Box sx={{ width: "100%" }}>
-              <AgentMessage message={message} />
+              <AgentMessage
+                message={message}
+                siblingIds={siblings[message.id]}
+                onSwitchBranch={switchBranch}
+                onRegenerate={regenerate}
+                onFork={(messageId) => forkChat({ id: chatId, messageId })}
+                disabled={
+                  isStreamingActive ||
+                  isComparing ||
+                  isSwitchingBranch ||
+                  isForking
+                }
+              />
             </Box>
           </Box>
         )}
@@ -230,6 +436,10 @@ const Chat = () => {
     ));
   };
 
+  // The compared answers are shown side by side until a winner is picked
+  const comparedIds = new Set(comparison?.answers.map(({ id }) => id));
+  const isCompared = (message: MessageType) => comparedIds.has(message.id);
+
   return (
     <Box
       id="chat-container"
@@ -291,9 +501,20 @@ const Chat = () => {
             // backgroundColor: "red",
           }}
         >
-          {streamingMessage && renderMessages([streamingMessage])}
+          {streamingMessage &&
+            !isCompared(streamingMessage) &&
+            renderMessages([streamingMessage])}
         </Box>
 
+        {/* Open comparison, between the thread and new messages */}
+        {comparison && (
+          <ComparisonView
+            answers={comparison.answers}
+            onPickWinner={pickWinner}
+            disabled={isComparing || isPickingWinner || isStreamingActive}
+          />
+        )}
+
         {/* Previous messages section */}
         <Box
           sx={{
@@ -302,7 +523,9 @@ const Chat = () => {
             // backgroundColor: "green",
           }}
         >
-          {renderMessages(previousMessages)}
+          {renderMessages(
+            previousMessages.filter((message) => !isCompared(message))
+          )}
         </Box>
 
         {/* Load more messages trigger */}
@@ -318,6 +541,34 @@ const Chat = () => {
             {isFetchingNextPage ? "Loading older messages..." : ""}
           </Box>
         )}
+
+        {/* Origin of a forked chat, above the first message */}
+        {forkSource && !hasNextPage && (
+          <Typography
+            variant="body2"
+            color="text.secondary"
+            sx={{
+              display: "flex",
+              alignItems: "center",
+              justifyContent: "center",
+              gap: 0.5,
+              py: 2,
+            }}
+          >
+            <CallSplitIcon fontSize="small" />
+            Forked from{" "}
+            <Link
+              component={RouterLink}
+              to={
+                forkSource.messageId
+                  ? `/chat/${forkSource.chatId}?message=${forkSource.messageId}`
+                  : `/chat/${forkSource.chatId}`
+              }
+            >
+              {forkSource.title}
+            </Link>
+          </Typography>
+        )}
       </Container>
 
       {/* Scroll to bottom button */}
@@ -385,13 +636,30 @@ const Chat = () => {
         }}
       >
         <ChatTextForm
-          placeholder="Type your message here..."
+          placeholder={
+            compareModelIds.length > 0
+              ? `Ask ${compareModelIds.length} models at once...`
+              : "Type your message here..."
+          }
           chatId={chatId}
-          sendMessage={sendMessage}
-          isSending={isStreamingActive}
+          sendMessage={handleSend}
+          isSending={isStreamingActive || isComparing}
           abortStream={abortStream}
         />
-        {chatId && <ModelSelector chatId={chatId} />}
+        {chatId && (
+          <Box sx={{ display: "flex", justifyContent: "center", gap: 1 }}>
+            <ModelSelector chatId={chatId} />
+            <ComparePanel
+              modelIds={compareModelIds}
+              onChange={setCompareModelIds}
+              disabled={isComparing}
+            />
+            <ChatSettingsPanel chatId={chatId} />
+            <ChatSummaryPanel chatId={chatId} />
+            <ChatSharePanel chatId={chatId} />
+            <ChatExportMenu chatId={chatId} />
+          </Box>
+        )}
       </Box>
     </Box>
   );
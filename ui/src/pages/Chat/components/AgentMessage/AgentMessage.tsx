@@ -1,10 +1,28 @@
 import type { MessageType } from "@/hooks/useChatMessages/useChatMessages";
-import { Box } from "@mui/material";
+import CallSplitIcon from "@mui/icons-material/CallSplit";
+import ChevronLeftIcon from "@mui/icons-material/ChevronLeft";
+import ChevronRightIcon from "@mui/icons-material/ChevronRight";
+import ReplayIcon from "@mui/icons-material/Replay";
+import {
+  Box,
+  Chip,
+  IconButton,
+  Tooltip,
+  Typography,
+} from "@mui/material";
 import { useMemo } from "react";
 import { MarkdownHighlighter } from "../../../../components/MarkdownHighlighter/MarkdownHighlighter";
 
 interface AgentMessageProps {
   message: MessageType;
+  // Ordered ids of the alternatives to this message (including itself)
+  siblingIds?: string[];
+  onSwitchBranch?: (messageId: string) => void;
+  onRegenerate?: (messageId: string) => void;
+  // Continue in a new chat from this message
+  onFork?: (messageId: string) => void;
+  // Disable branch actions, e.g. while a message is streaming
+  disabled?: boolean;
 }
 
 /**
@@ -54,16 +72,140 @@ const getParsedContent = (data: string) => {
   return result;
 };
 
-export const AgentMessage = ({ message }: AgentMessageProps) => {
+const formatDuration = (ms: number) =>
+  ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+
+// Token usage and latency recorded for the message, when the provider reported them
+const UsageBadges = ({ message }: { message: MessageType }) => {
+  const {
+    promptTokens,
+    completionTokens,
+    totalTokens,
+    providerLatencyMs,
+    firstByteMs,
+  } = message;
+
+  return (
+    <Box sx={{ display: "flex", gap: 0.5, ml: "auto" }}>
+      {totalTokens != null && (
+        <Tooltip
+          title={`Prompt: ${promptTokens ?? "?"} · Completion: ${
+            completionTokens ?? "?"
+          }`}
+        >
+          <Chip
+            size="small"
+            variant="outlined"
+            label={`${totalTokens} tokens`}
+            data-testid="usage-tokens"
+          />
+        </Tooltip>
+      )}
+      {providerLatencyMs != null && (
+        <Tooltip
+          title={
+            firstByteMs != null
+              ? `First token after ${formatDuration(firstByteMs)}`
+              : ""
+          }
+        >
+          <Chip
+            size="small"
+            variant="outlined"
+            label={formatDuration(providerLatencyMs)}
+            data-testid="usage-latency"
+          />
+        </Tooltip>
+      )}
+    </Box>
+  );
+};
+
+export const AgentMessage = ({
+  message,
+  siblingIds = [],
+  onSwitchBranch,
+  onRegenerate,
+  onFork,
+  disabled = false,
+}: AgentMessageProps) => {
   const streamedMarkdown = useMemo(() => {
     return getParsedContent(message.agentContent || "");
   }, [message.agentContent]);
 
+  const siblingIndex = siblingIds.indexOf(message.id);
+  const hasAlternatives = siblingIds.length > 1 && siblingIndex !== -1;
+  const isFinished = !!message.finishedAt;
+
   return (
     <Box sx={{ display: "flex", flexDirection: "column", gap: 1 }}>
       {streamedMarkdown.map((item, index) => {
         return <MarkdownHighlighter content={item.content} key={index} />;
       })}
+
+      {isFinished && (
+        <Box
+          data-testid="message-actions"
+          sx={{ display: "flex", alignItems: "center", gap: 0.5 }}
+        >
+          {hasAlternatives && (
+            <>
+              <IconButton
+                size="small"
+                aria-label="Previous alternative"
+                disabled={disabled || siblingIndex === 0}
+                onClick={() => onSwitchBranch?.(siblingIds[siblingIndex - 1])}
+              >
+                <ChevronLeftIcon fontSize="small" />
+              </IconButton>
+              <Typography
+                variant="caption"
+                color="text.secondary"
+                data-testid="branch-indicator"
+              >
+                {siblingIndex + 1} / {siblingIds.length}
+              </Typography>
+              <IconButton
+                size="small"
+                aria-label="Next alternative"
+                disabled={disabled || siblingIndex === siblingIds.length - 1}
+                onClick={() => onSwitchBranch?.(siblingIds[siblingIndex + 1])}
+              >
+                <ChevronRightIcon fontSize="small" />
+              </IconButton>
+            </>
+          )}
+          {onRegenerate && (
+            <Tooltip title="Regenerate response">
+              <span>
+                <IconButton
+                  size="small"
+                  aria-label="Regenerate response"
+                  disabled={disabled}
+                  onClick={() => onRegenerate(message.id)}
+                >
+                  <ReplayIcon fontSize="small" />
+                </IconButton>
+              </span>
+            </Tooltip>
+          )}
+          {onFork && (
+            <Tooltip title="Fork from here">
+              <span>
+                <IconButton
+                  size="small"
+                  aria-label="Fork from here"
+                  disabled={disabled}
+                  onClick={() => onFork(message.id)}
+                >
+                  <CallSplitIcon fontSize="small" />
+                </IconButton>
+              </span>
+            </Tooltip>
+          )}
+          <UsageBadges message={message} />
+        </Box>
+      )}
     </Box>
   );
 };
@@ -0,0 +1,85 @@
+import DescriptionIcon from "@mui/icons-material/Description";
+import DownloadIcon from "@mui/icons-material/Download";
+import LanguageIcon from "@mui/icons-material/Language";
+import PrintIcon from "@mui/icons-material/Print";
+import {
+  Button,
+  ListItemIcon,
+  ListItemText,
+  Menu,
+  MenuItem,
+  Tooltip,
+} from "@mui/material";
+import { useState } from "react";
+
+interface ChatExportMenuProps {
+  chatId: string;
+}
+
+const exportUrl = (chatId: string, format: "markdown" | "html", inline = false) =>
+  `/api/export/chats/${encodeURIComponent(chatId)}?format=${format}${inline ? "&inline=true" : ""}`;
+
+/**
+ * Download the chat as Markdown or HTML, or open the HTML version to print it as PDF.
+ * Files are served by a plain route so long chats aren't limited by tRPC payloads.
+ */
+const ChatExportMenu = ({ chatId }: ChatExportMenuProps) => {
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+  const close = () => setAnchorEl(null);
+
+  return (
+    <>
+      <Tooltip title="Export chat">
+        <Button
+          variant="text"
+          onClick={(e) => setAnchorEl(e.currentTarget)}
+          startIcon={<DownloadIcon />}
+          sx={{ mt: 2, textTransform: "none" }}
+        >
+          Export
+        </Button>
+      </Tooltip>
+
+      <Menu anchorEl={anchorEl} open={!!anchorEl} onClose={close}>
+        <MenuItem
+          component="a"
+          href={exportUrl(chatId, "markdown")}
+          download
+          onClick={close}
+        >
+          <ListItemIcon>
+            <DescriptionIcon fontSize="small" />
+          </ListItemIcon>
+          <ListItemText>Markdown</ListItemText>
+        </MenuItem>
+        <MenuItem
+          component="a"
+          href={exportUrl(chatId, "html")}
+          download
+          onClick={close}
+        >
+          <ListItemIcon>
+            <LanguageIcon fontSize="small" />
+          </ListItemIcon>
+          <ListItemText>HTML</ListItemText>
+        </MenuItem>
+        <MenuItem
+          component="a"
+          href={exportUrl(chatId, "html", true)}
+          target="_blank"
+          rel="noopener"
+          onClick={close}
+        >
+          <ListItemIcon>
+            <PrintIcon fontSize="small" />
+          </ListItemIcon>
+          <ListItemText secondary="Opens a print-ready page">
+            Print / PDF
+          </ListItemText>
+        </MenuItem>
+      </Menu>
+    </>
+  );
+};
+
+export default ChatExportMenu;
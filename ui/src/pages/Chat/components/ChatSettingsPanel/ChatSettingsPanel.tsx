@@ -0,0 +1,202 @@
+import { useNotify } from "@/providers/NotificationProdiver/useNotify";
+import { trpc } from "@/services/trpc";
+import TuneIcon from "@mui/icons-material/Tune";
+import {
+  Box,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  TextField,
+  Tooltip,
+  Typography,
+} from "@mui/material";
+import { useEffect, useState } from "react";
+
+interface ChatSettingsPanelProps {
+  chatId: string;
+}
+
+// Form values are kept as strings; empty means "use the default"
+interface FormValues {
+  systemPrompt: string;
+  temperature: string;
+  maxTokens: string;
+  topP: string;
+}
+
+const toInput = (value: number | null | undefined) =>
+  value == null ? "" : String(value);
+
+const toNumber = (value: string) =>
+  value.trim() === "" ? null : Number(value);
+
+const isInRange = (value: string, min: number, max: number, integer = false) => {
+  const parsed = toNumber(value);
+  if (parsed === null) return true;
+  if (!Number.isFinite(parsed)) return false;
+  if (integer && !Number.isInteger(parsed)) return false;
+  return parsed >= min && parsed <= max;
+};
+
+/**
+ * Per-chat system prompt and generation parameters.
+ * Applied to every new answer in the chat and recorded on each message.
+ */
+const ChatSettingsPanel = ({ chatId }: ChatSettingsPanelProps) => {
+  const [open, setOpen] = useState(false);
+  const [values, setValues] = useState<FormValues>({
+    systemPrompt: "",
+    temperature: "",
+    maxTokens: "",
+    topP: "",
+  });
+  const notify = useNotify();
+  const utils = trpc.useUtils();
+
+  const { data, isLoading } = trpc.chat.getSettings.useQuery(
+    { id: chatId },
+    { enabled: open }
+  );
+
+  // Load saved settings into the form when the dialog opens
+  useEffect(() => {
+    if (!open || !data) return;
+    setValues({
+      systemPrompt: data.settings.systemPrompt ?? "",
+      temperature: toInput(data.settings.temperature),
+      maxTokens: toInput(data.settings.maxTokens),
+      topP: toInput(data.settings.topP),
+    });
+  }, [open, data]);
+
+  const updateSettings = trpc.chat.updateSettings.useMutation({
+    onSuccess: () => {
+      notify.success("Chat settings saved");
+      utils.chat.getSettings.invalidate({ id: chatId });
+      setOpen(false);
+    },
+    onError: (error) => {
+      notify.error(`Failed to save chat settings: ${error.message}`);
+    },
+  });
+
+  const errors = {
+    temperature: !isInRange(values.temperature, 0, 2),
+    maxTokens: !isInRange(values.maxTokens, 1, 32768, true),
+    topP: !isInRange(values.topP, 0, 1),
+  };
+  const hasErrors = Object.values(errors).some(Boolean);
+
+  const handleChange =
+    (field: keyof FormValues) =>
+    (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+      setValues((prev) => ({ ...prev, [field]: e.target.value }));
+
+  const handleSave = () => {
+    if (hasErrors) return;
+    updateSettings.mutate({
+      id: chatId,
+      systemPrompt: values.systemPrompt.trim() || null,
+      temperature: toNumber(values.temperature),
+      maxTokens: toNumber(values.maxTokens),
+      topP: toNumber(values.topP),
+    });
+  };
+
+  const defaults = data?.defaults;
+
+  return (
+    <>
+      <Tooltip title="Chat settings">
+        <Button
+          variant="text"
+          onClick={() => setOpen(true)}
+          startIcon={<TuneIcon />}
+          sx={{ mt: 2, textTransform: "none" }}
+        >
+          Settings
+        </Button>
+      </Tooltip>
+
+      <Dialog open={open} onClose={() => setOpen(false)} fullWidth maxWidth="sm">
+        <DialogTitle>Chat settings</DialogTitle>
+        <DialogContent>
+          {isLoading ? (
+            <Box sx={{ display: "flex", justifyContent: "center", py: 4 }}>
+              <CircularProgress size={24} />
+            </Box>
+          ) : (
+            <Box
+              sx={{ display: "flex", flexDirection: "column", gap: 2, pt: 1 }}
+            >
+              <TextField
+                label="System prompt"
+                multiline
+                minRows={3}
+                maxRows={10}
+                value={values.systemPrompt}
+                onChange={handleChange("systemPrompt")}
+                placeholder="You are a helpful assistant..."
+                inputProps={{ maxLength: 8000 }}
+              />
+              <Box sx={{ display: "flex", gap: 2 }}>
+                <TextField
+                  label="Temperature"
+                  type="number"
+                  value={values.temperature}
+                  onChange={handleChange("temperature")}
+                  placeholder={toInput(defaults?.temperature)}
+                  error={errors.temperature}
+                  helperText={errors.temperature ? "0 – 2" : " "}
+                  inputProps={{ step: 0.1, min: 0, max: 2 }}
+                  fullWidth
+                />
+                <TextField
+                  label="Max tokens"
+                  type="number"
+                  value={values.maxTokens}
+                  onChange={handleChange("maxTokens")}
+                  placeholder={toInput(defaults?.maxTokens)}
+                  error={errors.maxTokens}
+                  helperText={errors.maxTokens ? "1 – 32768" : " "}
+                  inputProps={{ step: 1, min: 1, max: 32768 }}
+                  fullWidth
+                />
+                <TextField
+                  label="Top P"
+                  type="number"
+                  value={values.topP}
+                  onChange={handleChange("topP")}
+                  placeholder={toInput(defaults?.topP) || "Provider default"}
+                  error={errors.topP}
+                  helperText={errors.topP ? "0 – 1" : " "}
+                  inputProps={{ step: 0.05, min: 0, max: 1 }}
+                  fullWidth
+                />
+              </Box>
+              <Typography variant="body2" color="text.secondary">
+                Leave a field empty to use the default. Changes apply to new
+                answers only.
+              </Typography>
+            </Box>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setOpen(false)}>Cancel</Button>
+          <Button
+            variant="contained"
+            onClick={handleSave}
+            disabled={hasErrors || updateSettings.isPending || isLoading}
+          >
+            Save
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  );
+};
+
+export default ChatSettingsPanel;
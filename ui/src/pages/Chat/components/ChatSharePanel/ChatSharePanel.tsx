@@ -0,0 +1,188 @@
+import { useNotify } from "@/providers/NotificationProdiver/useNotify";
+import { trpc } from "@/services/trpc";
+import ContentCopyIcon from "@mui/icons-material/ContentCopy";
+import ShareIcon from "@mui/icons-material/Share";
+import {
+  Box,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  IconButton,
+  InputAdornment,
+  InputLabel,
+  MenuItem,
+  Select,
+  TextField,
+  Tooltip,
+  Typography,
+} from "@mui/material";
+import dayjs from "dayjs";
+import { useState } from "react";
+
+interface ChatSharePanelProps {
+  chatId: string;
+}
+
+const EXPIRY_OPTIONS = [
+  { value: 0, label: "Never" },
+  { value: 1, label: "1 day" },
+  { value: 7, label: "7 days" },
+  { value: 30, label: "30 days" },
+];
+
+/**
+ * Public read-only link to a snapshot of the chat.
+ * Messages sent after the link was created are not shared until it is updated.
+ */
+const ChatSharePanel = ({ chatId }: ChatSharePanelProps) => {
+  const [open, setOpen] = useState(false);
+  const [expiresInDays, setExpiresInDays] = useState(0);
+  const notify = useNotify();
+  const utils = trpc.useUtils();
+
+  const { data: shareLink, isLoading } = trpc.chat.getShareLink.useQuery(
+    { id: chatId },
+    { enabled: open }
+  );
+
+  const shareUrl =
+    shareLink && !shareLink.isExpired
+      ? `${window.location.origin}/share/${shareLink.token}`
+      : null;
+
+  const createShareLink = trpc.chat.createShareLink.useMutation({
+    onSuccess: () => {
+      notify.success(shareUrl ? "Share link updated" : "Share link created");
+      utils.chat.getShareLink.invalidate({ id: chatId });
+    },
+    onError: (error) => {
+      notify.error(`Failed to share chat: ${error.message}`);
+    },
+  });
+
+  const revokeShareLink = trpc.chat.revokeShareLink.useMutation({
+    onSuccess: () => {
+      notify.success("Share link revoked");
+      utils.chat.getShareLink.invalidate({ id: chatId });
+    },
+    onError: (error) => {
+      notify.error(`Failed to revoke link: ${error.message}`);
+    },
+  });
+
+  const copyLink = async () => {
+    if (!shareUrl) return;
+    try {
+      await navigator.clipboard.writeText(shareUrl);
+      notify.success("Link copied");
+    } catch {
+      notify.error("Could not copy the link");
+    }
+  };
+
+  const isBusy = createShareLink.isPending || revokeShareLink.isPending;
+
+  return (
+    <>
+      <Tooltip title="Share chat">
+        <Button
+          variant="text"
+          onClick={() => setOpen(true)}
+          startIcon={<ShareIcon />}
+          sx={{ mt: 2, textTransform: "none" }}
+        >
+          Share
+        </Button>
+      </Tooltip>
+
+      <Dialog open={open} onClose={() => setOpen(false)} fullWidth maxWidth="sm">
+        <DialogTitle>Share chat</DialogTitle>
+        <DialogContent>
+          {isLoading ? (
+            <Box sx={{ display: "flex", justifyContent: "center", py: 4 }}>
+              <CircularProgress size={24} />
+            </Box>
+          ) : (
+            <Box
+              sx={{ display: "flex", flexDirection: "column", gap: 2, pt: 1 }}
+            >
+              <Typography variant="body2" color="text.secondary">
+                {shareUrl
+                  ? `Anyone with the link can read the chat as it was on ${dayjs(
+                      shareLink?.snapshotAt
+                    ).format("MMM D, YYYY HH:mm")}${
+                      shareLink?.expiresAt
+                        ? `, until ${dayjs(shareLink.expiresAt).format("MMM D, YYYY")}`
+                        : ""
+                    }.`
+                  : "Create a read-only link to the chat as it is now. Your settings and account are not shared."}
+              </Typography>
+              {shareUrl && (
+                <TextField
+                  label="Link"
+                  value={shareUrl}
+                  InputProps={{
+                    readOnly: true,
+                    endAdornment: (
+                      <InputAdornment position="end">
+                        <IconButton aria-label="copy link" onClick={copyLink}>
+                          <ContentCopyIcon fontSize="small" />
+                        </IconButton>
+                      </InputAdornment>
+                    ),
+                  }}
+                />
+              )}
+              <FormControl size="small" sx={{ maxWidth: 200 }}>
+                <InputLabel id="share-expiry-label">Expires after</InputLabel>
+                <Select
+                  labelId="share-expiry-label"
+                  label="Expires after"
+                  value={expiresInDays}
+                  onChange={(e) => setExpiresInDays(Number(e.target.value))}
+                >
+                  {EXPIRY_OPTIONS.map((option) => (
+                    <MenuItem key={option.value} value={option.value}>
+                      {option.label}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            </Box>
+          )}
+        </DialogContent>
+        <DialogActions>
+          {shareLink && (
+            <Button
+              color="error"
+              onClick={() => revokeShareLink.mutate({ id: chatId })}
+              disabled={isBusy}
+              sx={{ mr: "auto" }}
+            >
+              Revoke
+            </Button>
+          )}
+          <Button onClick={() => setOpen(false)}>Close</Button>
+          <Button
+            variant="contained"
+            onClick={() =>
+              createShareLink.mutate({
+                id: chatId,
+                expiresInDays: expiresInDays || null,
+              })
+            }
+            disabled={isBusy || isLoading}
+          >
+            {shareUrl ? "Update link" : "Create link"}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  );
+};
+
+export default ChatSharePanel;
@@ -0,0 +1,189 @@
+import { useNotify } from "@/providers/NotificationProdiver/useNotify";
+import { trpc } from "@/services/trpc";
+import SummarizeIcon from "@mui/icons-material/Summarize";
+import {
+  Box,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  Switch,
+  TextField,
+  Tooltip,
+  Typography,
+} from "@mui/material";
+import { useEffect, useState } from "react";
+
+interface ChatSummaryPanelProps {
+  chatId: string;
+}
+
+/**
+ * Rolling summary of the older part of a chat.
+ * Sent to the model in place of the turns it covers; can be edited by hand.
+ */
+const ChatSummaryPanel = ({ chatId }: ChatSummaryPanelProps) => {
+  const [open, setOpen] = useState(false);
+  const [content, setContent] = useState("");
+  const notify = useNotify();
+  const utils = trpc.useUtils();
+
+  const { data, isLoading } = trpc.chat.getSummary.useQuery(
+    { id: chatId },
+    { enabled: open }
+  );
+  const summary = data?.summary;
+
+  // Load the saved summary into the editor when the dialog opens
+  useEffect(() => {
+    if (!open || !data) return;
+    setContent(data.summary?.content ?? "");
+  }, [open, data]);
+
+  const invalidateSummary = () => utils.chat.getSummary.invalidate({ id: chatId });
+
+  const updateSummary = trpc.chat.updateSummary.useMutation({
+    onSuccess: () => {
+      notify.success("Chat summary saved");
+      invalidateSummary();
+      setOpen(false);
+    },
+    onError: (error) => {
+      notify.error(`Failed to save summary: ${error.message}`);
+    },
+  });
+
+  const summarize = trpc.chat.summarize.useMutation({
+    onSuccess: (result) => {
+      notify.success(result.message);
+      invalidateSummary();
+    },
+    onError: (error) => {
+      notify.error(`Failed to summarize chat: ${error.message}`);
+    },
+  });
+
+  const deleteSummary = trpc.chat.deleteSummary.useMutation({
+    onSuccess: () => {
+      notify.success("Chat summary removed");
+      invalidateSummary();
+      setContent("");
+    },
+    onError: (error) => {
+      notify.error(`Failed to remove summary: ${error.message}`);
+    },
+  });
+
+  const updateAutoSummarize = trpc.settings.updateAutoSummarize.useMutation({
+    onSuccess: (result) => {
+      notify.success(result.message);
+      invalidateSummary();
+      utils.settings.get.invalidate();
+    },
+    onError: (error) => {
+      notify.error(`Failed to update setting: ${error.message}`);
+    },
+  });
+
+  const isBusy =
+    updateSummary.isPending || summarize.isPending || deleteSummary.isPending;
+
+  return (
+    <>
+      <Tooltip title="Chat summary">
+        <Button
+          variant="text"
+          onClick={() => setOpen(true)}
+          startIcon={<SummarizeIcon />}
+          sx={{ mt: 2, textTransform: "none" }}
+        >
+          Summary
+        </Button>
+      </Tooltip>
+
+      <Dialog open={open} onClose={() => setOpen(false)} fullWidth maxWidth="sm">
+        <DialogTitle>Chat summary</DialogTitle>
+        <DialogContent>
+          {isLoading ? (
+            <Box sx={{ display: "flex", justifyContent: "center", py: 4 }}>
+              <CircularProgress size={24} />
+            </Box>
+          ) : (
+            <Box
+              sx={{ display: "flex", flexDirection: "column", gap: 2, pt: 1 }}
+            >
+              <Typography variant="body2" color="text.secondary">
+                {summary
+                  ? [
+                      summary.summarizedMessageCount > 0 &&
+                        `Covers ${summary.summarizedMessageCount} earlier messages`,
+                      summary.model && `written by ${summary.model}`,
+                      summary.isEdited && "edited",
+                    ]
+                      .filter(Boolean)
+                      .join(" · ") || "Written by hand"
+                  : "No summary yet. Older messages are sent as-is until they no longer fit."}
+              </Typography>
+              <TextField
+                label="Summary"
+                multiline
+                minRows={4}
+                maxRows={14}
+                value={content}
+                onChange={(e) => setContent(e.target.value)}
+                placeholder="Key facts and decisions from earlier in the chat..."
+                inputProps={{ maxLength: 20000 }}
+              />
+              <FormControlLabel
+                control={
+                  <Switch
+                    checked={data?.autoSummarize ?? false}
+                    onChange={(e) =>
+                      updateAutoSummarize.mutate({
+                        autoSummarize: e.target.checked,
+                      })
+                    }
+                    disabled={updateAutoSummarize.isPending}
+                  />
+                }
+                label="Summarize long chats automatically (all chats)"
+              />
+            </Box>
+          )}
+        </DialogContent>
+        <DialogActions>
+          {summary && (
+            <Button
+              color="error"
+              onClick={() => deleteSummary.mutate({ id: chatId })}
+              disabled={isBusy}
+              sx={{ mr: "auto" }}
+            >
+              Remove
+            </Button>
+          )}
+          <Button
+            onClick={() => summarize.mutate({ id: chatId })}
+            disabled={isBusy || isLoading}
+            startIcon={summarize.isPending ? <CircularProgress size={16} /> : undefined}
+          >
+            Summarize now
+          </Button>
+          <Button onClick={() => setOpen(false)}>Cancel</Button>
+          <Button
+            variant="contained"
+            onClick={() => updateSummary.mutate({ id: chatId, content: content.trim() })}
+            disabled={isBusy || isLoading || !content.trim()}
+          >
+            Save
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  );
+};
+
+export default ChatSummaryPanel;
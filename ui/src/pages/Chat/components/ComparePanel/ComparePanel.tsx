@@ -0,0 +1,139 @@
+import { trpc } from "@/services/trpc";
+import CompareArrowsIcon from "@mui/icons-material/CompareArrows";
+import {
+  Box,
+  Button,
+  Checkbox,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  List,
+  ListItemButton,
+  ListItemIcon,
+  ListItemText,
+  Tooltip,
+  Typography,
+} from "@mui/material";
+import { useState } from "react";
+
+// Mirrors COMPARE_LIMITS on the server
+const MIN_MODELS = 2;
+const MAX_MODELS = 4;
+
+interface ComparePanelProps {
+  // Models the next prompt is sent to; empty when compare mode is off
+  modelIds: string[];
+  onChange: (modelIds: string[]) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Turns compare mode on for the chat: the next prompts are answered by every
+ * picked model, side by side.
+ */
+const ComparePanel = ({ modelIds, onChange, disabled = false }: ComparePanelProps) => {
+  const [open, setOpen] = useState(false);
+  const [selected, setSelected] = useState<string[]>([]);
+
+  const { data: modelData, isLoading } = trpc.model.list.useQuery(
+    {
+      includeSystem: true,
+      includeCustom: true,
+      onlyEnabled: true,
+    },
+    { enabled: open }
+  );
+  const models = modelData?.providers.flatMap(({ models }) => models) ?? [];
+
+  const openDialog = () => {
+    setSelected(modelIds);
+    setOpen(true);
+  };
+
+  const toggleModel = (modelId: string) =>
+    setSelected((prev) =>
+      prev.includes(modelId)
+        ? prev.filter((id) => id !== modelId)
+        : prev.length < MAX_MODELS
+        ? [...prev, modelId]
+        : prev
+    );
+
+  const apply = (ids: string[]) => {
+    onChange(ids);
+    setOpen(false);
+  };
+
+  const isOn = modelIds.length >= MIN_MODELS;
+
+  return (
+    <>
+      <Tooltip title="Compare models side by side">
+        <span>
+          <Button
+            variant={isOn ? "outlined" : "text"}
+            onClick={openDialog}
+            disabled={disabled}
+            startIcon={<CompareArrowsIcon />}
+            sx={{ mt: 2, textTransform: "none" }}
+          >
+            {isOn ? `Comparing ${modelIds.length}` : "Compare"}
+          </Button>
+        </span>
+      </Tooltip>
+
+      <Dialog open={open} onClose={() => setOpen(false)} fullWidth maxWidth="sm">
+        <DialogTitle>Compare models</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" color="text.secondary">
+            Pick {MIN_MODELS} to {MAX_MODELS} models. Each prompt is sent to
+            all of them and their answers are shown side by side; the one you
+            pick stays in the chat.
+          </Typography>
+          {isLoading ? (
+            <Box sx={{ display: "flex", justifyContent: "center", py: 4 }}>
+              <CircularProgress size={24} />
+            </Box>
+          ) : (
+            <List dense>
+              {models.map((model) => {
+                const checked = selected.includes(model.id);
+                return (
+                  <ListItemButton
+                    key={model.id}
+                    onClick={() => toggleModel(model.id)}
+                    disabled={!checked && selected.length >= MAX_MODELS}
+                  >
+                    <ListItemIcon>
+                      <Checkbox edge="start" checked={checked} tabIndex={-1} disableRipple />
+                    </ListItemIcon>
+                    <ListItemText primary={model.name} secondary={model.provider} />
+                  </ListItemButton>
+                );
+              })}
+            </List>
+          )}
+        </DialogContent>
+        <DialogActions>
+          {isOn && (
+            <Button color="inherit" onClick={() => apply([])} sx={{ mr: "auto" }}>
+              Turn off
+            </Button>
+          )}
+          <Button onClick={() => setOpen(false)}>Cancel</Button>
+          <Button
+            variant="contained"
+            onClick={() => apply(selected)}
+            disabled={selected.length < MIN_MODELS}
+          >
+            Compare
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  );
+};
+
+export default ComparePanel;
@@ -0,0 +1,142 @@
+import type { MessageType } from "@/hooks/useChatMessages/useChatMessages";
+import { trpc } from "@/services/trpc";
+import EmojiEventsIcon from "@mui/icons-material/EmojiEvents";
+import { Box, Button, Chip, Paper, Typography } from "@mui/material";
+import AgentMessage from "../AgentMessage/AgentMessage";
+
+interface ComparisonViewProps {
+  // Answers to the same prompt, in the order the models were picked
+  answers: MessageType[];
+  onPickWinner: (messageId: string) => void;
+  // Disable picking, e.g. while the answers are streaming
+  disabled?: boolean;
+}
+
+type AnswerMetadata = {
+  comparison?: { modelId?: string };
+  generation?: { provider?: string; model?: string };
+} | null;
+
+const isStreaming = (message: MessageType) =>
+  message.status === "STARTED" || message.status === "STREAMING";
+
+/**
+ * A prompt answered by several models, one column per answer. Picking a
+ * winner keeps that answer in the chat.
+ */
+const ComparisonView = ({ answers, onPickWinner, disabled = false }: ComparisonViewProps) => {
+  const { data: modelData } = trpc.model.list.useQuery({
+    includeSystem: true,
+    includeCustom: true,
+    onlyEnabled: true,
+  });
+  const models = modelData?.providers.flatMap(({ models }) => models) ?? [];
+
+  // The model asked, falling back to the one recorded once it answered
+  const modelLabel = (message: MessageType) => {
+    const metadata = message.metadata as AnswerMetadata;
+    const model = models.find(({ id }) => id === metadata?.comparison?.modelId);
+    if (model) return `${model.provider} / ${model.name}`;
+
+    const generation = metadata?.generation;
+    return generation ? `${generation.provider} / ${generation.model}` : "Model";
+  };
+
+  const isDone = answers.length > 0 && !answers.some(isStreaming);
+
+  return (
+    <Box data-testid="comparison" sx={{ mb: 2 }}>
+      {answers[0] && (
+        <Box
+          data-testid="message"
+          data-role="user"
+          sx={{ display: "flex", justifyContent: "flex-end", mb: 2 }}
+        >
+          <Box
+            sx={{
+              maxWidth: "70%",
+              p: 2,
+              borderRadius: 2,
+              bgcolor: "background.paper",
+              border: (theme) =>
+                theme.palette.mode === "light" ? "2px solid" : "none",
+              borderColor: (theme) =>
+                theme.palette.mode === "light" ? "divider" : "transparent",
+            }}
+          >
+            {answers[0].userContent}
+          </Box>
+        </Box>
+      )}
+
+      <Box
+        sx={{
+          display: "grid",
+          gap: 2,
+          gridTemplateColumns: {
+            xs: "minmax(0, 1fr)",
+            md: `repeat(${Math.max(answers.length, 1)}, minmax(0, 1fr))`,
+          },
+        }}
+      >
+        {answers.map((message) => (
+          <Paper
+            key={message.id}
+            variant="outlined"
+            data-testid="message"
+            data-role="assistant"
+            data-message-id={message.id}
+            sx={{ p: 2, display: "flex", flexDirection: "column", gap: 1 }}
+          >
+            <Box sx={{ display: "flex", alignItems: "center", gap: 1 }}>
+              <Typography variant="subtitle2" noWrap sx={{ flex: 1 }}>
+                {modelLabel(message)}
+              </Typography>
+              {message.status === "FAILED" && (
+                <Chip size="small" color="error" label="Failed" />
+              )}
+            </Box>
+
+            <Box sx={{ flex: 1 }}>
+              {message.agentContent ? (
+                <AgentMessage message={message} />
+              ) : isStreaming(message) ? (
+                <Box sx={{ fontStyle: "italic", opacity: 0.7 }}>
+                  AI is thinking...
+                </Box>
+              ) : (
+                <Typography variant="body2" color="error">
+                  {message.errorReason || "No answer"}
+                </Typography>
+              )}
+            </Box>
+
+            <Button
+              variant="outlined"
+              size="small"
+              startIcon={<EmojiEventsIcon />}
+              onClick={() => onPickWinner(message.id)}
+              disabled={disabled || !isDone || message.status !== "COMPLETED"}
+              sx={{ alignSelf: "flex-start" }}
+            >
+              Pick winner
+            </Button>
+          </Paper>
+        ))}
+      </Box>
+
+      {isDone && (
+        <Typography
+          variant="caption"
+          color="text.secondary"
+          sx={{ display: "block", mt: 1, textAlign: "center" }}
+        >
+          Pick the answer to keep in the chat. Sending a new message keeps the
+          first one.
+        </Typography>
+      )}
+    </Box>
+  );
+};
+
+export default ComparisonView;
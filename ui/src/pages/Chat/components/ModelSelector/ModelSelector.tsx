@@ -18,6 +18,7 @@ import {
   Typography,
 } from "@mui/material";
 import { useEffect, useRef, useState } from "react";
+import { Link as RouterLink } from "react-router-dom";
 
 interface ModelSelectorProps {
   chatId?: string;
@@ -113,6 +114,7 @@ const ModelSelector = ({
   const capitalizeProvider = (provider: string) => {
     if (provider === "openai") return "OpenAI";
     if (provider === "anthropic") return "Anthropic";
+    if (provider === "openai-compatible") return "Custom";
     return provider.charAt(0).toUpperCase() + provider.slice(1);
   };
 
@@ -333,6 +335,9 @@ const ModelSelector = ({
                 labelPlacement="end"
               />
               <Box sx={{ display: "flex", alignItems: "center", gap: 2 }}>
+                <Button component={RouterLink} to="/models" disabled={isMutating}>
+                  Manage models
+                </Button>
                 <Button
                   variant="contained"
                   disabled={!tempSelection || isMutating}
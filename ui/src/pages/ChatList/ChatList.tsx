@@ -1,7 +1,13 @@
+import ChatFolderFilter, {
+  type ChatListFilter,
+} from "@/components/ChatFolderFilter/ChatFolderFilter";
+import { useChatOrganization } from "@/hooks/useChatOrganization";
 import { trpc } from "@/services/trpc";
 import CancelIcon from "@mui/icons-material/Cancel";
 import DeleteIcon from "@mui/icons-material/Delete";
 import EditIcon from "@mui/icons-material/Edit";
+import PushPinIcon from "@mui/icons-material/PushPin";
+import PushPinOutlinedIcon from "@mui/icons-material/PushPinOutlined";
 import SaveIcon from "@mui/icons-material/Save";
 import {
   Box,
@@ -23,9 +29,12 @@ import {
 import { useState } from "react";
 
 export default function ChatList() {
+  const [filter, setFilter] = useState<ChatListFilter>({});
+  const organization = useChatOrganization();
+
   const { data, fetchNextPage, hasNextPage, isFetchingNextPage, isLoading } =
     trpc.chat.getAll.useInfiniteQuery(
-      { limit: 10 },
+      { limit: 10, ...filter },
       {
         getNextPageParam: (lastPage) => lastPage.nextCursor,
       }
@@ -49,10 +58,15 @@ export default function ChatList() {
     trpc.chat.deleteAll.useMutation({
       onSuccess: () => {
         utils.chat.getAll.invalidate();
+        utils.chat.listDeleted.invalidate();
         setDeleteAllDialogOpen(false);
       },
     });
 
+  // Dry run: how many chats "Remove All" would move to the trash
+  const { mutate: countAllChats, data: deleteAllPreview } =
+    trpc.chat.deleteAll.useMutation();
+
   const { mutate: updateChat } = trpc.chat.update.useMutation({
     onSuccess: () => {
       utils.chat.getAll.invalidate();
@@ -92,11 +106,12 @@ export default function ChatList() {
   };
 
   const handleDeleteAllClick = () => {
+    countAllChats({ dryRun: true });
     setDeleteAllDialogOpen(true);
   };
 
   const handleDeleteAllConfirm = () => {
-    deleteAllChats();
+    deleteAllChats({});
   };
 
   const handleDeleteAllCancel = () => {
@@ -137,6 +152,7 @@ export default function ChatList() {
   // Flatten all chats from all pages
   const allChats = data?.pages.flatMap((page) => page.chats) ?? [];
   const totalCount = allChats.length;
+  const deleteAllCount = deleteAllPreview?.deletedCount ?? totalCount;
 
   if (isLoading) {
     return (
@@ -180,10 +196,31 @@ export default function ChatList() {
         {totalCount} chats
       </Typography>
       <Divider sx={{ mb: 2 }} />
+      <Box sx={{ maxWidth: 360, mb: 1 }}>
+        <ChatFolderFilter
+          value={filter}
+          onChange={setFilter}
+          organization={organization}
+        />
+      </Box>
       <List sx={{ width: "100%", maxWidth: 360, bgcolor: "background.paper" }}>
         {allChats.map((chat) => (
           <ListItem
             key={chat.id}
+            {...organization.chatDragProps(chat.id)}
+            {...organization.dropTargetProps(chat.id, (chatId) =>
+              organization.placeBefore(
+                allChats.map((item) => item.id),
+                chatId,
+                chat.id
+              )
+            )}
+            sx={{
+              borderTop: "2px solid",
+              borderColor: organization.isDropTarget(chat.id)
+                ? "primary.main"
+                : "transparent",
+            }}
             secondaryAction={
               <Box sx={{ display: "flex", gap: 1 }}>
                 {editingChatId === chat.id ? (
@@ -208,6 +245,19 @@ export default function ChatList() {
                   </>
                 ) : (
                   <>
+                    <IconButton
+                      edge="end"
+                      aria-label={chat.isPinned ? "unpin" : "pin"}
+                      onClick={() =>
+                        organization.pinChats.mutate({
+                          ids: [chat.id],
+                          isPinned: !chat.isPinned,
+                        })
+                      }
+                      sx={{ color: "primary.main" }}
+                    >
+                      {chat.isPinned ? <PushPinIcon /> : <PushPinOutlinedIcon />}
+                    </IconButton>
                     <IconButton
                       edge="end"
                       aria-label="edit"
@@ -274,8 +324,8 @@ export default function ChatList() {
         <DialogTitle id="delete-dialog-title">Delete Chat</DialogTitle>
         <DialogContent>
           <DialogContentText id="delete-dialog-description">
-            Are you sure you want to delete this chat? This action cannot be
-            undone.
+            Move this chat to the trash? You can restore it from Settings
+            until it is removed for good.
           </DialogContentText>
         </DialogContent>
         <DialogActions>
@@ -302,8 +352,9 @@ export default function ChatList() {
         <DialogTitle id="delete-all-dialog-title">Delete All Chats</DialogTitle>
         <DialogContent>
           <DialogContentText id="delete-all-dialog-description">
-            Are you sure you want to delete ALL {totalCount} chats? This action
-            cannot be undone and will permanently remove all your chat history.
+            Are you sure you want to delete ALL {deleteAllCount} chats? They
+            are moved to the trash and removed for good after the retention
+            period.
           </DialogContentText>
         </DialogContent>
         <DialogActions>
@@ -316,7 +367,7 @@ export default function ChatList() {
             variant="contained"
             disabled={isDeletingAll}
           >
-            {isDeletingAll ? "Deleting..." : `Delete All ${totalCount} Chats`}
+            {isDeletingAll ? "Deleting..." : `Delete All ${deleteAllCount} Chats`}
           </Button>
         </DialogActions>
       </Dialog>
@@ -11,32 +11,35 @@ import logo from "../../assets/tea4chat.png";
 
 import { useState } from "react";
 import ChatCreateForm from "../../components/ChatCreateForm/ChatCreateForm";
+import { PresetOption } from "../../components/PresetPicker/PresetPicker";
 import { trpc } from "../../services/trpc";
 
 export default function Home({
   onSendMessage,
   isSending,
 }: {
-  onSendMessage: (content: string, modelId?: string) => void;
+  onSendMessage: (content: string, modelId?: string, presetId?: string) => void;
   isSending: boolean;
 }) {
   const { data: selectedModel } = trpc.model.getSelection.useQuery({
     chatId: undefined,
   });
-  const modelId = selectedModel?.selected?.id;
+  const [preset, setPreset] = useState<PresetOption | null>(null);
+  // A preset's own model wins over the default selection
+  const modelId = preset?.modelId ?? selectedModel?.selected?.id;
   const [question, setQuestion] = useState("");
   const [isFocused, setIsFocused] = useState(false);
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (question.trim()) {
-      onSendMessage(question.trim(), modelId);
+      onSendMessage(question.trim(), modelId, preset?.id);
       setQuestion("");
     }
   };
 
   const handleSuggestionClick = (questionText: string) => {
     setQuestion(questionText);
-    onSendMessage(question.trim(), modelId);
+    onSendMessage(question.trim(), modelId, preset?.id);
   };
 
   return (
@@ -94,6 +97,8 @@ export default function Home({
               setQuestion={setQuestion}
               isLoading={isSending}
               handleSubmit={handleSubmit}
+              presetId={preset?.id}
+              onPresetChange={setPreset}
             />
             <Collapse in={isFocused}>
               <List sx={{ mt: 1 }}>
@@ -0,0 +1,503 @@
+import { useNotify } from "@/providers/NotificationProdiver/useNotify";
+import { authClient } from "@/services/auth/authClient";
+import { trpc } from "@/services/trpc";
+import AddIcon from "@mui/icons-material/Add";
+import DeleteIcon from "@mui/icons-material/Delete";
+import EditIcon from "@mui/icons-material/Edit";
+import HubIcon from "@mui/icons-material/Hub";
+import RemoveCircleOutlineIcon from "@mui/icons-material/RemoveCircleOutline";
+import SyncIcon from "@mui/icons-material/Sync";
+import {
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  Container,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  IconButton,
+  List,
+  ListItem,
+  ListItemText,
+  MenuItem,
+  Skeleton,
+  Switch,
+  TextField,
+  Tooltip,
+  Typography,
+} from "@mui/material";
+import { useState } from "react";
+
+interface HeaderRow {
+  name: string;
+  value: string;
+}
+
+// Form values are kept as strings, like the presets form
+interface ModelFormValues {
+  provider: string;
+  name: string;
+  description: string;
+  endpoint: string;
+  contextWindow: string;
+  headers: HeaderRow[];
+  isEnabled: boolean;
+}
+
+const emptyForm: ModelFormValues = {
+  provider: "openai-compatible",
+  name: "",
+  description: "",
+  endpoint: "",
+  contextWindow: "",
+  headers: [],
+  isEnabled: true,
+};
+
+const providerLabels: Record<string, string> = {
+  "openai-compatible": "OpenAI-compatible",
+  ollama: "Ollama",
+};
+
+const endpointHints: Record<string, { placeholder: string; helperText: string }> = {
+  "openai-compatible": {
+    placeholder: "http://localhost:8000/v1",
+    helperText: "Base URL of the API, without /chat/completions",
+  },
+  ollama: {
+    placeholder: "http://localhost:11434",
+    helperText: "Address of the Ollama server",
+  },
+};
+
+const isHttpUrl = (value: string) => {
+  try {
+    return ["http:", "https:"].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+// Header values may hold credentials, they are never shown back in full
+const maskHeaderValue = (value: string) =>
+  value.length > 8 ? `${value.slice(0, 4)}…${value.slice(-2)}` : "••••";
+
+const readExtra = (extra: unknown) => {
+  const data = extra && typeof extra === "object" ? (extra as Record<string, unknown>) : {};
+  const headers =
+    data.headers && typeof data.headers === "object"
+      ? (data.headers as Record<string, string>)
+      : {};
+  const contextWindow = typeof data.contextWindow === "number" ? data.contextWindow : null;
+  return { headers, contextWindow };
+};
+
+const Models = () => {
+  const notify = useNotify();
+  const utils = trpc.useUtils();
+  const { data: session } = authClient.useSession();
+  // The server only calls endpoints set up by signed-in users
+  const canSetUp = !!session?.user;
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [values, setValues] = useState<ModelFormValues>(emptyForm);
+  const [syncOpen, setSyncOpen] = useState(false);
+  const [ollamaEndpoint, setOllamaEndpoint] = useState("http://localhost:11434");
+
+  const { data: modelData, isLoading } = trpc.model.list.useQuery({
+    includeSystem: false,
+    includeCustom: true,
+    onlyEnabled: false,
+  });
+  const { data: providers = [] } = trpc.model.customProviders.useQuery();
+
+  const models = modelData?.providers.flatMap(({ models }) => models) ?? [];
+
+  const refreshModels = () => {
+    utils.model.list.invalidate();
+    utils.model.getSelection.invalidate();
+  };
+
+  const onMutationError = (action: string) => (error: { message: string }) =>
+    notify.error(`Failed to ${action} model: ${error.message}`);
+
+  const createModel = trpc.model.create.useMutation({
+    onSuccess: (model) => {
+      notify.success(`Model "${model.name}" added`);
+      refreshModels();
+      setDialogOpen(false);
+    },
+    onError: onMutationError("add"),
+  });
+
+  const updateModel = trpc.model.update.useMutation({
+    onSuccess: (model) => {
+      notify.success(`Model "${model.name}" saved`);
+      refreshModels();
+      setDialogOpen(false);
+    },
+    onError: onMutationError("save"),
+  });
+
+  const deleteModel = trpc.model.delete.useMutation({
+    onSuccess: () => {
+      notify.success("Model deleted");
+      refreshModels();
+    },
+    onError: onMutationError("delete"),
+  });
+
+  const syncOllama = trpc.model.syncOllama.useMutation({
+    onSuccess: (result) => {
+      const changes = [
+        `${result.added.length} added`,
+        `${result.updated.length} updated`,
+        result.disabled.length > 0 && `${result.disabled.length} disabled`,
+      ].filter(Boolean);
+      notify.success(`Ollama models synced: ${changes.join(", ")}`);
+      if (result.skipped.length > 0) {
+        notify.warning(`Skipped ${result.skipped.join(", ")}: name taken or model limit reached`);
+      }
+      refreshModels();
+      setSyncOpen(false);
+    },
+    onError: (error) => notify.error(`Failed to sync Ollama models: ${error.message}`),
+  });
+
+  const contextWindow = values.contextWindow.trim();
+  const errors = {
+    name: values.name.trim() === "",
+    endpoint: !isHttpUrl(values.endpoint.trim()),
+    contextWindow:
+      contextWindow !== "" &&
+      !(Number.isInteger(Number(contextWindow)) && Number(contextWindow) > 0),
+    headers: values.headers.some(
+      (header) => header.value !== "" && header.name.trim() === ""
+    ),
+  };
+  const hasErrors = Object.values(errors).some(Boolean);
+
+  const handleChange =
+    (field: Exclude<keyof ModelFormValues, "headers" | "isEnabled">) =>
+    (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+      setValues((prev) => ({ ...prev, [field]: e.target.value }));
+
+  const updateHeader = (index: number, change: Partial<HeaderRow>) =>
+    setValues((prev) => ({
+      ...prev,
+      headers: prev.headers.map((header, i) =>
+        i === index ? { ...header, ...change } : header
+      ),
+    }));
+
+  const openCreate = () => {
+    setEditingId(null);
+    setValues(emptyForm);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (model: (typeof models)[number]) => {
+    const extra = readExtra(model.extra);
+    setEditingId(model.id);
+    setValues({
+      provider: model.provider,
+      name: model.name,
+      description: model.description ?? "",
+      endpoint: model.endpoint ?? "",
+      contextWindow: extra.contextWindow == null ? "" : String(extra.contextWindow),
+      headers: Object.entries(extra.headers).map(([name, value]) => ({ name, value })),
+      isEnabled: model.isEnabled,
+    });
+    setDialogOpen(true);
+  };
+
+  const handleSave = () => {
+    if (hasErrors) return;
+    const data = {
+      provider: values.provider,
+      name: values.name.trim(),
+      description: values.description.trim() || null,
+      endpoint: values.endpoint.trim(),
+      contextWindow: contextWindow === "" ? null : Number(contextWindow),
+      headers: Object.fromEntries(
+        values.headers
+          .filter((header) => header.name.trim() !== "")
+          .map((header) => [header.name.trim(), header.value])
+      ),
+      isEnabled: values.isEnabled,
+    };
+
+    if (editingId) {
+      updateModel.mutate({ id: editingId, ...data });
+    } else {
+      createModel.mutate(data);
+    }
+  };
+
+  const isSaving = createModel.isPending || updateModel.isPending;
+
+  return (
+    <Container maxWidth="md" sx={{ py: 4 }}>
+      <Card>
+        <CardContent>
+          <Typography
+            variant="h6"
+            gutterBottom
+            sx={{ display: "flex", alignItems: "center", gap: 1 }}
+          >
+            <HubIcon />
+            Custom models
+          </Typography>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+            Chat with models served from your own endpoints, such as Ollama or
+            any server with an OpenAI-compatible API (vLLM, LM Studio...). Add
+            an Authorization header if the endpoint needs a key.
+          </Typography>
+          {!canSetUp && (
+            <Typography variant="body2" color="warning.main" sx={{ mb: 2 }}>
+              Sign in to add your own models.
+            </Typography>
+          )}
+
+          <Box sx={{ display: "flex", gap: 1, flexWrap: "wrap", mb: 2 }}>
+            <Button
+              variant="contained"
+              startIcon={<AddIcon />}
+              onClick={openCreate}
+              disabled={!canSetUp}
+            >
+              Add model
+            </Button>
+            <Button
+              variant="outlined"
+              startIcon={<SyncIcon />}
+              onClick={() => setSyncOpen(true)}
+              disabled={!canSetUp}
+            >
+              Sync Ollama models
+            </Button>
+          </Box>
+
+          {isLoading ? (
+            <Skeleton variant="rectangular" height={80} />
+          ) : models.length === 0 ? (
+            <Typography variant="body2" color="text.secondary">
+              No custom models yet.
+            </Typography>
+          ) : (
+            <List dense disablePadding>
+              {models.map((model) => (
+                <ListItem
+                  key={model.id}
+                  disableGutters
+                  secondaryAction={
+                    <Box sx={{ display: "flex" }}>
+                      <Tooltip title="Edit">
+                        <IconButton size="small" onClick={() => openEdit(model)}>
+                          <EditIcon fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                      <Tooltip title="Delete">
+                        <IconButton
+                          size="small"
+                          onClick={() => deleteModel.mutate({ id: model.id })}
+                          disabled={deleteModel.isPending}
+                        >
+                          <DeleteIcon fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                    </Box>
+                  }
+                >
+                  <ListItemText
+                    primary={
+                      <Box sx={{ display: "flex", alignItems: "center", gap: 1 }}>
+                        {model.name}
+                        <Chip
+                          label={providerLabels[model.provider] ?? model.provider}
+                          size="small"
+                          variant="outlined"
+                        />
+                        {!model.isEnabled && (
+                          <Chip label="Disabled" size="small" variant="outlined" />
+                        )}
+                      </Box>
+                    }
+                    secondary={
+                      [
+                        model.endpoint,
+                        ...Object.entries(readExtra(model.extra).headers).map(
+                          ([name, value]) => `${name}: ${maskHeaderValue(value)}`
+                        ),
+                      ]
+                        .filter(Boolean)
+                        .join(" · ") || null
+                    }
+                    sx={{ pr: 10 }}
+                  />
+                </ListItem>
+              ))}
+            </List>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={dialogOpen} onClose={() => setDialogOpen(false)} fullWidth maxWidth="sm">
+        <DialogTitle>{editingId ? "Edit model" : "Add model"}</DialogTitle>
+        <DialogContent>
+          <Box sx={{ display: "flex", flexDirection: "column", gap: 2, pt: 1 }}>
+            <TextField
+              select
+              label="Provider"
+              value={values.provider}
+              onChange={handleChange("provider")}
+            >
+              {providers.map((provider) => (
+                <MenuItem key={provider} value={provider}>
+                  {providerLabels[provider] ?? provider}
+                </MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              label="Model name"
+              value={values.name}
+              onChange={handleChange("name")}
+              helperText="The model id the endpoint expects, e.g. llama3.1:8b"
+              inputProps={{ maxLength: 100 }}
+              required
+            />
+            <TextField
+              label="Endpoint"
+              value={values.endpoint}
+              onChange={handleChange("endpoint")}
+              placeholder={endpointHints[values.provider]?.placeholder}
+              error={values.endpoint !== "" && errors.endpoint}
+              helperText={endpointHints[values.provider]?.helperText}
+              required
+            />
+            <TextField
+              label="Description"
+              value={values.description}
+              onChange={handleChange("description")}
+              inputProps={{ maxLength: 500 }}
+            />
+            <TextField
+              label="Context window"
+              type="number"
+              value={values.contextWindow}
+              onChange={handleChange("contextWindow")}
+              error={errors.contextWindow}
+              helperText={errors.contextWindow ? "A positive number of tokens" : "Tokens, optional"}
+              inputProps={{ step: 1, min: 1 }}
+            />
+
+            <Box>
+              <Typography variant="subtitle2" gutterBottom>
+                Headers
+              </Typography>
+              {values.headers.map((header, index) => (
+                <Box key={index} sx={{ display: "flex", gap: 1, mb: 1 }}>
+                  <TextField
+                    size="small"
+                    label="Name"
+                    value={header.name}
+                    onChange={(e) => updateHeader(index, { name: e.target.value })}
+                    placeholder="Authorization"
+                    error={header.value !== "" && header.name.trim() === ""}
+                    sx={{ flex: 1 }}
+                  />
+                  <TextField
+                    size="small"
+                    label="Value"
+                    value={header.value}
+                    onChange={(e) => updateHeader(index, { value: e.target.value })}
+                    placeholder="Bearer ..."
+                    sx={{ flex: 2 }}
+                  />
+                  <IconButton
+                    size="small"
+                    onClick={() =>
+                      setValues((prev) => ({
+                        ...prev,
+                        headers: prev.headers.filter((_, i) => i !== index),
+                      }))
+                    }
+                  >
+                    <RemoveCircleOutlineIcon fontSize="small" />
+                  </IconButton>
+                </Box>
+              ))}
+              <Button
+                size="small"
+                startIcon={<AddIcon />}
+                onClick={() =>
+                  setValues((prev) => ({
+                    ...prev,
+                    headers: [...prev.headers, { name: "", value: "" }],
+                  }))
+                }
+              >
+                Add header
+              </Button>
+            </Box>
+
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={values.isEnabled}
+                  onChange={(e) =>
+                    setValues((prev) => ({ ...prev, isEnabled: e.target.checked }))
+                  }
+                />
+              }
+              label="Show in the model picker"
+            />
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDialogOpen(false)}>Cancel</Button>
+          <Button
+            variant="contained"
+            onClick={handleSave}
+            disabled={hasErrors || isSaving}
+          >
+            Save
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <Dialog open={syncOpen} onClose={() => setSyncOpen(false)} fullWidth maxWidth="xs">
+        <DialogTitle>Sync Ollama models</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            Adds every model installed on the server. Models removed from it
+            since the last sync are disabled.
+          </Typography>
+          <TextField
+            label="Ollama server"
+            value={ollamaEndpoint}
+            onChange={(e) => setOllamaEndpoint(e.target.value)}
+            error={!isHttpUrl(ollamaEndpoint.trim())}
+            fullWidth
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setSyncOpen(false)}>Cancel</Button>
+          <Button
+            variant="contained"
+            onClick={() => syncOllama.mutate({ endpoint: ollamaEndpoint.trim() })}
+            disabled={!isHttpUrl(ollamaEndpoint.trim()) || syncOllama.isPending}
+          >
+            Sync
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Container>
+  );
+};
+
+export default Models;
@@ -21,7 +21,11 @@ import { trpc } from "../../services/trpc";
 import AnonymousSessionSync from "./components/AnonymousSessionSync/AnonymousSessionSync";
 import ApiKeysCard from "./components/ApiKeysCard/ApiKeysCard";
 import ChatDataCard from "./components/ChatDataCard/ChatDataCard";
+import FailoverCard from "./components/FailoverCard/FailoverCard";
+import PresetsCard from "./components/PresetsCard/PresetsCard";
 import ThemeCard from "./components/ThemeCard/ThemeCard";
+import TrashCard from "./components/TrashCard/TrashCard";
+import UsageCard from "./components/UsageCard/UsageCard";
 
 const Settings = () => {
   const { data: profile, isLoading, error } = trpc.profile.useQuery();
@@ -184,10 +188,34 @@ const Settings = () => {
               <ApiKeysCard />
             </Grid>
 
+            {/* Presets Card */}
+            <Grid item xs={12}>
+              <PresetsCard
+                isAdmin={
+                  !!profile?.authenticated && "isAdmin" in profile && profile.isAdmin
+                }
+              />
+            </Grid>
+
+            {/* Failover Card */}
+            <Grid item xs={12}>
+              <FailoverCard />
+            </Grid>
+
+            {/* Usage & Budget Card */}
+            <Grid item xs={12}>
+              <UsageCard />
+            </Grid>
+
             {/* Chat Data Management Card */}
             <Grid item xs={12}>
               <ChatDataCard />
             </Grid>
+
+            {/* Trash Card */}
+            <Grid item xs={12}>
+              <TrashCard />
+            </Grid>
           </Grid>
         </Grid>
       </Grid>
@@ -1,6 +1,7 @@
 import { useNotify } from "@/providers/NotificationProdiver/useNotify";
 import { trpc } from "@/services/trpc";
 import DeleteOutlineOutlinedIcon from '@mui/icons-material/DeleteOutlineOutlined';
+import EditOutlinedIcon from "@mui/icons-material/EditOutlined";
 import KeyIcon from "@mui/icons-material/Key";
 import SaveIcon from "@mui/icons-material/Save";
 import {
@@ -10,48 +11,72 @@ import {
   CardContent,
   Chip,
   CircularProgress,
+  Collapse,
   IconButton,
   TextField,
   Typography,
 } from "@mui/material";
 import { Field, FieldProps, Form, Formik } from "formik";
+import { useState } from "react";
 import * as Yup from "yup";
+
+interface CredentialProvider {
+  name: string;
+  label: string;
+  keyPrefix?: string;
+  baseUrl: boolean;
+  orgId: boolean;
+  credential: {
+    hint: string;
+    baseUrl: string | null;
+    orgId: string | null;
+  } | null;
+}
+
 interface FormValues {
-  openaiApiKey: string;
-  anthropicApiKey: string;
+  apiKey: string;
+  baseUrl: string;
+  orgId: string;
 }
 
-// Validation schema
-const validationSchema = Yup.object({
-  openaiApiKey: Yup.string()
-    .test('format', 'OpenAI API key must start with "sk-"', function(value: string | undefined) {
-      if (!value || value === '') return true; // Allow empty
-      return value.startsWith('sk-');
-    }),
-  anthropicApiKey: Yup.string()
-    .test('format', 'Anthropic API key must start with "sk-ant-"', function(value: string | undefined) {
-      if (!value || value === '') return true; // Allow empty
-      return value.startsWith('sk-ant-');
-    }),
-});
+const createValidationSchema = (provider: CredentialProvider, keyRequired: boolean) =>
+  Yup.object({
+    apiKey: Yup.string()
+      .test('required', `Enter your ${provider.label} API key`, function(value: string | undefined) {
+        return !keyRequired || !!value?.trim();
+      })
+      .test('format', `${provider.label} API key must start with "${provider.keyPrefix}"`, function(value: string | undefined) {
+        if (!value || value === '' || !provider.keyPrefix) return true; // Allow empty
+        return value.trim().startsWith(provider.keyPrefix);
+      }),
+    baseUrl: Yup.string().url('Base URL must be a URL'),
+    orgId: Yup.string().max(200),
+  });
 
-const ApiKeysCard = () => {
-  const { data: settings, refetch } = trpc.settings.get.useQuery();
+const ProviderCredentialRow = ({ provider }: { provider: CredentialProvider }) => {
   const notify = useNotify();
-  
-  const updateApiKeysMutation = trpc.settings.updateApiKeys.useMutation({
-    onSuccess: () => {
-      notify.success("API keys updated successfully!");
+  const utils = trpc.useUtils();
+  const { credential } = provider;
+  const [editing, setEditing] = useState(false);
+  const [showAdvanced, setShowAdvanced] = useState(false);
+
+  const saveCredentialMutation = trpc.settings.saveCredential.useMutation({
+    onSuccess: (data) => {
+      notify.success(data.message);
+      utils.settings.listCredentials.invalidate();
+      setEditing(false);
     },
     onError: (error) => {
-      notify.error(`Failed to update API keys: ${error.message}`);
+      notify.error(`Failed to save API key: ${error.message}`);
     },
   });
 
-  const deleteApiKeysMutation = trpc.settings.deleteApiKeys.useMutation({
-    onSuccess: () => {
-      notify.success("API key deleted successfully!");
-      refetch(); // Refetch settings after successful deletion
+  const testApiKeyMutation = trpc.settings.testApiKey.useMutation();
+
+  const deleteCredentialMutation = trpc.settings.deleteCredential.useMutation({
+    onSuccess: (data) => {
+      notify.success(data.message);
+      utils.settings.listCredentials.invalidate();
     },
     onError: (error) => {
       notify.error(`Failed to delete API key: ${error.message}`);
@@ -59,34 +84,180 @@ const ApiKeysCard = () => {
   });
 
   const handleSubmit = async (values: FormValues, { resetForm }: { resetForm: () => void }) => {
-    const updateData: { openaiApiKey?: string; anthropicApiKey?: string } = {};
-    
-    // Only include fields that have values
-    if (values.openaiApiKey && values.openaiApiKey.trim()) {
-      updateData.openaiApiKey = values.openaiApiKey.trim();
-    }
-    
-    if (values.anthropicApiKey && values.anthropicApiKey.trim()) {
-      updateData.anthropicApiKey = values.anthropicApiKey.trim();
+    const input = {
+      provider: provider.name,
+      // An empty key keeps the stored one
+      apiKey: values.apiKey.trim() || undefined,
+      baseUrl: values.baseUrl.trim() || null,
+      orgId: values.orgId.trim() || null,
+    };
+
+    // Check the key with the provider first: a rejected key is not saved
+    try {
+      const result = await testApiKeyMutation.mutateAsync(input);
+      if (result.status === "invalid") {
+        notify.error(result.message);
+        return;
+      }
+      if (result.status !== "valid") {
+        notify.warning(`Saving anyway: ${result.message}`);
+      }
+    } catch (error) {
+      notify.error(`Failed to test API key: ${(error as Error).message}`);
+      return;
     }
 
-    await updateApiKeysMutation.mutateAsync(updateData);
-    
-    // Reset form to untouched state and refetch data
+    await saveCredentialMutation.mutateAsync(input);
     resetForm();
-    refetch();
   };
 
-  const handleDeleteKey = (keyType: 'openai' | 'anthropic') => {
-    const deleteData = {
-      deleteOpenai: keyType === 'openai',
-      deleteAnthropic: keyType === 'anthropic',
-    };
-    
-    deleteApiKeysMutation.mutate(deleteData);
-  };
+  const hasOptions = provider.baseUrl || provider.orgId;
+
+  if (credential && !editing) {
+    const details = [
+      `✓ Configured (…${credential.hint})`,
+      credential.baseUrl,
+      credential.orgId && `org ${credential.orgId}`,
+    ].filter(Boolean);
 
-  if (!settings) {
+    return (
+      <Box sx={{ display: "flex", alignItems: "center", justifyContent: "space-between", p: 2, bgcolor: "success.dark", borderRadius: 1, color: "success.contrastText" }}>
+        <Box sx={{ display: "flex", alignItems: "center", gap: 1, minWidth: 0 }}>
+          <Chip
+            label={`${provider.label} API Key`}
+            color="success"
+            variant="filled"
+            size="small"
+          />
+          <Typography variant="body2" color="inherit" noWrap>
+            {details.join(" · ")}
+          </Typography>
+        </Box>
+        <Box sx={{ display: "flex" }}>
+          <IconButton
+            color="inherit"
+            onClick={() => {
+              setShowAdvanced(!!(credential.baseUrl || credential.orgId));
+              setEditing(true);
+            }}
+            title={`Edit ${provider.label} API Key`}
+            sx={{ p: 1 }}
+          >
+            <EditOutlinedIcon fontSize="medium" />
+          </IconButton>
+          <IconButton
+            color="inherit"
+            onClick={() => deleteCredentialMutation.mutate({ provider: provider.name })}
+            disabled={deleteCredentialMutation.isPending}
+            title={`Delete ${provider.label} API Key`}
+            sx={{ p: 1 }}
+          >
+            <DeleteOutlineOutlinedIcon fontSize="medium" />
+          </IconButton>
+        </Box>
+      </Box>
+    );
+  }
+
+  return (
+    <Formik
+      initialValues={{
+        apiKey: '',
+        baseUrl: credential?.baseUrl ?? '',
+        orgId: credential?.orgId ?? '',
+      }}
+      validationSchema={createValidationSchema(provider, !credential)}
+      onSubmit={handleSubmit}
+    >
+      {({ errors, isSubmitting, dirty }) => (
+        <Form>
+          <Box sx={{ display: "flex", flexDirection: "column", gap: 1 }}>
+            <Field name="apiKey">
+              {({ field }: FieldProps<string>) => (
+                <TextField
+                  {...field}
+                  label={`${provider.label} API Key`}
+                  type="password"
+                  fullWidth
+                  placeholder={provider.keyPrefix ? `${provider.keyPrefix}...` : undefined}
+                  helperText={
+                    (dirty && errors.apiKey) ||
+                    (credential
+                      ? "Leave empty to keep the current key"
+                      : `Enter your ${provider.label} API key`)
+                  }
+                  error={dirty && !!errors.apiKey}
+                />
+              )}
+            </Field>
+
+            {hasOptions && (
+              <Collapse in={showAdvanced}>
+                <Box sx={{ display: "flex", flexDirection: "column", gap: 2, pt: 1 }}>
+                  {provider.baseUrl && (
+                    <Field name="baseUrl">
+                      {({ field }: FieldProps<string>) => (
+                        <TextField
+                          {...field}
+                          label="Base URL"
+                          size="small"
+                          fullWidth
+                          helperText={errors.baseUrl || "Send requests through a proxy or gateway instead"}
+                          error={!!errors.baseUrl}
+                        />
+                      )}
+                    </Field>
+                  )}
+                  {provider.orgId && (
+                    <Field name="orgId">
+                      {({ field }: FieldProps<string>) => (
+                        <TextField
+                          {...field}
+                          label="Organization ID"
+                          size="small"
+                          fullWidth
+                          helperText={errors.orgId || "Bill requests to this organization"}
+                          error={!!errors.orgId}
+                        />
+                      )}
+                    </Field>
+                  )}
+                </Box>
+              </Collapse>
+            )}
+
+            <Box sx={{ display: "flex", gap: 1 }}>
+              <Button
+                type="submit"
+                variant="contained"
+                size="small"
+                startIcon={isSubmitting ? <CircularProgress size={16} /> : <SaveIcon />}
+                disabled={!dirty || isSubmitting || Object.keys(errors).length > 0}
+              >
+                {testApiKeyMutation.isPending ? "Testing..." : isSubmitting ? "Saving..." : "Save"}
+              </Button>
+              {hasOptions && (
+                <Button size="small" onClick={() => setShowAdvanced((show) => !show)}>
+                  {showAdvanced ? "Hide options" : "Options"}
+                </Button>
+              )}
+              {credential && (
+                <Button size="small" onClick={() => setEditing(false)}>
+                  Cancel
+                </Button>
+              )}
+            </Box>
+          </Box>
+        </Form>
+      )}
+    </Formik>
+  );
+};
+
+const ApiKeysCard = () => {
+  const { data: providers } = trpc.settings.listCredentials.useQuery();
+
+  if (!providers) {
     return (
       <Card>
         <CardContent>
@@ -109,119 +280,16 @@ const ApiKeysCard = () => {
           <KeyIcon />
           API Keys Management
         </Typography>
-        
+
         <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
-          Add your API keys to use different AI models. Keys are stored securely and never displayed.
+          Add your API keys to use different AI models. Keys are encrypted at rest and never displayed.
         </Typography>
 
-        <Formik
-          initialValues={{
-            openaiApiKey: '',
-            anthropicApiKey: '',
-          }}
-          validationSchema={validationSchema}
-          onSubmit={handleSubmit}
-        >
-          {({ errors, isSubmitting, dirty }) => (
-            <Form>
-              <Box sx={{ display: "flex", flexDirection: "column", gap: 2 }}>
-                {/* OpenAI API Key Section */}
-                {settings.hasOpenaiApiKey ? (
-                  <Box sx={{ display: "flex", alignItems: "center", justifyContent: "space-between", p: 2, bgcolor: "success.dark", borderRadius: 1, color: "success.contrastText" }}>
-                    <Box sx={{ display: "flex", alignItems: "center", gap: 1 }}>
-                      <Chip 
-                        label="OpenAI API Key" 
-                        color="success" 
-                        variant="filled"
-                        size="small"
-                      />
-                      <Typography variant="body2" color="inherit">
-                        ✓ Configured
-                      </Typography>
-                    </Box>
-                    <IconButton
-                      color="inherit"
-                      onClick={() => handleDeleteKey('openai')}
-                      disabled={deleteApiKeysMutation.isPending}
-                      title="Delete OpenAI API Key"
-                      sx={{ p: 1 }}
-                    >
-                      <DeleteOutlineOutlinedIcon fontSize="medium" />
-                    </IconButton>
-                  </Box>
-                ) : (
-                  <Field name="openaiApiKey">
-                    {({ field }: FieldProps<string>) => (
-                      <TextField
-                        {...field}
-                        label="OpenAI API Key"
-                        type="password"
-                        fullWidth
-                        placeholder="sk-..."
-                        helperText={errors.openaiApiKey || "Enter your OpenAI API key for GPT models"}
-                        error={!!errors.openaiApiKey}
-                      />
-                    )}
-                  </Field>
-                )}
-                
-                {/* Anthropic API Key Section */}
-                {settings.hasAnthropicApiKey ? (
-                  <Box sx={{ display: "flex", alignItems: "center", justifyContent: "space-between", p: 2, bgcolor: "success.dark", borderRadius: 1, color: "white" }}>
-                    <Box sx={{ display: "flex", alignItems: "center", gap: 1 }}>
-                      <Chip 
-                        label="Anthropic API Key" 
-                        color="success" 
-                        variant="filled"
-                        size="small"
-                      />
-                      <Typography variant="body2" color="inherit">
-                        ✓ Configured
-                      </Typography>
-                    </Box>
-                    <IconButton
-                      color="inherit"
-                      onClick={() => handleDeleteKey('anthropic')}
-                      disabled={deleteApiKeysMutation.isPending}
-                      title="Delete Anthropic API Key"
-                      sx={{ p: 1 }}
-                    >
-                      <DeleteOutlineOutlinedIcon fontSize="medium" />
-                    </IconButton>
-                  </Box>
-                ) : (
-                  <Field name="anthropicApiKey">
-                    {({ field }: FieldProps<string>) => (
-                      <TextField
-                        {...field}
-                        label="Anthropic API Key"
-                        type="password"
-                        fullWidth
-                        placeholder="sk-ant-..."
-                        helperText={errors.anthropicApiKey || "Enter your Anthropic API key for Claude models"}
-                        error={!!errors.anthropicApiKey}
-                      />
-                    )}
-                  </Field>
-                )}
-
-                <Box sx={{ display: "flex", flexDirection: "column", gap: 2 }}>
-                  {(!settings.hasOpenaiApiKey || !settings.hasAnthropicApiKey) && (
-                    <Button
-                      type="submit"
-                      variant="contained"
-                      startIcon={isSubmitting ? <CircularProgress size={16} /> : <SaveIcon />}
-                      disabled={!dirty || isSubmitting || !!errors.openaiApiKey || !!errors.anthropicApiKey}
-                      sx={{ alignSelf: "flex-start" }}
-                    >
-                      {isSubmitting ? "Saving..." : "Save API Keys"}
-                    </Button>
-                  )}
-                </Box>
-              </Box>
-            </Form>
-          )}
-        </Formik>
+        <Box sx={{ display: "flex", flexDirection: "column", gap: 2 }}>
+          {providers.map((provider) => (
+            <ProviderCredentialRow key={provider.name} provider={provider} />
+          ))}
+        </Box>
       </CardContent>
     </Card>
   );
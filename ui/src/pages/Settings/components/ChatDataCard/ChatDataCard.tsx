@@ -1,8 +1,12 @@
+import { useChatImportJob } from "@/hooks/useChatImportJob";
+import useValueChange from "@/hooks/useValueChange";
 import { useNotify } from "@/providers/NotificationProdiver/useNotify";
 import { trpc } from "@/services/trpc";
 import CloudDownloadIcon from "@mui/icons-material/CloudDownload";
 import CloudUploadIcon from "@mui/icons-material/CloudUpload";
+import DescriptionIcon from "@mui/icons-material/Description";
 import ImportExportIcon from "@mui/icons-material/ImportExport";
+import LanguageIcon from "@mui/icons-material/Language";
 import {
   Alert,
   Box,
@@ -14,25 +18,74 @@ import {
   Typography
 } from "@mui/material";
 import { useRef, useState } from "react";
+import ImportPreviewDialog, {
+  type ImportPreview,
+} from "../ImportPreviewDialog/ImportPreviewDialog";
+
+// Larger files skip the preview and are imported by a background job
+const PREVIEW_MAX_BYTES = 8 * 1024 * 1024;
 
 const ChatDataCard = () => {
   const [importing, setImporting] = useState(false);
-  const [exporting, setExporting] = useState(false);
   const [importSuccess, setImportSuccess] = useState(false);
-  const [exportSuccess, setExportSuccess] = useState(false);
   const [jsonInput, setJsonInput] = useState('');
   const [processingJson, setProcessingJson] = useState(false);
+  const [importFailures, setImportFailures] = useState<
+    { index: number; title: string; error: string }[]
+  >([]);
+  const [pendingImport, setPendingImport] = useState<{
+    jsonData: string;
+    preview: ImportPreview;
+  } | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const { error, success } = useNotify();
+  const { error, success, warning } = useNotify();
   const utils = trpc.useUtils();
+  const importJob = useChatImportJob();
+
+  useValueChange(importJob.job?.status, (status) => {
+    const job = importJob.job;
+    if (!job || (status !== "completed" && status !== "failed")) return;
+
+    const message = `Import completed: ${job.importedChats} chats imported successfully, ${job.failedChats} failed`;
+    if (status === "failed") {
+      error(job.error || "Failed to import chats");
+    } else if (job.failedChats > 0) {
+      warning(message);
+    } else {
+      success(message);
+    }
+
+    setImportFailures(job.failures);
+    if (job.importedChats > 0) {
+      setImportSuccess(true);
+      setTimeout(() => setImportSuccess(false), 3000);
+      utils.chat.invalidate();
+    }
+    importJob.reset();
+  });
 
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
 
+    const fileName = file.name.toLowerCase();
+
     // Validate file type
-    if (!file.name.toLowerCase().endsWith('.json')) {
-      error('Only JSON files are allowed for import');
+    if (!fileName.endsWith('.json') && !fileName.endsWith('.ndjson')) {
+      error('Only JSON and NDJSON files are allowed for import');
+      return;
+    }
+
+    if (fileName.endsWith('.ndjson') || file.size > PREVIEW_MAX_BYTES) {
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
+      setImportFailures([]);
+      try {
+        await importJob.startImport(file);
+      } catch (err) {
+        error(err instanceof Error ? err.message : 'Failed to upload the import file');
+      }
       return;
     }
 
@@ -48,10 +101,11 @@ const ChatDataCard = () => {
         return;
       }
 
-      // Submit to the server using the same import endpoint
-      await importChatsMutation.mutateAsync({
+      // Let the server detect the format and show what will be imported
+      const preview = await previewImportMutation.mutateAsync({
         jsonData: fileContent,
       });
+      setPendingImport({ jsonData: fileContent, preview });
       
       // Reset file input
       if (fileInputRef.current) {
@@ -65,58 +119,43 @@ const ChatDataCard = () => {
     }
   };
 
-  const exportChatsMutation = trpc.chat.export.useQuery(undefined, {
-    enabled: false, // Don't auto-fetch, only fetch when called manually
+  const handleUploadClick = () => {
+    fileInputRef.current?.click();
+  };
+
+  const previewImportMutation = trpc.chat.previewImport.useMutation({
+    onError: (err) => {
+      error(err.message || 'Failed to read the import file');
+    },
   });
 
-  const handleExportChats = async () => {
-    setExporting(true);
-    try {
-      // Fetch export data from the server
-      const exportData = await exportChatsMutation.refetch();
-      
-      if (!exportData.data) {
-        throw new Error('No export data received');
-      }
+  const handleConfirmImport = async () => {
+    if (!pendingImport) return;
 
-      // Create and download file
-      const blob = new Blob([JSON.stringify(exportData.data, null, 2)], {
-        type: 'application/json'
+    setImporting(true);
+    try {
+      await importChatsMutation.mutateAsync({
+        jsonData: pendingImport.jsonData,
       });
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = `tea4chat-export-${new Date().toISOString().split('T')[0]}.json`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      URL.revokeObjectURL(url);
-
-      setExportSuccess(true);
-      success(`Exported ${exportData.data.stats.totalChats} chats with ${exportData.data.stats.totalMessages} messages!`);
-      setTimeout(() => setExportSuccess(false), 3000);
+      setPendingImport(null);
     } catch (err) {
-      error('Failed to export chats');
-      console.error('Export error:', err);
+      // Error handling is done in the mutation's onError
+      console.error('File import error:', err);
     } finally {
-      setExporting(false);
+      setImporting(false);
     }
   };
 
-  const handleUploadClick = () => {
-    fileInputRef.current?.click();
-  };
-
   const importChatsMutation = trpc.chat.import.useMutation({
     onSuccess: (data) => {
-      setImportSuccess(true);
-      success(data.message);
-      setTimeout(() => setImportSuccess(false), 3000);
-      
-      // Log detailed results for debugging
-      if (data.results.errors.length > 0) {
-        console.warn('Import Errors:', data.results.errors);
+      setImportSuccess(data.results.successful > 0);
+      setImportFailures(data.results.failures);
+      if (data.results.failed > 0) {
+        warning(data.message);
+      } else {
+        success(data.message);
       }
+      setTimeout(() => setImportSuccess(false), 3000);
       
       // Clear the textarea
       setJsonInput('');
@@ -125,6 +164,7 @@ const ChatDataCard = () => {
       utils.chat.invalidate();
     },
     onError: (err) => {
+      setImportFailures([]);
       error(err.message || 'Failed to import chats');
       console.error('Import error:', err);
     },
@@ -171,7 +211,7 @@ const ChatDataCard = () => {
           </Typography>
           
           <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
-            Import and export your chat history. Only JSON files are supported for import.
+            Import and export your chat history. Import accepts tea4chat exports and the conversations.json file from ChatGPT or Claude data exports.
           </Typography>
 
           {importSuccess && (
@@ -180,27 +220,55 @@ const ChatDataCard = () => {
             </Alert>
           )}
 
-          {exportSuccess && (
-            <Alert severity="success" sx={{ mb: 2 }}>
-              Chats exported successfully!
+          {importFailures.length > 0 && (
+            <Alert
+              severity="warning"
+              sx={{ mb: 2 }}
+              onClose={() => setImportFailures([])}
+            >
+              {importFailures.length === 1
+                ? "1 chat could not be imported:"
+                : `${importFailures.length} chats could not be imported:`}
+              <Box component="ul" sx={{ m: 0, pl: 2 }}>
+                {importFailures.map((failure) => (
+                  <li key={failure.index}>
+                    #{failure.index + 1} "{failure.title}": {failure.error}
+                  </li>
+                ))}
+              </Box>
             </Alert>
           )}
 
           {importing && (
             <Box sx={{ mb: 2 }}>
               <Typography variant="body2" color="text.secondary" gutterBottom>
-                Importing chats...
+                {previewImportMutation.isPending
+                  ? "Reading import file..."
+                  : "Importing chats..."}
               </Typography>
               <LinearProgress />
             </Box>
           )}
 
-          {exporting && (
+          {importJob.isRunning && (
             <Box sx={{ mb: 2 }}>
               <Typography variant="body2" color="text.secondary" gutterBottom>
-                Exporting chats...
+                {importJob.upload
+                  ? `Uploading ${importJob.upload.sent} of ${importJob.upload.total} parts...`
+                  : `Importing chats... ${importJob.job?.importedChats ?? 0} imported${
+                      importJob.job?.failedChats
+                        ? `, ${importJob.job.failedChats} failed`
+                        : ""
+                    }`}
               </Typography>
-              <LinearProgress />
+              <LinearProgress
+                variant={importJob.upload ? "determinate" : "indeterminate"}
+                value={
+                  importJob.upload
+                    ? (importJob.upload.sent / importJob.upload.total) * 100
+                    : undefined
+                }
+              />
             </Box>
           )}
 
@@ -240,7 +308,7 @@ const ChatDataCard = () => {
               color="warning"
               startIcon={<CodeIcon />}
               onClick={handleJsonSubmit}
-              disabled={importing || exporting || processingJson || !jsonInput.trim()}
+              disabled={importing || processingJson || !jsonInput.trim()}
               fullWidth
             >
               {processingJson ? "Processing JSON..." : "Test JSON Import"}
@@ -254,7 +322,7 @@ const ChatDataCard = () => {
             <input
               ref={fileInputRef}
               type="file"
-              accept=".json"
+              accept=".json,.ndjson"
               style={{ display: 'none' }}
               onChange={handleFileUpload}
             />
@@ -264,28 +332,63 @@ const ChatDataCard = () => {
               variant="outlined"
               startIcon={<CloudUploadIcon />}
               onClick={handleUploadClick}
-              disabled={importing || exporting}
+              disabled={importing || importJob.isRunning}
               fullWidth
             >
-              {importing ? "Importing..." : "Import Chats (JSON)"}
+              {importing || importJob.isRunning ? "Importing..." : "Import Chats (JSON, NDJSON)"}
             </Button>
 
-            {/* Export Button */}
+            {/* Export Button: streamed by the server one chat per line */}
             <Button
               variant="contained"
+              component="a"
+              href="/api/export/chats.ndjson"
+              download
               startIcon={<CloudDownloadIcon />}
-              onClick={handleExportChats}
-              disabled={importing || exporting}
+              disabled={importing}
               fullWidth
             >
-              {exporting ? "Exporting..." : "Export Chats"}
+              Export Chats
             </Button>
+
+            {/* Documents are zipped and streamed by the server, so they work for any history size */}
+            <Box sx={{ display: "flex", gap: 2 }}>
+              <Button
+                variant="outlined"
+                component="a"
+                href="/api/export/chats?format=markdown"
+                download
+                startIcon={<DescriptionIcon />}
+                disabled={importing}
+                fullWidth
+              >
+                Markdown (zip)
+              </Button>
+              <Button
+                variant="outlined"
+                component="a"
+                href="/api/export/chats?format=html"
+                download
+                startIcon={<LanguageIcon />}
+                disabled={importing}
+                fullWidth
+              >
+                HTML (zip)
+              </Button>
+            </Box>
           </Box>
 
           <Typography variant="caption" color="text.secondary" sx={{ mt: 2, display: "block" }}>
-            <strong>Note:</strong> Import will merge with existing chats. Export includes all your chat history.
+            <strong>Note:</strong> Import will merge with existing chats. The NDJSON export includes all your chat history and can be imported again; Markdown and HTML exports contain one readable document per chat.
           </Typography>
         </CardContent>
+
+        <ImportPreviewDialog
+          preview={pendingImport?.preview ?? null}
+          importing={importing}
+          onConfirm={handleConfirmImport}
+          onClose={() => setPendingImport(null)}
+        />
       </Card>
   );
 };
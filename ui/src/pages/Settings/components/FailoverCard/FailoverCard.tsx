@@ -0,0 +1,307 @@
+import { useNotify } from "@/providers/NotificationProdiver/useNotify";
+import { trpc } from "@/services/trpc";
+import AddIcon from "@mui/icons-material/Add";
+import AltRouteIcon from "@mui/icons-material/AltRoute";
+import DeleteIcon from "@mui/icons-material/Delete";
+import EditIcon from "@mui/icons-material/Edit";
+import {
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  List,
+  ListItem,
+  ListItemText,
+  MenuItem,
+  Skeleton,
+  TextField,
+  Tooltip,
+  Typography,
+} from "@mui/material";
+import { useState } from "react";
+
+// Mirrors MODEL_POLICY_LIMITS and DEFAULT_RETRY_POLICY on the server
+const MAX_RETRIES = 5;
+const MAX_DELAY_MS = 30000;
+const FALLBACK_SLOTS = 3;
+const DEFAULT_RETRY = { maxRetries: 2, initialDelayMs: 500, maxDelayMs: 4000 };
+
+interface PolicyFormValues {
+  modelId: string;
+  maxRetries: string;
+  initialDelayMs: string;
+  maxDelayMs: string;
+  fallbackModelIds: string[];
+}
+
+const emptyForm: PolicyFormValues = {
+  modelId: "",
+  maxRetries: String(DEFAULT_RETRY.maxRetries),
+  initialDelayMs: String(DEFAULT_RETRY.initialDelayMs),
+  maxDelayMs: String(DEFAULT_RETRY.maxDelayMs),
+  fallbackModelIds: Array(FALLBACK_SLOTS).fill(""),
+};
+
+const isInteger = (value: string, min: number, max: number) => {
+  const parsed = Number(value);
+  return value.trim() !== "" && Number.isInteger(parsed) && parsed >= min && parsed <= max;
+};
+
+const FailoverCard = () => {
+  const notify = useNotify();
+  const utils = trpc.useUtils();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState(false);
+  const [values, setValues] = useState<PolicyFormValues>(emptyForm);
+
+  const { data: policies = {}, isLoading } = trpc.settings.getModelPolicies.useQuery();
+  const { data: modelData } = trpc.model.list.useQuery({
+    includeSystem: true,
+    includeCustom: true,
+    onlyEnabled: true,
+  });
+
+  const models = modelData?.providers.flatMap(({ models }) => models) ?? [];
+  const modelLabel = (id: string) => {
+    const model = models.find((entry) => entry.id === id);
+    return model ? `${model.provider} / ${model.name}` : "Unavailable model";
+  };
+
+  const onMutationError = (action: string) => (error: { message: string }) =>
+    notify.error(`Failed to ${action} failover settings: ${error.message}`);
+
+  const updatePolicy = trpc.settings.updateModelPolicy.useMutation({
+    onSuccess: (data) => {
+      notify.success(data.message);
+      utils.settings.getModelPolicies.invalidate();
+      setDialogOpen(false);
+    },
+    onError: onMutationError("save"),
+  });
+
+  const resetPolicy = trpc.settings.resetModelPolicy.useMutation({
+    onSuccess: (data) => {
+      notify.success(data.message);
+      utils.settings.getModelPolicies.invalidate();
+    },
+    onError: onMutationError("remove"),
+  });
+
+  const errors = {
+    modelId: values.modelId === "",
+    maxRetries: !isInteger(values.maxRetries, 0, MAX_RETRIES),
+    initialDelayMs: !isInteger(values.initialDelayMs, 0, MAX_DELAY_MS),
+    maxDelayMs: !isInteger(values.maxDelayMs, 0, MAX_DELAY_MS),
+  };
+  const hasErrors = Object.values(errors).some(Boolean);
+
+  const handleChange =
+    (field: Exclude<keyof PolicyFormValues, "fallbackModelIds">) =>
+    (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+      setValues((prev) => ({ ...prev, [field]: e.target.value }));
+
+  const handleFallbackChange =
+    (slot: number) => (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+      setValues((prev) => ({
+        ...prev,
+        fallbackModelIds: prev.fallbackModelIds.map((id, index) => (index === slot ? e.target.value : id)),
+      }));
+
+  const openCreate = () => {
+    setEditing(false);
+    setValues(emptyForm);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (modelId: string) => {
+    const policy = policies[modelId];
+    const retry = { ...DEFAULT_RETRY, ...policy?.retry };
+    const fallbackModelIds = policy?.fallbackModelIds ?? [];
+
+    setEditing(true);
+    setValues({
+      modelId,
+      maxRetries: String(retry.maxRetries),
+      initialDelayMs: String(retry.initialDelayMs),
+      maxDelayMs: String(retry.maxDelayMs),
+      fallbackModelIds: emptyForm.fallbackModelIds.map((_, index) => fallbackModelIds[index] ?? ""),
+    });
+    setDialogOpen(true);
+  };
+
+  const handleSave = () => {
+    if (hasErrors) return;
+    updatePolicy.mutate({
+      modelId: values.modelId,
+      retry: {
+        maxRetries: Number(values.maxRetries),
+        initialDelayMs: Number(values.initialDelayMs),
+        maxDelayMs: Number(values.maxDelayMs),
+      },
+      fallbackModelIds: values.fallbackModelIds.filter(Boolean),
+    });
+  };
+
+  const entries = Object.entries(policies);
+
+  return (
+    <Card>
+      <CardContent>
+        <Typography
+          variant="h6"
+          gutterBottom
+          sx={{ display: "flex", alignItems: "center", gap: 1 }}
+        >
+          <AltRouteIcon />
+          Failover
+        </Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+          When a model fails before answering, it is retried and then the
+          next fallback model answers instead. Models without settings are
+          retried {DEFAULT_RETRY.maxRetries} times.
+        </Typography>
+
+        <Box sx={{ mb: 2 }}>
+          <Button variant="contained" startIcon={<AddIcon />} onClick={openCreate}>
+            Add model
+          </Button>
+        </Box>
+
+        {isLoading ? (
+          <Skeleton variant="rectangular" height={80} />
+        ) : entries.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            No failover settings yet.
+          </Typography>
+        ) : (
+          <List dense disablePadding>
+            {entries.map(([modelId, policy]) => (
+              <ListItem
+                key={modelId}
+                disableGutters
+                secondaryAction={
+                  <Box sx={{ display: "flex" }}>
+                    <Tooltip title="Edit">
+                      <IconButton size="small" onClick={() => openEdit(modelId)}>
+                        <EditIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                    <Tooltip title="Delete">
+                      <IconButton
+                        size="small"
+                        onClick={() => resetPolicy.mutate({ modelId })}
+                        disabled={resetPolicy.isPending}
+                      >
+                        <DeleteIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                  </Box>
+                }
+              >
+                <ListItemText
+                  primary={modelLabel(modelId)}
+                  secondary={[
+                    `${policy.retry?.maxRetries ?? DEFAULT_RETRY.maxRetries} retries`,
+                    policy.fallbackModelIds?.length
+                      ? `then ${policy.fallbackModelIds.map(modelLabel).join(" → ")}`
+                      : "no fallback",
+                  ].join(" · ")}
+                  sx={{ pr: 10 }}
+                />
+              </ListItem>
+            ))}
+          </List>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onClose={() => setDialogOpen(false)} fullWidth maxWidth="sm">
+        <DialogTitle>{editing ? "Edit failover" : "Add failover"}</DialogTitle>
+        <DialogContent>
+          <Box sx={{ display: "flex", flexDirection: "column", gap: 2, pt: 1 }}>
+            <TextField
+              select
+              label="Model"
+              value={values.modelId}
+              onChange={handleChange("modelId")}
+              disabled={editing}
+              required
+            >
+              {models.map((model) => (
+                <MenuItem key={model.id} value={model.id}>
+                  {model.provider} / {model.name}
+                </MenuItem>
+              ))}
+            </TextField>
+            <Box sx={{ display: "flex", gap: 2 }}>
+              <TextField
+                label="Retries"
+                type="number"
+                value={values.maxRetries}
+                onChange={handleChange("maxRetries")}
+                error={errors.maxRetries}
+                helperText={errors.maxRetries ? `0 – ${MAX_RETRIES}` : " "}
+                inputProps={{ step: 1, min: 0, max: MAX_RETRIES }}
+                fullWidth
+              />
+              <TextField
+                label="First delay (ms)"
+                type="number"
+                value={values.initialDelayMs}
+                onChange={handleChange("initialDelayMs")}
+                error={errors.initialDelayMs}
+                helperText={errors.initialDelayMs ? `0 – ${MAX_DELAY_MS}` : "Doubled every retry"}
+                inputProps={{ step: 100, min: 0, max: MAX_DELAY_MS }}
+                fullWidth
+              />
+              <TextField
+                label="Max delay (ms)"
+                type="number"
+                value={values.maxDelayMs}
+                onChange={handleChange("maxDelayMs")}
+                error={errors.maxDelayMs}
+                helperText={errors.maxDelayMs ? `0 – ${MAX_DELAY_MS}` : " "}
+                inputProps={{ step: 100, min: 0, max: MAX_DELAY_MS }}
+                fullWidth
+              />
+            </Box>
+            {values.fallbackModelIds.map((fallbackId, slot) => (
+              <TextField
+                key={slot}
+                select
+                label={`Fallback ${slot + 1}`}
+                value={fallbackId}
+                onChange={handleFallbackChange(slot)}
+              >
+                <MenuItem value="">None</MenuItem>
+                {models
+                  .filter((model) => model.id !== values.modelId)
+                  .map((model) => (
+                    <MenuItem key={model.id} value={model.id}>
+                      {model.provider} / {model.name}
+                    </MenuItem>
+                  ))}
+              </TextField>
+            ))}
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDialogOpen(false)}>Cancel</Button>
+          <Button
+            variant="contained"
+            onClick={handleSave}
+            disabled={hasErrors || updatePolicy.isPending}
+          >
+            Save
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default FailoverCard;
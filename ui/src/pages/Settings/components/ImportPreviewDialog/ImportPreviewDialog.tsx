@@ -0,0 +1,120 @@
+import ErrorOutlineIcon from "@mui/icons-material/ErrorOutline";
+import {
+  Alert,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  List,
+  ListItem,
+  ListItemIcon,
+  ListItemText,
+  Typography,
+} from "@mui/material";
+import dayjs from "dayjs";
+
+export interface ImportPreview {
+  format: "tea4chat" | "chatgpt" | "claude";
+  chats: {
+    index: number;
+    title: string;
+    createdAt: string | null;
+    messageCount: number;
+    error: string | null;
+  }[];
+}
+
+interface ImportPreviewDialogProps {
+  preview: ImportPreview | null;
+  importing: boolean;
+  onConfirm: () => void;
+  onClose: () => void;
+}
+
+const FORMAT_LABELS: Record<ImportPreview["format"], string> = {
+  tea4chat: "tea4chat export",
+  chatgpt: "ChatGPT export",
+  claude: "Claude export",
+};
+
+/**
+ * What an import file contains, shown before anything is saved
+ */
+const ImportPreviewDialog = ({
+  preview,
+  importing,
+  onConfirm,
+  onClose,
+}: ImportPreviewDialogProps) => {
+  const importable = preview?.chats.filter((chat) => !chat.error) ?? [];
+  const skipped = (preview?.chats.length ?? 0) - importable.length;
+  const messageCount = importable.reduce(
+    (acc, chat) => acc + chat.messageCount,
+    0
+  );
+
+  return (
+    <Dialog open={!!preview} onClose={onClose} fullWidth maxWidth="sm">
+      <DialogTitle>Import chats</DialogTitle>
+      <DialogContent>
+        {preview && (
+          <>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+              Detected a {FORMAT_LABELS[preview.format]} with{" "}
+              {importable.length} chats and {messageCount} messages. Only the
+              current branch of each conversation is imported.
+            </Typography>
+            {skipped > 0 && (
+              <Alert severity="warning" sx={{ mb: 2 }}>
+                {skipped === 1
+                  ? "1 chat can't be imported and will be skipped."
+                  : `${skipped} chats can't be imported and will be skipped.`}
+              </Alert>
+            )}
+            <List dense sx={{ maxHeight: 320, overflow: "auto" }}>
+              {preview.chats.map((chat) => (
+                <ListItem key={chat.index} disableGutters>
+                  {chat.error && (
+                    <ListItemIcon sx={{ minWidth: 32 }}>
+                      <ErrorOutlineIcon color="warning" fontSize="small" />
+                    </ListItemIcon>
+                  )}
+                  <ListItemText
+                    primary={chat.title}
+                    secondary={
+                      chat.error ??
+                      `${chat.messageCount} messages${
+                        chat.createdAt
+                          ? ` · ${dayjs(chat.createdAt).format("MMM D, YYYY")}`
+                          : ""
+                      }`
+                    }
+                    primaryTypographyProps={{ noWrap: true }}
+                    secondaryTypographyProps={{ noWrap: true }}
+                  />
+                </ListItem>
+              ))}
+            </List>
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={importing}>
+          Cancel
+        </Button>
+        <Button
+          variant="contained"
+          onClick={onConfirm}
+          disabled={importing || importable.length === 0}
+        >
+          {importing
+            ? "Importing..."
+            : `Import ${importable.length} ${importable.length === 1 ? "chat" : "chats"}`}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ImportPreviewDialog;
@@ -0,0 +1,435 @@
+import { useNotify } from "@/providers/NotificationProdiver/useNotify";
+import { trpc } from "@/services/trpc";
+import AddIcon from "@mui/icons-material/Add";
+import CloudDownloadIcon from "@mui/icons-material/CloudDownload";
+import CloudUploadIcon from "@mui/icons-material/CloudUpload";
+import DeleteIcon from "@mui/icons-material/Delete";
+import EditIcon from "@mui/icons-material/Edit";
+import PsychologyIcon from "@mui/icons-material/Psychology";
+import PublicIcon from "@mui/icons-material/Public";
+import PublicOffIcon from "@mui/icons-material/PublicOff";
+import {
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  List,
+  ListItem,
+  ListItemText,
+  MenuItem,
+  Skeleton,
+  TextField,
+  Tooltip,
+  Typography,
+} from "@mui/material";
+import { useRef, useState } from "react";
+
+// Form values are kept as strings; empty means "use the default"
+interface PresetFormValues {
+  name: string;
+  description: string;
+  systemPrompt: string;
+  modelId: string;
+  temperature: string;
+  maxTokens: string;
+  topP: string;
+}
+
+const emptyForm: PresetFormValues = {
+  name: "",
+  description: "",
+  systemPrompt: "",
+  modelId: "",
+  temperature: "",
+  maxTokens: "",
+  topP: "",
+};
+
+const toInput = (value: number | null | undefined) =>
+  value == null ? "" : String(value);
+
+const toNumber = (value: string) =>
+  value.trim() === "" ? null : Number(value);
+
+const isInRange = (value: string, min: number, max: number, integer = false) => {
+  const parsed = toNumber(value);
+  if (parsed === null) return true;
+  if (!Number.isFinite(parsed)) return false;
+  if (integer && !Number.isInteger(parsed)) return false;
+  return parsed >= min && parsed <= max;
+};
+
+const PresetsCard = ({ isAdmin = false }: { isAdmin?: boolean }) => {
+  const notify = useNotify();
+  const utils = trpc.useUtils();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [values, setValues] = useState<PresetFormValues>(emptyForm);
+
+  const { data: presets = [], isLoading } = trpc.preset.list.useQuery();
+  const { data: modelData } = trpc.model.list.useQuery({
+    includeSystem: true,
+    includeCustom: true,
+    onlyEnabled: true,
+  });
+  const exportQuery = trpc.preset.export.useQuery(undefined, {
+    enabled: false, // Only fetch when exporting
+  });
+
+  const onMutationError = (action: string) => (error: { message: string }) =>
+    notify.error(`Failed to ${action} preset: ${error.message}`);
+
+  const createPreset = trpc.preset.create.useMutation({
+    onSuccess: (preset) => {
+      notify.success(`Preset "${preset.name}" created`);
+      utils.preset.list.invalidate();
+      setDialogOpen(false);
+    },
+    onError: onMutationError("create"),
+  });
+
+  const updatePreset = trpc.preset.update.useMutation({
+    onSuccess: (preset) => {
+      notify.success(`Preset "${preset.name}" saved`);
+      utils.preset.list.invalidate();
+      setDialogOpen(false);
+    },
+    onError: onMutationError("save"),
+  });
+
+  const deletePreset = trpc.preset.delete.useMutation({
+    onSuccess: () => {
+      notify.success("Preset deleted");
+      utils.preset.list.invalidate();
+    },
+    onError: onMutationError("delete"),
+  });
+
+  const setPublic = trpc.preset.setPublic.useMutation({
+    onSuccess: (preset) => {
+      notify.success(
+        preset.isPublic
+          ? `Preset "${preset.name}" published`
+          : `Preset "${preset.name}" unpublished`
+      );
+      utils.preset.list.invalidate();
+    },
+    onError: onMutationError("publish"),
+  });
+
+  const importPresets = trpc.preset.import.useMutation({
+    onSuccess: (data) => {
+      notify.success(data.message);
+      if (data.results.warnings.length > 0) {
+        console.warn("Preset import warnings:", data.results.warnings);
+      }
+      utils.preset.list.invalidate();
+    },
+    onError: (error) => {
+      notify.error(error.message || "Failed to import presets");
+    },
+  });
+
+  const errors = {
+    name: values.name.trim() === "",
+    temperature: !isInRange(values.temperature, 0, 2),
+    maxTokens: !isInRange(values.maxTokens, 1, 32768, true),
+    topP: !isInRange(values.topP, 0, 1),
+  };
+  const hasErrors = Object.values(errors).some(Boolean);
+
+  const handleChange =
+    (field: keyof PresetFormValues) =>
+    (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+      setValues((prev) => ({ ...prev, [field]: e.target.value }));
+
+  const openCreate = () => {
+    setEditingId(null);
+    setValues(emptyForm);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (preset: (typeof presets)[number]) => {
+    setEditingId(preset.id);
+    setValues({
+      name: preset.name,
+      description: preset.description ?? "",
+      systemPrompt: preset.systemPrompt ?? "",
+      modelId: preset.modelId ?? "",
+      temperature: toInput(preset.temperature),
+      maxTokens: toInput(preset.maxTokens),
+      topP: toInput(preset.topP),
+    });
+    setDialogOpen(true);
+  };
+
+  const handleSave = () => {
+    if (hasErrors) return;
+    const data = {
+      name: values.name.trim(),
+      description: values.description.trim() || null,
+      systemPrompt: values.systemPrompt.trim() || null,
+      modelId: values.modelId || null,
+      temperature: toNumber(values.temperature),
+      maxTokens: toNumber(values.maxTokens),
+      topP: toNumber(values.topP),
+    };
+
+    if (editingId) {
+      updatePreset.mutate({ id: editingId, ...data });
+    } else {
+      createPreset.mutate(data);
+    }
+  };
+
+  const handleExport = async () => {
+    const result = await exportQuery.refetch();
+    if (!result.data) {
+      notify.error("Failed to export presets");
+      return;
+    }
+
+    const blob = new Blob([JSON.stringify(result.data, null, 2)], {
+      type: "application/json",
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `tea4chat-presets-${new Date().toISOString().split("T")[0]}.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    importPresets.mutate({ jsonData: await file.text() });
+
+    if (fileInputRef.current) {
+      fileInputRef.current.value = "";
+    }
+  };
+
+  const isSaving = createPreset.isPending || updatePreset.isPending;
+
+  return (
+    <Card>
+      <CardContent>
+        <Typography
+          variant="h6"
+          gutterBottom
+          sx={{ display: "flex", alignItems: "center", gap: 1 }}
+        >
+          <PsychologyIcon />
+          Presets
+        </Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+          Reusable system prompts with a default model and generation
+          parameters. Pick one when starting a new chat.
+        </Typography>
+
+        <Box sx={{ display: "flex", gap: 1, flexWrap: "wrap", mb: 2 }}>
+          <Button variant="contained" startIcon={<AddIcon />} onClick={openCreate}>
+            New preset
+          </Button>
+          <Button
+            variant="outlined"
+            startIcon={<CloudDownloadIcon />}
+            onClick={handleExport}
+            disabled={exportQuery.isFetching}
+          >
+            Export
+          </Button>
+          <Button
+            variant="outlined"
+            startIcon={<CloudUploadIcon />}
+            onClick={() => fileInputRef.current?.click()}
+            disabled={importPresets.isPending}
+          >
+            Import
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json"
+            onChange={handleFileUpload}
+            style={{ display: "none" }}
+          />
+        </Box>
+
+        {isLoading ? (
+          <Skeleton variant="rectangular" height={80} />
+        ) : presets.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            No presets yet.
+          </Typography>
+        ) : (
+          <List dense disablePadding>
+            {presets.map((preset) => (
+              <ListItem
+                key={preset.id}
+                disableGutters
+                secondaryAction={
+                  <Box sx={{ display: "flex" }}>
+                    {isAdmin && (
+                      <Tooltip title={preset.isPublic ? "Unpublish" : "Publish to everyone"}>
+                        <IconButton
+                          size="small"
+                          onClick={() =>
+                            setPublic.mutate({ id: preset.id, isPublic: !preset.isPublic })
+                          }
+                          disabled={setPublic.isPending}
+                        >
+                          {preset.isPublic ? (
+                            <PublicOffIcon fontSize="small" />
+                          ) : (
+                            <PublicIcon fontSize="small" />
+                          )}
+                        </IconButton>
+                      </Tooltip>
+                    )}
+                    {preset.isOwn && (
+                      <>
+                        <Tooltip title="Edit">
+                          <IconButton size="small" onClick={() => openEdit(preset)}>
+                            <EditIcon fontSize="small" />
+                          </IconButton>
+                        </Tooltip>
+                        <Tooltip title="Delete">
+                          <IconButton
+                            size="small"
+                            onClick={() => deletePreset.mutate({ id: preset.id })}
+                            disabled={deletePreset.isPending}
+                          >
+                            <DeleteIcon fontSize="small" />
+                          </IconButton>
+                        </Tooltip>
+                      </>
+                    )}
+                  </Box>
+                }
+              >
+                <ListItemText
+                  primary={
+                    <Box sx={{ display: "flex", alignItems: "center", gap: 1 }}>
+                      {preset.name}
+                      {preset.isPublic && (
+                        <Chip label="Public" size="small" variant="outlined" />
+                      )}
+                    </Box>
+                  }
+                  secondary={
+                    [preset.description, preset.model?.name]
+                      .filter(Boolean)
+                      .join(" · ") || null
+                  }
+                  sx={{ pr: isAdmin ? 14 : 10 }}
+                />
+              </ListItem>
+            ))}
+          </List>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onClose={() => setDialogOpen(false)} fullWidth maxWidth="sm">
+        <DialogTitle>{editingId ? "Edit preset" : "New preset"}</DialogTitle>
+        <DialogContent>
+          <Box sx={{ display: "flex", flexDirection: "column", gap: 2, pt: 1 }}>
+            <TextField
+              label="Name"
+              value={values.name}
+              onChange={handleChange("name")}
+              inputProps={{ maxLength: 100 }}
+              required
+            />
+            <TextField
+              label="Description"
+              value={values.description}
+              onChange={handleChange("description")}
+              inputProps={{ maxLength: 500 }}
+            />
+            <TextField
+              label="System prompt"
+              multiline
+              minRows={3}
+              maxRows={10}
+              value={values.systemPrompt}
+              onChange={handleChange("systemPrompt")}
+              placeholder="You are a helpful assistant..."
+              inputProps={{ maxLength: 8000 }}
+            />
+            <TextField
+              select
+              label="Model"
+              value={values.modelId}
+              onChange={handleChange("modelId")}
+            >
+              <MenuItem value="">Default model</MenuItem>
+              {modelData?.providers.flatMap(({ models }) =>
+                models.map((model) => (
+                  <MenuItem key={model.id} value={model.id}>
+                    {model.provider} / {model.name}
+                  </MenuItem>
+                ))
+              )}
+            </TextField>
+            <Box sx={{ display: "flex", gap: 2 }}>
+              <TextField
+                label="Temperature"
+                type="number"
+                value={values.temperature}
+                onChange={handleChange("temperature")}
+                error={errors.temperature}
+                helperText={errors.temperature ? "0 – 2" : " "}
+                inputProps={{ step: 0.1, min: 0, max: 2 }}
+                fullWidth
+              />
+              <TextField
+                label="Max tokens"
+                type="number"
+                value={values.maxTokens}
+                onChange={handleChange("maxTokens")}
+                error={errors.maxTokens}
+                helperText={errors.maxTokens ? "1 – 32768" : " "}
+                inputProps={{ step: 1, min: 1, max: 32768 }}
+                fullWidth
+              />
+              <TextField
+                label="Top P"
+                type="number"
+                value={values.topP}
+                onChange={handleChange("topP")}
+                error={errors.topP}
+                helperText={errors.topP ? "0 – 1" : " "}
+                inputProps={{ step: 0.05, min: 0, max: 1 }}
+                fullWidth
+              />
+            </Box>
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDialogOpen(false)}>Cancel</Button>
+          <Button
+            variant="contained"
+            onClick={handleSave}
+            disabled={hasErrors || isSaving}
+          >
+            Save
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default PresetsCard;
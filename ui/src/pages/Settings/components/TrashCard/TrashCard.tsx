@@ -0,0 +1,184 @@
+import { useNotify } from "@/providers/NotificationProdiver/useNotify";
+import { trpc } from "@/services/trpc";
+import DeleteForeverIcon from "@mui/icons-material/DeleteForever";
+import DeleteOutlineIcon from "@mui/icons-material/DeleteOutline";
+import RestoreIcon from "@mui/icons-material/Restore";
+import {
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  IconButton,
+  List,
+  ListItem,
+  ListItemText,
+  Skeleton,
+  Tooltip,
+  Typography,
+} from "@mui/material";
+import dayjs from "dayjs";
+import relativeTime from "dayjs/plugin/relativeTime";
+import { useState } from "react";
+
+dayjs.extend(relativeTime);
+
+/**
+ * Deleted chats: restore them or remove them for good before the
+ * retention period runs out.
+ */
+const TrashCard = () => {
+  const notify = useNotify();
+  const utils = trpc.useUtils();
+  const [confirm, setConfirm] = useState<
+    { ids?: string[]; title: string } | null
+  >(null);
+
+  const { data, isLoading, fetchNextPage, hasNextPage, isFetchingNextPage } =
+    trpc.chat.listDeleted.useInfiniteQuery(
+      { limit: 20 },
+      { getNextPageParam: (lastPage) => lastPage.nextCursor }
+    );
+
+  const chats = data?.pages.flatMap((page) => page.chats) ?? [];
+
+  const restore = trpc.chat.restore.useMutation({
+    onSuccess: (result) => {
+      notify.success(
+        result.restoredCount === 1
+          ? "Chat restored"
+          : `${result.restoredCount} chats restored`
+      );
+      utils.chat.listDeleted.invalidate();
+      utils.chat.getAll.invalidate();
+    },
+    onError: (error) => {
+      notify.error(`Failed to restore chat: ${error.message}`);
+    },
+  });
+
+  const purge = trpc.chat.purge.useMutation({
+    onSuccess: (result) => {
+      notify.success(`${result.purgedCount} chats deleted permanently`);
+      utils.chat.listDeleted.invalidate();
+      setConfirm(null);
+    },
+    onError: (error) => {
+      notify.error(`Failed to delete chats: ${error.message}`);
+    },
+  });
+
+  return (
+    <Card>
+      <CardContent>
+        <Typography
+          variant="h6"
+          gutterBottom
+          sx={{ display: "flex", alignItems: "center", gap: 1 }}
+        >
+          <DeleteOutlineIcon />
+          Trash
+        </Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Deleted chats are kept here for a while before they are removed for
+          good
+        </Typography>
+
+        {isLoading ? (
+          <Skeleton variant="rectangular" height={80} />
+        ) : chats.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            The trash is empty
+          </Typography>
+        ) : (
+          <>
+            <List dense>
+              {chats.map((chat) => (
+                <ListItem
+                  key={chat.id}
+                  secondaryAction={
+                    <Box sx={{ display: "flex", gap: 1 }}>
+                      <Tooltip title="Restore">
+                        <IconButton
+                          edge="end"
+                          aria-label="restore"
+                          onClick={() => restore.mutate({ ids: [chat.id] })}
+                          disabled={restore.isPending}
+                        >
+                          <RestoreIcon fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                      <Tooltip title="Delete permanently">
+                        <IconButton
+                          edge="end"
+                          aria-label="delete permanently"
+                          onClick={() =>
+                            setConfirm({ ids: [chat.id], title: chat.title })
+                          }
+                        >
+                          <DeleteForeverIcon fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                    </Box>
+                  }
+                >
+                  <ListItemText
+                    primary={chat.title}
+                    secondary={`${chat._count.messages} messages · deleted ${
+                      chat.deletedAt ? dayjs(chat.deletedAt).fromNow() : "earlier"
+                    } · removed ${dayjs(chat.purgeAt).fromNow()}`}
+                  />
+                </ListItem>
+              ))}
+            </List>
+            <Box sx={{ display: "flex", gap: 1, mt: 1 }}>
+              {hasNextPage && (
+                <Button
+                  onClick={() => fetchNextPage()}
+                  disabled={isFetchingNextPage}
+                >
+                  {isFetchingNextPage ? "Loading..." : "Load more"}
+                </Button>
+              )}
+              <Button
+                color="error"
+                startIcon={<DeleteForeverIcon />}
+                onClick={() => setConfirm({ title: "all chats in the trash" })}
+                sx={{ ml: "auto" }}
+              >
+                Empty trash
+              </Button>
+            </Box>
+          </>
+        )}
+      </CardContent>
+
+      <Dialog open={!!confirm} onClose={() => setConfirm(null)}>
+        <DialogTitle>Delete permanently</DialogTitle>
+        <DialogContent>
+          <DialogContentText>
+            Permanently delete {confirm?.ids ? `"${confirm.title}"` : confirm?.title}{" "}
+            with all messages? This action cannot be undone.
+          </DialogContentText>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setConfirm(null)}>Cancel</Button>
+          <Button
+            color="error"
+            variant="contained"
+            onClick={() => confirm && purge.mutate({ ids: confirm.ids })}
+            disabled={purge.isPending}
+          >
+            Delete
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default TrashCard;
@@ -0,0 +1,162 @@
+import { useNotify } from "@/providers/NotificationProdiver/useNotify";
+import { trpc } from "@/services/trpc";
+import InsightsIcon from "@mui/icons-material/Insights";
+import {
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Divider,
+  InputAdornment,
+  LinearProgress,
+  Skeleton,
+  TextField,
+  Typography,
+} from "@mui/material";
+import { useEffect, useState } from "react";
+
+const formatUsd = (value: number) =>
+  `$${value < 1 && value > 0 ? value.toFixed(4) : value.toFixed(2)}`;
+
+const UsageCard = () => {
+  const notify = useNotify();
+  const utils = trpc.useUtils();
+  const { data: summary, isLoading } = trpc.usage.summary.useQuery({
+    days: 30,
+  });
+  const [budgetInput, setBudgetInput] = useState("");
+
+  const budget = summary?.budget;
+
+  // Keep the input in sync with the saved budget
+  useEffect(() => {
+    setBudgetInput(budget?.budgetUsd != null ? String(budget.budgetUsd) : "");
+  }, [budget?.budgetUsd]);
+
+  const updateBudgetMutation = trpc.settings.updateMonthlyBudget.useMutation({
+    onSuccess: (result) => {
+      notify.success(result.message);
+      utils.usage.summary.invalidate();
+      utils.settings.get.invalidate();
+    },
+    onError: (error) => {
+      notify.error(`Failed to update budget: ${error.message}`);
+    },
+  });
+
+  const parsedBudget = budgetInput.trim() === "" ? null : Number(budgetInput);
+  const isBudgetValid =
+    parsedBudget === null || (Number.isFinite(parsedBudget) && parsedBudget >= 0);
+
+  const usedPercent =
+    budget?.budgetUsd != null && budget.budgetUsd > 0
+      ? Math.min((budget.spentUsd / budget.budgetUsd) * 100, 100)
+      : 0;
+
+  return (
+    <Card>
+      <CardContent>
+        <Typography
+          variant="h6"
+          gutterBottom
+          sx={{ display: "flex", alignItems: "center", gap: 1 }}
+        >
+          <InsightsIcon />
+          Usage & Budget
+        </Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+          Token usage and estimated cost, with an optional monthly spending cap
+        </Typography>
+
+        {isLoading || !summary ? (
+          <Skeleton variant="rectangular" height={120} />
+        ) : (
+          <Box sx={{ display: "flex", flexDirection: "column", gap: 2 }}>
+            <Box>
+              <Typography variant="body1">
+                This month: <strong>{formatUsd(summary.budget.spentUsd)}</strong>
+                {summary.budget.budgetUsd != null &&
+                  ` of ${formatUsd(summary.budget.budgetUsd)}`}
+              </Typography>
+              {summary.budget.budgetUsd != null && (
+                <LinearProgress
+                  variant="determinate"
+                  value={usedPercent}
+                  color={summary.budget.isExceeded ? "error" : "primary"}
+                  sx={{ mt: 1 }}
+                />
+              )}
+              {summary.budget.isExceeded && (
+                <Typography variant="body2" color="error" sx={{ mt: 1 }}>
+                  Monthly budget used up. New messages are blocked until next
+                  month or until the budget is raised.
+                </Typography>
+              )}
+            </Box>
+
+            <Box sx={{ display: "flex", gap: 1, alignItems: "flex-start" }}>
+              <TextField
+                size="small"
+                label="Monthly budget"
+                placeholder="No limit"
+                value={budgetInput}
+                onChange={(e) => setBudgetInput(e.target.value)}
+                error={!isBudgetValid}
+                helperText={
+                  isBudgetValid ? "Leave empty for no limit" : "Enter a positive amount"
+                }
+                InputProps={{
+                  startAdornment: <InputAdornment position="start">$</InputAdornment>,
+                }}
+                inputProps={{ inputMode: "decimal" }}
+              />
+              <Button
+                variant="contained"
+                disabled={!isBudgetValid || updateBudgetMutation.isPending}
+                onClick={() =>
+                  updateBudgetMutation.mutate({ monthlyBudgetUsd: parsedBudget })
+                }
+                sx={{ mt: 0.25 }}
+              >
+                Save
+              </Button>
+            </Box>
+
+            <Divider />
+
+            <Typography variant="subtitle2">
+              Last 30 days: {summary.totals.totalTokens.toLocaleString()} tokens
+              in {summary.totals.messageCount} messages,{" "}
+              {formatUsd(summary.totals.costUsd)}
+            </Typography>
+
+            {summary.byModel.length === 0 ? (
+              <Typography variant="body2" color="text.secondary">
+                No usage recorded yet.
+              </Typography>
+            ) : (
+              <Box sx={{ display: "flex", flexDirection: "column", gap: 0.5 }}>
+                {summary.byModel.map((entry) => (
+                  <Box
+                    key={`${entry.provider}/${entry.model}`}
+                    sx={{ display: "flex", justifyContent: "space-between" }}
+                  >
+                    <Typography variant="body2">
+                      {entry.provider} / {entry.model}
+                    </Typography>
+                    <Typography variant="body2" color="text.secondary">
+                      {entry.totalTokens.toLocaleString()} tokens ·{" "}
+                      {formatUsd(entry.costUsd)}
+                    </Typography>
+                  </Box>
+                ))}
+              </Box>
+            )}
+          </Box>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default UsageCard;
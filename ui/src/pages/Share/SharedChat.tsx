@@ -0,0 +1,122 @@
+import { trpc } from "@/services/trpc";
+import LinkOffIcon from "@mui/icons-material/LinkOff";
+import {
+  Box,
+  Button,
+  CircularProgress,
+  Container,
+  Divider,
+  Typography,
+} from "@mui/material";
+import dayjs from "dayjs";
+import { useNavigate, useParams } from "react-router-dom";
+import AgentMessage from "../Chat/components/AgentMessage/AgentMessage";
+
+/**
+ * Public, read-only view of a shared chat (/share/:token)
+ */
+const SharedChat = () => {
+  const { token = "" } = useParams<{ token: string }>();
+  const navigate = useNavigate();
+
+  const { data, isLoading, error } = trpc.share.get.useQuery(
+    { token },
+    { enabled: !!token, retry: false }
+  );
+
+  if (isLoading) {
+    return (
+      <Box sx={{ display: "flex", justifyContent: "center", pt: 8 }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <Container maxWidth="sm">
+        <Box
+          sx={{
+            display: "flex",
+            flexDirection: "column",
+            alignItems: "center",
+            textAlign: "center",
+            pt: 12,
+            gap: 2,
+          }}
+        >
+          <LinkOffIcon sx={{ fontSize: 64, color: "text.secondary" }} />
+          <Typography variant="h5">Link not available</Typography>
+          <Typography variant="body1" color="text.secondary">
+            {error?.message ?? "This share link does not exist or has expired"}
+          </Typography>
+          <Button variant="contained" onClick={() => navigate("/")}>
+            Start a chat
+          </Button>
+        </Box>
+      </Container>
+    );
+  }
+
+  return (
+    <Container maxWidth="md" sx={{ py: 4 }}>
+      <Box
+        sx={{
+          display: "flex",
+          alignItems: "flex-start",
+          justifyContent: "space-between",
+          gap: 2,
+          mb: 2,
+        }}
+      >
+        <Box>
+          <Typography variant="h5">{data.title}</Typography>
+          <Typography variant="body2" color="text.secondary">
+            Shared {dayjs(data.sharedAt).format("MMM D, YYYY")}
+            {data.expiresAt &&
+              ` · available until ${dayjs(data.expiresAt).format("MMM D, YYYY")}`}
+          </Typography>
+        </Box>
+        <Button variant="outlined" onClick={() => navigate("/")}>
+          Start your own chat
+        </Button>
+      </Box>
+      <Divider sx={{ mb: 3 }} />
+
+      {data.messages.map((message) => (
+        <Box key={message.id}>
+          <Box sx={{ display: "flex", justifyContent: "flex-end", mb: 2 }}>
+            <Box
+              sx={{
+                maxWidth: "70%",
+                p: 2,
+                borderRadius: 2,
+                bgcolor: "background.paper",
+                whiteSpace: "pre-wrap",
+                border: (theme) =>
+                  theme.palette.mode === "light" ? "2px solid" : "none",
+                borderColor: (theme) =>
+                  theme.palette.mode === "light" ? "divider" : "transparent",
+              }}
+            >
+              {message.userContent}
+            </Box>
+          </Box>
+          {message.agentContent && (
+            <Box sx={{ mb: 2 }}>
+              <AgentMessage message={message} />
+            </Box>
+          )}
+        </Box>
+      ))}
+
+      {data.messages.length === 0 && (
+        <Typography color="text.secondary" sx={{ textAlign: "center" }}>
+          This chat has no messages yet
+        </Typography>
+      )}
+    </Container>
+  );
+};
+
+export default SharedChat;
@@ -1,4 +1,8 @@
-import { httpBatchStreamLink } from "@trpc/client";
+import {
+  httpBatchStreamLink,
+  httpSubscriptionLink,
+  splitLink,
+} from "@trpc/client";
 import { useState } from "react";
 import superjson from "superjson";
 import { queryClient } from "../services/queryClient";
@@ -8,9 +12,17 @@ export function TrpcProvider({ children }: { children: React.ReactNode }) {
   const [trpcClient] = useState(() =>
     trpc.createClient({
       links: [
-        httpBatchStreamLink({
-          url: "/trpc",
-          transformer: superjson,
+        // Subscriptions are long-lived SSE requests, everything else is batched
+        splitLink({
+          condition: (op) => op.type === "subscription",
+          true: httpSubscriptionLink({
+            url: "/trpc",
+            transformer: superjson,
+          }),
+          false: httpBatchStreamLink({
+            url: "/trpc",
+            transformer: superjson,
+          }),
         }),
       ],
     })
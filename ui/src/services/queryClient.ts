@@ -1,5 +1,5 @@
 import { createAsyncStoragePersister } from "@tanstack/query-async-storage-persister";
-import { Query, QueryClient } from "@tanstack/react-query";
+import { defaultShouldDehydrateQuery, Query, QueryClient } from "@tanstack/react-query";
 import localforage from "localforage";
 import superjson from "superjson";
 
@@ -48,7 +48,8 @@ export const queryClient = new QueryClient({
   },
 });
 
-// Configure what queries to persist - only message queries
+// Configure what queries to persist - chat lists, which useOwnerEvents keeps
+// in sync with other tabs and devices
 export const persistOptions = {
   persister,
   maxAge: 86400000, // 24 hours
@@ -56,6 +57,10 @@ export const persistOptions = {
     shouldDehydrateQuery: (query: Query) => {
       const queryKey = query.queryKey;
 
+      if (Array.isArray(queryKey[0]) && queryKey[0].join(".") === "chat.getAll") {
+        return defaultShouldDehydrateQuery(query);
+      }
+
       // TODO: Uncomment when resuming streaming development complete
       // if (Array.isArray(queryKey) && Array.isArray(queryKey[0])) {
       //   const [procedure] = queryKey[0];